@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Pool" ADD COLUMN     "fillDeadlineUtc" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Pool_status_fillDeadlineUtc_idx" ON "Pool"("status", "fillDeadlineUtc");
@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('WEEKLY', 'BIWEEKLY', 'MONTHLY', 'CRON');
+
+-- AlterTable
+ALTER TABLE "Pool" ADD COLUMN     "templateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PoolTemplate" (
+    "id" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "priceTotal" DECIMAL(18,2) NOT NULL,
+    "slotsCount" INTEGER NOT NULL,
+    "allowHomeDelivery" BOOLEAN NOT NULL DEFAULT false,
+    "homeDeliveryCost" DECIMAL(18,2),
+    "timezone" TEXT DEFAULT 'Africa/Lagos',
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "cronExpression" TEXT,
+    "nextRunAt" TIMESTAMP(3) NOT NULL,
+    "lastRunAt" TIMESTAMP(3),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PoolTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PoolTemplateAutoJoin" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "slots" INTEGER NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PoolTemplateAutoJoin_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PoolTemplate_active_nextRunAt_idx" ON "PoolTemplate"("active", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "PoolTemplate_vendorId_idx" ON "PoolTemplate"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "PoolTemplateAutoJoin_templateId_active_idx" ON "PoolTemplateAutoJoin"("templateId", "active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PoolTemplateAutoJoin_templateId_userId_key" ON "PoolTemplateAutoJoin"("templateId", "userId");
+
+-- CreateIndex
+CREATE INDEX "Pool_templateId_idx" ON "Pool"("templateId");
+
+-- AddForeignKey
+ALTER TABLE "Pool" ADD CONSTRAINT "Pool_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "PoolTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PoolTemplate" ADD CONSTRAINT "PoolTemplate_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PoolTemplate" ADD CONSTRAINT "PoolTemplate_productId_fkey" FOREIGN KEY ("productId") REFERENCES "ProductCatalog"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PoolTemplateAutoJoin" ADD CONSTRAINT "PoolTemplateAutoJoin_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "PoolTemplate"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PoolTemplateAutoJoin" ADD CONSTRAINT "PoolTemplateAutoJoin_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
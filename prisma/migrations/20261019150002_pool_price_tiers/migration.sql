@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "pricePerSlot" DECIMAL(18,2);
+
+-- AlterTable
+ALTER TABLE "PendingSubscription" ADD COLUMN     "pricePerSlot" DECIMAL(18,2);
+
+-- CreateTable
+CREATE TABLE "PoolPriceTier" (
+    "id" TEXT NOT NULL,
+    "poolId" TEXT NOT NULL,
+    "minFillPercent" INTEGER NOT NULL,
+    "pricePerSlot" DECIMAL(18,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PoolPriceTier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PoolPriceTier_poolId_minFillPercent_key" ON "PoolPriceTier"("poolId", "minFillPercent");
+
+-- AddForeignKey
+ALTER TABLE "PoolPriceTier" ADD CONSTRAINT "PoolPriceTier_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "variantId" TEXT;
+
+-- AlterTable
+ALTER TABLE "PendingSubscription" ADD COLUMN     "variantId" TEXT;
+
+-- AlterTable
+ALTER TABLE "PoolSlot" ADD COLUMN     "variantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PoolVariant" (
+    "id" TEXT NOT NULL,
+    "poolId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "pricePerSlot" DECIMAL(18,2) NOT NULL,
+    "slotsCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PoolVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PoolVariant_poolId_name_key" ON "PoolVariant"("poolId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Subscription" ADD CONSTRAINT "Subscription_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "PoolVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PendingSubscription" ADD CONSTRAINT "PendingSubscription_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "PoolVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PoolVariant" ADD CONSTRAINT "PoolVariant_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PoolSlot" ADD CONSTRAINT "PoolSlot_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "PoolVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
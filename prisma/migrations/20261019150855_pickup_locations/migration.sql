@@ -0,0 +1,66 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "pickupLocationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "PendingSubscription" ADD COLUMN     "pickupLocationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "PoolTemplate" ADD COLUMN     "pickupLocationIds" TEXT[];
+
+-- AlterTable
+ALTER TABLE "PoolSlot" ADD COLUMN     "pickupLocationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PickupLocation" (
+    "id" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "openingHours" TEXT,
+    "contactName" TEXT,
+    "contactPhone" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PickupLocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_PickupLocationToPool" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_PickupLocationToPool_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "PickupLocation_vendorId_idx" ON "PickupLocation"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "PickupLocation_state_city_idx" ON "PickupLocation"("state", "city");
+
+-- CreateIndex
+CREATE INDEX "_PickupLocationToPool_B_index" ON "_PickupLocationToPool"("B");
+
+-- AddForeignKey
+ALTER TABLE "Subscription" ADD CONSTRAINT "Subscription_pickupLocationId_fkey" FOREIGN KEY ("pickupLocationId") REFERENCES "PickupLocation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PendingSubscription" ADD CONSTRAINT "PendingSubscription_pickupLocationId_fkey" FOREIGN KEY ("pickupLocationId") REFERENCES "PickupLocation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PickupLocation" ADD CONSTRAINT "PickupLocation_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PoolSlot" ADD CONSTRAINT "PoolSlot_pickupLocationId_fkey" FOREIGN KEY ("pickupLocationId") REFERENCES "PickupLocation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_PickupLocationToPool" ADD CONSTRAINT "_PickupLocationToPool_A_fkey" FOREIGN KEY ("A") REFERENCES "PickupLocation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_PickupLocationToPool" ADD CONSTRAINT "_PickupLocationToPool_B_fkey" FOREIGN KEY ("B") REFERENCES "Pool"("id") ON DELETE CASCADE ON UPDATE CASCADE;
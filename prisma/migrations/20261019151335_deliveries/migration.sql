@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "DeliveryStatus" AS ENUM ('SCHEDULED', 'DISPATCHED', 'DELIVERED', 'CONFIRMED');
+
+-- CreateTable
+CREATE TABLE "Delivery" (
+    "id" TEXT NOT NULL,
+    "subscriptionId" TEXT NOT NULL,
+    "poolId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "DeliveryStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "scheduledFor" TIMESTAMP(3),
+    "dispatchedAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "confirmedAt" TIMESTAMP(3),
+    "autoConfirmed" BOOLEAN NOT NULL DEFAULT false,
+    "proofPhotos" TEXT[],
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Delivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Delivery_subscriptionId_key" ON "Delivery"("subscriptionId");
+
+-- CreateIndex
+CREATE INDEX "Delivery_poolId_status_idx" ON "Delivery"("poolId", "status");
+
+-- CreateIndex
+CREATE INDEX "Delivery_status_deliveredAt_idx" ON "Delivery"("status", "deliveredAt");
+
+-- CreateIndex
+CREATE INDEX "Delivery_userId_idx" ON "Delivery"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Delivery" ADD CONSTRAINT "Delivery_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "Subscription"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Delivery" ADD CONSTRAINT "Delivery_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Delivery" ADD CONSTRAINT "Delivery_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Pool" ADD COLUMN     "fillPercent" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "slotsTaken" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Pool_status_createdAt_idx" ON "Pool"("status", "createdAt");
+
+-- Backfill the counters for existing pools
+UPDATE "Pool" p
+SET "slotsTaken" = s."taken",
+    "fillPercent" = LEAST(100, ROUND(s."taken" * 100.0 / NULLIF(p."slotsCount", 0)))::INTEGER
+FROM (
+    SELECT "poolId", SUM("slots")::INTEGER AS "taken"
+    FROM "Subscription"
+    GROUP BY "poolId"
+) s
+WHERE s."poolId" = p."id";
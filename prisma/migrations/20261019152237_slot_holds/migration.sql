@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "PendingSubscription" ADD COLUMN     "holdExpiresAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "PoolSlot" ADD COLUMN     "expiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "PendingSubscription_poolId_status_holdExpiresAt_idx" ON "PendingSubscription"("poolId", "status", "holdExpiresAt");
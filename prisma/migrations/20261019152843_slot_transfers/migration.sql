@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "SlotTransferStatus" AS ENUM ('LISTED', 'PENDING_PAYMENT', 'COMPLETED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "SlotTransfer" (
+    "id" TEXT NOT NULL,
+    "subscriptionId" TEXT NOT NULL,
+    "poolId" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "buyerId" TEXT,
+    "price" DECIMAL(18,2) NOT NULL,
+    "status" "SlotTransferStatus" NOT NULL DEFAULT 'LISTED',
+    "gateway" "PaymentGateway",
+    "paymentRef" TEXT,
+    "reservedUntil" TIMESTAMP(3),
+    "sellerRefunded" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SlotTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SlotTransfer_paymentRef_key" ON "SlotTransfer"("paymentRef");
+
+-- CreateIndex
+CREATE INDEX "SlotTransfer_poolId_status_idx" ON "SlotTransfer"("poolId", "status");
+
+-- CreateIndex
+CREATE INDEX "SlotTransfer_subscriptionId_status_idx" ON "SlotTransfer"("subscriptionId", "status");
+
+-- CreateIndex
+CREATE INDEX "SlotTransfer_sellerId_idx" ON "SlotTransfer"("sellerId");
+
+-- CreateIndex
+CREATE INDEX "SlotTransfer_buyerId_idx" ON "SlotTransfer"("buyerId");
+
+-- AddForeignKey
+ALTER TABLE "SlotTransfer" ADD CONSTRAINT "SlotTransfer_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "Subscription"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SlotTransfer" ADD CONSTRAINT "SlotTransfer_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SlotTransfer" ADD CONSTRAINT "SlotTransfer_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SlotTransfer" ADD CONSTRAINT "SlotTransfer_buyerId_fkey" FOREIGN KEY ("buyerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
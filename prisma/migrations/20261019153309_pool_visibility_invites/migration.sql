@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "PoolVisibility" AS ENUM ('PUBLIC', 'UNLISTED', 'INVITE_ONLY');
+
+-- DropIndex
+DROP INDEX "Pool_status_createdAt_idx";
+
+-- AlterTable
+ALTER TABLE "Pool" ADD COLUMN     "visibility" "PoolVisibility" NOT NULL DEFAULT 'PUBLIC';
+
+-- CreateTable
+CREATE TABLE "PoolInvite" (
+    "id" TEXT NOT NULL,
+    "poolId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "maxUses" INTEGER,
+    "uses" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "revoked" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PoolInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PoolInviteRedemption" (
+    "id" TEXT NOT NULL,
+    "inviteId" TEXT NOT NULL,
+    "poolId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PoolInviteRedemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PoolInvite_code_key" ON "PoolInvite"("code");
+
+-- CreateIndex
+CREATE INDEX "PoolInvite_poolId_idx" ON "PoolInvite"("poolId");
+
+-- CreateIndex
+CREATE INDEX "PoolInviteRedemption_inviteId_idx" ON "PoolInviteRedemption"("inviteId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PoolInviteRedemption_poolId_userId_key" ON "PoolInviteRedemption"("poolId", "userId");
+
+-- CreateIndex
+CREATE INDEX "Pool_status_visibility_createdAt_idx" ON "Pool"("status", "visibility", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PoolInvite" ADD CONSTRAINT "PoolInvite_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PoolInvite" ADD CONSTRAINT "PoolInvite_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PoolInviteRedemption" ADD CONSTRAINT "PoolInviteRedemption_inviteId_fkey" FOREIGN KEY ("inviteId") REFERENCES "PoolInvite"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PoolInviteRedemption" ADD CONSTRAINT "PoolInviteRedemption_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "PoolStatusHistory" (
+    "id" TEXT NOT NULL,
+    "poolId" TEXT NOT NULL,
+    "fromStatus" "PoolStatus" NOT NULL,
+    "toStatus" "PoolStatus" NOT NULL,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PoolStatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PoolStatusHistory_poolId_createdAt_idx" ON "PoolStatusHistory"("poolId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PoolStatusHistory" ADD CONSTRAINT "PoolStatusHistory_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PoolStatusHistory" ADD CONSTRAINT "PoolStatusHistory_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Pool" ADD COLUMN     "allowBuyerCancellation" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "cancellationFeeRate" DECIMAL(5,4) NOT NULL DEFAULT 0,
+ADD COLUMN     "cancellationFreeHours" INTEGER NOT NULL DEFAULT 24;
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "PoolQuestion" (
+    "id" TEXT NOT NULL,
+    "poolId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "fromVendor" BOOLEAN NOT NULL DEFAULT false,
+    "answeredAt" TIMESTAMP(3),
+    "hidden" BOOLEAN NOT NULL DEFAULT false,
+    "locked" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PoolQuestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PoolQuestionReply" (
+    "id" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "fromVendor" BOOLEAN NOT NULL DEFAULT false,
+    "hidden" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PoolQuestionReply_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PoolQuestion_poolId_createdAt_idx" ON "PoolQuestion"("poolId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PoolQuestionReply_questionId_createdAt_idx" ON "PoolQuestionReply"("questionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PoolQuestion" ADD CONSTRAINT "PoolQuestion_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PoolQuestion" ADD CONSTRAINT "PoolQuestion_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PoolQuestionReply" ADD CONSTRAINT "PoolQuestionReply_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "PoolQuestion"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PoolQuestionReply" ADD CONSTRAINT "PoolQuestionReply_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "ratingAverage" DECIMAL(3,2),
+ADD COLUMN     "ratingCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "VendorReview" (
+    "id" TEXT NOT NULL,
+    "poolId" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "buyerId" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "quality" INTEGER NOT NULL,
+    "timeliness" INTEGER NOT NULL,
+    "communication" INTEGER NOT NULL,
+    "comment" TEXT,
+    "vendorResponse" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VendorReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VendorReview_vendorId_createdAt_idx" ON "VendorReview"("vendorId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VendorReview_poolId_buyerId_key" ON "VendorReview"("poolId", "buyerId");
+
+-- CreateIndex
+CREATE INDEX "User_role_ratingAverage_idx" ON "User"("role", "ratingAverage");
+
+-- AddForeignKey
+ALTER TABLE "VendorReview" ADD CONSTRAINT "VendorReview_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VendorReview" ADD CONSTRAINT "VendorReview_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VendorReview" ADD CONSTRAINT "VendorReview_buyerId_fkey" FOREIGN KEY ("buyerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "SearchAlertFrequency" AS ENUM ('INSTANT', 'DAILY');
+
+-- CreateTable
+CREATE TABLE "SavedSearch" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT,
+    "category" TEXT,
+    "vendorState" TEXT,
+    "pickupState" TEXT,
+    "maxPrice" DECIMAL(18,2),
+    "frequency" "SearchAlertFrequency" NOT NULL DEFAULT 'INSTANT',
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedSearch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SavedSearchMatch" (
+    "id" TEXT NOT NULL,
+    "savedSearchId" TEXT NOT NULL,
+    "poolId" TEXT NOT NULL,
+    "notifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SavedSearchMatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_userId_idx" ON "SavedSearch"("userId");
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_active_frequency_idx" ON "SavedSearch"("active", "frequency");
+
+-- CreateIndex
+CREATE INDEX "SavedSearchMatch_notifiedAt_idx" ON "SavedSearchMatch"("notifiedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SavedSearchMatch_savedSearchId_poolId_key" ON "SavedSearchMatch"("savedSearchId", "poolId");
+
+-- AddForeignKey
+ALTER TABLE "SavedSearch" ADD CONSTRAINT "SavedSearch_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SavedSearchMatch" ADD CONSTRAINT "SavedSearchMatch_savedSearchId_fkey" FOREIGN KEY ("savedSearchId") REFERENCES "SavedSearch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SavedSearchMatch" ADD CONSTRAINT "SavedSearchMatch_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
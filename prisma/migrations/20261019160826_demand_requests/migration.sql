@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "DemandRequestStatus" AS ENUM ('OPEN', 'CONVERTED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "DemandRequest" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "slots" INTEGER NOT NULL,
+    "state" TEXT NOT NULL,
+    "neededBy" TIMESTAMP(3) NOT NULL,
+    "maxPricePerSlot" DECIMAL(18,2),
+    "notes" TEXT,
+    "status" "DemandRequestStatus" NOT NULL DEFAULT 'OPEN',
+    "poolId" TEXT,
+    "convertedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DemandRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DemandRequest_status_productId_state_neededBy_idx" ON "DemandRequest"("status", "productId", "state", "neededBy");
+
+-- CreateIndex
+CREATE INDEX "DemandRequest_userId_status_idx" ON "DemandRequest"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "DemandRequest_poolId_idx" ON "DemandRequest"("poolId");
+
+-- AddForeignKey
+ALTER TABLE "DemandRequest" ADD CONSTRAINT "DemandRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DemandRequest" ADD CONSTRAINT "DemandRequest_productId_fkey" FOREIGN KEY ("productId") REFERENCES "ProductCatalog"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DemandRequest" ADD CONSTRAINT "DemandRequest_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "Pool"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Pool" ADD COLUMN     "unitsPerSlot" DECIMAL(12,3);
+
+-- CreateIndex
+CREATE INDEX "Pool_productId_createdAt_idx" ON "Pool"("productId", "createdAt");
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING', 'PROCESSED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "Refund" (
+    "id" TEXT NOT NULL,
+    "subscriptionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "gateway" "PaymentGateway" NOT NULL,
+    "paymentRef" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "status" "RefundStatus" NOT NULL DEFAULT 'PENDING',
+    "gatewayRefundId" TEXT,
+    "transactionId" TEXT NOT NULL,
+    "reason" TEXT,
+    "failureReason" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Refund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Refund_gatewayRefundId_key" ON "Refund"("gatewayRefundId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Refund_transactionId_key" ON "Refund"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "Refund_paymentRef_status_idx" ON "Refund"("paymentRef", "status");
+
+-- CreateIndex
+CREATE INDEX "Refund_status_createdAt_idx" ON "Refund"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Refund_userId_idx" ON "Refund"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "Subscription"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
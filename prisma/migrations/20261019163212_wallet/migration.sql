@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "RefundDestination" AS ENUM ('ORIGINAL_METHOD', 'WALLET');
+
+-- CreateEnum
+CREATE TYPE "WalletEntryType" AS ENUM ('CREDIT', 'DEBIT');
+
+-- CreateEnum
+CREATE TYPE "WalletEntrySource" AS ENUM ('REFUND', 'CHECKOUT', 'CHECKOUT_REVERSAL', 'ADJUSTMENT');
+
+-- AlterEnum
+ALTER TYPE "PaymentGateway" ADD VALUE 'WALLET';
+
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "walletAmount" DECIMAL(18,2) NOT NULL DEFAULT 0.0;
+
+-- AlterTable
+ALTER TABLE "PendingSubscription" ADD COLUMN     "walletAmount" DECIMAL(18,2) NOT NULL DEFAULT 0.0;
+
+-- AlterTable
+ALTER TABLE "Refund" ADD COLUMN     "destination" "RefundDestination" NOT NULL DEFAULT 'ORIGINAL_METHOD',
+ADD COLUMN     "walletFunded" DECIMAL(18,2) NOT NULL DEFAULT 0.0;
+
+-- CreateTable
+CREATE TABLE "Wallet" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "balance" DECIMAL(18,2) NOT NULL DEFAULT 0.0,
+    "refundToWallet" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Wallet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WalletEntry" (
+    "id" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "type" "WalletEntryType" NOT NULL,
+    "source" "WalletEntrySource" NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "balanceAfter" DECIMAL(18,2) NOT NULL,
+    "reference" TEXT,
+    "poolId" TEXT,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WalletEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Wallet_userId_key" ON "Wallet"("userId");
+
+-- CreateIndex
+CREATE INDEX "WalletEntry_walletId_createdAt_idx" ON "WalletEntry"("walletId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WalletEntry_source_reference_key" ON "WalletEntry"("source", "reference");
+
+-- AddForeignKey
+ALTER TABLE "Wallet" ADD CONSTRAINT "Wallet_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WalletEntry" ADD CONSTRAINT "WalletEntry_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
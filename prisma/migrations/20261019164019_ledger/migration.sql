@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccount" AS ENUM ('GATEWAY_CLEARING', 'BUYER_FUNDS', 'ESCROW', 'ESCROW_WITHHELD', 'VENDOR_PAYABLE', 'REFUNDS_PAYABLE', 'PLATFORM_REVENUE', 'GATEWAY_FEES');
+
+-- CreateEnum
+CREATE TYPE "JournalEntryType" AS ENUM ('PAYMENT', 'WALLET', 'WITHHOLD', 'WITHHOLD_RELEASE', 'ESCROW_RELEASE', 'PAYOUT', 'REFUND', 'REFUND_SETTLED', 'REFUND_FAILED', 'GATEWAY_FEE');
+
+-- CreateTable
+CREATE TABLE "JournalEntry" (
+    "id" TEXT NOT NULL,
+    "type" "JournalEntryType" NOT NULL,
+    "reference" TEXT NOT NULL,
+    "description" TEXT,
+    "poolId" TEXT,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JournalEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "JournalLine" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "account" "LedgerAccount" NOT NULL,
+    "debit" DECIMAL(18,2) NOT NULL DEFAULT 0.0,
+    "credit" DECIMAL(18,2) NOT NULL DEFAULT 0.0,
+    "userId" TEXT,
+    "poolId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JournalLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_poolId_idx" ON "JournalEntry"("poolId");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_createdAt_idx" ON "JournalEntry"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JournalEntry_type_reference_key" ON "JournalEntry"("type", "reference");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_account_createdAt_idx" ON "JournalLine"("account", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_account_userId_idx" ON "JournalLine"("account", "userId");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_account_poolId_idx" ON "JournalLine"("account", "poolId");
+
+-- AddForeignKey
+ALTER TABLE "JournalLine" ADD CONSTRAINT "JournalLine_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "JournalEntry"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationItemKind" AS ENUM ('CHARGE', 'TRANSFER');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationIssue" AS ENUM ('MISSING_LOCALLY', 'MISSING_AT_GATEWAY', 'AMOUNT_MISMATCH', 'STATUS_DRIFT');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationItemStatus" AS ENUM ('OPEN', 'RESOLVED', 'IGNORED');
+
+-- CreateTable
+CREATE TABLE "ReconciliationRun" (
+    "id" TEXT NOT NULL,
+    "gateway" "PaymentGateway" NOT NULL DEFAULT 'PAYSTACK',
+    "from" TIMESTAMP(3) NOT NULL,
+    "to" TIMESTAMP(3) NOT NULL,
+    "status" "ReconciliationRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "chargesChecked" INTEGER NOT NULL DEFAULT 0,
+    "transfersChecked" INTEGER NOT NULL DEFAULT 0,
+    "issuesFound" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "triggeredBy" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReconciliationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReconciliationItem" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "kind" "ReconciliationItemKind" NOT NULL,
+    "issue" "ReconciliationIssue" NOT NULL,
+    "reference" TEXT NOT NULL,
+    "gatewayAmount" DECIMAL(18,2),
+    "localAmount" DECIMAL(18,2),
+    "gatewayStatus" TEXT,
+    "localStatus" TEXT,
+    "details" JSONB,
+    "status" "ReconciliationItemStatus" NOT NULL DEFAULT 'OPEN',
+    "resolutionNote" TEXT,
+    "resolvedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReconciliationItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReconciliationRun_startedAt_idx" ON "ReconciliationRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationItem_runId_idx" ON "ReconciliationItem"("runId");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationItem_status_createdAt_idx" ON "ReconciliationItem"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationItem_reference_idx" ON "ReconciliationItem"("reference");
+
+-- AddForeignKey
+ALTER TABLE "ReconciliationItem" ADD CONSTRAINT "ReconciliationItem_runId_fkey" FOREIGN KEY ("runId") REFERENCES "ReconciliationRun"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
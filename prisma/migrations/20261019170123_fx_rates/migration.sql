@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "Currency" AS ENUM ('NGN', 'USD', 'GBP', 'EUR');
+
+-- AlterTable
+ALTER TABLE "PendingSubscription" ADD COLUMN     "chargeAmount" DECIMAL(18,2),
+ADD COLUMN     "currency" "Currency" NOT NULL DEFAULT 'NGN',
+ADD COLUMN     "fxFetchedAt" TIMESTAMP(3),
+ADD COLUMN     "fxRate" DECIMAL(18,8),
+ADD COLUMN     "fxSource" TEXT;
+
+-- CreateTable
+CREATE TABLE "FxRate" (
+    "id" TEXT NOT NULL,
+    "base" "Currency" NOT NULL DEFAULT 'NGN',
+    "quote" "Currency" NOT NULL,
+    "rate" DECIMAL(18,8) NOT NULL,
+    "source" TEXT NOT NULL,
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FxRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FxRate_base_quote_fetchedAt_idx" ON "FxRate"("base", "quote", "fetchedAt");
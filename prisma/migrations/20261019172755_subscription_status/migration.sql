@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "SubscriptionStatus" AS ENUM ('ACTIVE', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "status" "SubscriptionStatus" NOT NULL DEFAULT 'ACTIVE';
+
+-- CreateIndex
+CREATE INDEX "Subscription_poolId_status_idx" ON "Subscription"("poolId", "status");
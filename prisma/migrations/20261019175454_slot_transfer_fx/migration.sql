@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "SlotTransfer" ADD COLUMN     "chargeAmount" DECIMAL(18,2),
+ADD COLUMN     "currency" "Currency" NOT NULL DEFAULT 'NGN',
+ADD COLUMN     "fxFetchedAt" TIMESTAMP(3),
+ADD COLUMN     "fxRate" DECIMAL(18,8),
+ADD COLUMN     "fxSource" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Refund" ADD COLUMN     "settled" BOOLEAN NOT NULL DEFAULT false;
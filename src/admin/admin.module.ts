@@ -9,6 +9,8 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { EmailChannelService } from '../notifications/channels/email.channel';
 import { RolesGuard } from '../common/guards/roles.guard';
+import { LedgerModule } from '../ledger/ledger.module';
+import { DisputesModule } from '../disputes/disputes.module';
 
 @Module({
   imports: [
@@ -23,6 +25,8 @@ import { RolesGuard } from '../common/guards/roles.guard';
       }),
     }),
     NotificationsModule,
+    LedgerModule,
+    DisputesModule,
   ],
   controllers: [AdminController],
   providers: [
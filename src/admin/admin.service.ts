@@ -12,6 +12,8 @@ import { PaystackService } from '../services/paystack.service';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { EmailChannelService } from '../notifications/channels/email.channel';
+import { LedgerService } from '../ledger/ledger.service';
+import { DisputesService } from '../disputes/disputes.service';
 import * as bcrypt from 'bcrypt';
 import * as speakeasy from 'speakeasy';
 import * as QRCode from 'qrcode';
@@ -62,6 +64,8 @@ export class AdminService {
     private jwtService: JwtService,
     private configService: ConfigService,
     private emailChannel: EmailChannelService,
+    private ledgerService: LedgerService,
+    private disputesService: DisputesService,
   ) {}
 
   // ==================== AUTHENTICATION ====================
@@ -1077,6 +1081,7 @@ export class AdminService {
       where: { id: disputeId },
       data: { status },
     });
+    await this.disputesService.syncPoolDisputeStatus(dispute.poolId, adminId);
 
     // Create audit log
     await this.createAuditLog(
@@ -1121,6 +1126,7 @@ export class AdminService {
         distribution: distribution ?? Prisma.JsonNull,
       },
     });
+    await this.disputesService.syncPoolDisputeStatus(dispute.poolId, adminId);
 
     // If distribution is provided, update escrow
     if (distribution && dispute.pool.escrowEntries.length > 0) {
@@ -1130,19 +1136,50 @@ export class AdminService {
       const buyerAmount = (totalHeld * distribution.buyer) / 100;
       const vendorAmount = (totalHeld * distribution.vendor) / 100;
 
-      await this.prisma.escrowEntry.update({
-        where: { id: escrowEntry.id },
-        data: {
-          releasedAmount: vendorAmount,
-          withheldAmount: buyerAmount,
-          withheldReason: `Dispute resolved: ${resolution}`,
-          computations: {
-            ...(escrowEntry.computations as any),
-            resolvedBy: adminId,
-            resolvedAt: new Date().toISOString(),
-            distribution,
+      await this.prisma.$transaction(async (tx) => {
+        await tx.escrowEntry.update({
+          where: { id: escrowEntry.id },
+          data: {
+            releasedAmount: vendorAmount,
+            withheldAmount: buyerAmount,
+            withheldReason: `Dispute resolved: ${resolution}`,
+            computations: {
+              ...(escrowEntry.computations as any),
+              resolvedBy: adminId,
+              resolvedAt: new Date().toISOString(),
+              distribution,
+            },
           },
-        },
+        });
+
+        // The ledger follows the change from the previous hold and release
+        const reference = `admin_dispute_${disputeId}`;
+        await this.ledgerService.recordWithhold(
+          dispute.poolId,
+          new Decimal(buyerAmount)
+            .sub(escrowEntry.withheldAmount.toString())
+            .toNumber(),
+          reference,
+          `Dispute resolved: ${resolution}`,
+          tx,
+        );
+
+        const released = new Decimal(vendorAmount)
+          .sub(escrowEntry.releasedAmount.toString())
+          .toNumber();
+        if (released > 0) {
+          await this.ledgerService.recordRelease(
+            {
+              reference,
+              poolId: dispute.poolId,
+              vendorId: dispute.pool.vendorId,
+              amount: released,
+              commission: 0,
+              description: `Dispute resolved: ${resolution}`,
+            },
+            tx,
+          );
+        }
       });
     }
 
@@ -1464,7 +1501,7 @@ export class AdminService {
     });
 
     // Create transaction records
-    await this.prisma.transaction.create({
+    const payout = await this.prisma.transaction.create({
       data: {
         userId: simulation.vendor.id,
         poolId,
@@ -1483,6 +1520,24 @@ export class AdminService {
       },
     });
 
+    await this.ledgerService.recordRelease({
+      reference: payout.id,
+      poolId,
+      vendorId: simulation.vendor.id,
+      amount: simulation.escrow.availableForPayout,
+      commission: simulation.calculation.platformFee,
+    });
+
+    // Simulated payouts stay payable to the vendor: no money left
+    if (transferResult) {
+      await this.ledgerService.recordPayout({
+        reference: transferResult.reference,
+        poolId,
+        vendorId: simulation.vendor.id,
+        amount: simulation.calculation.netPayoutToVendor,
+      });
+    }
+
     // Create audit log
     await this.createAuditLog(
       adminId,
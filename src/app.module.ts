@@ -22,6 +22,18 @@ import { CatalogModule } from './catalog/catalog.module';
 import { CommonModule } from './common/common.module';
 import { SupportModule } from './support/support.module';
 import { NewsletterModule } from './newsletter/newsletter.module';
+import { WaitlistModule } from './waitlist/waitlist.module';
+import { PickupLocationsModule } from './pickup-locations/pickup-locations.module';
+import { DeliveriesModule } from './deliveries/deliveries.module';
+import { SlotTransfersModule } from './slot-transfers/slot-transfers.module';
+import { VendorReviewsModule } from './vendor-reviews/vendor-reviews.module';
+import { SavedSearchesModule } from './saved-searches/saved-searches.module';
+import { DemandRequestsModule } from './demand-requests/demand-requests.module';
+import { RefundsModule } from './refunds/refunds.module';
+import { WalletModule } from './wallet/wallet.module';
+import { LedgerModule } from './ledger/ledger.module';
+import { ReconciliationModule } from './reconciliation/reconciliation.module';
+import { FxModule } from './fx/fx.module';
 
 @Module({
   imports: [
@@ -56,6 +68,18 @@ import { NewsletterModule } from './newsletter/newsletter.module';
     SupportModule,
     QueueModule,
     NewsletterModule,
+    WaitlistModule,
+    PickupLocationsModule,
+    DeliveriesModule,
+    SlotTransfersModule,
+    VendorReviewsModule,
+    SavedSearchesModule,
+    DemandRequestsModule,
+    RefundsModule,
+    WalletModule,
+    LedgerModule,
+    ReconciliationModule,
+    FxModule,
     // RedisCacheModule,
   ],
   controllers: [AppController],
@@ -0,0 +1,15 @@
+import { Request } from 'express';
+import { Role } from '@prisma/client';
+
+/** The user JwtGuardStrategy attaches to authenticated requests. */
+export interface AuthenticatedUser {
+  id: string;
+  userId: string;
+  email: string;
+  isAdmin: boolean;
+  role: Role;
+}
+
+export interface AuthenticatedRequest extends Request {
+  user: AuthenticatedUser;
+}
@@ -3,6 +3,7 @@ import { Injectable } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
+import { AuthenticatedUser } from '../interfaces/authenticated-request.interface';
 
 @Injectable()
 export class JwtGuardStrategy extends PassportStrategy(Strategy) {
@@ -18,7 +19,7 @@ export class JwtGuardStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  validate(payload: any) {
+  validate(payload: any): AuthenticatedUser {
     return {
       id: payload.sub,
       userId: payload.sub, // Alias for compatibility
@@ -11,9 +11,15 @@ import {
   Req,
 } from '@nestjs/common';
 import { CatalogService } from './catalog.service';
+import { PriceHistoryService } from './price-history.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
+import { Role } from '../constant';
+import {
+  PriceHistoryQueryDto,
+  PriceSuggestionQueryDto,
+} from './dto/price-query.dto';
 import {
   ApiBearerAuth,
   ApiOperation,
@@ -24,7 +30,10 @@ import {
 @ApiTags('Catalog')
 @Controller('catalog')
 export class CatalogController {
-  constructor(private readonly catalogService: CatalogService) {}
+  constructor(
+    private readonly catalogService: CatalogService,
+    private readonly priceHistoryService: PriceHistoryService,
+  ) {}
 
   // PUBLIC: Get all products
   @Get('products')
@@ -48,6 +57,44 @@ export class CatalogController {
     return this.catalogService.getProduct(id);
   }
 
+  // VENDOR/ADMIN: Price history from past pools
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.VENDOR, Role.ADMIN)
+  @Get('products/:id/price-history')
+  @ApiOperation({ summary: 'Monthly price history per state from past pools' })
+  getPriceHistory(
+    @Param('id') id: string,
+    @Query() query: PriceHistoryQueryDto,
+  ) {
+    return this.priceHistoryService.getPriceHistory(id, query.state);
+  }
+
+  // VENDOR/ADMIN: Suggested price range for a draft pool
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.VENDOR, Role.ADMIN)
+  @Get('products/:id/price-suggestion')
+  @ApiOperation({
+    summary: 'Suggest a price range and flag an outlier proposed price',
+  })
+  suggestPrice(
+    @Param('id') id: string,
+    @Query() query: PriceSuggestionQueryDto,
+  ) {
+    return this.priceHistoryService.suggestPrice(id, query);
+  }
+
+  // ADMIN: Open pools priced far outside their product's range
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @Get('price-outliers')
+  @ApiOperation({ summary: 'Admin: Open pools with outlier prices' })
+  getPriceOutliers() {
+    return this.priceHistoryService.getPriceOutliers();
+  }
+
   // PUBLIC: Get all categories
   @Get('categories')
   @ApiOperation({ summary: 'Get all product categories' })
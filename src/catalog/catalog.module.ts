@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 import { CatalogService } from './catalog.service';
+import { PriceHistoryService } from './price-history.service';
 import { CatalogController } from './catalog.controller';
 import { PrismaService } from '../services/prisma.service';
 
 @Module({
   controllers: [CatalogController],
-  providers: [CatalogService, PrismaService],
-  exports: [CatalogService],
+  providers: [CatalogService, PriceHistoryService, PrismaService],
+  exports: [CatalogService, PriceHistoryService],
 })
 export class CatalogModule {}
@@ -0,0 +1,32 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNumber, IsOptional, IsString, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class PriceHistoryQueryDto {
+  @ApiPropertyOptional({ example: 'Lagos', description: 'Vendor state' })
+  @IsString()
+  @IsOptional()
+  state?: string;
+}
+
+export class PriceSuggestionQueryDto extends PriceHistoryQueryDto {
+  @ApiPropertyOptional({
+    example: 25000,
+    description: 'Proposed price per slot to check',
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  @Type(() => Number)
+  pricePerSlot?: number;
+
+  @ApiPropertyOptional({
+    example: 2,
+    description: 'Product units in one slot; compares per-unit prices',
+  })
+  @IsNumber()
+  @Min(0.001)
+  @IsOptional()
+  @Type(() => Number)
+  unitsPerSlot?: number;
+}
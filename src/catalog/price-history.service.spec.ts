@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PriceHistoryService } from './price-history.service';
+import { PrismaService } from '../services/prisma.service';
+
+describe('PriceHistoryService', () => {
+  let service: PriceHistoryService;
+
+  const mockPrismaService = {
+    productCatalog: {
+      findUnique: jest.fn(),
+    },
+    pool: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const pastPool = (
+    id: string,
+    pricePerSlot: number,
+    state: string,
+    unitsPerSlot: number | null = null,
+  ) => ({
+    id,
+    productId: 'product-1',
+    pricePerSlot,
+    unitsPerSlot,
+    createdAt: new Date('2026-08-15'),
+    vendor: { state },
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.productCatalog.findUnique.mockResolvedValue({
+      id: 'product-1',
+      name: 'Honey beans',
+      unit: 'kg',
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PriceHistoryService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<PriceHistoryService>(PriceHistoryService);
+  });
+
+  it('should suggest the middle half of past prices and flag outliers', async () => {
+    mockPrismaService.pool.findMany.mockResolvedValue([
+      pastPool('p1', 10000, 'Lagos'),
+      pastPool('p2', 11000, 'Lagos'),
+      pastPool('p3', 12000, 'Lagos'),
+      pastPool('p4', 13000, 'Lagos'),
+      pastPool('p5', 14000, 'Lagos'),
+    ]);
+
+    const result = await service.suggestPrice('product-1', {
+      state: 'lagos',
+      pricePerSlot: 30000,
+    });
+
+    expect(result.suggestion).toMatchObject({
+      basis: 'slot',
+      scope: 'state',
+      sampleSize: 5,
+      suggestedPricePerSlot: { low: 11000, median: 12000, high: 13000 },
+      outlier: 'HIGH',
+    });
+  });
+
+  it('should compare per unit and fall back to national prices', async () => {
+    mockPrismaService.pool.findMany.mockResolvedValue([
+      pastPool('p1', 10000, 'Kano', 10),
+      pastPool('p2', 20000, 'Kano', 20),
+      pastPool('p3', 5000, 'Oyo', 5),
+      pastPool('p4', 4000, 'Lagos', 4),
+    ]);
+
+    const check = await service.checkPoolPrice('product-1', {
+      state: 'Lagos',
+      pricePerSlot: 3000,
+      unitsPerSlot: 2,
+    });
+
+    expect(check).toMatchObject({
+      basis: 'unit',
+      scope: 'national',
+      median: 1000,
+      suggestedPricePerSlot: { median: 2000 },
+      outlier: 'HIGH',
+    });
+  });
+
+  it('should not judge prices without enough history', async () => {
+    mockPrismaService.pool.findMany.mockResolvedValue([
+      pastPool('p1', 10000, 'Lagos'),
+      pastPool('p2', 11000, 'Lagos'),
+    ]);
+
+    const check = await service.checkPoolPrice('product-1', {
+      pricePerSlot: 90000,
+    });
+
+    expect(check).toBeNull();
+  });
+});
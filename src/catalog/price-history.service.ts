@@ -0,0 +1,333 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { PoolStatus } from '@prisma/client';
+
+const LOOKBACK_MONTHS = 12;
+const MIN_SAMPLE_SIZE = 3; // Pools needed before suggesting or flagging a price
+const OUTLIER_IQR_FACTOR = 1.5; // Tukey fences around the middle half of prices
+const MIN_OUTLIER_MARGIN = 0.25; // Fences sit at least this share of the median away
+
+interface PriceObservation {
+  poolId: string;
+  productId: string;
+  pricePerSlot: number;
+  unitsPerSlot: number | null;
+  state: string | null;
+  createdAt: Date;
+}
+
+export interface PriceSuggestion {
+  basis: 'slot' | 'unit';
+  scope: 'state' | 'national';
+  sampleSize: number;
+  // Middle half of past prices, per slot or per unit depending on basis
+  low: number;
+  median: number;
+  high: number;
+  suggestedPricePerSlot: { low: number; median: number; high: number };
+  outlier: 'HIGH' | 'LOW' | null;
+  message: string | null;
+}
+
+/**
+ * PriceHistoryService derives product pricing from past pools.
+ *
+ * Every non-cancelled pool of the last year is a price observation, keyed
+ * by the vendor's state. Prices are compared per slot, or per catalog unit
+ * when pools record unitsPerSlot. A suggestion is the middle half of past
+ * prices (state first, national when the state has too few pools), and a
+ * price outside the outlier fences is flagged HIGH or LOW.
+ */
+@Injectable()
+export class PriceHistoryService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Monthly price summary per state for one product
+   */
+  async getPriceHistory(productId: string, state?: string) {
+    const product = await this.getProduct(productId);
+    let observations = await this.getObservations([productId]);
+
+    if (state) {
+      observations = observations.filter((o) => this.sameState(o.state, state));
+    }
+
+    const groups = new Map<string, PriceObservation[]>();
+    for (const observation of observations) {
+      const key = `${observation.createdAt.toISOString().slice(0, 7)}|${observation.state ?? ''}`;
+      groups.set(key, [...(groups.get(key) ?? []), observation]);
+    }
+
+    const history = [...groups.entries()]
+      .map(([key, group]) => {
+        const prices = group.map((o) => o.pricePerSlot);
+        const unitPrices = group
+          .filter((o) => o.unitsPerSlot)
+          .map((o) => o.pricePerSlot / o.unitsPerSlot!);
+
+        return {
+          month: key.slice(0, 7),
+          state: group[0].state,
+          pools: group.length,
+          avgPricePerSlot: this.round(this.average(prices)),
+          minPricePerSlot: Math.min(...prices),
+          maxPricePerSlot: Math.max(...prices),
+          avgPricePerUnit: unitPrices.length
+            ? this.round(this.average(unitPrices))
+            : null,
+        };
+      })
+      .sort(
+        (a, b) =>
+          a.month.localeCompare(b.month) ||
+          (a.state ?? '').localeCompare(b.state ?? ''),
+      );
+
+    return {
+      product: { id: product.id, name: product.name, unit: product.unit },
+      history,
+    };
+  }
+
+  /**
+   * Suggested price range for a draft pool, and whether a proposed price
+   * is an outlier
+   */
+  async suggestPrice(
+    productId: string,
+    options: { state?: string; pricePerSlot?: number; unitsPerSlot?: number },
+  ) {
+    const product = await this.getProduct(productId);
+    const observations = await this.getObservations([productId]);
+    const suggestion = this.evaluate(observations, options);
+
+    return {
+      product: { id: product.id, name: product.name, unit: product.unit },
+      suggestion,
+      message: suggestion
+        ? suggestion.message
+        : 'Not enough past pools to suggest a price yet',
+    };
+  }
+
+  /**
+   * Compare a pool's price with the product's history. Null when there is
+   * not enough history to judge.
+   */
+  async checkPoolPrice(
+    productId: string,
+    options: {
+      state?: string | null;
+      pricePerSlot: number;
+      unitsPerSlot?: number | null;
+    },
+  ): Promise<PriceSuggestion | null> {
+    const observations = await this.getObservations([productId]);
+
+    return this.evaluate(observations, options);
+  }
+
+  /**
+   * Open pools priced outside their product's usual range, furthest from
+   * the median first
+   */
+  async getPriceOutliers() {
+    const pools = await this.prisma.pool.findMany({
+      where: { status: PoolStatus.OPEN },
+      select: {
+        id: true,
+        productId: true,
+        pricePerSlot: true,
+        unitsPerSlot: true,
+        createdAt: true,
+        product: { select: { name: true, unit: true } },
+        vendor: { select: { id: true, name: true, state: true } },
+      },
+    });
+
+    const observations = await this.getObservations([
+      ...new Set(pools.map((pool) => pool.productId)),
+    ]);
+
+    const outliers: Array<{
+      poolId: string;
+      product: { name: string; unit: string };
+      vendor: { id: string; name: string | null; state: string | null };
+      pricePerSlot: number;
+      check: PriceSuggestion;
+      ratioToMedian: number;
+    }> = [];
+
+    for (const pool of pools) {
+      const pricePerSlot = Number(pool.pricePerSlot);
+      const check = this.evaluate(
+        observations.filter(
+          (o) => o.productId === pool.productId && o.poolId !== pool.id,
+        ),
+        {
+          state: pool.vendor.state,
+          pricePerSlot,
+          unitsPerSlot: pool.unitsPerSlot ? Number(pool.unitsPerSlot) : null,
+        },
+      );
+
+      if (!check?.outlier) continue;
+
+      outliers.push({
+        poolId: pool.id,
+        product: pool.product,
+        vendor: pool.vendor,
+        pricePerSlot,
+        check,
+        ratioToMedian: this.round(
+          pricePerSlot / check.suggestedPricePerSlot.median,
+        ),
+      });
+    }
+
+    return outliers.sort(
+      (a, b) =>
+        Math.abs(Math.log(b.ratioToMedian)) -
+        Math.abs(Math.log(a.ratioToMedian)),
+    );
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private async getProduct(productId: string) {
+    const product = await this.prisma.productCatalog.findUnique({
+      where: { id: productId },
+    });
+
+    if (!product) throw new NotFoundException('Product not found');
+
+    return product;
+  }
+
+  private async getObservations(
+    productIds: string[],
+  ): Promise<PriceObservation[]> {
+    const since = new Date();
+    since.setMonth(since.getMonth() - LOOKBACK_MONTHS);
+
+    const pools = await this.prisma.pool.findMany({
+      where: {
+        productId: { in: productIds },
+        status: { not: PoolStatus.CANCELLED },
+        createdAt: { gte: since },
+      },
+      select: {
+        id: true,
+        productId: true,
+        pricePerSlot: true,
+        unitsPerSlot: true,
+        createdAt: true,
+        vendor: { select: { state: true } },
+      },
+    });
+
+    return pools.map((pool) => ({
+      poolId: pool.id,
+      productId: pool.productId,
+      pricePerSlot: Number(pool.pricePerSlot),
+      unitsPerSlot: pool.unitsPerSlot ? Number(pool.unitsPerSlot) : null,
+      state: pool.vendor.state,
+      createdAt: pool.createdAt,
+    }));
+  }
+
+  private evaluate(
+    observations: PriceObservation[],
+    options: {
+      state?: string | null;
+      pricePerSlot?: number;
+      unitsPerSlot?: number | null;
+    },
+  ): PriceSuggestion | null {
+    const inState = options.state
+      ? observations.filter((o) => this.sameState(o.state, options.state!))
+      : [];
+    const scope = inState.length >= MIN_SAMPLE_SIZE ? 'state' : 'national';
+    const sample = scope === 'state' ? inState : observations;
+
+    // Per-unit prices are comparable across pools with different slot sizes
+    const unitsPerSlot = options.unitsPerSlot ?? null;
+    const withUnits = sample.filter((o) => o.unitsPerSlot);
+    const basis =
+      unitsPerSlot && withUnits.length >= MIN_SAMPLE_SIZE ? 'unit' : 'slot';
+
+    const prices = (
+      basis === 'unit'
+        ? withUnits.map((o) => o.pricePerSlot / o.unitsPerSlot!)
+        : sample.map((o) => o.pricePerSlot)
+    ).sort((a, b) => a - b);
+
+    if (prices.length < MIN_SAMPLE_SIZE) return null;
+
+    const low = this.quantile(prices, 0.25);
+    const median = this.quantile(prices, 0.5);
+    const high = this.quantile(prices, 0.75);
+    const spread = Math.max(
+      (high - low) * OUTLIER_IQR_FACTOR,
+      median * MIN_OUTLIER_MARGIN,
+    );
+    const toSlot = (value: number) =>
+      this.round(basis === 'unit' ? value * unitsPerSlot! : value);
+
+    let outlier: PriceSuggestion['outlier'] = null;
+    let message: string | null = null;
+
+    if (options.pricePerSlot !== undefined) {
+      const proposed =
+        basis === 'unit'
+          ? options.pricePerSlot / unitsPerSlot!
+          : options.pricePerSlot;
+
+      if (proposed > high + spread) outlier = 'HIGH';
+      else if (proposed < low - spread) outlier = 'LOW';
+
+      if (outlier) {
+        message = `₦${options.pricePerSlot.toLocaleString()} per slot is much ${outlier === 'HIGH' ? 'higher' : 'lower'} than similar pools, which usually sell at ₦${toSlot(low).toLocaleString()} - ₦${toSlot(high).toLocaleString()}`;
+      }
+    }
+
+    return {
+      basis,
+      scope,
+      sampleSize: prices.length,
+      low: this.round(low),
+      median: this.round(median),
+      high: this.round(high),
+      suggestedPricePerSlot: {
+        low: toSlot(low),
+        median: toSlot(median),
+        high: toSlot(high),
+      },
+      outlier,
+      message,
+    };
+  }
+
+  private quantile(sorted: number[], q: number) {
+    const position = (sorted.length - 1) * q;
+    const base = Math.floor(position);
+    const next = sorted[base + 1] ?? sorted[base];
+
+    return sorted[base] + (position - base) * (next - sorted[base]);
+  }
+
+  private average(values: number[]) {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  private sameState(a: string | null, b: string) {
+    return a?.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+
+  private round(value: number) {
+    return Math.round(value * 100) / 100;
+  }
+}
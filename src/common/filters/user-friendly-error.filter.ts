@@ -48,6 +48,8 @@ const USER_FRIENDLY_MESSAGES: Record<string, string> = {
   'Invalid or already processed': 'This payment has already been processed.',
   'Not enough slots available':
     "Sorry, there aren't enough slots available. Please reduce your quantity or try another pool.",
+  'Slots changed during checkout':
+    'Other buyers were checking out at the same time. Please try again.',
   'Pool not found': 'This pool is no longer available.',
 
   // Rate limiting
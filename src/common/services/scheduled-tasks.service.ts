@@ -13,8 +13,10 @@ import { PrismaService } from '../../services/prisma.service';
  * - Cleanup old OTP attempts
  * - Cleanup old webhook events
  * - Reset payment rate limit windows
- * - Cleanup expired pending subscriptions
  * - Auto-release eligible escrows
+ *
+ * Jobs that belong to a feature (pool deadlines, waitlists, deliveries...)
+ * are scheduled in that feature's own service.
  */
 @Injectable()
 export class ScheduledTasksService {
@@ -71,34 +73,6 @@ export class ScheduledTasksService {
     }
   }
 
-  /**
-   * Run daily at 2 AM - cleanup expired pending subscriptions
-   */
-  @Cron('0 2 * * *')
-  async cleanupExpiredPendingSubscriptions() {
-    this.logger.log('Cleaning up expired pending subscriptions...');
-
-    try {
-      // Pending subscriptions older than 24 hours are stale
-      const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-
-      // Use FAILED status as PaymentStatus doesn't have EXPIRED
-      const result = await this.prisma.pendingSubscription.updateMany({
-        where: {
-          createdAt: { lt: twentyFourHoursAgo },
-          status: 'PENDING',
-        },
-        data: {
-          status: 'FAILED',
-        },
-      });
-
-      this.logger.log(`Expired ${result.count} stale pending subscriptions`);
-    } catch (error) {
-      this.logger.error('Pending subscription cleanup failed:', error);
-    }
-  }
-
   /**
    * Run every 15 minutes - check and release eligible escrows
    * Escrows become releasable 7 days after delivery confirmation
@@ -0,0 +1,132 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Req,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Role } from '../constant';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { DeliveriesService } from './deliveries.service';
+import { ScheduleDeliveriesDto } from './dto/schedule-deliveries.dto';
+import { UpdateDeliveryDto } from './dto/update-delivery.dto';
+
+@ApiTags('Deliveries')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('deliveries')
+export class DeliveriesController {
+  constructor(private readonly deliveriesService: DeliveriesService) {}
+
+  @Get('my')
+  @ApiOperation({ summary: 'Get my deliveries' })
+  getMyDeliveries(@Req() req: AuthenticatedRequest) {
+    return this.deliveriesService.getUserDeliveries(req.user.userId);
+  }
+
+  @Get('pool/:poolId')
+  @ApiOperation({ summary: 'Vendor: Get deliveries for a pool' })
+  getPoolDeliveries(
+    @Param('poolId') poolId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.deliveriesService.getPoolDeliveries(
+      poolId,
+      req.user.userId,
+      req.user.role,
+    );
+  }
+
+  @Roles(Role.VENDOR)
+  @Post('pool/:poolId/schedule')
+  @ApiOperation({ summary: 'Vendor: Schedule deliveries for a filled pool' })
+  schedule(
+    @Param('poolId') poolId: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: ScheduleDeliveriesDto,
+  ) {
+    return this.deliveriesService.schedulePoolDeliveries(
+      poolId,
+      req.user.userId,
+      dto,
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a delivery' })
+  findOne(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    return this.deliveriesService.getDelivery(
+      id,
+      req.user.userId,
+      req.user.role,
+    );
+  }
+
+  @Roles(Role.VENDOR)
+  @Post(':id/dispatch')
+  @ApiOperation({ summary: 'Vendor: Mark a delivery dispatched' })
+  dispatch(
+    @Param('id') id: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: UpdateDeliveryDto,
+  ) {
+    return this.deliveriesService.markDispatched(
+      id,
+      req.user.userId,
+      dto.notes,
+    );
+  }
+
+  @Roles(Role.VENDOR)
+  @Post(':id/deliver')
+  @UseInterceptors(FilesInterceptor('photos', 5))
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        notes: { type: 'string' },
+        photos: {
+          type: 'array',
+          items: { type: 'string', format: 'binary' },
+        },
+      },
+    },
+  })
+  @ApiOperation({ summary: 'Vendor: Mark delivered with photo proof' })
+  deliver(
+    @Param('id') id: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: UpdateDeliveryDto,
+    @UploadedFiles() photos: Express.Multer.File[],
+  ) {
+    return this.deliveriesService.markDelivered(
+      id,
+      req.user.userId,
+      photos,
+      dto.notes,
+    );
+  }
+
+  @Roles(Role.BUYER)
+  @Post(':id/confirm')
+  @ApiOperation({ summary: 'Buyer: Confirm receipt of a delivery' })
+  confirm(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    return this.deliveriesService.confirmReceipt(id, req.user.userId);
+  }
+}
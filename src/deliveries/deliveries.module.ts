@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { DeliveriesController } from './deliveries.controller';
+import { DeliveriesService } from './deliveries.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { EscrowModule } from '../escrow/escrow.module';
+import { PoolLifecycleModule } from '../pool-lifecycle/pool-lifecycle.module';
+import { cloudinaryConfig } from '../config/cloudinary.config';
+
+@Module({
+  imports: [
+    PrismaModule,
+    NotificationsModule,
+    EscrowModule,
+    PoolLifecycleModule,
+  ],
+  controllers: [DeliveriesController],
+  providers: [DeliveriesService, cloudinaryConfig],
+  exports: [DeliveriesService],
+})
+export class DeliveriesModule {}
@@ -0,0 +1,150 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { DeliveriesService } from './deliveries.service';
+import { PrismaService } from '../services/prisma.service';
+import { EscrowService } from '../escrow/escrow.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PoolLifecycleService } from '../pool-lifecycle/pool-lifecycle.service';
+import { DeliveryStatus } from '@prisma/client';
+
+describe('DeliveriesService', () => {
+  let service: DeliveriesService;
+
+  const mockPrismaService = {
+    pool: {
+      findUnique: jest.fn(),
+    },
+    subscription: {
+      count: jest.fn(),
+    },
+    delivery: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+  };
+
+  const mockEscrowService = {
+    markReleasable: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    sendNotification: jest.fn(),
+  };
+
+  const mockPoolLifecycleService = {
+    transition: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeliveriesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: EscrowService, useValue: mockEscrowService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: PoolLifecycleService, useValue: mockPoolLifecycleService },
+        { provide: 'CLOUDINARY', useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<DeliveriesService>(DeliveriesService);
+  });
+
+  describe('confirmReceipt', () => {
+    it('should make the escrow releasable once every buyer has confirmed', async () => {
+      mockPrismaService.delivery.findUnique.mockResolvedValue({
+        id: 'delivery-1',
+        poolId: 'pool-1',
+        userId: 'user-1',
+        status: DeliveryStatus.DELIVERED,
+      });
+      mockPrismaService.delivery.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.subscription.count.mockResolvedValue(2);
+      mockPrismaService.delivery.count.mockResolvedValue(2);
+
+      await service.confirmReceipt('delivery-1', 'user-1');
+
+      expect(mockPrismaService.delivery.updateMany).toHaveBeenCalledWith({
+        where: { id: 'delivery-1', status: DeliveryStatus.DELIVERED },
+        data: {
+          status: DeliveryStatus.CONFIRMED,
+          confirmedAt: expect.any(Date) as Date,
+        },
+      });
+      expect(mockEscrowService.markReleasable).toHaveBeenCalledWith('pool-1');
+    });
+
+    it('should keep the escrow held while other buyers are unconfirmed', async () => {
+      mockPrismaService.delivery.findUnique.mockResolvedValue({
+        id: 'delivery-1',
+        poolId: 'pool-1',
+        userId: 'user-1',
+      });
+      mockPrismaService.delivery.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.subscription.count.mockResolvedValue(3);
+      mockPrismaService.delivery.count.mockResolvedValue(1);
+
+      await service.confirmReceipt('delivery-1', 'user-1');
+
+      expect(mockEscrowService.markReleasable).not.toHaveBeenCalled();
+    });
+
+    it('should reject confirmations before the delivery is made', async () => {
+      mockPrismaService.delivery.findUnique.mockResolvedValue({
+        id: 'delivery-1',
+        poolId: 'pool-1',
+        userId: 'user-1',
+      });
+      mockPrismaService.delivery.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.confirmReceipt('delivery-1', 'user-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not let buyers confirm deliveries of others', async () => {
+      mockPrismaService.delivery.findUnique.mockResolvedValue({
+        id: 'delivery-1',
+        poolId: 'pool-1',
+        userId: 'user-2',
+      });
+
+      await expect(
+        service.confirmReceipt('delivery-1', 'user-1'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('autoConfirmDeliveries', () => {
+    it('should confirm overdue deliveries and settle their pools', async () => {
+      mockPrismaService.delivery.findMany.mockResolvedValue([
+        { id: 'delivery-1', poolId: 'pool-1' },
+        { id: 'delivery-2', poolId: 'pool-1' },
+      ]);
+      mockPrismaService.delivery.updateMany.mockResolvedValue({ count: 2 });
+      mockPrismaService.subscription.count.mockResolvedValue(2);
+      mockPrismaService.delivery.count.mockResolvedValue(2);
+
+      const result = await service.autoConfirmDeliveries();
+
+      expect(result).toEqual({ confirmed: 2, pools: 1 });
+      expect(mockPrismaService.delivery.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['delivery-1', 'delivery-2'] },
+          status: DeliveryStatus.DELIVERED,
+        },
+        data: {
+          status: DeliveryStatus.CONFIRMED,
+          confirmedAt: expect.any(Date) as Date,
+          autoConfirmed: true,
+        },
+      });
+      expect(mockEscrowService.markReleasable).toHaveBeenCalledTimes(1);
+    });
+  });
+});
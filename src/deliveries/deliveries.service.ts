@@ -0,0 +1,417 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Logger,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { v2 as cloudinary } from 'cloudinary';
+import { PrismaService } from '../services/prisma.service';
+import { EscrowService } from '../escrow/escrow.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PoolLifecycleService } from '../pool-lifecycle/pool-lifecycle.service';
+import { streamUpload } from '../utils/cloudinary.helper';
+import {
+  DeliveryStatus,
+  PoolStatus,
+  NotificationType,
+  NotificationMedium,
+  SubscriptionStatus,
+} from '@prisma/client';
+import { ScheduleDeliveriesDto } from './dto/schedule-deliveries.dto';
+
+/**
+ * DeliveriesService tracks each buyer's share from scheduling to receipt.
+ *
+ * DELIVERY FLOW:
+ * 1. Vendor schedules deliveries for a filled pool → one record per subscription
+ * 2. Vendor marks each delivery dispatched, then delivered with photo proof
+ * 3. Buyer confirms receipt, or it is auto-confirmed after the confirm window
+ * 4. Once every delivery in the pool is confirmed the escrow becomes
+ *    RELEASABLE and its grace period starts
+ */
+@Injectable()
+export class DeliveriesService {
+  private readonly logger = new Logger(DeliveriesService.name);
+  private readonly CONFIRM_WINDOW_DAYS = 3; // Days buyer has to confirm before auto-confirm
+
+  constructor(
+    private prisma: PrismaService,
+    private escrowService: EscrowService,
+    private notificationsService: NotificationsService,
+    private poolLifecycle: PoolLifecycleService,
+    @Inject('CLOUDINARY') private cloudinaryClient: typeof cloudinary,
+  ) {}
+
+  // ============================================
+  // VENDOR
+  // ============================================
+
+  async schedulePoolDeliveries(
+    poolId: string,
+    vendorId: string,
+    dto: ScheduleDeliveriesDto,
+  ) {
+    const pool = await this.prisma.pool.findUnique({
+      where: { id: poolId },
+      include: {
+        subscriptions: { where: { status: SubscriptionStatus.ACTIVE } },
+        product: true,
+      },
+    });
+
+    if (!pool) throw new NotFoundException('Pool not found');
+
+    if (pool.vendorId !== vendorId) {
+      throw new ForbiddenException('You can only deliver your own pools');
+    }
+
+    if (
+      pool.status !== PoolStatus.FILLED &&
+      pool.status !== PoolStatus.IN_DELIVERY
+    ) {
+      throw new BadRequestException(
+        'Pool must be filled before scheduling deliveries',
+      );
+    }
+
+    const scheduledFor = dto.scheduledFor
+      ? new Date(dto.scheduledFor)
+      : undefined;
+
+    const created = await this.prisma.delivery.createMany({
+      data: pool.subscriptions.map((subscription) => ({
+        subscriptionId: subscription.id,
+        poolId,
+        userId: subscription.userId,
+        scheduledFor,
+        notes: dto.notes,
+      })),
+      skipDuplicates: true, // Subscriptions already scheduled keep their record
+    });
+
+    await this.poolLifecycle.transition(poolId, PoolStatus.IN_DELIVERY, {
+      from: [PoolStatus.FILLED],
+      actorId: vendorId,
+      reason: 'Deliveries scheduled',
+    });
+
+    for (const subscription of pool.subscriptions) {
+      await this.notifyBuyer(
+        subscription.userId,
+        poolId,
+        'Delivery scheduled 📦',
+        scheduledFor
+          ? `Your share of "${pool.product.name}" is scheduled for ${scheduledFor.toDateString()}.`
+          : `Your share of "${pool.product.name}" is being prepared for delivery.`,
+      );
+    }
+
+    this.logger.log(
+      `Scheduled ${created.count} deliveries for pool ${poolId} by vendor ${vendorId}`,
+    );
+
+    return this.getPoolDeliveries(poolId, vendorId, 'VENDOR');
+  }
+
+  async markDispatched(id: string, vendorId: string, notes?: string) {
+    const delivery = await this.getVendorDelivery(id, vendorId);
+
+    const updated = await this.prisma.delivery.updateMany({
+      where: { id, status: DeliveryStatus.SCHEDULED },
+      data: {
+        status: DeliveryStatus.DISPATCHED,
+        dispatchedAt: new Date(),
+        notes: notes ?? delivery.notes,
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new BadRequestException(
+        'Only scheduled deliveries can be dispatched',
+      );
+    }
+
+    await this.notifyBuyer(
+      delivery.userId,
+      delivery.poolId,
+      'Your order is on its way 🚚',
+      `Your share of "${delivery.pool.product.name}" has been dispatched.`,
+    );
+
+    return this.prisma.delivery.findUnique({ where: { id } });
+  }
+
+  async markDelivered(
+    id: string,
+    vendorId: string,
+    files?: Express.Multer.File[],
+    notes?: string,
+  ) {
+    const delivery = await this.getVendorDelivery(id, vendorId);
+
+    if (!files || files.length === 0) {
+      throw new BadRequestException('Photo proof of delivery is required');
+    }
+
+    const uploadResults = await Promise.all(
+      files.map((file) => streamUpload(this.cloudinaryClient, file.buffer)),
+    );
+    const proofPhotos = uploadResults.map((result) => result.secure_url);
+
+    const updated = await this.prisma.delivery.updateMany({
+      where: {
+        id,
+        status: { in: [DeliveryStatus.SCHEDULED, DeliveryStatus.DISPATCHED] },
+      },
+      data: {
+        status: DeliveryStatus.DELIVERED,
+        deliveredAt: new Date(),
+        proofPhotos: [...delivery.proofPhotos, ...proofPhotos],
+        notes: notes ?? delivery.notes,
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new BadRequestException('Delivery has already been delivered');
+    }
+
+    await this.notifyBuyer(
+      delivery.userId,
+      delivery.poolId,
+      'Delivered — please confirm ✅',
+      `Your share of "${delivery.pool.product.name}" was marked delivered. Please confirm receipt within ${this.CONFIRM_WINDOW_DAYS} days or raise a dispute.`,
+    );
+
+    return this.prisma.delivery.findUnique({ where: { id } });
+  }
+
+  // ============================================
+  // BUYER
+  // ============================================
+
+  async confirmReceipt(id: string, userId: string) {
+    const delivery = await this.prisma.delivery.findUnique({
+      where: { id },
+    });
+
+    if (!delivery) throw new NotFoundException('Delivery not found');
+
+    if (delivery.userId !== userId) {
+      throw new ForbiddenException('You can only confirm your own deliveries');
+    }
+
+    const updated = await this.prisma.delivery.updateMany({
+      where: { id, status: DeliveryStatus.DELIVERED },
+      data: {
+        status: DeliveryStatus.CONFIRMED,
+        confirmedAt: new Date(),
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new BadRequestException('Only delivered orders can be confirmed');
+    }
+
+    this.logger.log(`Delivery ${id} confirmed by buyer ${userId}`);
+
+    await this.checkPoolDeliveriesComplete(delivery.poolId);
+
+    return this.prisma.delivery.findUnique({ where: { id } });
+  }
+
+  async getUserDeliveries(userId: string) {
+    return this.prisma.delivery.findMany({
+      where: { userId },
+      include: {
+        pool: { include: { product: true } },
+        subscription: { include: { pickupLocation: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // ============================================
+  // SHARED
+  // ============================================
+
+  async getDelivery(id: string, userId: string, role: string) {
+    const delivery = await this.prisma.delivery.findUnique({
+      where: { id },
+      include: {
+        pool: { include: { product: true } },
+        subscription: { include: { pickupLocation: true, variant: true } },
+      },
+    });
+
+    if (!delivery) throw new NotFoundException('Delivery not found');
+
+    const isBuyer = delivery.userId === userId;
+    const isVendor = delivery.pool.vendorId === userId;
+    if (!isBuyer && !isVendor && role !== 'ADMIN') {
+      throw new ForbiddenException(
+        'You are not authorized to view this delivery',
+      );
+    }
+
+    return delivery;
+  }
+
+  async getPoolDeliveries(poolId: string, userId: string, role: string) {
+    const pool = await this.prisma.pool.findUnique({
+      where: { id: poolId },
+      select: { vendorId: true },
+    });
+
+    if (!pool) throw new NotFoundException('Pool not found');
+
+    if (pool.vendorId !== userId && role !== 'ADMIN') {
+      throw new ForbiddenException(
+        'Only the pool vendor can view its deliveries',
+      );
+    }
+
+    return this.prisma.delivery.findMany({
+      where: { poolId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            phone: true,
+          },
+        },
+        subscription: {
+          select: {
+            slots: true,
+            deliveryFee: true,
+            variant: true,
+            pickupLocation: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // ============================================
+  // SCHEDULED AUTO-CONFIRMATION
+  // ============================================
+
+  /**
+   * Run every hour - confirm deliveries buyers left unconfirmed past the
+   * confirm window and start escrow grace periods for completed pools
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleOverdueDeliveries() {
+    try {
+      const result = await this.autoConfirmDeliveries();
+      if (result.confirmed > 0) {
+        this.logger.log(
+          `Auto-confirmed ${result.confirmed} deliveries across ${result.pools} pools`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Delivery auto-confirmation failed:', error);
+    }
+  }
+
+  /**
+   * Confirm deliveries the buyer did not respond to within the confirm window
+   */
+  async autoConfirmDeliveries() {
+    const cutoff = new Date(
+      Date.now() - this.CONFIRM_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    const overdue = await this.prisma.delivery.findMany({
+      where: {
+        status: DeliveryStatus.DELIVERED,
+        deliveredAt: { lte: cutoff },
+      },
+      select: { id: true, poolId: true },
+    });
+
+    if (overdue.length === 0) return { confirmed: 0, pools: 0 };
+
+    const result = await this.prisma.delivery.updateMany({
+      where: {
+        id: { in: overdue.map((delivery) => delivery.id) },
+        status: DeliveryStatus.DELIVERED,
+      },
+      data: {
+        status: DeliveryStatus.CONFIRMED,
+        confirmedAt: new Date(),
+        autoConfirmed: true,
+      },
+    });
+
+    const poolIds = [...new Set(overdue.map((delivery) => delivery.poolId))];
+    for (const poolId of poolIds) {
+      try {
+        await this.checkPoolDeliveriesComplete(poolId);
+      } catch (error) {
+        this.logger.error(
+          `Failed to settle deliveries for pool ${poolId}`,
+          (error as Error).stack,
+        );
+      }
+    }
+
+    return { confirmed: result.count, pools: poolIds.length };
+  }
+
+  /**
+   * Start the escrow grace period once every subscription in the pool
+   * has a confirmed delivery
+   */
+  private async checkPoolDeliveriesComplete(poolId: string) {
+    const [subscriptions, confirmed] = await Promise.all([
+      this.prisma.subscription.count({
+        where: { poolId, status: SubscriptionStatus.ACTIVE },
+      }),
+      this.prisma.delivery.count({
+        where: { poolId, status: DeliveryStatus.CONFIRMED },
+      }),
+    ]);
+
+    if (confirmed < subscriptions) return false;
+
+    return this.escrowService.markReleasable(poolId);
+  }
+
+  private async getVendorDelivery(id: string, vendorId: string) {
+    const delivery = await this.prisma.delivery.findUnique({
+      where: { id },
+      include: { pool: { include: { product: true } } },
+    });
+
+    if (!delivery) throw new NotFoundException('Delivery not found');
+
+    if (delivery.pool.vendorId !== vendorId) {
+      throw new ForbiddenException('You can only update your own deliveries');
+    }
+
+    return delivery;
+  }
+
+  private async notifyBuyer(
+    userId: string,
+    poolId: string,
+    title: string,
+    message: string,
+  ) {
+    try {
+      await this.notificationsService.sendNotification(
+        userId,
+        NotificationType.POOL_UPDATE,
+        [NotificationMedium.IN_APP, NotificationMedium.EMAIL],
+        { title, message, poolId },
+      );
+    } catch (error) {
+      this.logger.error('Failed to send delivery notification', error);
+    }
+  }
+}
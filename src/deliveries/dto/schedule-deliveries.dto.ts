@@ -0,0 +1,11 @@
+import { IsDateString, IsOptional, IsString } from 'class-validator';
+
+export class ScheduleDeliveriesDto {
+  @IsDateString()
+  @IsOptional()
+  scheduledFor?: string;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
@@ -0,0 +1,77 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Role } from '../constant';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { DemandRequestsService } from './demand-requests.service';
+import {
+  ConvertDemandDto,
+  CreateDemandRequestDto,
+  DemandQueryDto,
+} from './dto/demand-request.dto';
+
+@ApiTags('Demand Requests')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('demand-requests')
+export class DemandRequestsController {
+  constructor(private readonly demandRequestsService: DemandRequestsService) {}
+
+  @Post()
+  @Roles(Role.BUYER)
+  @ApiOperation({ summary: 'Post demand for a product with no pool yet' })
+  create(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreateDemandRequestDto,
+  ) {
+    return this.demandRequestsService.create(req.user.userId, dto);
+  }
+
+  @Get('my')
+  @Roles(Role.BUYER)
+  @ApiOperation({ summary: 'Get my demand requests' })
+  findMine(@Req() req: AuthenticatedRequest) {
+    return this.demandRequestsService.findMine(req.user.userId);
+  }
+
+  @Delete(':id')
+  @Roles(Role.BUYER)
+  @ApiOperation({ summary: 'Cancel an open demand request' })
+  cancel(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    return this.demandRequestsService.cancel(id, req.user.userId);
+  }
+
+  @Get('aggregate')
+  @Roles(Role.VENDOR, Role.ADMIN)
+  @ApiOperation({
+    summary: 'Open demand grouped by product, state and month',
+  })
+  getAggregatedDemand(@Query() query: DemandQueryDto) {
+    return this.demandRequestsService.getAggregatedDemand(query);
+  }
+
+  @Post('convert')
+  @Roles(Role.VENDOR)
+  @ApiOperation({
+    summary:
+      'Create a pool for a demand group and reserve slots for its buyers',
+  })
+  convertToPool(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: ConvertDemandDto,
+  ) {
+    return this.demandRequestsService.convertToPool(req.user.userId, dto);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { DemandRequestsController } from './demand-requests.controller';
+import { DemandRequestsService } from './demand-requests.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { PoolsModule } from '../pools/pools.module';
+import { WaitlistModule } from '../waitlist/waitlist.module';
+
+@Module({
+  imports: [PrismaModule, NotificationsModule, PoolsModule, WaitlistModule],
+  controllers: [DemandRequestsController],
+  providers: [DemandRequestsService],
+  exports: [DemandRequestsService],
+})
+export class DemandRequestsModule {}
@@ -0,0 +1,200 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { DemandRequestsService } from './demand-requests.service';
+import { PrismaService } from '../services/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PoolsService } from '../pools/pools.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { DemandRequestStatus } from '@prisma/client';
+import { ConvertDemandDto } from './dto/demand-request.dto';
+
+describe('DemandRequestsService', () => {
+  let service: DemandRequestsService;
+
+  const mockPrismaService = {
+    productCatalog: {
+      findUnique: jest.fn(),
+    },
+    demandRequest: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockNotificationsService = {
+    sendNotification: jest.fn(),
+  };
+
+  const mockPoolsService = {
+    create: jest.fn(),
+  };
+
+  const mockWaitlistService = {
+    offerSlots: jest.fn(),
+  };
+
+  const product = {
+    id: 'product-1',
+    name: 'Stockfish',
+    unit: 'bag',
+    category: 'STOCKFISH',
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DemandRequestsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: PoolsService, useValue: mockPoolsService },
+        { provide: WaitlistService, useValue: mockWaitlistService },
+      ],
+    }).compile();
+
+    service = module.get<DemandRequestsService>(DemandRequestsService);
+  });
+
+  it('should group open demand by product, state and month', async () => {
+    mockPrismaService.demandRequest.findMany.mockResolvedValue([
+      {
+        productId: 'product-1',
+        userId: 'buyer-1',
+        state: 'FCT',
+        slots: 5,
+        neededBy: new Date('2026-12-10'),
+        maxPricePerSlot: 20000,
+        product,
+      },
+      {
+        productId: 'product-1',
+        userId: 'buyer-2',
+        state: 'fct',
+        slots: 3,
+        neededBy: new Date('2026-12-20'),
+        maxPricePerSlot: null,
+        product,
+      },
+      {
+        productId: 'product-1',
+        userId: 'buyer-1',
+        state: 'FCT',
+        slots: 2,
+        neededBy: new Date('2027-01-05'),
+        maxPricePerSlot: null,
+        product,
+      },
+    ]);
+
+    const demand = await service.getAggregatedDemand({});
+
+    expect(demand).toEqual([
+      {
+        product,
+        state: 'FCT',
+        month: '2026-12',
+        requests: 2,
+        buyers: 2,
+        totalSlots: 8,
+        maxPricePerSlot: { min: 20000, max: 20000 },
+      },
+      {
+        product,
+        state: 'FCT',
+        month: '2027-01',
+        requests: 1,
+        buyers: 1,
+        totalSlots: 2,
+        maxPricePerSlot: null,
+      },
+    ]);
+  });
+
+  it('should create the pool and reserve slots for interested buyers', async () => {
+    mockPrismaService.demandRequest.findMany.mockResolvedValue([
+      { id: 'req-1', userId: 'buyer-1', slots: 5 },
+      { id: 'req-2', userId: 'buyer-2', slots: 30 },
+    ]);
+    mockPrismaService.demandRequest.updateMany.mockResolvedValue({ count: 1 });
+    mockPoolsService.create.mockResolvedValue({
+      id: 'pool-1',
+      pricePerSlot: 20000,
+      product,
+    });
+    mockWaitlistService.offerSlots
+      .mockResolvedValueOnce({ id: 'entry-1' })
+      .mockRejectedValueOnce(
+        new BadRequestException('Not enough slots available'),
+      );
+
+    const result = await service.convertToPool('vendor-1', {
+      productId: 'product-1',
+      priceTotal: 400000,
+      slotsCount: 20,
+      state: 'FCT',
+      month: '2026-12',
+    });
+
+    expect(mockPoolsService.create).toHaveBeenCalledWith(
+      { productId: 'product-1', priceTotal: 400000, slotsCount: 20 },
+      'vendor-1',
+    );
+    expect(mockPrismaService.demandRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: 'req-1', status: DemandRequestStatus.OPEN },
+      data: {
+        status: DemandRequestStatus.CONVERTED,
+        poolId: 'pool-1',
+        convertedAt: expect.any(Date) as Date,
+      },
+    });
+    expect(mockWaitlistService.offerSlots).toHaveBeenCalledWith(
+      'pool-1',
+      'buyer-1',
+      5,
+      24,
+    );
+    // The buyer whose request did not fit is still told about the pool
+    expect(mockNotificationsService.sendNotification).toHaveBeenCalledWith(
+      'buyer-2',
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ poolId: 'pool-1' }),
+    );
+    expect(result).toMatchObject({
+      requestsConverted: 2,
+      buyersReserved: 1,
+      reservedSlots: 5,
+    });
+  });
+
+  it('should not create a pool when there is no matching demand', async () => {
+    mockPrismaService.demandRequest.findMany.mockResolvedValue([]);
+
+    await expect(
+      service.convertToPool('vendor-1', {
+        productId: 'product-1',
+        state: 'FCT',
+        month: '2026-12',
+      } as ConvertDemandDto),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockPoolsService.create).not.toHaveBeenCalled();
+  });
+
+  it('should only let buyers cancel their own requests', async () => {
+    mockPrismaService.demandRequest.findUnique.mockResolvedValue({
+      id: 'req-1',
+      userId: 'buyer-1',
+      status: DemandRequestStatus.OPEN,
+    });
+
+    await expect(service.cancel('req-1', 'buyer-2')).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(mockPrismaService.demandRequest.update).not.toHaveBeenCalled();
+  });
+});
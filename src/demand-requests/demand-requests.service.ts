@@ -0,0 +1,322 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PoolsService } from '../pools/pools.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import {
+  DemandRequestStatus,
+  NotificationMedium,
+  NotificationType,
+} from '@prisma/client';
+import {
+  ConvertDemandDto,
+  CreateDemandRequestDto,
+  DemandQueryDto,
+} from './dto/demand-request.dto';
+
+interface DemandGroup {
+  product: { id: string; name: string; unit: string; category: string | null };
+  state: string;
+  month: string;
+  requests: number;
+  buyers: Set<string>;
+  totalSlots: number;
+  maxPrices: number[];
+}
+
+/**
+ * DemandRequestsService lets buyers post demand that has no pool yet.
+ *
+ * Open requests are grouped by product, state and the month they are
+ * needed in so vendors can see where demand is. A vendor converts a group
+ * into a pool in one call: the pool is created, the requests are marked
+ * CONVERTED and each interested buyer gets their slots reserved through a
+ * waitlist offer before the pool is open to everyone else.
+ */
+@Injectable()
+export class DemandRequestsService {
+  private readonly logger = new Logger(DemandRequestsService.name);
+  private readonly FIRST_ACCESS_WINDOW_HOURS = 24; // Hours requesters have to pay
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationsService: NotificationsService,
+    private poolsService: PoolsService,
+    private waitlistService: WaitlistService,
+  ) {}
+
+  async create(userId: string, dto: CreateDemandRequestDto) {
+    const product = await this.prisma.productCatalog.findUnique({
+      where: { id: dto.productId },
+    });
+
+    if (!product || !product.active) {
+      throw new BadRequestException('Product not available');
+    }
+
+    const neededBy = new Date(dto.neededBy);
+    if (neededBy <= new Date()) {
+      throw new BadRequestException('neededBy must be in the future');
+    }
+
+    const state = dto.state.trim();
+    const { start, end } = this.monthRange(this.monthKey(neededBy));
+
+    // One open request per product, state and month; buyers edit by reposting
+    const existing = await this.prisma.demandRequest.findFirst({
+      where: {
+        userId,
+        productId: dto.productId,
+        state: { equals: state, mode: 'insensitive' },
+        neededBy: { gte: start, lt: end },
+        status: DemandRequestStatus.OPEN,
+      },
+    });
+
+    if (existing) {
+      throw new BadRequestException(
+        'You already have an open request for this product, state and month',
+      );
+    }
+
+    const request = await this.prisma.demandRequest.create({
+      data: {
+        userId,
+        productId: dto.productId,
+        slots: dto.slots,
+        state,
+        neededBy,
+        maxPricePerSlot: dto.maxPricePerSlot,
+        notes: dto.notes,
+      },
+      include: { product: true },
+    });
+
+    this.logger.log(
+      `User ${userId} requested ${dto.slots} slot(s) of ${product.name} in ${state}`,
+    );
+
+    return request;
+  }
+
+  async findMine(userId: string) {
+    return this.prisma.demandRequest.findMany({
+      where: { userId },
+      include: {
+        product: true,
+        pool: { select: { id: true, status: true, pricePerSlot: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async cancel(id: string, userId: string) {
+    const request = await this.prisma.demandRequest.findUnique({
+      where: { id },
+    });
+
+    if (!request) throw new NotFoundException('Demand request not found');
+
+    if (request.userId !== userId) {
+      throw new ForbiddenException('You can only cancel your own requests');
+    }
+
+    if (request.status !== DemandRequestStatus.OPEN) {
+      throw new BadRequestException('Only open requests can be cancelled');
+    }
+
+    return this.prisma.demandRequest.update({
+      where: { id },
+      data: { status: DemandRequestStatus.CANCELLED },
+    });
+  }
+
+  /**
+   * Open demand still to come, grouped by product, state and month.
+   * Largest groups first within each month.
+   */
+  async getAggregatedDemand(query: DemandQueryDto) {
+    const requests = await this.prisma.demandRequest.findMany({
+      where: {
+        status: DemandRequestStatus.OPEN,
+        neededBy: { gte: new Date() },
+        ...(query.productId && { productId: query.productId }),
+        ...(query.state && {
+          state: { equals: query.state.trim(), mode: 'insensitive' },
+        }),
+      },
+      include: {
+        product: {
+          select: { id: true, name: true, unit: true, category: true },
+        },
+      },
+    });
+
+    const groups = new Map<string, DemandGroup>();
+    for (const request of requests) {
+      const month = this.monthKey(request.neededBy);
+      const key = `${request.productId}|${request.state.toLowerCase()}|${month}`;
+      const group = groups.get(key) ?? {
+        product: request.product,
+        state: request.state,
+        month,
+        requests: 0,
+        buyers: new Set<string>(),
+        totalSlots: 0,
+        maxPrices: [],
+      };
+
+      group.requests++;
+      group.buyers.add(request.userId);
+      group.totalSlots += request.slots;
+      if (request.maxPricePerSlot !== null) {
+        group.maxPrices.push(Number(request.maxPricePerSlot));
+      }
+      groups.set(key, group);
+    }
+
+    return [...groups.values()]
+      .sort(
+        (a, b) => a.month.localeCompare(b.month) || b.totalSlots - a.totalSlots,
+      )
+      .map(({ buyers, maxPrices, ...group }) => ({
+        ...group,
+        buyers: buyers.size,
+        maxPricePerSlot: maxPrices.length
+          ? { min: Math.min(...maxPrices), max: Math.max(...maxPrices) }
+          : null,
+      }));
+  }
+
+  /**
+   * Create a pool for one demand group and give its buyers first access
+   */
+  async convertToPool(vendorId: string, dto: ConvertDemandDto) {
+    const { state, month, ...poolDto } = dto;
+    const { start, end } = this.monthRange(month);
+
+    const requests = await this.prisma.demandRequest.findMany({
+      where: {
+        status: DemandRequestStatus.OPEN,
+        productId: poolDto.productId,
+        state: { equals: state.trim(), mode: 'insensitive' },
+        neededBy: { gte: start, lt: end },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!requests.length) {
+      throw new BadRequestException(
+        'No open demand for this product, state and month',
+      );
+    }
+
+    const pool = await this.poolsService.create(poolDto, vendorId);
+    const convertedAt = new Date();
+
+    // Claim each request so a concurrent conversion cannot take it too
+    const slotsByBuyer = new Map<string, number>();
+    let requestsConverted = 0;
+    for (const request of requests) {
+      const claimed = await this.prisma.demandRequest.updateMany({
+        where: { id: request.id, status: DemandRequestStatus.OPEN },
+        data: {
+          status: DemandRequestStatus.CONVERTED,
+          poolId: pool.id,
+          convertedAt,
+        },
+      });
+
+      if (claimed.count === 0) continue;
+
+      requestsConverted++;
+      slotsByBuyer.set(
+        request.userId,
+        (slotsByBuyer.get(request.userId) ?? 0) + request.slots,
+      );
+    }
+
+    let reservedSlots = 0;
+    let buyersReserved = 0;
+
+    for (const [userId, slots] of slotsByBuyer) {
+      try {
+        // The offer notifies the buyer of their reserved slots
+        await this.waitlistService.offerSlots(
+          pool.id,
+          userId,
+          slots,
+          this.FIRST_ACCESS_WINDOW_HOURS,
+        );
+        reservedSlots += slots;
+        buyersReserved++;
+      } catch (error) {
+        this.logger.warn(
+          `Could not reserve ${slots} slot(s) in pool ${pool.id} for ${userId}: ${(error as Error).message}`,
+        );
+        await this.notify(
+          userId,
+          pool.id,
+          'A pool you asked for is open',
+          `A vendor opened a "${pool.product.name}" pool for your request at ₦${Number(pool.pricePerSlot).toLocaleString()} per slot. There weren't enough slots to hold ${slots} for you, so join soon.`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Vendor ${vendorId} converted demand for ${poolDto.productId} in ${state} (${month}) into pool ${pool.id}: ${reservedSlots} slot(s) reserved for ${buyersReserved} buyer(s)`,
+    );
+
+    return {
+      pool,
+      requestsConverted,
+      buyersReserved,
+      reservedSlots,
+    };
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private monthKey(date: Date) {
+    return date.toISOString().slice(0, 7);
+  }
+
+  private monthRange(month: string) {
+    const [year, monthIndex] = month.split('-').map(Number);
+
+    return {
+      start: new Date(Date.UTC(year, monthIndex - 1, 1)),
+      end: new Date(Date.UTC(year, monthIndex, 1)),
+    };
+  }
+
+  private async notify(
+    userId: string,
+    poolId: string,
+    title: string,
+    message: string,
+  ) {
+    try {
+      await this.notificationsService.sendNotification(
+        userId,
+        NotificationType.POOL_UPDATE,
+        [
+          NotificationMedium.IN_APP,
+          NotificationMedium.EMAIL,
+          NotificationMedium.PUSH,
+        ],
+        { title, message, poolId, url: `/buyer/pool/${poolId}` },
+      );
+    } catch (error) {
+      this.logger.error('Failed to send demand notification', error);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { CreatePoolDto } from '../../pools/dto/create-pool.dto';
+
+// Demand is grouped by calendar month, written as YYYY-MM
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export class CreateDemandRequestDto {
+  @ApiProperty({ description: 'ProductCatalog id' })
+  @IsUUID()
+  productId: string;
+
+  @ApiProperty({ example: 5 })
+  @IsInt()
+  @Min(1)
+  slots: number;
+
+  @ApiProperty({ example: 'FCT' })
+  @IsString()
+  @IsNotEmpty()
+  state: string;
+
+  @ApiProperty({ example: '2026-12-15' })
+  @IsDateString()
+  neededBy: string;
+
+  @ApiPropertyOptional({
+    example: 20000,
+    description: 'Most the buyer will pay per slot',
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  maxPricePerSlot?: number;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  notes?: string;
+}
+
+export class DemandQueryDto {
+  @ApiPropertyOptional()
+  @IsUUID()
+  @IsOptional()
+  productId?: string;
+
+  @ApiPropertyOptional({ example: 'Lagos' })
+  @IsString()
+  @IsOptional()
+  state?: string;
+}
+
+// Pool settings plus the demand group the pool answers
+export class ConvertDemandDto extends CreatePoolDto {
+  @ApiProperty({ example: 'FCT' })
+  @IsString()
+  @IsNotEmpty()
+  state: string;
+
+  @ApiProperty({ example: '2026-12' })
+  @Matches(MONTH_PATTERN, { message: 'month must be in YYYY-MM format' })
+  month: string;
+}
@@ -5,10 +5,18 @@ import { PrismaModule } from '../../prisma/prisma.module';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { EmailChannelService } from '../notifications/channels/email.channel';
 import { EscrowModule } from '../escrow/escrow.module';
+import { RefundsModule } from '../refunds/refunds.module';
+import { PoolLifecycleModule } from '../pool-lifecycle/pool-lifecycle.module';
 import { cloudinaryConfig } from '../config/cloudinary.config';
 
 @Module({
-  imports: [PrismaModule, NotificationsModule, EscrowModule],
+  imports: [
+    PrismaModule,
+    NotificationsModule,
+    EscrowModule,
+    RefundsModule,
+    PoolLifecycleModule,
+  ],
   controllers: [DisputesController],
   providers: [DisputesService, EmailChannelService, cloudinaryConfig],
   exports: [DisputesService],
@@ -11,9 +11,11 @@ import {
 import { PrismaService } from '../services/prisma.service';
 import { EmailChannelService } from '../notifications/channels/email.channel';
 import { EscrowService } from '../escrow/escrow.service';
+import { EscrowComputations, RefundsService } from '../refunds/refunds.service';
+import { PoolLifecycleService } from '../pool-lifecycle/pool-lifecycle.service';
 import { v2 as cloudinary } from 'cloudinary';
 import { streamUpload } from '../utils/cloudinary.helper';
-import { TransactionType, TransactionStatus } from '@prisma/client';
+import { PoolStatus, Subscription, SubscriptionStatus } from '@prisma/client';
 
 @Injectable()
 export class DisputesService {
@@ -25,6 +27,8 @@ export class DisputesService {
     private prisma: PrismaService,
     private emailChannel: EmailChannelService,
     private escrowService: EscrowService,
+    private refundsService: RefundsService,
+    private poolLifecycle: PoolLifecycleService,
     @Inject('CLOUDINARY') private cloudinaryClient: typeof cloudinary,
   ) {}
 
@@ -39,6 +43,7 @@ export class DisputesService {
       where: {
         poolId,
         userId: raisedByUserId,
+        status: SubscriptionStatus.ACTIVE,
       },
     });
 
@@ -52,7 +57,7 @@ export class DisputesService {
       where: { id: poolId },
       include: {
         vendor: true,
-        subscriptions: true,
+        subscriptions: { where: { status: SubscriptionStatus.ACTIVE } },
       },
     });
 
@@ -96,6 +101,8 @@ export class DisputesService {
       },
     });
 
+    await this.syncPoolDisputeStatus(poolId, raisedByUserId);
+
     // Calculate dispute threshold
     const totalSubscribers = pool.subscriptions.length;
     const complainantRatio = 1 / totalSubscribers;
@@ -123,7 +130,8 @@ export class DisputesService {
         this.logger.log(`Full escrow withheld for pool ${poolId}`);
       } else if (complainantRatio >= this.THRESHOLD_PARTIAL_HOLD) {
         // Hold proportional amount
-        const contributions = (escrow.computations as any)?.contributions || {};
+        const contributions =
+          (escrow.computations as EscrowComputations)?.contributions || {};
         const disputantContribution = contributions[raisedByUserId] || 0;
 
         await this.escrowService.withholdEscrow(
@@ -250,6 +258,7 @@ export class DisputesService {
           include: {
             vendor: true,
             subscriptions: {
+              where: { status: SubscriptionStatus.ACTIVE },
               include: {
                 user: true,
               },
@@ -276,6 +285,17 @@ export class DisputesService {
       throw new NotFoundException('Escrow entry not found');
     }
 
+    // Buyers to pay back, worked out before anything changes
+    const payouts: Record<string, number> = {};
+    if (action === 'refund') {
+      const contributions =
+        (escrow.computations as EscrowComputations)?.contributions || {};
+      payouts[dispute.raisedByUserId] =
+        contributions[dispute.raisedByUserId] || 0;
+    } else if (action === 'split' && distribution) {
+      Object.assign(payouts, distribution);
+    }
+
     await this.prisma.$transaction(async (tx) => {
       // Update dispute status
       await tx.dispute.update({
@@ -288,118 +308,8 @@ export class DisputesService {
         },
       });
 
-      // Execute resolution action
-      if (action === 'refund') {
-        // Refund the complainant
-        const contributions = (escrow.computations as any)?.contributions || {};
-        const refundAmount = contributions[dispute.raisedByUserId] || 0;
-
-        // Create refund transaction
-        await tx.transaction.create({
-          data: {
-            userId: dispute.raisedByUserId,
-            poolId: dispute.poolId,
-            amount: refundAmount,
-            fees: 0,
-            status: TransactionStatus.SUCCESS,
-            type: TransactionType.REFUND,
-            metadata: {
-              disputeId,
-              resolutionType: 'refund',
-              reason: resolutionNotes,
-            },
-          },
-        });
-
-        // Update escrow
-        await tx.escrowEntry.update({
-          where: { id: escrow.id },
-          data: {
-            withheldAmount: 0,
-            withheldReason: null,
-            releasedAmount: Number(escrow.releasedAmount) + refundAmount,
-          },
-        });
-
-        // Send notification
-        await this.emailChannel.send(
-          dispute.raisedBy.email,
-          'Dispute Resolved - Refund Issued',
-          `Your dispute has been resolved. A refund of ₦${refundAmount.toLocaleString()} has been issued.`,
-        );
-
-        this.logger.log(
-          `Refund of ₦${refundAmount} issued for dispute ${disputeId}`,
-        );
-      } else if (action === 'release') {
-        // Release to vendor
-        const withheldAmount = Number(escrow.withheldAmount);
-
-        await tx.escrowEntry.update({
-          where: { id: escrow.id },
-          data: {
-            withheldAmount: 0,
-            withheldReason: null,
-          },
-        });
-
-        await this.emailChannel.send(
-          dispute.pool.vendor.email,
-          'Dispute Resolved - Escrow Released',
-          `The dispute has been resolved in your favor. Withheld escrow of ₦${withheldAmount.toLocaleString()} will be released.`,
-        );
-
-        this.logger.log(`Escrow released for vendor in dispute ${disputeId}`);
-      } else if (action === 'split' && distribution) {
-        // Split based on custom distribution
-        let totalRefunded = 0;
-
-        for (const [userId, amount] of Object.entries(distribution)) {
-          // Create refund transactions
-          await tx.transaction.create({
-            data: {
-              userId,
-              poolId: dispute.poolId,
-              amount,
-              fees: 0,
-              status: TransactionStatus.SUCCESS,
-              type: TransactionType.REFUND,
-              metadata: {
-                disputeId,
-                resolutionType: 'split',
-              },
-            },
-          });
-
-          totalRefunded += amount;
-
-          // Notify each user
-          const user = dispute.pool.subscriptions.find(
-            (sub) => sub.userId === userId,
-          )?.user;
-          if (user) {
-            await this.emailChannel.send(
-              user.email,
-              'Dispute Resolved - Partial Refund',
-              `The dispute has been resolved. You have been refunded ₦${amount.toLocaleString()}.`,
-            );
-          }
-        }
-
-        // Update escrow
-        await tx.escrowEntry.update({
-          where: { id: escrow.id },
-          data: {
-            withheldAmount: 0,
-            withheldReason: null,
-            releasedAmount: Number(escrow.releasedAmount) + totalRefunded,
-          },
-        });
-
-        this.logger.log(
-          `Split resolution completed for dispute ${disputeId}. Total refunded: ₦${totalRefunded}`,
-        );
-      }
+      // The hold ends either way; refunds come out of the buyers' contributions
+      await this.escrowService.clearWithheld(dispute.poolId, disputeId, tx);
 
       // Create admin audit log
       if (adminId) {
@@ -419,15 +329,121 @@ export class DisputesService {
       }
     });
 
+    await this.syncPoolDisputeStatus(dispute.poolId, adminId);
+
+    if (action === 'release') {
+      const withheldAmount = Number(escrow.withheldAmount);
+
+      await this.emailChannel.send(
+        dispute.pool.vendor.email,
+        'Dispute Resolved - Escrow Released',
+        `The dispute has been resolved in your favor. Withheld escrow of ₦${withheldAmount.toLocaleString()} will be released.`,
+      );
+
+      this.logger.log(`Escrow released for vendor in dispute ${disputeId}`);
+    }
+
+    // Gateway refunds run after the resolution is saved
+    const refunds: Array<{
+      userId: string;
+      requested: number;
+      refunded: number;
+    }> = [];
+
+    for (const [userId, amount] of Object.entries(payouts)) {
+      if (amount <= 0) continue;
+
+      const refunded = await this.refundBuyer(
+        dispute.pool.subscriptions.filter((sub) => sub.userId === userId),
+        amount,
+        disputeId,
+        action,
+        resolutionNotes,
+      );
+      refunds.push({ userId, requested: amount, refunded });
+
+      if (refunded < amount) {
+        this.logger.error(
+          `Dispute ${disputeId}: refunded ₦${refunded} of ₦${amount} to ${userId}; the rest needs a manual refund`,
+        );
+      }
+
+      const user = dispute.pool.subscriptions.find(
+        (sub) => sub.userId === userId,
+      )?.user;
+      if (user && refunded > 0) {
+        await this.emailChannel.send(
+          user.email,
+          action === 'refund'
+            ? 'Dispute Resolved - Refund Issued'
+            : 'Dispute Resolved - Partial Refund',
+          `The dispute has been resolved. A refund of ₦${refunded.toLocaleString()} has been issued.`,
+        );
+      }
+    }
+
+    if (refunds.length) {
+      this.logger.log(
+        `Dispute ${disputeId} (${action}): refunded ₦${refunds.reduce((sum, r) => sum + r.refunded, 0)} to ${refunds.length} buyer(s)`,
+      );
+    }
+
     this.logger.log(`Dispute ${disputeId} resolved with action: ${action}`);
 
     return {
       message: 'Dispute resolved successfully',
       action,
       disputeId,
+      refunds,
     };
   }
 
+  /**
+   * Refund a buyer across their subscriptions in the pool,
+   * up to what each charge still has refundable. Returns the amount the
+   * gateways accepted.
+   */
+  private async refundBuyer(
+    subscriptions: Subscription[],
+    amount: number,
+    disputeId: string,
+    action: string,
+    reason?: string,
+  ) {
+    let remaining = amount;
+    let refunded = 0;
+
+    for (const subscription of subscriptions) {
+      if (remaining <= 0) break;
+
+      const refundable =
+        await this.refundsService.getRefundableAmount(subscription);
+      const share = Math.min(remaining, refundable);
+      if (share <= 0) continue;
+
+      const accepted = await this.refundsService.tryRefund({
+        subscription,
+        amount: share,
+        reason: reason || `Dispute ${disputeId} resolved: ${action}`,
+        metadata: { disputeId, resolutionType: action },
+        settle: async (tx, value) => {
+          await this.escrowService.deductContribution(
+            subscription.poolId,
+            subscription.userId,
+            value,
+            tx,
+            subscription.variantId,
+          );
+        },
+      });
+
+      remaining -= share;
+      if (accepted) refunded += share;
+    }
+
+    return refunded;
+  }
+
   async incrementComplainantCount(poolId: string): Promise<void> {
     // When multiple users raise disputes for the same pool
     await this.prisma.dispute.updateMany({
@@ -479,6 +495,8 @@ export class DisputesService {
       });
     }
 
+    await this.syncPoolDisputeStatus(dispute.poolId, adminId);
+
     this.logger.log(`Dispute ${disputeId} status updated to ${status}`);
 
     return {
@@ -487,6 +505,38 @@ export class DisputesService {
     };
   }
 
+  /**
+   * Keep a pool DISPUTED while any of its disputes is open, and move it back
+   * to the status it was disputed from once they are all closed
+   */
+  async syncPoolDisputeStatus(poolId: string, actorId?: string) {
+    const open = await this.prisma.dispute.count({
+      where: { poolId, status: { in: ['open', 'in_review'] } },
+    });
+
+    if (open > 0) {
+      // Open pools have nothing delivered to dispute yet
+      await this.poolLifecycle.transition(poolId, PoolStatus.DISPUTED, {
+        from: [PoolStatus.FILLED, PoolStatus.IN_DELIVERY],
+        actorId,
+        reason: 'Dispute raised',
+      });
+      return;
+    }
+
+    const disputed = await this.prisma.poolStatusHistory.findFirst({
+      where: { poolId, toStatus: PoolStatus.DISPUTED },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!disputed) return;
+
+    await this.poolLifecycle.transition(poolId, disputed.fromStatus, {
+      from: [PoolStatus.DISPUTED],
+      actorId,
+      reason: 'Disputes closed',
+    });
+  }
+
   async getDisputeStatistics(poolId?: string) {
     const where: any = {};
     if (poolId) {
@@ -620,7 +670,7 @@ export class DisputesService {
     const pool = await this.prisma.pool.findUnique({
       where: { id: poolId },
       include: {
-        subscriptions: true,
+        subscriptions: { where: { status: SubscriptionStatus.ACTIVE } },
         disputes: {
           where: {
             status: { in: ['open', 'in_review'] },
@@ -729,19 +779,7 @@ export class DisputesService {
       });
 
       // Release any withheld escrow
-      const escrow = await tx.escrowEntry.findFirst({
-        where: { poolId: dispute.poolId },
-      });
-
-      if (escrow && Number(escrow.withheldAmount) > 0) {
-        await tx.escrowEntry.update({
-          where: { id: escrow.id },
-          data: {
-            withheldAmount: 0,
-            withheldReason: null,
-          },
-        });
-      }
+      await this.escrowService.clearWithheld(dispute.poolId, disputeId, tx);
 
       // Create audit log
       await tx.adminAuditLog.create({
@@ -757,6 +795,8 @@ export class DisputesService {
       });
     });
 
+    await this.syncPoolDisputeStatus(dispute.poolId, adminId);
+
     // Notify complainant
     await this.emailChannel.send(
       dispute.raisedBy.email,
@@ -1136,11 +1176,6 @@ export class DisputesService {
       throw new NotFoundException('Dispute not found');
     }
 
-    // Get escrow entry
-    const escrow = await this.prisma.escrowEntry.findFirst({
-      where: { poolId: dispute.poolId },
-    });
-
     await this.prisma.$transaction(async (tx) => {
       // Update dispute status
       await tx.dispute.update({
@@ -1153,17 +1188,13 @@ export class DisputesService {
       });
 
       // Release withheld escrow if exists
-      if (escrow && Number(escrow.withheldAmount) > 0) {
-        const withheldAmount = Number(escrow.withheldAmount);
-
-        await tx.escrowEntry.update({
-          where: { id: escrow.id },
-          data: {
-            withheldAmount: 0,
-            withheldReason: null,
-          },
-        });
+      const withheldAmount = await this.escrowService.clearWithheld(
+        dispute.poolId,
+        disputeId,
+        tx,
+      );
 
+      if (withheldAmount > 0) {
         this.logger.log(
           `Released withheld escrow of ₦${withheldAmount} for dispute ${disputeId}`,
         );
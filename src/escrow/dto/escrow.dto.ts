@@ -1,4 +1,10 @@
-import { IsString, IsNumber, IsOptional, IsObject } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsObject,
+  IsBoolean,
+} from 'class-validator';
 
 export class CreateEscrowDto {
   @IsString()
@@ -28,6 +34,11 @@ export class PartialReleaseDto {
   releaseMap: Record<string, number>; // buyerId -> amount
 }
 
+export class RetryReleaseDto {
+  @IsString()
+  poolId: string;
+}
+
 export class ManualReleaseDto {
   @IsString()
   poolId: string;
@@ -48,4 +59,9 @@ export class ManualRefundDto {
 
   @IsString()
   reason: string;
+
+  // Refund as store credit instead of to the card or bank
+  @IsOptional()
+  @IsBoolean()
+  toWallet?: boolean;
 }
@@ -10,6 +10,7 @@ import {
 } from '@nestjs/common';
 import { EscrowService } from './escrow.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
 import { Role } from '../constant';
@@ -18,9 +19,11 @@ import {
   PartialReleaseDto,
   ManualReleaseDto,
   ManualRefundDto,
+  RetryReleaseDto,
 } from './dto/escrow.dto';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { PrismaService } from '../services/prisma.service';
+import { SubscriptionStatus } from '@prisma/client';
 
 @ApiTags('Escrow')
 @ApiBearerAuth()
@@ -41,7 +44,10 @@ export class EscrowController {
     const pool = await this.prisma.pool.findUnique({
       where: { id: poolId },
       include: {
-        subscriptions: { select: { userId: true } },
+        subscriptions: {
+          where: { status: SubscriptionStatus.ACTIVE },
+          select: { userId: true },
+        },
       },
     });
 
@@ -113,6 +119,16 @@ export class EscrowController {
     return this.escrowService.partialRelease(dto.poolId, dto.releaseMap);
   }
 
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
+  @Post('admin/retry-release')
+  async retryRelease(
+    @Body() dto: RetryReleaseDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.escrowService.retryRelease(dto.poolId, req.user.userId);
+  }
+
   @UseGuards(RolesGuard)
   @Roles(Role.ADMIN)
   @Post('admin/manual-release')
@@ -128,6 +144,7 @@ export class EscrowController {
       dto.transactionId,
       dto.amount,
       dto.reason,
+      dto.toWallet,
     );
   }
 }
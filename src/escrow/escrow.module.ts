@@ -7,9 +7,20 @@ import { NotificationsModule } from '../notifications/notifications.module';
 import { EmailChannelService } from '../notifications/channels/email.channel';
 import { HttpModule } from '@nestjs/axios';
 import { ConfigModule } from '@nestjs/config';
+import { PoolLifecycleModule } from '../pool-lifecycle/pool-lifecycle.module';
+import { RefundsModule } from '../refunds/refunds.module';
+import { LedgerModule } from '../ledger/ledger.module';
 
 @Module({
-  imports: [PrismaModule, NotificationsModule, HttpModule, ConfigModule],
+  imports: [
+    PrismaModule,
+    NotificationsModule,
+    HttpModule,
+    ConfigModule,
+    PoolLifecycleModule,
+    RefundsModule,
+    LedgerModule,
+  ],
   controllers: [EscrowController],
   providers: [EscrowService, PaystackService, EmailChannelService],
   exports: [EscrowService, PaystackService],
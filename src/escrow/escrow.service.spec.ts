@@ -1,8 +1,19 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { EscrowService } from './escrow.service';
 import { PrismaService } from '../services/prisma.service';
+import { PaystackService } from '../services/paystack.service';
 import { EmailChannelService } from '../notifications/channels/email.channel';
-import { TransactionType, TransactionStatus, PoolStatus } from '@prisma/client';
+import { PoolLifecycleService } from '../pool-lifecycle/pool-lifecycle.service';
+import { RefundRequest, RefundsService } from '../refunds/refunds.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  TransactionType,
+  TransactionStatus,
+  PoolStatus,
+  JournalEntryType,
+  Prisma,
+} from '@prisma/client';
 
 describe('EscrowService', () => {
   let service: EscrowService;
@@ -12,15 +23,20 @@ describe('EscrowService', () => {
   const mockPrismaService = {
     subscription: {
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
     },
     escrowEntry: {
       findFirst: jest.fn(),
+      findUnique: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
     },
     transaction: {
       create: jest.fn(),
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
     },
     pool: {
       findUnique: jest.fn(),
@@ -32,10 +48,35 @@ describe('EscrowService', () => {
     $transaction: jest.fn(),
   };
 
+  const mockPaystackService = {
+    createTransferRecipient: jest.fn(),
+    initiateTransfer: jest.fn(),
+  };
+
   const mockEmailChannel = {
     send: jest.fn(),
   };
 
+  const mockPoolLifecycle = {
+    transition: jest.fn(),
+    publish: jest.fn(),
+  };
+
+  const mockRefundsService = {
+    refund: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    recordWithhold: jest.fn(),
+    recordRelease: jest.fn(),
+    recordPayout: jest.fn(),
+    reverse: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    notifyAdmins: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -44,10 +85,30 @@ describe('EscrowService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: PaystackService,
+          useValue: mockPaystackService,
+        },
         {
           provide: EmailChannelService,
           useValue: mockEmailChannel,
         },
+        {
+          provide: PoolLifecycleService,
+          useValue: mockPoolLifecycle,
+        },
+        {
+          provide: RefundsService,
+          useValue: mockRefundsService,
+        },
+        {
+          provide: LedgerService,
+          useValue: mockLedgerService,
+        },
+        {
+          provide: NotificationsService,
+          useValue: mockNotificationsService,
+        },
       ],
     }).compile();
 
@@ -55,13 +116,12 @@ describe('EscrowService', () => {
     prismaService = module.get<PrismaService>(PrismaService);
     emailChannel = module.get<EmailChannelService>(EmailChannelService);
 
-    // Reset all mocks
-    Object.values(mockPrismaService).forEach((service: any) => {
-      if (service && typeof service.mockReset === 'function') {
-        service.mockReset();
-      }
-    });
-    mockEmailChannel.send.mockReset();
+    // Reset all mocks; writes inside $transaction use the same client
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      async (callback: (tx: typeof mockPrismaService) => unknown) =>
+        callback(mockPrismaService),
+    );
   });
 
   it('should be defined', () => {
@@ -86,7 +146,9 @@ describe('EscrowService', () => {
     };
 
     it('should create new escrow entry successfully', async () => {
-      mockPrismaService.subscription.findUnique.mockResolvedValue(mockSubscription);
+      mockPrismaService.subscription.findUnique.mockResolvedValue(
+        mockSubscription,
+      );
       mockPrismaService.escrowEntry.findFirst.mockResolvedValue(null);
 
       const mockEscrow = {
@@ -137,7 +199,9 @@ describe('EscrowService', () => {
     });
 
     it('should update existing escrow entry', async () => {
-      mockPrismaService.subscription.findUnique.mockResolvedValue(mockSubscription);
+      mockPrismaService.subscription.findUnique.mockResolvedValue(
+        mockSubscription,
+      );
 
       const existingEscrow = {
         id: 'escrow-1',
@@ -164,12 +228,12 @@ describe('EscrowService', () => {
       });
       mockPrismaService.transaction.create.mockResolvedValue({ id: 'txn-1' });
 
-      const result = await service.createEscrowEntry('pool-1', 'sub-1');
+      await service.createEscrowEntry('pool-1', 'sub-1');
 
       expect(mockPrismaService.escrowEntry.update).toHaveBeenCalledWith({
         where: { id: 'escrow-1' },
         data: {
-          totalHeld: 18000,
+          totalHeld: { increment: 10000 },
           computations: {
             contributions: {
               [mockSubscription.userId]: 18000,
@@ -182,9 +246,9 @@ describe('EscrowService', () => {
     it('should throw NotFoundException if subscription not found', async () => {
       mockPrismaService.subscription.findUnique.mockResolvedValue(null);
 
-      await expect(service.createEscrowEntry('pool-1', 'sub-1')).rejects.toThrow(
-        'Subscription not found',
-      );
+      await expect(
+        service.createEscrowEntry('pool-1', 'sub-1'),
+      ).rejects.toThrow('Subscription not found');
     });
   });
 
@@ -256,6 +320,7 @@ describe('EscrowService', () => {
       vendor: {
         id: 'vendor-1',
         email: 'vendor@example.com',
+        paystackRecipientCode: 'RCP_1',
       },
       deliveryDeadlineUtc: new Date(Date.now() - 48 * 60 * 60 * 1000), // 2 days ago
       disputes: [],
@@ -276,12 +341,21 @@ describe('EscrowService', () => {
         return await callback(mockPrismaService);
       });
 
+      mockPrismaService.escrowEntry.updateMany.mockResolvedValue({ count: 1 });
+      mockPaystackService.initiateTransfer.mockResolvedValue({
+        transferCode: 'TRF_1',
+        reference: 'ESC_pool-1_1',
+        status: 'pending',
+      });
       mockPrismaService.escrowEntry.update.mockResolvedValue({
         ...mockEscrow,
         releasedAmount: 9500,
       });
       mockPrismaService.transaction.create.mockResolvedValue({ id: 'txn-1' });
-      mockPrismaService.pool.update.mockResolvedValue({ ...mockPool, status: PoolStatus.COMPLETED });
+      mockPrismaService.pool.update.mockResolvedValue({
+        ...mockPool,
+        status: PoolStatus.COMPLETED,
+      });
 
       const result = await service.releaseEscrow('pool-1', 'Test release');
 
@@ -289,6 +363,10 @@ describe('EscrowService', () => {
       expect(result.amountReleased).toBe(9500); // After 5% commission
       expect(result.commission).toBe(500);
       expect(result.transactionId).toBe('escrow-1');
+      expect(mockLedgerService.recordRelease).toHaveBeenCalledWith(
+        expect.objectContaining({ reference: 'txn-1', amount: 10000 }),
+        mockPrismaService,
+      );
       expect(mockEmailChannel.send).toHaveBeenCalledWith(
         'vendor@example.com',
         'Escrow Released',
@@ -346,7 +424,9 @@ describe('EscrowService', () => {
         withheldAmount: 0,
       };
       mockPrismaService.pool.findUnique.mockResolvedValue(mockPool);
-      mockPrismaService.escrowEntry.findFirst.mockResolvedValue(fullyReleasedEscrow);
+      mockPrismaService.escrowEntry.findFirst.mockResolvedValue(
+        fullyReleasedEscrow,
+      );
 
       await expect(service.releaseEscrow('pool-1')).rejects.toThrow(
         'No amount available for release',
@@ -403,7 +483,9 @@ describe('EscrowService', () => {
         'user-1': 15000, // More than user's contribution of 10000
       };
 
-      await expect(service.partialRelease('pool-1', releaseMap)).rejects.toThrow(
+      await expect(
+        service.partialRelease('pool-1', releaseMap),
+      ).rejects.toThrow(
         'Release amount for user user-1 exceeds their contribution',
       );
     });
@@ -446,7 +528,11 @@ describe('EscrowService', () => {
       });
       mockPrismaService.transaction.create.mockResolvedValue({ id: 'txn-1' });
 
-      const result = await service.manualRelease('pool-1', 5000, 'Admin override');
+      const result = await service.manualRelease(
+        'pool-1',
+        5000,
+        'Admin override',
+      );
 
       expect(result.message).toBe('Manual release successful');
       expect(result.amount).toBe(5000);
@@ -461,17 +547,17 @@ describe('EscrowService', () => {
     it('should throw BadRequestException if amount exceeds available balance', async () => {
       mockPrismaService.escrowEntry.findFirst.mockResolvedValue(mockEscrow);
 
-      await expect(service.manualRelease('pool-1', 15000, 'Too much')).rejects.toThrow(
-        'Amount exceeds available escrow balance',
-      );
+      await expect(
+        service.manualRelease('pool-1', 15000, 'Too much'),
+      ).rejects.toThrow('Amount exceeds available escrow balance');
     });
 
     it('should throw NotFoundException if escrow not found', async () => {
       mockPrismaService.escrowEntry.findFirst.mockResolvedValue(null);
 
-      await expect(service.manualRelease('pool-1', 5000, 'Test')).rejects.toThrow(
-        'Escrow entry not found',
-      );
+      await expect(
+        service.manualRelease('pool-1', 5000, 'Test'),
+      ).rejects.toThrow('Escrow entry not found');
     });
   });
 
@@ -481,36 +567,55 @@ describe('EscrowService', () => {
       userId: 'user-1',
       poolId: 'pool-1',
       amount: 10000,
+      externalTxnId: 'ref-1',
       user: {
         id: 'user-1',
         email: 'user@example.com',
       },
     };
 
+    const mockSubscription = {
+      id: 'sub-1',
+      userId: 'user-1',
+      poolId: 'pool-1',
+      paymentRef: 'ref-1',
+    };
+
     const mockEscrow = {
       id: 'escrow-1',
       totalHeld: 10000,
     };
 
     it('should perform manual refund successfully', async () => {
-      mockPrismaService.transaction.findUnique.mockResolvedValue(mockTransaction);
-
-      mockPrismaService.$transaction.mockImplementation(async (callback) => {
-        return await callback(mockPrismaService);
-      });
-
-      mockPrismaService.transaction.create.mockResolvedValue({ id: 'refund-txn' });
+      mockPrismaService.transaction.findUnique.mockResolvedValue(
+        mockTransaction,
+      );
+      mockPrismaService.subscription.findFirst.mockResolvedValue(
+        mockSubscription,
+      );
       mockPrismaService.escrowEntry.findFirst.mockResolvedValue(mockEscrow);
-      mockPrismaService.escrowEntry.update.mockResolvedValue({
-        ...mockEscrow,
-        totalHeld: 0,
-      });
+      mockRefundsService.refund.mockImplementation(
+        async ({ settle, amount }: RefundRequest) => {
+          await settle?.(
+            mockPrismaService as unknown as Prisma.TransactionClient,
+            amount ?? 0,
+          );
+          return { id: 'refund-1', status: 'PENDING' };
+        },
+      );
 
       const result = await service.manualRefund('txn-1', 5000, 'Quality issue');
 
       expect(result.message).toBe('Refund processed successfully');
       expect(result.amount).toBe(5000);
       expect(result.transactionId).toBe('txn-1');
+      expect(mockRefundsService.refund).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subscription: mockSubscription,
+          amount: 5000,
+        }),
+      );
+      expect(mockPrismaService.escrowEntry.update).toHaveBeenCalled();
       expect(mockEmailChannel.send).toHaveBeenCalledWith(
         'user@example.com',
         'Refund Processed',
@@ -527,11 +632,13 @@ describe('EscrowService', () => {
     });
 
     it('should throw BadRequestException if refund amount exceeds transaction amount', async () => {
-      mockPrismaService.transaction.findUnique.mockResolvedValue(mockTransaction);
-
-      await expect(service.manualRefund('txn-1', 15000, 'Too much')).rejects.toThrow(
-        'Refund amount exceeds transaction amount',
+      mockPrismaService.transaction.findUnique.mockResolvedValue(
+        mockTransaction,
       );
+
+      await expect(
+        service.manualRefund('txn-1', 15000, 'Too much'),
+      ).rejects.toThrow('Refund amount exceeds transaction amount');
     });
   });
 
@@ -549,6 +656,10 @@ describe('EscrowService', () => {
         ...mockEscrow,
         withheldAmount: 3000,
       });
+      mockPrismaService.$transaction.mockImplementation(
+        async (callback: (tx: typeof mockPrismaService) => unknown) =>
+          callback(mockPrismaService),
+      );
 
       await service.withholdEscrow('pool-1', 3000, 'Dispute reason');
 
@@ -559,29 +670,131 @@ describe('EscrowService', () => {
           withheldReason: 'Dispute reason',
         },
       });
+      expect(mockLedgerService.recordWithhold).toHaveBeenCalledWith(
+        'pool-1',
+        3000,
+        expect.any(String),
+        'Dispute reason',
+        mockPrismaService,
+      );
     });
 
     it('should throw NotFoundException if escrow not found', async () => {
       mockPrismaService.escrowEntry.findFirst.mockResolvedValue(null);
 
-      await expect(service.withholdEscrow('pool-1', 1000, 'Test')).rejects.toThrow(
-        'Escrow entry not found',
-      );
+      await expect(
+        service.withholdEscrow('pool-1', 1000, 'Test'),
+      ).rejects.toThrow('Escrow entry not found');
     });
 
     it('should throw BadRequestException if withhold amount exceeds available balance', async () => {
       mockPrismaService.escrowEntry.findFirst.mockResolvedValue(mockEscrow);
 
-      await expect(service.withholdEscrow('pool-1', 15000, 'Too much')).rejects.toThrow(
-        'Withhold amount exceeds available balance',
+      await expect(
+        service.withholdEscrow('pool-1', 15000, 'Too much'),
+      ).rejects.toThrow('Withhold amount exceeds available balance');
+    });
+  });
+
+  describe('handleTransferEvent', () => {
+    const mockEscrow = {
+      id: 'escrow-1',
+      poolId: 'pool-1',
+      status: 'RELEASED',
+      transferReference: 'ESC_pool-1_1',
+      totalHeld: 10000,
+      releasedAmount: 10000,
+      withheldAmount: 0,
+      pool: { id: 'pool-1', vendorId: 'vendor-1', vendor: { id: 'vendor-1' } },
+    };
+
+    beforeEach(() => {
+      mockPrismaService.$transaction.mockImplementation(
+        async (callback: (tx: typeof mockPrismaService) => unknown) =>
+          callback(mockPrismaService),
+      );
+    });
+
+    it('should put a reversed payout back into escrow and alert admins', async () => {
+      mockPrismaService.escrowEntry.findFirst.mockResolvedValue(mockEscrow);
+      mockPrismaService.escrowEntry.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.transaction.findFirst.mockResolvedValue({
+        id: 'txn-1',
+        amount: new Prisma.Decimal(9500),
+        fees: new Prisma.Decimal(500),
+        metadata: { transferReference: 'ESC_pool-1_1' },
+      });
+
+      await service.handleTransferEvent('transfer.reversed', {
+        reference: 'ESC_pool-1_1',
+        status: 'reversed',
+      });
+
+      expect(mockPrismaService.escrowEntry.update).toHaveBeenCalledWith({
+        where: { id: 'escrow-1' },
+        data: { releasedAmount: { decrement: 10000 } },
+      });
+      const [update] = mockPrismaService.transaction.update.mock.calls[0] as [
+        Prisma.TransactionUpdateArgs,
+      ];
+      expect(update).toMatchObject({
+        where: { id: 'txn-1' },
+        data: { status: TransactionStatus.FAILED },
+      });
+      expect(mockLedgerService.reverse).toHaveBeenCalledWith(
+        JournalEntryType.ESCROW_RELEASE,
+        'txn-1',
+        JournalEntryType.ESCROW_RELEASE_REVERSAL,
+        mockPrismaService,
+      );
+      expect(mockNotificationsService.notifyAdmins).toHaveBeenCalled();
+    });
+
+    it('should ignore a failure event that was already applied', async () => {
+      mockPrismaService.escrowEntry.findFirst.mockResolvedValue({
+        ...mockEscrow,
+        status: 'FAILED',
+      });
+
+      await service.handleTransferEvent('transfer.failed', {
+        reference: 'ESC_pool-1_1',
+        status: 'failed',
+      });
+
+      expect(mockPrismaService.escrowEntry.updateMany).not.toHaveBeenCalled();
+      expect(mockNotificationsService.notifyAdmins).not.toHaveBeenCalled();
+    });
+
+    it('should not record a confirmed transfer the release already completed', async () => {
+      mockPrismaService.escrowEntry.findFirst.mockResolvedValue({
+        ...mockEscrow,
+        status: 'PROCESSING',
+        releasedAmount: 0,
+      });
+      // The release claimed the entry between the lookup and the webhook
+      mockPrismaService.escrowEntry.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.handleTransferEvent('transfer.success', {
+        reference: 'ESC_pool-1_1',
+        status: 'success',
+        transfer_code: 'TRF_1',
+      });
+
+      expect(mockPrismaService.escrowEntry.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'escrow-1', status: 'PROCESSING' },
+        }),
       );
+      expect(mockPrismaService.transaction.create).not.toHaveBeenCalled();
+      expect(mockLedgerService.recordRelease).not.toHaveBeenCalled();
+      expect(mockLedgerService.recordPayout).not.toHaveBeenCalled();
+      expect(mockPoolLifecycle.transition).not.toHaveBeenCalled();
     });
   });
 
   describe('COMMISSION_RATE', () => {
     it('should have a 5% commission rate', () => {
-      const serviceInstance = new EscrowService(mockPrismaService as any, mockEmailChannel as any);
-      expect((serviceInstance as any).COMMISSION_RATE).toBe(0.05);
+      expect(service['COMMISSION_RATE']).toBe(0.05);
     });
   });
-});
\ No newline at end of file
+});
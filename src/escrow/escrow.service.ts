@@ -5,10 +5,33 @@ import {
   Logger,
 } from '@nestjs/common';
 import { PrismaService } from '../services/prisma.service';
-import { PaystackService } from '../services/paystack.service';
+import {
+  PaystackEventData,
+  PaystackService,
+} from '../services/paystack.service';
 import { EmailChannelService } from '../notifications/channels/email.channel';
-import { TransactionType, TransactionStatus, PoolStatus } from '@prisma/client';
+import { EscrowComputations, RefundsService } from '../refunds/refunds.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { LedgerService } from '../ledger/ledger.service';
+import {
+  PoolLifecycleService,
+  PoolTransition,
+} from '../pool-lifecycle/pool-lifecycle.service';
+import {
+  TransactionType,
+  TransactionStatus,
+  PoolStatus,
+  Prisma,
+  EscrowEntry,
+  JournalEntryType,
+  Pool,
+  User,
+  RefundDestination,
+  RefundStatus,
+  SubscriptionStatus,
+} from '@prisma/client';
 import Decimal from 'decimal.js';
+import * as crypto from 'crypto';
 
 /**
  * EscrowService manages the lifecycle of funds held between payment and vendor payout.
@@ -16,7 +39,7 @@ import Decimal from 'decimal.js';
  * ESCROW FLOW:
  * 1. Buyer pays → Funds go to platform's Paystack account
  * 2. EscrowEntry created → Tracks amount, pool, vendor, status
- * 3. Pool fills + Delivery marked complete → Status becomes RELEASABLE
+ * 3. Pool fills + Every buyer confirms delivery → Status becomes RELEASABLE
  * 4. Grace period (7 days) → Buyer can confirm or raise dispute
  * 5. Auto-release → If no dispute after grace period, funds transfer to vendor
  * 6. Dispute → Funds remain HELD until admin resolution
@@ -37,6 +60,10 @@ export class EscrowService {
     private prisma: PrismaService,
     private paystackService: PaystackService,
     private emailChannel: EmailChannelService,
+    private poolLifecycle: PoolLifecycleService,
+    private refundsService: RefundsService,
+    private ledgerService: LedgerService,
+    private notificationsService: NotificationsService,
   ) {}
 
   async createEscrowEntry(poolId: string, subscriptionId: string) {
@@ -53,6 +80,8 @@ export class EscrowService {
     }
 
     const amountPaid = Number(subscription.amountPaid);
+    // Per-variant totals let vendors see which cuts the money was held for
+    const variantId = subscription.variantId;
 
     // Use transaction with row-level locking to prevent race conditions
     const escrow = await this.prisma.$transaction(
@@ -72,21 +101,34 @@ export class EscrowService {
                 contributions: {
                   [subscription.userId]: amountPaid,
                 },
+                ...(variantId && {
+                  variantContributions: { [variantId]: amountPaid },
+                }),
               },
             },
           });
         } else {
           // ATOMIC UPDATE: Use increment to prevent read-modify-write race condition
-          const contributions =
-            (existingEscrow.computations as any)?.contributions || {};
+          const computations =
+            (existingEscrow.computations as EscrowComputations) || {};
+          const contributions = computations.contributions || {};
           contributions[subscription.userId] =
             (contributions[subscription.userId] || 0) + amountPaid;
 
+          if (variantId) {
+            const variantContributions =
+              computations.variantContributions || {};
+            variantContributions[variantId] =
+              (variantContributions[variantId] || 0) + amountPaid;
+            computations.variantContributions = variantContributions;
+          }
+
           return tx.escrowEntry.update({
             where: { id: existingEscrow.id },
             data: {
               totalHeld: { increment: amountPaid }, // Atomic increment
               computations: {
+                ...computations,
                 contributions,
               },
             },
@@ -111,6 +153,7 @@ export class EscrowService {
         metadata: {
           subscriptionId: subscription.id,
           slots: subscription.slots,
+          ...(variantId && { variantId }),
         },
       },
     });
@@ -122,6 +165,120 @@ export class EscrowService {
     return escrow;
   }
 
+  /**
+   * Reduce a buyer's held contribution after money was returned to them
+   * (refunds and tier price credits)
+   */
+  async deductContribution(
+    poolId: string,
+    userId: string,
+    amount: number,
+    tx?: Prisma.TransactionClient,
+    variantId?: string | null,
+  ) {
+    const prisma = tx || this.prisma;
+
+    const escrow = await prisma.escrowEntry.findFirst({
+      where: { poolId },
+    });
+
+    if (!escrow) return null;
+
+    const computations = (escrow.computations as EscrowComputations) || {};
+    const contributions = computations.contributions || {};
+    contributions[userId] = Math.max(
+      0,
+      new Decimal(contributions[userId] || 0).sub(amount).toNumber(),
+    );
+
+    if (variantId && computations.variantContributions) {
+      computations.variantContributions[variantId] = Math.max(
+        0,
+        new Decimal(computations.variantContributions[variantId] || 0)
+          .sub(amount)
+          .toNumber(),
+      );
+    }
+
+    return prisma.escrowEntry.update({
+      where: { id: escrow.id },
+      data: {
+        totalHeld: { decrement: amount },
+        computations: {
+          ...computations,
+          contributions,
+        },
+      },
+    });
+  }
+
+  /**
+   * Move a held contribution from one buyer to another when a slot changes
+   * hands. The amount held for the pool does not change.
+   */
+  async transferContribution(
+    poolId: string,
+    fromUserId: string,
+    toUserId: string,
+    amount: number,
+    tx?: Prisma.TransactionClient,
+  ) {
+    const prisma = tx || this.prisma;
+
+    const escrow = await prisma.escrowEntry.findFirst({
+      where: { poolId },
+    });
+
+    if (!escrow) return null;
+
+    const computations = (escrow.computations as EscrowComputations) || {};
+    const contributions = computations.contributions || {};
+    contributions[fromUserId] = Math.max(
+      0,
+      new Decimal(contributions[fromUserId] || 0).sub(amount).toNumber(),
+    );
+    contributions[toUserId] = new Decimal(contributions[toUserId] || 0)
+      .add(amount)
+      .toNumber();
+
+    return prisma.escrowEntry.update({
+      where: { id: escrow.id },
+      data: {
+        computations: {
+          ...computations,
+          contributions,
+        },
+      },
+    });
+  }
+
+  /**
+   * Start the grace period once every buyer has their share.
+   * Only HELD escrows move, so repeated calls keep the first releaseAt.
+   */
+  async markReleasable(poolId: string) {
+    const releaseAt = new Date(
+      Date.now() + this.GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    const updated = await this.prisma.escrowEntry.updateMany({
+      where: { poolId, status: 'HELD' },
+      data: {
+        status: 'RELEASABLE',
+        deliveryConfirmed: true,
+        releaseAt,
+      },
+    });
+
+    if (updated.count > 0) {
+      this.logger.log(
+        `Escrow for pool ${poolId} is releasable after ${releaseAt.toISOString()}`,
+      );
+    }
+
+    return updated.count > 0;
+  }
+
   async getEscrowDetails(poolId: string) {
     const escrow = await this.prisma.escrowEntry.findFirst({
       where: { poolId },
@@ -136,6 +293,7 @@ export class EscrowService {
               },
             },
             subscriptions: {
+              where: { status: SubscriptionStatus.ACTIVE },
               include: {
                 user: {
                   select: {
@@ -234,16 +392,226 @@ export class EscrowService {
       throw new NotFoundException('Escrow entry not found');
     }
 
-    // Calculate amounts
-    const totalHeld = Number(escrow.totalHeld);
-    const withheldAmount = Number(escrow.withheldAmount);
-    const releaseableAmount =
-      totalHeld - withheldAmount - Number(escrow.releasedAmount);
+    return this.transferToVendor(pool, escrow, reason);
+  }
 
-    if (releaseableAmount <= 0) {
-      throw new BadRequestException('No amount available for release');
+  /**
+   * Send a release whose transfer failed to the vendor again. The pool
+   * passed the release checks the first time, so only disputes opened
+   * since are checked.
+   */
+  async retryRelease(poolId: string, adminId: string) {
+    const pool = await this.prisma.pool.findUnique({
+      where: { id: poolId },
+      include: {
+        vendor: true,
+        disputes: {
+          where: {
+            status: { in: ['open', 'in_review'] },
+          },
+        },
+      },
+    });
+
+    if (!pool) {
+      throw new NotFoundException('Pool not found');
+    }
+
+    if (pool.disputes.length > 0) {
+      throw new BadRequestException('Cannot release escrow with open disputes');
+    }
+
+    const escrow = await this.prisma.escrowEntry.findFirst({
+      where: { poolId },
+    });
+
+    if (!escrow) {
+      throw new NotFoundException('Escrow entry not found');
+    }
+
+    if (escrow.status !== 'FAILED') {
+      throw new BadRequestException('Only failed releases can be retried');
+    }
+
+    const result = await this.transferToVendor(
+      pool,
+      escrow,
+      `Release retried by admin ${adminId}`,
+    );
+
+    await this.prisma.adminAuditLog.create({
+      data: {
+        adminId,
+        action: 'retry_escrow_release',
+        targetType: 'escrow',
+        targetId: escrow.id,
+        details: { poolId, amount: result.amountReleased },
+      },
+    });
+
+    return result;
+  }
+
+  // ============================================
+  // TRANSFER WEBHOOKS
+  // ============================================
+
+  /**
+   * Paystack transfer.success / transfer.failed / transfer.reversed events
+   * for escrow releases, keyed on the transfer reference
+   */
+  async handleTransferEvent(eventType: string, data: PaystackEventData) {
+    const reference: string | undefined = data?.reference;
+    const escrow = reference
+      ? await this.prisma.escrowEntry.findFirst({
+          where: { transferReference: reference },
+          include: { pool: { include: { vendor: true } } },
+        })
+      : null;
+
+    if (!reference || !escrow) {
+      this.logger.warn(`No escrow release found for transfer ${reference}`);
+      return null;
+    }
+
+    if (eventType === 'transfer.success') {
+      return this.confirmTransfer(escrow, reference, data);
+    }
+
+    return this.failTransfer(escrow, reference, eventType);
+  }
+
+  /**
+   * Record a transfer the gateway completed. Releases are normally recorded
+   * when the transfer is accepted; this finishes the ones whose database
+   * update failed after the transfer went out.
+   */
+  private async confirmTransfer(
+    escrow: EscrowEntry & { pool: Pool & { vendor: User } },
+    reference: string,
+    data: PaystackEventData,
+  ) {
+    if (escrow.status !== 'PROCESSING') return escrow;
+
+    const amounts = this.getReleaseAmounts(escrow);
+    const completed = await this.completeRelease(
+      escrow,
+      escrow.pool,
+      amounts,
+      {
+        transferCode: data?.transfer_code,
+        reference,
+        status: 'success',
+      },
+      'Transfer confirmed by Paystack',
+    );
+
+    if (completed) await this.poolLifecycle.publish(completed);
+
+    this.logger.log(
+      `Escrow release for pool ${escrow.poolId} completed from transfer ${reference}`,
+    );
+
+    return this.prisma.escrowEntry.findUnique({ where: { id: escrow.id } });
+  }
+
+  /**
+   * Undo a release whose transfer failed or was reversed, leaving the
+   * escrow FAILED so it can be retried
+   */
+  private async failTransfer(
+    escrow: EscrowEntry & { pool: Pool & { vendor: User } },
+    reference: string,
+    eventType: string,
+  ) {
+    if (escrow.status !== 'PROCESSING' && escrow.status !== 'RELEASED') {
+      return escrow; // Already handled
     }
 
+    const reversed = await this.prisma.$transaction(async (tx) => {
+      // Guarded on the reference so repeated events apply once
+      const failed = await tx.escrowEntry.updateMany({
+        where: {
+          id: escrow.id,
+          transferReference: reference,
+          status: { in: ['PROCESSING', 'RELEASED'] },
+        },
+        data: { status: 'FAILED' },
+      });
+      if (failed.count === 0) return null;
+
+      const release = await tx.transaction.findFirst({
+        where: {
+          poolId: escrow.poolId,
+          type: TransactionType.ESCROW_RELEASE,
+          status: TransactionStatus.SUCCESS,
+          metadata: { path: ['transferReference'], equals: reference },
+        },
+      });
+      if (!release) return 0; // The release was never recorded
+
+      // The vendor's share and the commission go back into escrow
+      const released = new Decimal(release.amount.toString())
+        .add(release.fees.toString())
+        .toNumber();
+
+      await tx.escrowEntry.update({
+        where: { id: escrow.id },
+        data: { releasedAmount: { decrement: released } },
+      });
+
+      await tx.transaction.update({
+        where: { id: release.id },
+        data: {
+          status: TransactionStatus.FAILED,
+          metadata: {
+            ...(release.metadata as Prisma.JsonObject),
+            transferStatus: eventType,
+            reversedAt: new Date().toISOString(),
+          },
+        },
+      });
+
+      await this.ledgerService.reverse(
+        JournalEntryType.PAYOUT,
+        reference,
+        JournalEntryType.PAYOUT_REVERSAL,
+        tx,
+      );
+      await this.ledgerService.reverse(
+        JournalEntryType.ESCROW_RELEASE,
+        release.id,
+        JournalEntryType.ESCROW_RELEASE_REVERSAL,
+        tx,
+      );
+
+      return released;
+    });
+
+    if (reversed === null) return escrow;
+
+    this.logger.error(
+      `Transfer ${reference} for pool ${escrow.poolId}: ${eventType}`,
+    );
+
+    await this.notificationsService.notifyAdmins(
+      'Vendor payout failed',
+      `The escrow transfer ${reference} for pool ${escrow.poolId} ${eventType === 'transfer.reversed' ? 'was reversed' : 'failed'}${reversed ? ` and ₦${reversed.toLocaleString()} is back in escrow` : ''}. Check the vendor's bank details and retry the release.`,
+      { poolId: escrow.poolId, escrowId: escrow.id, reference },
+    );
+
+    return this.prisma.escrowEntry.findUnique({ where: { id: escrow.id } });
+  }
+
+  // ============================================
+  // RELEASE SAGA
+  // ============================================
+
+  private getReleaseAmounts(escrow: EscrowEntry) {
+    const releaseableAmount =
+      Number(escrow.totalHeld) -
+      Number(escrow.withheldAmount) -
+      Number(escrow.releasedAmount);
     const commission = new Decimal(releaseableAmount)
       .mul(this.COMMISSION_RATE)
       .toNumber();
@@ -251,6 +619,22 @@ export class EscrowService {
       .sub(commission)
       .toNumber();
 
+    return { releaseableAmount, commission, netForVendor };
+  }
+
+  private async transferToVendor(
+    pool: Pool & { vendor: User },
+    escrow: EscrowEntry,
+    reason?: string,
+  ) {
+    const poolId = pool.id;
+    const amounts = this.getReleaseAmounts(escrow);
+    const { releaseableAmount, commission, netForVendor } = amounts;
+
+    if (releaseableAmount <= 0) {
+      throw new BadRequestException('No amount available for release');
+    }
+
     // Verify vendor has Paystack recipient code for transfers
     if (!pool.vendor.paystackRecipientCode) {
       // Try to create one if bank details exist
@@ -282,7 +666,7 @@ export class EscrowService {
     const processingEscrow = await this.prisma.escrowEntry.updateMany({
       where: {
         id: escrow.id,
-        status: { in: ['HELD', 'RELEASABLE'] }, // Only update if not already processing/released
+        status: { in: ['HELD', 'RELEASABLE', 'FAILED'] }, // Only update if not already processing/released
       },
       data: {
         status: 'PROCESSING',
@@ -326,46 +710,18 @@ export class EscrowService {
     }
 
     // Step 3: Complete the saga - update DB after successful transfer
+    let completed: PoolTransition | null = null;
     try {
-      await this.prisma.$transaction(async (tx) => {
-        // Update escrow entry with transfer details
-        await tx.escrowEntry.update({
-          where: { id: escrow.id },
-          data: {
-            releasedAmount: { increment: releaseableAmount }, // Atomic increment
-            status: 'RELEASED',
-            transferRecipientCode: pool.vendor.paystackRecipientCode,
-          },
-        });
-
-        // Create release transaction with transfer details
-        await tx.transaction.create({
-          data: {
-            userId: pool.vendorId,
-            poolId,
-            amount: netForVendor,
-            fees: commission,
-            status: TransactionStatus.SUCCESS,
-            type: TransactionType.ESCROW_RELEASE,
-            externalTxnId: transferResult.transferCode,
-            metadata: {
-              reason: reason || 'Automatic release after grace period',
-              commission,
-              originalAmount: releaseableAmount,
-              transferReference: transferResult.reference,
-              transferStatus: transferResult.status,
-            },
-          },
-        });
-
-        // Update pool status
-        await tx.pool.update({
-          where: { id: poolId },
-          data: { status: PoolStatus.COMPLETED },
-        });
-      });
+      completed = await this.completeRelease(
+        escrow,
+        pool,
+        amounts,
+        transferResult,
+        reason,
+      );
     } catch (dbError) {
-      // Transfer succeeded but DB failed - log for manual reconciliation
+      // Transfer succeeded but DB failed. The transfer.success webhook
+      // finishes the release; reconciliation reports it if that never comes.
       this.logger.error(
         `CRITICAL: Transfer succeeded but DB update failed for pool ${poolId}. ` +
           `Transfer ref: ${transferReference}. Manual reconciliation required.`,
@@ -378,6 +734,8 @@ export class EscrowService {
       );
     }
 
+    if (completed) await this.poolLifecycle.publish(completed);
+
     // Send notification to vendor
     await this.emailChannel.send(
       pool.vendor.email,
@@ -395,6 +753,90 @@ export class EscrowService {
     };
   }
 
+  /**
+   * Record a transfer the gateway accepted: escrow released, the release
+   * transaction and ledger entries, and the pool completed
+   */
+  private async completeRelease(
+    escrow: EscrowEntry,
+    pool: Pool & { vendor: User },
+    amounts: {
+      releaseableAmount: number;
+      commission: number;
+      netForVendor: number;
+    },
+    transferResult: {
+      transferCode?: string;
+      reference: string;
+      status: string;
+    },
+    reason?: string,
+  ): Promise<PoolTransition | null> {
+    const poolId = pool.id;
+    const { releaseableAmount, commission, netForVendor } = amounts;
+
+    return this.prisma.$transaction(async (tx) => {
+      // Claim the PROCESSING entry so a webhook racing the release
+      // records it once
+      const claimed = await tx.escrowEntry.updateMany({
+        where: { id: escrow.id, status: 'PROCESSING' },
+        data: {
+          releasedAmount: { increment: releaseableAmount }, // Atomic increment
+          status: 'RELEASED',
+          transferRecipientCode: pool.vendor.paystackRecipientCode,
+        },
+      });
+      if (claimed.count === 0) return null;
+
+      // Create release transaction with transfer details
+      const release = await tx.transaction.create({
+        data: {
+          userId: pool.vendorId,
+          poolId,
+          amount: netForVendor,
+          fees: commission,
+          status: TransactionStatus.SUCCESS,
+          type: TransactionType.ESCROW_RELEASE,
+          externalTxnId: transferResult.transferCode,
+          metadata: {
+            reason: reason || 'Automatic release after grace period',
+            commission,
+            originalAmount: releaseableAmount,
+            transferReference: transferResult.reference,
+            transferStatus: transferResult.status,
+          },
+        },
+      });
+
+      await this.ledgerService.recordRelease(
+        {
+          reference: release.id,
+          poolId,
+          vendorId: pool.vendorId,
+          amount: releaseableAmount,
+          commission,
+        },
+        tx,
+      );
+      await this.ledgerService.recordPayout(
+        {
+          reference: transferResult.reference,
+          poolId,
+          vendorId: pool.vendorId,
+          amount: netForVendor,
+        },
+        tx,
+      );
+
+      // Update pool status
+      return this.poolLifecycle.transition(poolId, PoolStatus.COMPLETED, {
+        from: [PoolStatus.FILLED, PoolStatus.IN_DELIVERY],
+        reason: reason || 'Escrow released to vendor',
+        tx,
+      });
+    });
+  }
+
   async partialRelease(poolId: string, releaseMap: Record<string, number>) {
     // For handling partial disputes where some buyers are satisfied
     const escrow = await this.prisma.escrowEntry.findFirst({
@@ -406,7 +848,8 @@ export class EscrowService {
       throw new NotFoundException('Escrow entry not found');
     }
 
-    const contributions = (escrow.computations as any)?.contributions || {};
+    const contributions =
+      (escrow.computations as EscrowComputations)?.contributions || {};
     let totalToRelease = 0;
 
     // Validate release amounts
@@ -432,7 +875,7 @@ export class EscrowService {
         },
       });
 
-      await tx.transaction.create({
+      const release = await tx.transaction.create({
         data: {
           userId: escrow.pool.vendorId,
           poolId,
@@ -447,6 +890,18 @@ export class EscrowService {
           },
         },
       });
+
+      await this.ledgerService.recordRelease(
+        {
+          reference: release.id,
+          poolId,
+          vendorId: escrow.pool.vendorId,
+          amount: totalToRelease,
+          commission,
+          description: 'Partial escrow release',
+        },
+        tx,
+      );
     });
 
     return {
@@ -484,7 +939,7 @@ export class EscrowService {
         },
       });
 
-      await tx.transaction.create({
+      const release = await tx.transaction.create({
         data: {
           userId: escrow.pool.vendorId,
           poolId,
@@ -500,6 +955,18 @@ export class EscrowService {
         },
       });
 
+      await this.ledgerService.recordRelease(
+        {
+          reference: release.id,
+          poolId,
+          vendorId: escrow.pool.vendorId,
+          amount,
+          commission: 0,
+          description: `Manual escrow release: ${reason}`,
+        },
+        tx,
+      );
+
       // Log admin action
       // TODO: Create AdminAuditLog entry
     });
@@ -517,7 +984,12 @@ export class EscrowService {
     };
   }
 
-  async manualRefund(transactionId: string, amount: number, reason: string) {
+  async manualRefund(
+    transactionId: string,
+    amount: number,
+    reason: string,
+    toWallet?: boolean,
+  ) {
     const transaction = await this.prisma.transaction.findUnique({
       where: { id: transactionId },
       include: { user: true },
@@ -531,54 +1003,54 @@ export class EscrowService {
       throw new BadRequestException('Refund amount exceeds transaction amount');
     }
 
-    await this.prisma.$transaction(async (tx) => {
-      // Create refund transaction
-      await tx.transaction.create({
-        data: {
-          userId: transaction.userId,
-          poolId: transaction.poolId,
-          amount,
-          fees: 0,
-          status: TransactionStatus.SUCCESS,
-          type: TransactionType.REFUND,
-          externalTxnId: transaction.externalTxnId,
-          metadata: {
-            originalTransactionId: transactionId,
-            reason,
-            adminRefund: true,
-          },
-        },
-      });
+    // Payments are recorded with the gateway reference of the charge
+    const subscription = transaction.externalTxnId
+      ? await this.prisma.subscription.findFirst({
+          where: { paymentRef: transaction.externalTxnId },
+        })
+      : null;
 
-      // Update escrow if applicable
-      if (transaction.poolId) {
-        const escrow = await tx.escrowEntry.findFirst({
-          where: { poolId: transaction.poolId },
-        });
+    if (!subscription) {
+      throw new BadRequestException(
+        'Only payments made through a gateway can be refunded',
+      );
+    }
 
-        if (escrow) {
-          await tx.escrowEntry.update({
-            where: { id: escrow.id },
-            data: {
-              totalHeld: Number(escrow.totalHeld) - amount,
-            },
-          });
-        }
-      }
+    const refund = await this.refundsService.refund({
+      subscription,
+      amount,
+      reason,
+      destination: toWallet ? RefundDestination.WALLET : undefined,
+      metadata: { originalTransactionId: transactionId, adminRefund: true },
+      settle: async (tx, refunded) => {
+        await this.deductContribution(
+          subscription.poolId,
+          subscription.userId,
+          refunded,
+          tx,
+          subscription.variantId,
+        );
+      },
     });
 
-    // TODO: Integrate with Paystack refund API
+    if (refund.status === RefundStatus.FAILED) {
+      throw new BadRequestException(
+        `The payment gateway rejected the refund: ${refund.failureReason}`,
+      );
+    }
 
     await this.emailChannel.send(
       transaction.user.email,
       'Refund Processed',
-      `Your refund of ₦${amount.toLocaleString()} has been processed. Reason: ${reason}`,
+      `Your refund of ₦${amount.toLocaleString()} has been processed${refund.destination === RefundDestination.WALLET ? ' to your FarmShare wallet' : ''}. Reason: ${reason}`,
     );
 
     return {
       message: 'Refund processed successfully',
       amount,
       transactionId,
+      refundId: refund.id,
+      refundStatus: refund.status,
     };
   }
 
@@ -606,14 +1078,57 @@ export class EscrowService {
       );
     }
 
-    await this.prisma.escrowEntry.update({
+    await this.prisma.$transaction(async (tx) => {
+      await tx.escrowEntry.update({
+        where: { id: escrow.id },
+        data: {
+          withheldAmount: Number(escrow.withheldAmount) + amount,
+          withheldReason: reason,
+        },
+      });
+
+      await this.ledgerService.recordWithhold(
+        poolId,
+        amount,
+        crypto.randomUUID(),
+        reason,
+        tx,
+      );
+    });
+
+    this.logger.log(`Withheld ₦${amount} from pool ${poolId}: ${reason}`);
+  }
+
+  /**
+   * Lift every hold on a pool's escrow once its dispute is closed
+   */
+  async clearWithheld(
+    poolId: string,
+    disputeId: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<number> {
+    const prisma = tx || this.prisma;
+
+    const escrow = await prisma.escrowEntry.findFirst({ where: { poolId } });
+    const withheldAmount = Number(escrow?.withheldAmount ?? 0);
+    if (!escrow || withheldAmount <= 0) return 0;
+
+    await prisma.escrowEntry.update({
       where: { id: escrow.id },
       data: {
-        withheldAmount: Number(escrow.withheldAmount) + amount,
-        withheldReason: reason,
+        withheldAmount: 0,
+        withheldReason: null,
       },
     });
 
-    this.logger.log(`Withheld ₦${amount} from pool ${poolId}: ${reason}`);
+    await this.ledgerService.recordWithhold(
+      poolId,
+      -withheldAmount,
+      `dispute_${disputeId}`,
+      `Hold lifted for dispute ${disputeId}`,
+      tx,
+    );
+
+    return withheldAmount;
   }
 }
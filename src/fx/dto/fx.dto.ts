@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { Currency } from '@prisma/client';
+
+export class DisplayCurrencyQueryDto {
+  @ApiPropertyOptional({
+    enum: Currency,
+    description: 'Also show prices in this currency; amounts settle in NGN',
+  })
+  @IsEnum(Currency)
+  @IsOptional()
+  currency?: Currency;
+}
@@ -0,0 +1,15 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { FxService } from './fx.service';
+
+@ApiTags('FX')
+@Controller('fx')
+export class FxController {
+  constructor(private readonly fxService: FxService) {}
+
+  @Get('rates')
+  @ApiOperation({ summary: 'Current NGN exchange rates for display prices' })
+  getRates() {
+    return this.fxService.getRates();
+  }
+}
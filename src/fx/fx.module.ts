@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { FxController } from './fx.controller';
+import { FxService } from './fx.service';
+import { FX_RATE_SOURCE } from './sources/fx-rate-source';
+import { ExchangeRateHostSource } from './sources/exchangerate-host.source';
+import { OpenErApiSource } from './sources/open-er-api.source';
+
+@Module({
+  imports: [PrismaModule, HttpModule, ConfigModule],
+  controllers: [FxController],
+  providers: [
+    FxService,
+    ExchangeRateHostSource,
+    OpenErApiSource,
+    {
+      // FX_RATE_SOURCE=exchangerate-host or open-er-api (default)
+      provide: FX_RATE_SOURCE,
+      inject: [ConfigService, ExchangeRateHostSource, OpenErApiSource],
+      useFactory: (
+        config: ConfigService,
+        exchangeRateHost: ExchangeRateHostSource,
+        openErApi: OpenErApiSource,
+      ) =>
+        config.get<string>('FX_RATE_SOURCE') === 'exchangerate-host'
+          ? exchangeRateHost
+          : openErApi,
+    },
+  ],
+  exports: [FxService],
+})
+export class FxModule {}
@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { FxService } from './fx.service';
+import { PrismaService } from '../services/prisma.service';
+import { FX_RATE_SOURCE } from './sources/fx-rate-source';
+import { Currency, Prisma } from '@prisma/client';
+
+describe('FxService', () => {
+  let service: FxService;
+
+  const mockPrismaService = {
+    fxRate: {
+      findFirst: jest.fn(),
+      createManyAndReturn: jest.fn(),
+    },
+  };
+
+  const mockSource = {
+    name: 'test-source',
+    getRates: jest.fn(),
+  };
+
+  const hoursAgo = (hours: number) =>
+    new Date(Date.now() - hours * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FxService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: FX_RATE_SOURCE, useValue: mockSource },
+        { provide: SchedulerRegistry, useValue: { addInterval: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<FxService>(FxService);
+  });
+
+  it('should use a fresh stored rate without calling the source', async () => {
+    mockPrismaService.fxRate.findFirst.mockResolvedValue({
+      quote: Currency.USD,
+      rate: new Prisma.Decimal(0.00065),
+      source: 'test-source',
+      fetchedAt: new Date(),
+    });
+
+    const quote = await service.getQuote(Currency.USD);
+
+    expect(quote.rate).toBe(0.00065);
+    expect(mockSource.getRates).not.toHaveBeenCalled();
+    expect(service.convert(15000, quote.rate)).toBe(9.75);
+  });
+
+  it('should fall back to a stale rate within the limit when the source fails', async () => {
+    mockPrismaService.fxRate.findFirst.mockResolvedValue({
+      quote: Currency.GBP,
+      rate: new Prisma.Decimal(0.0005),
+      source: 'test-source',
+      fetchedAt: hoursAgo(3),
+    });
+    mockSource.getRates.mockRejectedValue(new Error('timeout'));
+
+    const quote = await service.getQuote(Currency.GBP);
+
+    expect(mockSource.getRates).toHaveBeenCalled();
+    expect(quote.rate).toBe(0.0005);
+  });
+
+  it('should refuse to convert with a rate past the staleness limit', async () => {
+    mockPrismaService.fxRate.findFirst.mockResolvedValue({
+      quote: Currency.EUR,
+      rate: new Prisma.Decimal(0.0006),
+      source: 'test-source',
+      fetchedAt: hoursAgo(30),
+    });
+    mockSource.getRates.mockRejectedValue(new Error('timeout'));
+
+    await expect(service.getQuote(Currency.EUR)).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+    await expect(service.getDisplayQuote(Currency.EUR)).resolves.toBeNull();
+  });
+});
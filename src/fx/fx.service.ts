@@ -0,0 +1,204 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleInit,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { PrismaService } from '../services/prisma.service';
+import { Currency, FxRate } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { FX_RATE_SOURCE, FxRateSource } from './sources/fx-rate-source';
+
+// The rate used to turn an NGN amount into another currency
+export interface FxQuote {
+  currency: Currency;
+  rate: number; // Units of currency per NGN
+  source: string;
+  fetchedAt: Date;
+}
+
+/**
+ * FxService converts NGN prices for buyers paying in other currencies.
+ *
+ * Rates come from the configured FxRateSource and are stored in FxRate, so
+ * every instance shares one cache and each checkout can point at the rate
+ * it used. Rates are refreshed every FX_REFRESH_MINUTES, and on demand
+ * when the stored one is older than that; if the source is down a rate is
+ * still used until it is FX_MAX_AGE_HOURS old, after which conversions fail
+ * rather than guess.
+ *
+ * Prices, escrow and payouts stay in NGN; converted amounts are only shown
+ * to buyers and charged through Stripe.
+ */
+@Injectable()
+export class FxService implements OnModuleInit {
+  private readonly logger = new Logger(FxService.name);
+  private readonly BASE = Currency.NGN;
+  private readonly QUOTES: Currency[] = [
+    Currency.USD,
+    Currency.GBP,
+    Currency.EUR,
+  ];
+  private readonly refreshAfterMs: number;
+  private readonly maxAgeMs: number;
+  private refreshing: Promise<FxRate[]> | null = null;
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+    @Inject(FX_RATE_SOURCE) private source: FxRateSource,
+    private schedulerRegistry: SchedulerRegistry,
+  ) {
+    this.refreshAfterMs =
+      Number(this.config.get('FX_REFRESH_MINUTES') ?? 60) * 60 * 1000;
+    this.maxAgeMs =
+      Number(this.config.get('FX_MAX_AGE_HOURS') ?? 24) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Keep rates fresh in the background so buyers don't wait on the source
+   */
+  onModuleInit() {
+    const interval = setInterval(() => {
+      this.refreshRates().catch((error: Error) =>
+        this.logger.warn(`FX rate refresh failed: ${error.message}`),
+      );
+    }, this.refreshAfterMs);
+
+    this.schedulerRegistry.addInterval('fx-refresh', interval);
+  }
+
+  /**
+   * Fetch the latest rates from the source and store them. Concurrent
+   * callers share one fetch.
+   */
+  async refreshRates() {
+    if (!this.refreshing) {
+      this.refreshing = this.fetchRates().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * The current rate for a currency. Throws when no rate within the
+   * staleness limit is available.
+   */
+  async getQuote(currency: Currency): Promise<FxQuote> {
+    if (currency === this.BASE) {
+      return { currency, rate: 1, source: 'base', fetchedAt: new Date() };
+    }
+
+    let latest = await this.findLatest(currency);
+
+    if (!latest || this.ageOf(latest) > this.refreshAfterMs) {
+      try {
+        const fetched = await this.refreshRates();
+        latest = fetched.find((row) => row.quote === currency) ?? latest;
+      } catch (error) {
+        this.logger.warn(
+          `FX refresh from ${this.source.name} failed: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    if (!latest || this.ageOf(latest) > this.maxAgeMs) {
+      throw new ServiceUnavailableException(
+        `No current ${currency} exchange rate. Try again later or pay in NGN.`,
+      );
+    }
+
+    return {
+      currency,
+      rate: Number(latest.rate),
+      source: latest.source,
+      fetchedAt: latest.fetchedAt,
+    };
+  }
+
+  /**
+   * Quote for showing prices; null for NGN or when no rate is available,
+   * in which case prices are shown in NGN only
+   */
+  async getDisplayQuote(currency?: Currency): Promise<FxQuote | null> {
+    if (!currency || currency === this.BASE) return null;
+
+    try {
+      return await this.getQuote(currency);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Current rates for every supported currency
+   */
+  async getRates() {
+    const quotes = await Promise.all(
+      this.QUOTES.map((currency) => this.getDisplayQuote(currency)),
+    );
+
+    return {
+      base: this.BASE,
+      rates: quotes.filter((quote): quote is FxQuote => quote !== null),
+    };
+  }
+
+  /**
+   * An NGN amount in another currency, to the minor unit
+   */
+  convert(amountNgn: number, rate: number) {
+    return new Decimal(amountNgn)
+      .mul(rate)
+      .toDecimalPlaces(2, Decimal.ROUND_HALF_UP)
+      .toNumber();
+  }
+
+  /**
+   * An amount in another currency back in NGN, to the kobo
+   */
+  toNgn(amount: number, rate: number) {
+    return new Decimal(amount)
+      .div(rate)
+      .toDecimalPlaces(2, Decimal.ROUND_HALF_UP)
+      .toNumber();
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private async fetchRates() {
+    const rates = await this.source.getRates(this.BASE, this.QUOTES);
+    const fetchedAt = new Date();
+
+    const rows = this.QUOTES.filter((quote) => rates[quote]).map((quote) => ({
+      base: this.BASE,
+      quote,
+      rate: rates[quote]!,
+      source: this.source.name,
+      fetchedAt,
+    }));
+
+    if (!rows.length) {
+      throw new Error(`${this.source.name} returned no rates`);
+    }
+
+    return this.prisma.fxRate.createManyAndReturn({ data: rows });
+  }
+
+  private findLatest(currency: Currency) {
+    return this.prisma.fxRate.findFirst({
+      where: { base: this.BASE, quote: currency },
+      orderBy: { fetchedAt: 'desc' },
+    });
+  }
+
+  private ageOf(rate: FxRate) {
+    return Date.now() - rate.fetchedAt.getTime();
+  }
+}
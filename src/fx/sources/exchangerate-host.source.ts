@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { Currency } from '@prisma/client';
+import { firstValueFrom, timeout } from 'rxjs';
+import { FxRateSource, FxRates } from './fx-rate-source';
+
+/**
+ * exchangerate.host live rates. Needs EXCHANGERATE_HOST_ACCESS_KEY.
+ */
+@Injectable()
+export class ExchangeRateHostSource implements FxRateSource {
+  readonly name = 'exchangerate.host';
+
+  constructor(
+    private readonly http: HttpService,
+    private readonly config: ConfigService,
+  ) {}
+
+  async getRates(base: Currency, quotes: Currency[]): Promise<FxRates> {
+    const res = await firstValueFrom(
+      this.http
+        .get<{
+          success: boolean;
+          quotes?: Record<string, number>;
+          error?: { info?: string };
+        }>('https://api.exchangerate.host/live', {
+          params: {
+            access_key: this.config.get<string>('EXCHANGERATE_HOST_ACCESS_KEY'),
+            source: base,
+            currencies: quotes.join(','),
+          },
+          timeout: 10000,
+        })
+        .pipe(timeout(10000)),
+    );
+
+    if (!res.data?.success) {
+      throw new Error(
+        `exchangerate.host error: ${res.data?.error?.info ?? 'no rates'}`,
+      );
+    }
+
+    // Quotes are keyed by pair, e.g. NGNUSD
+    const rates: FxRates = {};
+    for (const quote of quotes) {
+      const rate = Number(res.data.quotes?.[`${base}${quote}`]);
+      if (rate > 0) rates[quote] = rate;
+    }
+    return rates;
+  }
+}
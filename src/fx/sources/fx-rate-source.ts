@@ -0,0 +1,15 @@
+import { Currency } from '@prisma/client';
+
+export const FX_RATE_SOURCE = 'FX_RATE_SOURCE';
+
+// Units of each quote currency per unit of the base
+export type FxRates = Partial<Record<Currency, number>>;
+
+/**
+ * Where exchange rates come from. Set FX_RATE_SOURCE to pick one; see
+ * FxModule for the available sources.
+ */
+export interface FxRateSource {
+  readonly name: string;
+  getRates(base: Currency, quotes: Currency[]): Promise<FxRates>;
+}
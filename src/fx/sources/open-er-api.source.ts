@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { Currency } from '@prisma/client';
+import { firstValueFrom, timeout } from 'rxjs';
+import { FxRateSource, FxRates } from './fx-rate-source';
+
+/**
+ * ExchangeRate-API open access rates. No key needed; rates update daily.
+ */
+@Injectable()
+export class OpenErApiSource implements FxRateSource {
+  readonly name = 'open.er-api.com';
+
+  constructor(private readonly http: HttpService) {}
+
+  async getRates(base: Currency, quotes: Currency[]): Promise<FxRates> {
+    const res = await firstValueFrom(
+      this.http
+        .get<{
+          result: string;
+          rates?: Record<string, number>;
+          'error-type'?: string;
+        }>(`https://open.er-api.com/v6/latest/${base}`, { timeout: 10000 })
+        .pipe(timeout(10000)),
+    );
+
+    if (res.data?.result !== 'success') {
+      throw new Error(
+        `open.er-api.com error: ${res.data?.['error-type'] ?? 'no rates'}`,
+      );
+    }
+
+    const rates: FxRates = {};
+    for (const quote of quotes) {
+      const rate = Number(res.data.rates?.[quote]);
+      if (rate > 0) rates[quote] = rate;
+    }
+    return rates;
+  }
+}
@@ -0,0 +1,38 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDate, IsOptional, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class TrialBalanceQueryDto {
+  @ApiPropertyOptional({
+    example: '2026-06-30T23:59:59Z',
+    description: 'Include lines posted up to this time',
+  })
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  asOf?: Date;
+}
+
+export class AccountStatementQueryDto {
+  @ApiPropertyOptional({ example: '2026-06-01T00:00:00Z' })
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  from?: Date;
+
+  @ApiPropertyOptional({ example: '2026-06-30T23:59:59Z' })
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  to?: Date;
+
+  @ApiPropertyOptional({ description: 'Only lines for this user' })
+  @IsString()
+  @IsOptional()
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Only lines for this pool' })
+  @IsString()
+  @IsOptional()
+  poolId?: string;
+}
@@ -0,0 +1,43 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseEnumPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { LedgerAccount } from '@prisma/client';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Role } from '../constant';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { LedgerService } from './ledger.service';
+import {
+  AccountStatementQueryDto,
+  TrialBalanceQueryDto,
+} from './dto/ledger-query.dto';
+
+@ApiTags('Ledger')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('ledger')
+export class LedgerController {
+  constructor(private readonly ledgerService: LedgerService) {}
+
+  @Get('trial-balance')
+  @ApiOperation({ summary: 'Admin: Debit and credit totals per account' })
+  getTrialBalance(@Query() query: TrialBalanceQueryDto) {
+    return this.ledgerService.getTrialBalance(query.asOf);
+  }
+
+  @Get('accounts/:account/statement')
+  @ApiOperation({ summary: 'Admin: Lines posted to an account' })
+  getAccountStatement(
+    @Param('account', new ParseEnumPipe(LedgerAccount)) account: LedgerAccount,
+    @Query() query: AccountStatementQueryDto,
+  ) {
+    return this.ledgerService.getAccountStatement(account, query);
+  }
+}
@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { LedgerService } from './ledger.service';
+import { PrismaService } from '../services/prisma.service';
+import { JournalEntryType, LedgerAccount, Prisma } from '@prisma/client';
+
+describe('LedgerService', () => {
+  let service: LedgerService;
+
+  const mockPrismaService = {
+    journalEntry: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    journalLine: {
+      groupBy: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LedgerService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<LedgerService>(LedgerService);
+  });
+
+  it('should reject entries whose debits and credits differ', async () => {
+    await expect(
+      service.post({
+        type: JournalEntryType.PAYMENT,
+        reference: 'ref-1',
+        lines: [
+          { account: LedgerAccount.GATEWAY_CLEARING, debit: 10200 },
+          { account: LedgerAccount.ESCROW, credit: 10000 },
+        ],
+      }),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockPrismaService.journalEntry.create).not.toHaveBeenCalled();
+  });
+
+  it('should post a payment once per reference', async () => {
+    mockPrismaService.journalEntry.findUnique.mockResolvedValue({
+      id: 'entry-1',
+    });
+
+    const entry = await service.recordPayment({
+      reference: 'ref-1',
+      userId: 'buyer-1',
+      poolId: 'pool-1',
+      charged: 10200,
+      platformFee: 200,
+    });
+
+    expect(entry).toEqual({ id: 'entry-1' });
+    expect(mockPrismaService.journalEntry.findUnique).toHaveBeenCalledWith({
+      where: {
+        type_reference: { type: JournalEntryType.PAYMENT, reference: 'ref-1' },
+      },
+    });
+    expect(mockPrismaService.journalEntry.create).not.toHaveBeenCalled();
+  });
+
+  it('should report balances on the side each account normally carries', async () => {
+    mockPrismaService.journalLine.groupBy.mockResolvedValue([
+      {
+        account: LedgerAccount.GATEWAY_CLEARING,
+        _sum: {
+          debit: new Prisma.Decimal(10200),
+          credit: new Prisma.Decimal(0),
+        },
+      },
+      {
+        account: LedgerAccount.ESCROW,
+        _sum: {
+          debit: new Prisma.Decimal(0),
+          credit: new Prisma.Decimal(10000),
+        },
+      },
+      {
+        account: LedgerAccount.PLATFORM_REVENUE,
+        _sum: { debit: new Prisma.Decimal(0), credit: new Prisma.Decimal(200) },
+      },
+    ]);
+
+    const trialBalance = await service.getTrialBalance();
+
+    expect(trialBalance.balanced).toBe(true);
+    expect(trialBalance.totalDebit).toBe(10200);
+    expect(
+      trialBalance.accounts.find(
+        (row) => row.account === LedgerAccount.GATEWAY_CLEARING,
+      ),
+    ).toEqual(
+      expect.objectContaining({ normalBalance: 'DEBIT', balance: 10200 }),
+    );
+    expect(
+      trialBalance.accounts.find((row) => row.account === LedgerAccount.ESCROW),
+    ).toEqual(
+      expect.objectContaining({ normalBalance: 'CREDIT', balance: 10000 }),
+    );
+  });
+});
@@ -0,0 +1,597 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import {
+  JournalEntryType,
+  LedgerAccount,
+  Prisma,
+  WalletEntry,
+  WalletEntrySource,
+  WalletEntryType,
+} from '@prisma/client';
+import Decimal from 'decimal.js';
+
+// Accounts whose balance grows with debits; the rest grow with credits
+const DEBIT_NORMAL: LedgerAccount[] = [
+  LedgerAccount.GATEWAY_CLEARING,
+  LedgerAccount.GATEWAY_FEES,
+];
+
+const STATEMENT_LIMIT = 500;
+
+export interface JournalLineInput {
+  account: LedgerAccount;
+  debit?: number;
+  credit?: number;
+  userId?: string | null;
+  poolId?: string | null;
+}
+
+export interface LedgerRefund {
+  id: string; // Refund id
+  userId: string;
+  poolId?: string | null;
+  amount: number; // As requested from the gateway
+}
+
+export interface JournalEntryInput {
+  type: JournalEntryType;
+  reference: string;
+  description?: string;
+  poolId?: string | null;
+  userId?: string | null;
+  lines: JournalLineInput[];
+}
+
+/**
+ * LedgerService keeps the double-entry books for every money movement.
+ *
+ * Each movement is one journal entry whose debits equal its credits, so the
+ * trial balance always nets to zero. Entries are keyed by (type, reference):
+ * posting the same movement again returns the existing entry, which makes
+ * it safe to post from retried webhooks and jobs.
+ *
+ * MONEY FLOW:
+ * 1. Payment: gateway clearing (and buyer funds for store credit) into
+ *    escrow, less the platform fee
+ * 2. Withhold: escrow frozen by a dispute, and back when it is resolved
+ * 3. Release: escrow to vendor payable, less commission
+ * 4. Payout: vendor payable out through a gateway transfer
+ * 5. Refund: escrow to refunds payable until the gateway settles it, or
+ *    straight to buyer funds for wallet refunds
+ *
+ * Failed or reversed payouts are undone with mirror entries (see reverse).
+ */
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Post a balanced journal entry. Zero lines are dropped.
+   */
+  async post(entry: JournalEntryInput, tx?: Prisma.TransactionClient) {
+    const prisma = tx || this.prisma;
+
+    const lines = entry.lines.filter(
+      (line) => (line.debit ?? 0) !== 0 || (line.credit ?? 0) !== 0,
+    );
+    if (!lines.length) return null;
+
+    const debits = lines.reduce(
+      (sum, line) => sum.add(line.debit ?? 0),
+      new Decimal(0),
+    );
+    const credits = lines.reduce(
+      (sum, line) => sum.add(line.credit ?? 0),
+      new Decimal(0),
+    );
+
+    if (!debits.equals(credits)) {
+      throw new BadRequestException(
+        `Unbalanced ${entry.type} entry ${entry.reference}: debits ${debits.toString()} != credits ${credits.toString()}`,
+      );
+    }
+
+    if (lines.some((line) => (line.debit ?? 0) < 0 || (line.credit ?? 0) < 0)) {
+      throw new BadRequestException('Journal lines cannot be negative');
+    }
+
+    const existing = await prisma.journalEntry.findUnique({
+      where: {
+        type_reference: { type: entry.type, reference: entry.reference },
+      },
+    });
+    if (existing) return existing;
+
+    return prisma.journalEntry.create({
+      data: {
+        type: entry.type,
+        reference: entry.reference,
+        description: entry.description,
+        poolId: entry.poolId,
+        userId: entry.userId,
+        lines: {
+          create: lines.map((line) => ({
+            account: line.account,
+            debit: line.debit ?? 0,
+            credit: line.credit ?? 0,
+            userId: line.userId ?? entry.userId,
+            poolId: line.poolId ?? entry.poolId,
+          })),
+        },
+      },
+    });
+  }
+
+  // ============================================
+  // POSTINGS
+  // ============================================
+
+  /**
+   * A buyer's payment for slots. Store credit spent on the checkout is
+   * already in escrow (see recordWalletEntry); charged is what the gateway
+   * collected and platformFee is taken out of the total.
+   */
+  async recordPayment(
+    payment: {
+      reference: string;
+      userId: string;
+      poolId: string;
+      charged: number;
+      platformFee: number;
+    },
+    tx?: Prisma.TransactionClient,
+  ) {
+    const { charged, platformFee } = payment;
+
+    return this.post(
+      {
+        type: JournalEntryType.PAYMENT,
+        reference: payment.reference,
+        description: 'Pool payment',
+        userId: payment.userId,
+        poolId: payment.poolId,
+        lines: [
+          { account: LedgerAccount.GATEWAY_CLEARING, debit: charged },
+          this.signedCredit(
+            LedgerAccount.ESCROW,
+            new Decimal(charged).sub(platformFee).toNumber(),
+          ),
+          { account: LedgerAccount.PLATFORM_REVENUE, credit: platformFee },
+        ],
+      },
+      tx,
+    );
+  }
+
+  /**
+   * A wallet credit or debit against what it was for: checkouts and
+   * refunds move store credit in and out of escrow, admin adjustments are
+   * paid for by the platform
+   */
+  async recordWalletEntry(
+    entry: WalletEntry,
+    userId: string,
+    tx?: Prisma.TransactionClient,
+  ) {
+    const counterAccount =
+      entry.source === WalletEntrySource.ADJUSTMENT
+        ? LedgerAccount.PLATFORM_REVENUE
+        : LedgerAccount.ESCROW;
+    const isCredit = entry.type === WalletEntryType.CREDIT;
+    const amount = Number(entry.amount);
+
+    return this.post(
+      {
+        type: JournalEntryType.WALLET,
+        reference: entry.id,
+        description: `Wallet ${entry.source.toLowerCase()}${entry.description ? `: ${entry.description}` : ''}`,
+        userId,
+        poolId: entry.poolId,
+        lines: [
+          {
+            account: LedgerAccount.BUYER_FUNDS,
+            ...(isCredit ? { credit: amount } : { debit: amount }),
+          },
+          {
+            account: counterAccount,
+            ...(isCredit ? { debit: amount } : { credit: amount }),
+          },
+        ],
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Escrow frozen (positive amounts) or unfrozen (negative) by a dispute
+   */
+  async recordWithhold(
+    poolId: string,
+    amount: number,
+    reference: string,
+    description: string,
+    tx?: Prisma.TransactionClient,
+  ) {
+    const withhold = amount > 0;
+    const value = Math.abs(amount);
+
+    return this.post(
+      {
+        type: withhold
+          ? JournalEntryType.WITHHOLD
+          : JournalEntryType.WITHHOLD_RELEASE,
+        reference,
+        description,
+        poolId,
+        lines: [
+          {
+            account: LedgerAccount.ESCROW,
+            ...(withhold ? { debit: value } : { credit: value }),
+          },
+          {
+            account: LedgerAccount.ESCROW_WITHHELD,
+            ...(withhold ? { credit: value } : { debit: value }),
+          },
+        ],
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Escrow released to the vendor, less the platform's commission
+   */
+  async recordRelease(
+    release: {
+      reference: string;
+      poolId: string;
+      vendorId: string;
+      amount: number;
+      commission: number;
+      description?: string;
+    },
+    tx?: Prisma.TransactionClient,
+  ) {
+    const net = new Decimal(release.amount).sub(release.commission).toNumber();
+
+    return this.post(
+      {
+        type: JournalEntryType.ESCROW_RELEASE,
+        reference: release.reference,
+        description: release.description ?? 'Escrow released to vendor',
+        poolId: release.poolId,
+        lines: [
+          { account: LedgerAccount.ESCROW, debit: release.amount },
+          {
+            account: LedgerAccount.VENDOR_PAYABLE,
+            credit: net,
+            userId: release.vendorId,
+          },
+          {
+            account: LedgerAccount.PLATFORM_REVENUE,
+            credit: release.commission,
+          },
+        ],
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Money sent to a vendor's bank account
+   */
+  async recordPayout(
+    payout: {
+      reference: string;
+      poolId: string;
+      vendorId: string;
+      amount: number;
+    },
+    tx?: Prisma.TransactionClient,
+  ) {
+    return this.post(
+      {
+        type: JournalEntryType.PAYOUT,
+        reference: payout.reference,
+        description: 'Vendor payout',
+        poolId: payout.poolId,
+        userId: payout.vendorId,
+        lines: [
+          { account: LedgerAccount.VENDOR_PAYABLE, debit: payout.amount },
+          { account: LedgerAccount.GATEWAY_CLEARING, credit: payout.amount },
+        ],
+      },
+      tx,
+    );
+  }
+
+  /**
+   * A refund sent to a gateway. It stays payable until the gateway
+   * settles or fails it.
+   */
+  async recordGatewayRefund(
+    refund: LedgerRefund,
+    tx?: Prisma.TransactionClient,
+  ) {
+    return this.post(
+      {
+        type: JournalEntryType.REFUND,
+        reference: refund.id,
+        description: 'Refund sent to gateway',
+        userId: refund.userId,
+        poolId: refund.poolId,
+        lines: [
+          { account: LedgerAccount.ESCROW, debit: refund.amount },
+          { account: LedgerAccount.REFUNDS_PAYABLE, credit: refund.amount },
+        ],
+      },
+      tx,
+    );
+  }
+
+  /**
+   * A gateway refund settled for settledAmount. Any difference from what
+   * was requested stays in escrow.
+   */
+  async recordRefundSettled(
+    refund: LedgerRefund,
+    settledAmount: number,
+    tx?: Prisma.TransactionClient,
+  ) {
+    return this.post(
+      {
+        type: JournalEntryType.REFUND_SETTLED,
+        reference: refund.id,
+        description: 'Refund settled by gateway',
+        userId: refund.userId,
+        poolId: refund.poolId,
+        lines: [
+          { account: LedgerAccount.REFUNDS_PAYABLE, debit: refund.amount },
+          { account: LedgerAccount.GATEWAY_CLEARING, credit: settledAmount },
+          this.signedCredit(
+            LedgerAccount.ESCROW,
+            new Decimal(refund.amount).sub(settledAmount).toNumber(),
+          ),
+        ],
+      },
+      tx,
+    );
+  }
+
+  /**
+   * A gateway refund that failed after it was accepted: the money is back
+   * in escrow
+   */
+  async recordRefundFailed(
+    refund: LedgerRefund,
+    tx?: Prisma.TransactionClient,
+  ) {
+    return this.post(
+      {
+        type: JournalEntryType.REFUND_FAILED,
+        reference: refund.id,
+        description: 'Refund failed at gateway',
+        userId: refund.userId,
+        poolId: refund.poolId,
+        lines: [
+          { account: LedgerAccount.REFUNDS_PAYABLE, debit: refund.amount },
+          { account: LedgerAccount.ESCROW, credit: refund.amount },
+        ],
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Fees a gateway kept from a charge
+   */
+  async recordGatewayFee(
+    reference: string,
+    amount: number,
+    poolId?: string,
+    tx?: Prisma.TransactionClient,
+  ) {
+    return this.post(
+      {
+        type: JournalEntryType.GATEWAY_FEE,
+        reference,
+        description: 'Gateway processing fee',
+        poolId,
+        lines: [
+          { account: LedgerAccount.GATEWAY_FEES, debit: amount },
+          { account: LedgerAccount.GATEWAY_CLEARING, credit: amount },
+        ],
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Undo a posted entry with its mirror image, e.g. a payout the gateway
+   * reversed. Returns null when the original was never posted.
+   */
+  async reverse(
+    type: JournalEntryType,
+    reference: string,
+    reversalType: JournalEntryType,
+    tx?: Prisma.TransactionClient,
+  ) {
+    const prisma = tx || this.prisma;
+
+    const original = await prisma.journalEntry.findUnique({
+      where: { type_reference: { type, reference } },
+      include: { lines: true },
+    });
+    if (!original) return null;
+
+    return this.post(
+      {
+        type: reversalType,
+        reference,
+        description: `Reversal of ${original.description || type}`,
+        poolId: original.poolId,
+        userId: original.userId,
+        lines: original.lines.map((line) => ({
+          account: line.account,
+          debit: Number(line.credit),
+          credit: Number(line.debit),
+          userId: line.userId,
+          poolId: line.poolId,
+        })),
+      },
+      tx,
+    );
+  }
+
+  // ============================================
+  // REPORTS
+  // ============================================
+
+  /**
+   * Debit and credit totals per account up to a date. Total debits equal
+   * total credits when the books balance.
+   */
+  async getTrialBalance(asOf?: Date) {
+    const totals = await this.prisma.journalLine.groupBy({
+      by: ['account'],
+      where: asOf ? { createdAt: { lte: asOf } } : {},
+      _sum: { debit: true, credit: true },
+    });
+
+    const accounts = Object.values(LedgerAccount).map((account) => {
+      const row = totals.find((total) => total.account === account);
+      const debit = new Decimal((row?._sum.debit ?? 0).toString());
+      const credit = new Decimal((row?._sum.credit ?? 0).toString());
+
+      return {
+        account,
+        normalBalance: this.isDebitNormal(account) ? 'DEBIT' : 'CREDIT',
+        debit: debit.toNumber(),
+        credit: credit.toNumber(),
+        balance: this.balanceOf(account, debit, credit).toNumber(),
+      };
+    });
+
+    const totalDebit = accounts.reduce(
+      (sum, account) => sum.add(account.debit),
+      new Decimal(0),
+    );
+    const totalCredit = accounts.reduce(
+      (sum, account) => sum.add(account.credit),
+      new Decimal(0),
+    );
+
+    if (!totalDebit.equals(totalCredit)) {
+      this.logger.error(
+        `Trial balance is out by ${totalDebit.sub(totalCredit).toString()}`,
+      );
+    }
+
+    return {
+      asOf: asOf ?? new Date(),
+      accounts,
+      totalDebit: totalDebit.toNumber(),
+      totalCredit: totalCredit.toNumber(),
+      balanced: totalDebit.equals(totalCredit),
+    };
+  }
+
+  /**
+   * Lines posted to one account with a running balance, optionally for one
+   * user or pool
+   */
+  async getAccountStatement(
+    account: LedgerAccount,
+    filters: { from?: Date; to?: Date; userId?: string; poolId?: string },
+  ) {
+    const where: Prisma.JournalLineWhereInput = {
+      account,
+      ...(filters.userId && { userId: filters.userId }),
+      ...(filters.poolId && { poolId: filters.poolId }),
+    };
+
+    // Everything before the period is carried in as the opening balance
+    const opening = filters.from
+      ? await this.prisma.journalLine.aggregate({
+          where: { ...where, createdAt: { lt: filters.from } },
+          _sum: { debit: true, credit: true },
+        })
+      : null;
+    let balance = opening
+      ? this.balanceOf(
+          account,
+          new Decimal((opening._sum.debit ?? 0).toString()),
+          new Decimal((opening._sum.credit ?? 0).toString()),
+        )
+      : new Decimal(0);
+    const openingBalance = balance.toNumber();
+
+    const lines = await this.prisma.journalLine.findMany({
+      where: {
+        ...where,
+        createdAt: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      },
+      include: {
+        entry: { select: { type: true, reference: true, description: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: STATEMENT_LIMIT,
+    });
+
+    const rows = lines.map((line) => {
+      balance = balance.add(
+        this.balanceOf(
+          account,
+          new Decimal(line.debit.toString()),
+          new Decimal(line.credit.toString()),
+        ),
+      );
+
+      return {
+        date: line.createdAt,
+        type: line.entry.type,
+        reference: line.entry.reference,
+        description: line.entry.description,
+        userId: line.userId,
+        poolId: line.poolId,
+        debit: Number(line.debit),
+        credit: Number(line.credit),
+        balance: balance.toNumber(),
+      };
+    });
+
+    return {
+      account,
+      openingBalance,
+      closingBalance: balance.toNumber(),
+      truncated: lines.length === STATEMENT_LIMIT,
+      lines: rows,
+    };
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private isDebitNormal(account: LedgerAccount) {
+    return DEBIT_NORMAL.includes(account);
+  }
+
+  private balanceOf(account: LedgerAccount, debit: Decimal, credit: Decimal) {
+    return this.isDebitNormal(account) ? debit.sub(credit) : credit.sub(debit);
+  }
+
+  /**
+   * A credit line for positive amounts and a debit line for negative ones
+   */
+  private signedCredit(account: LedgerAccount, amount: number) {
+    return amount >= 0
+      ? { account, credit: amount }
+      : { account, debit: -amount };
+  }
+}
@@ -160,6 +160,7 @@ export class EmailChannelService {
     const {
       amount,
       poolName,
+      variantName,
       transactionId,
       subscriptionId,
       slots,
@@ -195,6 +196,16 @@ export class EmailChannelService {
                 <td style="padding: 8px 0; color: #6b7280;">Pool:</td>
                 <td style="padding: 8px 0; color: #1f2937; text-align: right; font-weight: 500;">${poolName}</td>
               </tr>
+              ${
+                variantName
+                  ? `
+              <tr>
+                <td style="padding: 8px 0; color: #6b7280;">Variant:</td>
+                <td style="padding: 8px 0; color: #1f2937; text-align: right; font-weight: 500;">${variantName}</td>
+              </tr>
+              `
+                  : ''
+              }
               <tr>
                 <td style="padding: 8px 0; color: #6b7280;">Slots:</td>
                 <td style="padding: 8px 0; color: #1f2937; text-align: right; font-weight: 500;">${slots}</td>
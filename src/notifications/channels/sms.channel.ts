@@ -54,6 +54,7 @@ export class SmsChannelService {
     const {
       amount,
       poolName,
+      variantName,
       transactionId,
       subscriptionId,
       slots,
@@ -72,6 +73,7 @@ export class SmsChannelService {
     const message = [
       `FarmShare ${shortType} Receipt`,
       `Pool: ${poolName}`,
+      variantName ? `Variant: ${variantName}` : null,
       `Slots: ${slots}`,
       `Total: ₦${totalAmount.toLocaleString()}`,
       transactionId ? `Txn ID: ${transactionId}` : null,
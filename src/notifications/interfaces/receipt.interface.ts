@@ -1,6 +1,7 @@
 export interface ReceiptDetails {
   amount: number;
   poolName: string;
+  variantName?: string;
   transactionId?: string;
   subscriptionId: string;
   email: string;
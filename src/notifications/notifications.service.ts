@@ -4,7 +4,11 @@ import { EmailChannelService } from './channels/email.channel';
 import { SmsChannelService } from './channels/sms.channel';
 import { PushChannelService } from './channels/push.channel';
 import { WebhookChannelService } from './channels/webhook.channel';
-import { NotificationType, NotificationMedium } from '@prisma/client';
+import {
+  NotificationType,
+  NotificationMedium,
+  SubscriptionStatus,
+} from '@prisma/client';
 import { UpdateNotificationPreferencesDto } from './dto/notification.dto';
 
 @Injectable()
@@ -270,7 +274,10 @@ export class NotificationsService {
       where: { id: poolId },
       include: {
         vendor: true,
-        subscriptions: { include: { user: true } },
+        subscriptions: {
+          where: { status: SubscriptionStatus.ACTIVE },
+          include: { user: true },
+        },
         product: true,
       },
     });
@@ -312,6 +319,53 @@ export class NotificationsService {
     }
   }
 
+  async notifyPoolCancelled(poolId: string, reason: string) {
+    const pool = await this.prisma.pool.findUnique({
+      where: { id: poolId },
+      include: {
+        subscriptions: { where: { status: SubscriptionStatus.ACTIVE } },
+        product: true,
+      },
+    });
+
+    if (!pool) return;
+
+    // Notify vendor
+    await this.sendNotification(
+      pool.vendorId,
+      NotificationType.POOL_UPDATE,
+      [
+        NotificationMedium.EMAIL,
+        NotificationMedium.PUSH,
+        NotificationMedium.IN_APP,
+      ],
+      {
+        title: 'Pool Cancelled',
+        message: `Your pool "${pool.product?.name}" has been cancelled. ${reason}. All buyers are being refunded.`,
+        poolId,
+      },
+    );
+
+    // Notify each buyer once, even if they hold several subscriptions
+    const buyerIds = [...new Set(pool.subscriptions.map((sub) => sub.userId))];
+    for (const buyerId of buyerIds) {
+      await this.sendNotification(
+        buyerId,
+        NotificationType.POOL_UPDATE,
+        [
+          NotificationMedium.EMAIL,
+          NotificationMedium.PUSH,
+          NotificationMedium.IN_APP,
+        ],
+        {
+          title: 'Pool Cancelled - Refund Issued',
+          message: `The pool "${pool.product?.name}" has been cancelled. ${reason}. Your payment is being refunded.`,
+          poolId,
+        },
+      );
+    }
+  }
+
   async notifyVerificationComplete(userId: string) {
     await this.sendNotification(
       userId,
@@ -557,6 +611,31 @@ export class NotificationsService {
     );
   }
 
+  /**
+   * Alert every admin about something that needs manual follow-up
+   */
+  async notifyAdmins(
+    title: string,
+    message: string,
+    data: Record<string, any> = {},
+  ) {
+    const admins = await this.prisma.user.findMany({
+      where: { role: 'ADMIN' },
+      select: { id: true },
+    });
+
+    await Promise.allSettled(
+      admins.map((admin) =>
+        this.sendNotification(
+          admin.id,
+          NotificationType.ADMIN,
+          [NotificationMedium.EMAIL, NotificationMedium.IN_APP],
+          { title, message, data },
+        ),
+      ),
+    );
+  }
+
   private getSecurityMessage(alertDetails: {
     type: 'login' | 'password_change' | 'account_update';
     location?: string;
@@ -8,7 +8,9 @@ import {
   Validate,
   IsOptional,
   IsNotEmpty,
+  IsNumber,
 } from 'class-validator';
+import { Currency } from '@prisma/client';
 import { PaymentMethod } from '../payments.service';
 import { IsEitherTrue } from '../../utils/either-true.validator';
 
@@ -34,4 +36,32 @@ export class InitPaymentDto {
   @IsString()
   @IsNotEmpty()
   idempotencyKey?: string;
+
+  // Required when the pool is split into variants (cuts, grades, sizes)
+  @IsOptional()
+  @IsUUID()
+  variantId?: string;
+
+  // Required when the pool has pickup hubs and no home delivery is chosen
+  @IsOptional()
+  @IsUUID()
+  pickupLocationId?: string;
+
+  // Required the first time a buyer joins an invite-only pool
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  inviteCode?: string;
+
+  // Store credit to spend; only the rest is charged through the gateway
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  walletAmount?: number;
+
+  // Currency to charge a Stripe payment in (default USD); Paystack
+  // payments are always in NGN
+  @IsOptional()
+  @IsEnum(Currency)
+  currency?: Currency;
 }
@@ -45,6 +45,11 @@ export class PaymentsController {
         waybillWithin: body.waybillWithin,
         waybillOutside: body.waybillOutside,
         idempotencyKey: body.idempotencyKey,
+        variantId: body.variantId,
+        pickupLocationId: body.pickupLocationId,
+        inviteCode: body.inviteCode,
+        walletAmount: body.walletAmount,
+        currency: body.currency,
       });
       return result;
     } catch (error) {
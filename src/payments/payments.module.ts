@@ -11,7 +11,13 @@ import { QueueModule } from '../queues/queue.module';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { EmailChannelService } from '../notifications/channels/email.channel';
 import { PoolsModule } from '../pools/pools.module';
-import { CurrencyService } from '../services/currency.service';
+import { WaitlistModule } from '../waitlist/waitlist.module';
+import { SlotHoldsModule } from '../slot-holds/slot-holds.module';
+import { SlotTransfersModule } from '../slot-transfers/slot-transfers.module';
+import { RefundsModule } from '../refunds/refunds.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { FxModule } from '../fx/fx.module';
 import { SecurityService } from '../common/services/security.service';
 
 @Module({
@@ -23,6 +29,13 @@ import { SecurityService } from '../common/services/security.service';
     EscrowModule,
     QueueModule,
     NotificationsModule,
+    WaitlistModule,
+    SlotHoldsModule,
+    SlotTransfersModule,
+    RefundsModule,
+    WalletModule,
+    LedgerModule,
+    FxModule,
   ],
   controllers: [PaymentsController],
   providers: [
@@ -30,7 +43,6 @@ import { SecurityService } from '../common/services/security.service';
     StripeService,
     PaystackService,
     EmailChannelService,
-    CurrencyService,
     SecurityService,
   ],
 })
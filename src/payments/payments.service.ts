@@ -1,17 +1,31 @@
 import {
   Injectable,
   BadRequestException,
+  ConflictException,
   NotFoundException,
   Logger,
 } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
 import { PrismaService } from '../services/prisma.service';
 import { StripeService } from '../services/stripe.service';
-import { PaystackService } from '../services/paystack.service';
+import {
+  PaystackService,
+  PaystackTransaction,
+  PaystackWebhookEvent,
+} from '../services/paystack.service';
 import { EmailChannelService } from '../notifications/channels/email.channel';
 import { SmsChannelService } from '../notifications/channels/sms.channel';
 import { NotificationsService } from '../notifications/notifications.service';
 import { EscrowService } from '../escrow/escrow.service';
 import { PoolsService } from '../pools/pools.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { SlotHoldsService } from '../slot-holds/slot-holds.service';
+import { SlotTransfersService } from '../slot-transfers/slot-transfers.service';
+import { PoolInvitesService } from '../pools/pool-invites.service';
+import { RefundsService } from '../refunds/refunds.service';
+import { WalletService } from '../wallet/wallet.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { FxService } from '../fx/fx.service';
 import { QueueService } from '../queues/queue.service';
 import { SecurityService } from '../common/services/security.service';
 import {
@@ -19,8 +33,22 @@ import {
   PaymentGateway,
   NotificationType,
   NotificationMedium,
+  WalletEntrySource,
+  Currency,
+  PoolStatus,
+  SubscriptionStatus,
+  RefundDestination,
+  PendingSubscription,
+  Pool,
+  Prisma,
 } from '@prisma/client';
 import { ReceiptDetails } from '../notifications/interfaces/receipt.interface';
+import Decimal from 'decimal.js';
+import Stripe from 'stripe';
+
+// Paystack charge statuses that will never turn into a payment. Anything
+// else (ongoing, pending, queued, abandoned...) may still succeed.
+const PAYSTACK_FAILED_STATUSES = ['failed', 'reversed'];
 
 export enum PaymentMethod {
   STRIPE = 'STRIPE',
@@ -42,6 +70,14 @@ export class PaymentsService {
     private poolsService: PoolsService,
     private queueService: QueueService,
     private securityService: SecurityService,
+    private waitlistService: WaitlistService,
+    private slotHoldsService: SlotHoldsService,
+    private slotTransfersService: SlotTransfersService,
+    private poolInvitesService: PoolInvitesService,
+    private refundsService: RefundsService,
+    private walletService: WalletService,
+    private ledgerService: LedgerService,
+    private fxService: FxService,
   ) {}
 
   async init(opts: {
@@ -52,6 +88,11 @@ export class PaymentsService {
     waybillWithin: boolean;
     waybillOutside: boolean;
     idempotencyKey?: string;
+    variantId?: string;
+    pickupLocationId?: string;
+    inviteCode?: string;
+    walletAmount?: number; // Store credit to spend; the rest is charged
+    currency?: Currency; // Stripe only; Paystack always charges NGN
   }) {
     const {
       method,
@@ -61,6 +102,11 @@ export class PaymentsService {
       waybillWithin,
       waybillOutside,
       idempotencyKey,
+      variantId,
+      pickupLocationId,
+      inviteCode,
+      walletAmount = 0,
+      currency = Currency.USD,
     } = opts;
 
     // SECURITY: Check payment rate limit before processing
@@ -87,6 +133,16 @@ export class PaymentsService {
           `Found existing pending subscription with idempotency key: ${idempotencyKey}`,
         );
 
+        // Store credit checkouts complete straight away
+        if (existingPending.gateway === PaymentGateway.WALLET) {
+          return {
+            method: PaymentGateway.WALLET,
+            url: '',
+            pendingId: existingPending.id,
+            alreadyProcessed: existingPending.status === PaymentStatus.SUCCESS,
+          };
+        }
+
         // If already successful, return the existing payment reference
         if (existingPending.status === PaymentStatus.SUCCESS) {
           const existingSubscription = await this.prisma.subscription.findFirst(
@@ -144,7 +200,12 @@ export class PaymentsService {
 
     const pool = await this.prisma.pool.findUnique({
       where: { id: poolId },
-      include: { product: true },
+      include: {
+        product: true,
+        priceTiers: true,
+        variants: true,
+        pickupLocations: { where: { active: true } },
+      },
     });
 
     if (!pool) throw new NotFoundException('Pool not found');
@@ -153,6 +214,15 @@ export class PaymentsService {
       throw new BadRequestException('Pool is not open for subscriptions');
     }
 
+    if (pool.fillDeadlineUtc && pool.fillDeadlineUtc <= new Date()) {
+      throw new BadRequestException('Pool has passed its fill deadline');
+    }
+
+    // Invite-only pools need a code the first time a buyer joins
+    await this.poolInvitesService.assertCanJoin(pool, userId, inviteCode);
+
+    const variant = this.poolsService.resolveVariant(pool, variantId);
+
     const user = await this.prisma.user.findUnique({ where: { id: userId } });
     if (!user) throw new NotFoundException('User not found');
 
@@ -166,31 +236,162 @@ export class PaymentsService {
       );
     }
 
-    // Calculate total amount
-    const itemCost = Number(pool.pricePerSlot) * slots;
-    // Platform fee is 2% of slot cost only (not including delivery)
-    const platformFee = Math.round(itemCost * 0.02);
+    const pickupLocation = this.poolsService.resolvePickupLocation(
+      pool,
+      pickupLocationId,
+      deliveryFee > 0,
+    );
+
+    // Calculate total amount at the variant or current tier price
+    const taken = await this.prisma.subscription.aggregate({
+      where: { poolId, status: SubscriptionStatus.ACTIVE },
+      _sum: { slots: true },
+    });
+    const pricePerSlot = variant
+      ? Number(variant.pricePerSlot)
+      : this.poolsService.getTierPrice(pool, taken._sum.slots ?? 0);
+    const itemCost = pricePerSlot * slots;
+    const platformFee = this.getPlatformFee(itemCost);
     const total = itemCost + platformFee + deliveryFee;
 
-    // Create pending subscription with idempotency key
-    const pending = await this.prisma.pendingSubscription.create({
-      data: {
-        userId,
-        poolId,
-        slots,
-        deliveryFee,
-        status: PaymentStatus.PENDING,
-        idempotencyKey: finalIdempotencyKey,
-        gateway:
-          opts.method === PaymentMethod.STRIPE
-            ? PaymentGateway.STRIPE
-            : PaymentGateway.PAYSTACK,
+    // Store credit covers up to the whole total; the gateway charges the rest
+    const fromWallet = Math.min(walletAmount, total);
+    const charge = total - fromWallet;
+    const gateway =
+      charge <= 0
+        ? PaymentGateway.WALLET
+        : opts.method === PaymentMethod.STRIPE
+          ? PaymentGateway.STRIPE
+          : PaymentGateway.PAYSTACK;
+
+    // Stripe charges the buyer's currency at today's rate; the rate is kept
+    // on the checkout so refunds convert back the same way
+    const fx =
+      gateway === PaymentGateway.STRIPE
+        ? await this.fxService.getQuote(currency)
+        : null;
+    const chargeAmount = fx ? this.fxService.convert(charge, fx.rate) : charge;
+
+    // Create pending subscription with idempotency key. The availability
+    // check, the hold and the store credit spend share one serializable
+    // transaction so concurrent checkouts cannot oversell.
+    let slotsExhausted = false;
+    const reservation = this.prisma.$transaction(
+      async (tx) => {
+        // Slots offered to waitlisted buyers or held by open checkouts are taken
+        const available = await this.waitlistService.getAvailableSlots(
+          poolId,
+          userId,
+          tx,
+        );
+        if (slots > available) {
+          slotsExhausted = true;
+          throw new BadRequestException('Not enough slots available');
+        }
+
+        if (
+          variant &&
+          slots >
+            (await this.poolsService.getVariantSlotsLeft(variant, userId, tx))
+        ) {
+          throw new BadRequestException(
+            `Not enough "${variant.name}" slots available`,
+          );
+        }
+
+        const created = await tx.pendingSubscription.create({
+          data: {
+            userId,
+            poolId,
+            slots,
+            deliveryFee,
+            pricePerSlot,
+            walletAmount: fromWallet,
+            variantId: variant?.id,
+            pickupLocationId: pickupLocation?.id,
+            status: PaymentStatus.PENDING,
+            // Hold the slots while the buyer pays
+            holdExpiresAt: this.slotHoldsService.getHoldExpiry(),
+            idempotencyKey: finalIdempotencyKey,
+            gateway,
+            ...(fx && {
+              currency: fx.currency,
+              chargeAmount,
+              fxRate: fx.rate,
+              fxSource: fx.source,
+              fxFetchedAt: fx.fetchedAt,
+            }),
+          },
+        });
+
+        if (fromWallet > 0) {
+          await this.walletService.debit(
+            userId,
+            fromWallet,
+            WalletEntrySource.CHECKOUT,
+            {
+              reference: created.id,
+              poolId,
+              description: `${slots} slot(s) of ${pool.product?.name || 'a pool'}`,
+            },
+            tx,
+          );
+        }
+
+        return created;
       },
+      {
+        isolationLevel: 'Serializable',
+      },
+    );
+
+    let waitlistPosition: number | null = null;
+    const pending = await reservation.catch(async (error) => {
+      // A concurrent checkout changed availability under the serializable
+      // transaction; nothing was reserved, so the buyer can simply retry
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2034'
+      ) {
+        throw new ConflictException('Slots changed during checkout');
+      }
+
+      // Keep the buyer's demand: queue them for the next freed slots
+      if (slotsExhausted) {
+        waitlistPosition = await this.waitlistService.tryJoinWaitlist(
+          poolId,
+          userId,
+          slots,
+        );
+      }
+      if (waitlistPosition === null) throw error;
+      return null;
     });
 
+    if (!pending) {
+      return { success: false, waitlisted: true, waitlistPosition };
+    }
+
+    // Fully paid with store credit: nothing to charge
+    if (gateway === PaymentGateway.WALLET) {
+      const result = await this.finalize(pending.id).catch(async (error) => {
+        // No payment is coming, so the checkout and its credit are released
+        await this.releaseCheckout(pending.id);
+        throw error;
+      });
+      return {
+        method: PaymentGateway.WALLET,
+        url: '',
+        pendingId: pending.id,
+        walletAmount: fromWallet,
+        ...result,
+      };
+    }
+
     const metadata = {
       pendingId: pending.id,
       poolId,
+      variantId: variant?.id,
       slots,
       deliveryFee,
       email: user.email,
@@ -201,8 +402,12 @@ export class PaymentsService {
       const session = await this.stripe.createSession(
         userId,
         pending.id,
-        total,
-        pool.product?.name || 'FarmShare Pool',
+        chargeAmount,
+        variant
+          ? `${pool.product?.name || 'FarmShare Pool'} - ${variant.name}`
+          : pool.product?.name || 'FarmShare Pool',
+        {},
+        currency,
       );
 
       await this.prisma.pendingSubscription.update({
@@ -217,13 +422,21 @@ export class PaymentsService {
         paymentReference: session.id,
         userId,
         poolId,
-        amount: total,
+        amount: charge,
         metadata: { sessionId: session.id },
       });
 
-      return { method: 'STRIPE', url: session.url, pendingId: pending.id };
+      return {
+        method: 'STRIPE',
+        url: session.url,
+        pendingId: pending.id,
+        walletAmount: fromWallet,
+        amount: charge,
+        currency,
+        chargeAmount,
+      };
     } else {
-      const result = await this.paystack.initialize(total, metadata);
+      const result = await this.paystack.initialize(charge, metadata);
 
       await this.prisma.pendingSubscription.update({
         where: { id: pending.id },
@@ -237,7 +450,7 @@ export class PaymentsService {
         paymentReference: result.reference,
         userId,
         poolId,
-        amount: total,
+        amount: charge,
         metadata: { authorizationUrl: result.authorization_url },
       });
 
@@ -246,6 +459,7 @@ export class PaymentsService {
         url: result.authorization_url,
         reference: result.reference,
         pendingId: pending.id,
+        walletAmount: fromWallet,
       };
     }
   }
@@ -257,6 +471,13 @@ export class PaymentsService {
       JSON.stringify(res, null, 2),
     );
 
+    await this.recordPaystackFees(res, reference);
+
+    // Payments for slots bought from another buyer
+    if (res.metadata?.transferId) {
+      return this.settlePaystackTransfer(res, reference);
+    }
+
     const { pendingId } = res.metadata;
     this.logger.log(`Extracted pendingId: ${pendingId}`);
 
@@ -265,6 +486,20 @@ export class PaymentsService {
       throw new BadRequestException('Invalid payment metadata');
     }
 
+    // Declined payments give their held slots back; payments still in
+    // flight keep the checkout and hold until the charge settles
+    if (PAYSTACK_FAILED_STATUSES.includes(res.status)) {
+      this.logger.warn(
+        `Paystack payment ${reference} not successful: ${res.status}`,
+      );
+      await this.releaseCheckout(pendingId);
+      return { success: false, status: res.status, pendingId };
+    }
+
+    if (res.status !== 'success') {
+      return { success: false, pending: true, status: res.status, pendingId };
+    }
+
     // Check if already processed to prevent duplicate processing
     const existingSubscription = await this.prisma.subscription.findFirst({
       where: {
@@ -332,6 +567,52 @@ export class PaymentsService {
       return { received: true, duplicate: true };
     }
 
+    // Refund status updates for refunds we issued
+    if (
+      event.type.startsWith('refund.') ||
+      event.type === 'charge.refund.updated'
+    ) {
+      await this.refundsService.handleStripeRefundEvent(
+        event.data.object as Stripe.Refund,
+      );
+
+      await this.securityService.markWebhookProcessed(
+        'stripe',
+        eventId,
+        event.type,
+        signature,
+      );
+
+      return { received: true };
+    }
+
+    // Payments for slots bought from another buyer
+    const eventSession = event.data.object as Stripe.Checkout.Session;
+    const transferId = eventSession.metadata?.transferId;
+    if (transferId) {
+      if (event.type === 'checkout.session.completed') {
+        await this.slotTransfersService.completeTransfer(transferId, {
+          ref: eventSession.id,
+          gateway: PaymentGateway.STRIPE,
+          userId: eventSession.client_reference_id!,
+        });
+      } else if (event.type === 'checkout.session.expired') {
+        await this.slotTransfersService.releaseTransfer(
+          transferId,
+          eventSession.id,
+        );
+      }
+
+      await this.securityService.markWebhookProcessed(
+        'stripe',
+        eventId,
+        event.type,
+        signature,
+      );
+
+      return { received: true };
+    }
+
     if (event.type === 'checkout.session.completed') {
       const session: any = event.data.object;
       const pendingId = session.metadata.subscriptionId;
@@ -382,6 +663,19 @@ export class PaymentsService {
       );
     }
 
+    if (event.type === 'checkout.session.expired') {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const pendingId = session.metadata?.subscriptionId;
+      if (pendingId) await this.releaseCheckout(pendingId);
+
+      await this.securityService.markWebhookProcessed(
+        'stripe',
+        eventId,
+        event.type,
+        signature,
+      );
+    }
+
     return { received: true };
   }
 
@@ -406,9 +700,19 @@ export class PaymentsService {
       throw new BadRequestException('Invalid Paystack signature');
     }
 
-    const body = JSON.parse(req.body.toString());
-    const eventId = body?.data?.id?.toString() || body?.data?.reference;
+    const body = JSON.parse(req.body.toString()) as PaystackWebhookEvent;
     const eventType = body?.event;
+    const isRefundEvent = eventType?.startsWith('refund.');
+    const isTransferEvent = [
+      'transfer.success',
+      'transfer.failed',
+      'transfer.reversed',
+    ].includes(eventType);
+    let eventId = body?.data?.id?.toString() || body?.data?.reference;
+    // Refunds and transfers send several status events with the same id
+    if ((isRefundEvent || isTransferEvent) && eventId) {
+      eventId = `${eventType}:${eventId}`;
+    }
 
     // SECURITY: Check for webhook replay attack
     if (eventId) {
@@ -422,12 +726,18 @@ export class PaymentsService {
       }
     }
 
-    if (body?.event === 'charge.success') {
-      const reference = body?.data?.reference;
+    const reference = body?.data?.reference;
+    if (body?.event === 'charge.success' && reference) {
       const res = await this.paystack.verify(reference);
-      const { pendingId } = res.metadata;
-
-      await this.finalize(pendingId);
+      await this.recordPaystackFees(res, reference);
+
+      if (res.metadata?.transferId) {
+        await this.settlePaystackTransfer(res, reference);
+      } else if (res.metadata?.pendingId) {
+        await this.finalize(res.metadata.pendingId);
+      } else {
+        this.logger.error(`No pendingId in Paystack metadata for ${reference}`);
+      }
 
       // Mark webhook as processed
       if (eventId) {
@@ -440,6 +750,33 @@ export class PaymentsService {
       }
     }
 
+    if (isRefundEvent) {
+      await this.refundsService.handlePaystackRefundEvent(body.data);
+
+      if (eventId) {
+        await this.securityService.markWebhookProcessed(
+          'paystack',
+          eventId,
+          eventType,
+          signature,
+        );
+      }
+    }
+
+    // Escrow payouts to vendors
+    if (isTransferEvent) {
+      await this.escrowService.handleTransferEvent(eventType, body.data);
+
+      if (eventId) {
+        await this.securityService.markWebhookProcessed(
+          'paystack',
+          eventId,
+          eventType,
+          signature,
+        );
+      }
+    }
+
     return { received: true };
   }
 
@@ -453,15 +790,38 @@ export class PaymentsService {
             vendor: true,
           },
         },
+        variant: true,
         user: true,
       },
     });
 
+    // A charge for a checkout that was closed first (its pool was cancelled
+    // or its hold was released) has nothing to fill, so it goes back
+    if (
+      pending?.status === PaymentStatus.FAILED &&
+      pending.gateway !== PaymentGateway.WALLET
+    ) {
+      await this.refundUnfulfilledCharge(pending, 'Checkout was closed');
+      return { success: false, refunded: true, pendingId };
+    }
+
+    if (pending?.status === PaymentStatus.REFUNDED) {
+      return { success: false, refunded: true, pendingId };
+    }
+
     if (!pending || pending.status !== PaymentStatus.PENDING) {
       throw new BadRequestException('Invalid or already processed');
     }
 
-    const subscription = await this.prisma.executeQuickTransaction(
+    // Charge the tier price quoted at checkout, not the current one
+    const pricePerSlot = Number(
+      pending.pricePerSlot ?? pending.pool.pricePerSlot,
+    );
+
+    let slotsExhausted = false;
+    let unfillable: string | null = null; // Why a paid checkout cannot be filled
+
+    const subscriptionCreation = this.prisma.executeQuickTransaction(
       async (tx) => {
         // Verify slot availability atomically
         const pool = await tx.pool.findUnique({
@@ -478,14 +838,34 @@ export class PaymentsService {
           throw new BadRequestException('Pool not found');
         }
 
+        // The pool was cancelled while the buyer was paying
+        if (pool.status !== PoolStatus.OPEN) {
+          unfillable = 'Pool is no longer open';
+          throw new BadRequestException(unfillable);
+        }
+
         const taken = await tx.subscription.aggregate({
-          where: { poolId: pending.poolId },
+          where: { poolId: pending.poolId, status: SubscriptionStatus.ACTIVE },
           _sum: { slots: true },
         });
 
         const slotsTaken = taken._sum.slots ?? 0;
+        // Slots offered to other waitlisted buyers are held for them
+        const reserved = await this.waitlistService.getReservedSlots(
+          pending.poolId,
+          pending.userId,
+          tx,
+        );
+        // As are slots other buyers are still paying for
+        const held = await this.slotHoldsService.getHeldSlots(
+          pending.poolId,
+          pending.userId,
+          tx,
+        );
 
-        if (slotsTaken + pending.slots > pool.slotsCount) {
+        if (slotsTaken + reserved + held + pending.slots > pool.slotsCount) {
+          slotsExhausted = true;
+          unfillable = 'Slots sold out';
           await tx.pendingSubscription.update({
             where: { id: pendingId },
             data: { status: PaymentStatus.FAILED },
@@ -495,31 +875,107 @@ export class PaymentsService {
           throw new BadRequestException('Not enough slots available');
         }
 
+        if (
+          pending.variant &&
+          pending.slots >
+            (await this.poolsService.getVariantSlotsLeft(
+              pending.variant,
+              pending.userId,
+              tx,
+            ))
+        ) {
+          unfillable = 'Slots sold out';
+          await tx.pendingSubscription.update({
+            where: { id: pendingId },
+            data: { status: PaymentStatus.FAILED },
+          });
+          await this.securityService.recordPaymentFailure(pending.userId);
+          throw new BadRequestException(
+            `Not enough "${pending.variant.name}" slots available`,
+          );
+        }
+
         // Create subscription
+        const amountPaid =
+          pricePerSlot * pending.slots + Number(pending.deliveryFee);
         const subscription = await tx.subscription.create({
           data: {
             userId: pending.userId,
             poolId: pending.poolId,
             slots: pending.slots,
-            amountPaid:
-              Number(pending.pool.pricePerSlot) * pending.slots +
-              Number(pending.deliveryFee),
+            amountPaid,
+            // The platform fee is paid from the charge before store credit
+            walletAmount: Math.min(Number(pending.walletAmount), amountPaid),
             deliveryFee: pending.deliveryFee,
+            pricePerSlot,
+            variantId: pending.variantId,
+            pickupLocationId: pending.pickupLocationId,
             paymentMethod: pending.gateway,
-            paymentRef: pending.stripeSessionId || pending.paystackRef || '',
+            paymentRef: this.getPaymentRef(pending),
           },
         });
 
+        // Store credit was moved to escrow when it was spent; the gateway
+        // collected the rest of the total, platform fee included
+        const platformFee = this.getPlatformFee(pricePerSlot * pending.slots);
+        await this.ledgerService.recordPayment(
+          {
+            reference: subscription.paymentRef,
+            userId: pending.userId,
+            poolId: pending.poolId,
+            charged: new Decimal(amountPaid)
+              .add(platformFee)
+              .sub(pending.walletAmount.toString())
+              .toNumber(),
+            platformFee,
+          },
+          tx,
+        );
+
         // Update pending status
         await tx.pendingSubscription.update({
           where: { id: pendingId },
-          data: { status: PaymentStatus.SUCCESS },
+          data: { status: PaymentStatus.SUCCESS, holdExpiresAt: null },
         });
 
+        await this.poolsService.syncSlotsTaken(pending.poolId, tx);
+
         return subscription;
       },
     );
 
+    let waitlistPosition: number | null = null;
+    const subscription = await subscriptionCreation.catch(async (error) => {
+      // Keep the buyer's demand: queue them for the next freed slots
+      if (slotsExhausted) {
+        waitlistPosition = await this.waitlistService.tryJoinWaitlist(
+          pending.poolId,
+          pending.userId,
+          pending.slots,
+        );
+      }
+      // The buyer paid after their hold lapsed and the slots were sold,
+      // or after the pool closed
+      if (unfillable && pending.gateway !== PaymentGateway.WALLET) {
+        await this.refundUnfulfilledCharge(pending, unfillable);
+        return null;
+      }
+      throw error;
+    });
+
+    if (!subscription) {
+      return {
+        success: false,
+        refunded: true,
+        pendingId,
+        waitlisted: waitlistPosition !== null,
+        waitlistPosition,
+      };
+    }
+
+    // Waitlisted buyers who paid no longer need their place in line
+    await this.waitlistService.markConverted(pending.poolId, pending.userId);
+
     // Clear payment failures on success (done outside transaction)
     await this.securityService.clearPaymentFailures(pending.userId);
 
@@ -554,47 +1010,34 @@ export class PaymentsService {
 
     // Recalculate slots taken
     const currentSlotsTaken = await this.prisma.subscription.aggregate({
-      where: { poolId: pending.poolId },
+      where: { poolId: pending.poolId, status: SubscriptionStatus.ACTIVE },
       _sum: { slots: true },
     });
 
     const currentSlotsTakenTotal = currentSlotsTaken._sum.slots ?? 0;
 
-    if (currentSlotsTakenTotal + pending.slots === currentPool!.slotsCount) {
-      await this.prisma.pool.update({
-        where: { id: pending.poolId },
-        data: {
-          status: 'FILLED',
-          filledAt: new Date(),
-        },
-      });
-
-      // Calculate delivery deadline (14 days from fill)
-      const deliveryDeadline = new Date();
-      deliveryDeadline.setDate(deliveryDeadline.getDate() + 14);
-
-      await this.prisma.pool.update({
-        where: { id: pending.poolId },
-        data: {
-          deliveryDeadlineUtc: deliveryDeadline,
-        },
-      });
-
-      this.logger.log(
-        `Pool ${pending.poolId} filled. Delivery deadline: ${deliveryDeadline}`,
-      );
+    // The new subscription is already included in the aggregate
+    if (currentSlotsTakenTotal >= currentPool.slotsCount) {
+      try {
+        await this.poolsService.markPoolFilled(pending.poolId);
+      } catch (fillError) {
+        this.logger.error(
+          `Failed to mark pool ${pending.poolId} as filled:`,
+          fillError,
+        );
+      }
     }
 
     // ---------- SEND RECEIPTS (EMAIL + SMS) ----------
     const totalAmount =
-      Number(pending.pool.pricePerSlot) * pending.slots +
-      Number(pending.deliveryFee);
+      pricePerSlot * pending.slots + Number(pending.deliveryFee);
     const productName = pending.pool?.product?.name ?? 'Pool';
 
     const receiptDetails = {
-      amount: Number(pending.pool.pricePerSlot) * pending.slots,
+      amount: pricePerSlot * pending.slots,
       poolName: productName,
-      transactionId: pending.stripeSessionId || pending.paystackRef || '',
+      variantName: pending.variant?.name,
+      transactionId: this.getPaymentRef(pending),
       subscriptionId: subscription.id,
       email: pending.user.email,
       slots: pending.slots,
@@ -648,4 +1091,244 @@ export class PaymentsService {
 
     return { success: true, subscriptionId: subscription.id };
   }
+
+  /**
+   * Run daily at 2 AM - cleanup expired pending subscriptions
+   */
+  @Cron('0 2 * * *')
+  async cleanupExpiredPendingSubscriptions() {
+    this.logger.log('Cleaning up expired pending subscriptions...');
+
+    try {
+      // Pending subscriptions older than 24 hours are stale
+      const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+      // Remember affected pools so their waitlists can be promoted
+      const stale = await this.prisma.pendingSubscription.findMany({
+        where: {
+          createdAt: { lt: twentyFourHoursAgo },
+          status: 'PENDING',
+        },
+        select: { poolId: true },
+        distinct: ['poolId'],
+      });
+
+      // And the checkouts that spent store credit, which is given back
+      const withCredit = await this.prisma.pendingSubscription.findMany({
+        where: {
+          createdAt: { lt: twentyFourHoursAgo },
+          status: 'PENDING',
+          walletAmount: { gt: 0 },
+        },
+        select: { id: true },
+      });
+
+      // Use FAILED status as PaymentStatus doesn't have EXPIRED
+      const result = await this.prisma.pendingSubscription.updateMany({
+        where: {
+          createdAt: { lt: twentyFourHoursAgo },
+          status: 'PENDING',
+        },
+        data: {
+          status: 'FAILED',
+        },
+      });
+
+      this.logger.log(`Expired ${result.count} stale pending subscriptions`);
+
+      for (const { id } of withCredit) {
+        await this.walletService.reverseCheckout(id);
+      }
+
+      for (const { poolId } of stale) {
+        await this.waitlistService.promoteNext(poolId);
+      }
+    } catch (error) {
+      this.logger.error('Pending subscription cleanup failed:', error);
+    }
+  }
+
+  /**
+   * Complete a slot transfer paid through Paystack, or put the listing back
+   * on offer if the charge failed. Charges still in flight keep the
+   * listing reserved for the buyer.
+   */
+  private async settlePaystackTransfer(
+    res: PaystackTransaction,
+    reference: string,
+  ) {
+    const { transferId, userId } = res.metadata;
+    if (!transferId || !userId) {
+      throw new BadRequestException('Invalid payment metadata');
+    }
+
+    if (PAYSTACK_FAILED_STATUSES.includes(res.status)) {
+      await this.slotTransfersService.releaseTransfer(transferId, reference);
+      return { success: false, status: res.status, transferId };
+    }
+
+    if (res.status !== 'success') {
+      return { success: false, pending: true, status: res.status, transferId };
+    }
+
+    return this.slotTransfersService.completeTransfer(transferId, {
+      ref: reference,
+      gateway: PaymentGateway.PAYSTACK,
+      userId,
+    });
+  }
+
+  /**
+   * Refund a gateway charge for a checkout that can no longer be filled.
+   * The charge is recorded as a cancelled subscription for the refund to
+   * reference; store credit spent on the checkout goes back to the wallet.
+   * Runs once per checkout.
+   */
+  private async refundUnfulfilledCharge(
+    pending: PendingSubscription & { pool: Pool },
+    reason: string,
+  ) {
+    await this.prisma.pendingSubscription.updateMany({
+      where: { id: pending.id, status: PaymentStatus.PENDING },
+      data: { status: PaymentStatus.FAILED, holdExpiresAt: null },
+    });
+    await this.walletService.reverseCheckout(pending.id);
+
+    const pricePerSlot = Number(
+      pending.pricePerSlot ?? pending.pool.pricePerSlot,
+    );
+    const itemCost = pricePerSlot * pending.slots;
+    // What the gateway collected: the whole total less store credit
+    const charged = new Decimal(itemCost)
+      .add(this.getPlatformFee(itemCost))
+      .add(pending.deliveryFee.toString())
+      .sub(pending.walletAmount.toString())
+      .toNumber();
+
+    const subscription = await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.pendingSubscription.updateMany({
+        where: { id: pending.id, status: PaymentStatus.FAILED },
+        data: { status: PaymentStatus.REFUNDED },
+      });
+      if (claimed.count === 0) return null;
+
+      const created = await tx.subscription.create({
+        data: {
+          userId: pending.userId,
+          poolId: pending.poolId,
+          slots: pending.slots,
+          amountPaid: charged,
+          walletAmount: 0,
+          deliveryFee: pending.deliveryFee,
+          pricePerSlot,
+          variantId: pending.variantId,
+          pickupLocationId: pending.pickupLocationId,
+          paymentMethod: pending.gateway,
+          paymentRef: this.getPaymentRef(pending),
+          status: SubscriptionStatus.CANCELLED,
+          cancelledAt: new Date(),
+        },
+      });
+
+      // The whole charge sits in escrow until the refund goes out
+      await this.ledgerService.recordPayment(
+        {
+          reference: created.paymentRef,
+          userId: pending.userId,
+          poolId: pending.poolId,
+          charged,
+          platformFee: 0,
+        },
+        tx,
+      );
+
+      return created;
+    });
+
+    if (!subscription) return null;
+
+    const refund = await this.refundsService.refund({
+      subscription,
+      reason,
+      destination: RefundDestination.ORIGINAL_METHOD,
+      metadata: { pendingId: pending.id },
+    });
+
+    this.logger.warn(
+      `Checkout ${pending.id} was charged but could not be filled (${reason}); refund ${refund.id}: ${refund.status}`,
+    );
+
+    try {
+      await this.notificationsService.sendNotification(
+        pending.userId,
+        NotificationType.PAYMENT,
+        [NotificationMedium.IN_APP, NotificationMedium.EMAIL],
+        {
+          title: 'Payment refunded',
+          message: `Your payment for ${pending.slots} slot(s) could not be applied (${reason.toLowerCase()}). ₦${charged.toLocaleString()} is being refunded to you.`,
+          poolId: pending.poolId,
+        },
+      );
+    } catch (error) {
+      this.logger.error('Failed to send refund notification', error);
+    }
+
+    return refund;
+  }
+
+  /**
+   * Gateway reference of a checkout's charge. Checkouts paid entirely with
+   * store credit have no charge and get a reference of their own.
+   */
+  private getPaymentRef(pending: {
+    id: string;
+    stripeSessionId: string | null;
+    paystackRef: string | null;
+    gateway: PaymentGateway;
+  }) {
+    if (pending.gateway === PaymentGateway.WALLET)
+      return `wallet_${pending.id}`;
+
+    return pending.stripeSessionId || pending.paystackRef || '';
+  }
+
+  /**
+   * Post what Paystack kept from a successful charge to the ledger
+   */
+  private async recordPaystackFees(
+    res: PaystackTransaction,
+    reference: string,
+  ) {
+    if (res.status !== 'success' || !res.fees) return;
+
+    await this.ledgerService.recordGatewayFee(
+      reference,
+      Number(res.fees) / 100, // Kobo
+      res.metadata?.poolId,
+    );
+  }
+
+  // Platform fee is 2% of slot cost only (not including delivery)
+  private getPlatformFee(itemCost: number) {
+    return Math.round(itemCost * 0.02);
+  }
+
+  /**
+   * Fail an unpaid checkout and offer its slots to the waitlist
+   */
+  private async releaseCheckout(pendingId: string) {
+    const poolId = await this.slotHoldsService.releaseHold(pendingId);
+    if (!poolId) return;
+
+    await this.walletService.reverseCheckout(pendingId);
+
+    try {
+      await this.waitlistService.promoteNext(poolId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to promote waitlist for pool ${poolId}`,
+        (error as Error).stack,
+      );
+    }
+  }
 }
@@ -0,0 +1,59 @@
+import {
+  IsString,
+  IsNumber,
+  IsNotEmpty,
+  IsOptional,
+  IsBoolean,
+  Min,
+  Max,
+} from 'class-validator';
+
+export class UpdatePickupLocationDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  address?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  state?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  city?: string;
+
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  @IsOptional()
+  latitude?: number;
+
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  @IsOptional()
+  longitude?: number;
+
+  @IsString()
+  @IsOptional()
+  openingHours?: string;
+
+  @IsString()
+  @IsOptional()
+  contactName?: string;
+
+  @IsString()
+  @IsOptional()
+  contactPhone?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
@@ -0,0 +1,96 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Role } from '../constant';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { PickupLocationsService } from './pickup-locations.service';
+import { CreatePickupLocationDto } from './dto/create-pickup-location.dto';
+import { UpdatePickupLocationDto } from './dto/update-pickup-location.dto';
+
+@ApiTags('Pickup Locations')
+@Controller('pickup-locations')
+export class PickupLocationsController {
+  constructor(
+    private readonly pickupLocationsService: PickupLocationsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List active pickup locations' })
+  @ApiQuery({ name: 'state', required: false })
+  @ApiQuery({ name: 'city', required: false })
+  @ApiQuery({ name: 'vendorId', required: false })
+  findAll(
+    @Query('state') state?: string,
+    @Query('city') city?: string,
+    @Query('vendorId') vendorId?: string,
+  ) {
+    return this.pickupLocationsService.findAll({ state, city, vendorId });
+  }
+
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.VENDOR)
+  @Get('my')
+  @ApiOperation({ summary: 'Vendor: Get my pickup locations' })
+  getMyLocations(@Req() req: AuthenticatedRequest) {
+    return this.pickupLocationsService.getVendorLocations(req.user.userId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a pickup location' })
+  findOne(@Param('id') id: string) {
+    return this.pickupLocationsService.findOne(id);
+  }
+
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.VENDOR)
+  @Post()
+  @ApiOperation({ summary: 'Vendor: Add a pickup location' })
+  create(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreatePickupLocationDto,
+  ) {
+    return this.pickupLocationsService.create(dto, req.user.userId);
+  }
+
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.VENDOR)
+  @Patch(':id')
+  @ApiOperation({ summary: 'Vendor: Update a pickup location' })
+  update(
+    @Param('id') id: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: UpdatePickupLocationDto,
+  ) {
+    return this.pickupLocationsService.update(id, dto, req.user.userId);
+  }
+
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.VENDOR)
+  @Delete(':id')
+  @ApiOperation({ summary: 'Vendor: Deactivate a pickup location' })
+  remove(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    return this.pickupLocationsService.remove(id, req.user.userId);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PickupLocationsController } from './pickup-locations.controller';
+import { PickupLocationsService } from './pickup-locations.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [PickupLocationsController],
+  providers: [PickupLocationsService],
+  exports: [PickupLocationsService],
+})
+export class PickupLocationsModule {}
@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PickupLocationsService } from './pickup-locations.service';
+import { PrismaService } from '../services/prisma.service';
+
+describe('PickupLocationsService', () => {
+  let service: PickupLocationsService;
+
+  const mockPrismaService = {
+    user: {
+      findUnique: jest.fn(),
+    },
+    pickupLocation: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+  };
+
+  const location = {
+    id: 'hub-1',
+    vendorId: 'vendor-1',
+    name: 'Ikeja Hub',
+    active: true,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PickupLocationsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<PickupLocationsService>(PickupLocationsService);
+  });
+
+  describe('create', () => {
+    it('should only let vendors add locations', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'buyer-1',
+        role: 'BUYER',
+      });
+
+      await expect(
+        service.create(
+          { name: 'Hub', address: '1 Road', state: 'Lagos', city: 'Ikeja' },
+          'buyer-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.pickupLocation.create).not.toHaveBeenCalled();
+    });
+
+    it('should trim the state and city used for filtering', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'vendor-1',
+        role: 'VENDOR',
+      });
+      mockPrismaService.pickupLocation.create.mockResolvedValue(location);
+
+      await service.create(
+        { name: 'Hub', address: '1 Road', state: ' Lagos ', city: 'Ikeja ' },
+        'vendor-1',
+      );
+
+      expect(mockPrismaService.pickupLocation.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Hub',
+          address: '1 Road',
+          state: 'Lagos',
+          city: 'Ikeja',
+          vendorId: 'vendor-1',
+        },
+      });
+    });
+  });
+
+  describe('ownership', () => {
+    it("should refuse to update another vendor's location", async () => {
+      mockPrismaService.pickupLocation.findUnique.mockResolvedValue(location);
+
+      await expect(
+        service.update('hub-1', { name: 'Mine now' }, 'vendor-2'),
+      ).rejects.toThrow('You can only manage your own pickup locations');
+      expect(mockPrismaService.pickupLocation.update).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown locations as not found', async () => {
+      mockPrismaService.pickupLocation.findUnique.mockResolvedValue(null);
+
+      await expect(service.remove('hub-9', 'vendor-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should deactivate rather than delete a removed location', async () => {
+      mockPrismaService.pickupLocation.findUnique.mockResolvedValue(location);
+
+      await service.remove('hub-1', 'vendor-1');
+
+      expect(mockPrismaService.pickupLocation.update).toHaveBeenCalledWith({
+        where: { id: 'hub-1' },
+        data: { active: false },
+      });
+    });
+  });
+
+  describe('assertVendorLocations', () => {
+    it('should skip the lookup when no locations are given', async () => {
+      await service.assertVendorLocations('vendor-1', []);
+
+      expect(mockPrismaService.pickupLocation.count).not.toHaveBeenCalled();
+    });
+
+    it('should count repeated ids once', async () => {
+      mockPrismaService.pickupLocation.count.mockResolvedValue(2);
+
+      await service.assertVendorLocations('vendor-1', [
+        'hub-1',
+        'hub-2',
+        'hub-1',
+      ]);
+
+      expect(mockPrismaService.pickupLocation.count).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['hub-1', 'hub-2'] },
+          vendorId: 'vendor-1',
+          active: true,
+        },
+      });
+    });
+
+    it('should reject inactive or foreign locations', async () => {
+      mockPrismaService.pickupLocation.count.mockResolvedValue(1);
+
+      await expect(
+        service.assertVendorLocations('vendor-1', ['hub-1', 'hub-3']),
+      ).rejects.toThrow('Pickup locations must be active locations you manage');
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { CreatePickupLocationDto } from './dto/create-pickup-location.dto';
+import { UpdatePickupLocationDto } from './dto/update-pickup-location.dto';
+
+/**
+ * PickupLocationsService manages the hubs where buyers collect their share.
+ *
+ * Vendors own their locations and attach one or more of them to each pool.
+ * Locations are deactivated rather than deleted so past subscriptions keep
+ * pointing at the place they were collected from.
+ */
+@Injectable()
+export class PickupLocationsService {
+  private readonly logger = new Logger(PickupLocationsService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async create(dto: CreatePickupLocationDto, vendorId: string) {
+    const vendor = await this.prisma.user.findUnique({
+      where: { id: vendorId },
+    });
+
+    if (!vendor || vendor.role !== 'VENDOR') {
+      throw new BadRequestException('Only vendors can add pickup locations');
+    }
+
+    const location = await this.prisma.pickupLocation.create({
+      data: {
+        ...dto,
+        state: dto.state.trim(),
+        city: dto.city.trim(),
+        vendorId,
+      },
+    });
+
+    this.logger.log(
+      `Pickup location created: ${location.id} by vendor ${vendorId}`,
+    );
+
+    return location;
+  }
+
+  async findAll(filters?: {
+    state?: string;
+    city?: string;
+    vendorId?: string;
+  }) {
+    return this.prisma.pickupLocation.findMany({
+      where: {
+        active: true,
+        vendorId: filters?.vendorId,
+        state: filters?.state
+          ? { equals: filters.state, mode: 'insensitive' }
+          : undefined,
+        city: filters?.city
+          ? { equals: filters.city, mode: 'insensitive' }
+          : undefined,
+      },
+      orderBy: [{ state: 'asc' }, { city: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async getVendorLocations(vendorId: string) {
+    return this.prisma.pickupLocation.findMany({
+      where: { vendorId },
+      include: {
+        _count: { select: { pools: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOne(id: string) {
+    const location = await this.prisma.pickupLocation.findUnique({
+      where: { id },
+      include: {
+        vendor: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    if (!location) throw new NotFoundException('Pickup location not found');
+
+    return location;
+  }
+
+  async update(id: string, dto: UpdatePickupLocationDto, vendorId: string) {
+    await this.getOwnedLocation(id, vendorId);
+
+    return this.prisma.pickupLocation.update({
+      where: { id },
+      data: dto,
+    });
+  }
+
+  async remove(id: string, vendorId: string) {
+    await this.getOwnedLocation(id, vendorId);
+
+    return this.prisma.pickupLocation.update({
+      where: { id },
+      data: { active: false },
+    });
+  }
+
+  /**
+   * Ensure every id is an active location owned by the vendor
+   */
+  async assertVendorLocations(vendorId: string, ids: string[]) {
+    const uniqueIds = [...new Set(ids)];
+    if (!uniqueIds.length) return;
+
+    const count = await this.prisma.pickupLocation.count({
+      where: { id: { in: uniqueIds }, vendorId, active: true },
+    });
+
+    if (count !== uniqueIds.length) {
+      throw new BadRequestException(
+        'Pickup locations must be active locations you manage',
+      );
+    }
+  }
+
+  private async getOwnedLocation(id: string, vendorId: string) {
+    const location = await this.prisma.pickupLocation.findUnique({
+      where: { id },
+    });
+
+    if (!location) throw new NotFoundException('Pickup location not found');
+
+    if (location.vendorId !== vendorId) {
+      throw new BadRequestException(
+        'You can only manage your own pickup locations',
+      );
+    }
+
+    return location;
+  }
+}
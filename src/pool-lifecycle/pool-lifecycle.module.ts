@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PoolLifecycleService } from './pool-lifecycle.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [PoolLifecycleService],
+  exports: [PoolLifecycleService],
+})
+export class PoolLifecycleModule {}
@@ -0,0 +1,131 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PoolLifecycleService } from './pool-lifecycle.service';
+import { PrismaService } from '../services/prisma.service';
+import { PoolStatus, Prisma } from '@prisma/client';
+
+describe('PoolLifecycleService', () => {
+  let service: PoolLifecycleService;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    pool: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    poolStatusHistory: {
+      create: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (fn: (tx: typeof mockPrismaService) => unknown) => fn(mockPrismaService),
+    );
+    mockPrismaService.poolStatusHistory.create.mockImplementation(
+      ({ data }: Prisma.PoolStatusHistoryCreateArgs) => ({
+        ...data,
+        createdAt: new Date(),
+      }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PoolLifecycleService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<PoolLifecycleService>(PoolLifecycleService);
+  });
+
+  it('should move the pool, record history and notify listeners', async () => {
+    const listener = jest.fn();
+    service.onTransition(listener);
+    mockPrismaService.pool.findUnique.mockResolvedValue({
+      status: PoolStatus.FILLED,
+    });
+    mockPrismaService.pool.updateMany.mockResolvedValue({ count: 1 });
+
+    const transition = await service.transition(
+      'pool-1',
+      PoolStatus.IN_DELIVERY,
+      { actorId: 'vendor-1', reason: 'Deliveries scheduled' },
+    );
+
+    expect(mockPrismaService.pool.updateMany).toHaveBeenCalledWith({
+      where: { id: 'pool-1', status: PoolStatus.FILLED },
+      data: { status: PoolStatus.IN_DELIVERY },
+    });
+    expect(mockPrismaService.poolStatusHistory.create).toHaveBeenCalledWith({
+      data: {
+        poolId: 'pool-1',
+        fromStatus: PoolStatus.FILLED,
+        toStatus: PoolStatus.IN_DELIVERY,
+        actorId: 'vendor-1',
+        reason: 'Deliveries scheduled',
+      },
+    });
+    expect(listener).toHaveBeenCalledWith(transition);
+  });
+
+  it('should reject moves the lifecycle does not allow', async () => {
+    mockPrismaService.pool.findUnique.mockResolvedValue({
+      status: PoolStatus.COMPLETED,
+    });
+
+    await expect(service.transition('pool-1', PoolStatus.OPEN)).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(mockPrismaService.pool.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should skip quietly when the pool is not in an expected status', async () => {
+    mockPrismaService.pool.findUnique.mockResolvedValue({
+      status: PoolStatus.FILLED,
+    });
+
+    const transition = await service.transition('pool-1', PoolStatus.FILLED, {
+      from: [PoolStatus.OPEN],
+    });
+
+    expect(transition).toBeNull();
+    expect(mockPrismaService.poolStatusHistory.create).not.toHaveBeenCalled();
+  });
+
+  it('should leave publishing to callers that pass a transaction', async () => {
+    const listener = jest.fn();
+    service.onTransition(listener);
+    mockPrismaService.pool.findUnique.mockResolvedValue({
+      status: PoolStatus.OPEN,
+    });
+    mockPrismaService.pool.updateMany.mockResolvedValue({ count: 1 });
+
+    await service.transition('pool-1', PoolStatus.FILLED, {
+      tx: mockPrismaService as unknown as Prisma.TransactionClient,
+    });
+
+    expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should not fail the change when a listener throws', async () => {
+    const listener = jest.fn();
+    service.onTransition(() => {
+      throw new Error('listener down');
+    });
+    service.onTransition(listener);
+
+    await service.publish({
+      poolId: 'pool-1',
+      from: PoolStatus.OPEN,
+      to: PoolStatus.CANCELLED,
+      actorId: null,
+      reason: null,
+      at: new Date(),
+    });
+
+    expect(listener).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { PoolStatus, Prisma } from '@prisma/client';
+
+/**
+ * Statuses a pool may move to from each status.
+ * COMPLETED and CANCELLED are final.
+ */
+const POOL_TRANSITIONS: Record<PoolStatus, PoolStatus[]> = {
+  [PoolStatus.OPEN]: [PoolStatus.FILLED, PoolStatus.CANCELLED],
+  [PoolStatus.FILLED]: [
+    PoolStatus.IN_DELIVERY,
+    PoolStatus.COMPLETED,
+    PoolStatus.DISPUTED,
+  ],
+  [PoolStatus.IN_DELIVERY]: [PoolStatus.COMPLETED, PoolStatus.DISPUTED],
+  [PoolStatus.DISPUTED]: [
+    PoolStatus.FILLED,
+    PoolStatus.IN_DELIVERY,
+    PoolStatus.COMPLETED,
+    PoolStatus.CANCELLED,
+  ],
+  [PoolStatus.COMPLETED]: [],
+  [PoolStatus.CANCELLED]: [],
+};
+
+export interface PoolTransition {
+  poolId: string;
+  from: PoolStatus;
+  to: PoolStatus;
+  actorId: string | null;
+  reason: string | null;
+  at: Date;
+}
+
+export interface TransitionOptions {
+  actorId?: string; // Omit for system jobs
+  reason?: string;
+  /** Skip quietly unless the pool is currently in one of these statuses */
+  from?: PoolStatus[];
+  /** Other pool fields written together with the status */
+  data?: Omit<Prisma.PoolUncheckedUpdateManyInput, 'status'>;
+  tx?: Prisma.TransactionClient;
+}
+
+export type PoolTransitionListener = (
+  transition: PoolTransition,
+) => void | Promise<void>;
+
+/**
+ * PoolLifecycleService is the only place pool status changes.
+ *
+ * It enforces the allowed transitions (OPEN → FILLED → IN_DELIVERY →
+ * COMPLETED, with DISPUTED and CANCELLED branches), records each change in
+ * PoolStatusHistory and notifies listeners registered with onTransition.
+ *
+ * Listeners run after the change commits. Callers passing a transaction
+ * get the transition back and must publish it themselves once it commits.
+ */
+@Injectable()
+export class PoolLifecycleService {
+  private readonly logger = new Logger(PoolLifecycleService.name);
+  private readonly listeners: PoolTransitionListener[] = [];
+
+  constructor(private prisma: PrismaService) {}
+
+  canTransition(from: PoolStatus, to: PoolStatus) {
+    return POOL_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Move a pool to a new status.
+   * Returns null when `from` is given and the pool is not in one of those
+   * statuses; throws when the move itself is not allowed.
+   */
+  async transition(
+    poolId: string,
+    to: PoolStatus,
+    options: TransitionOptions = {},
+  ): Promise<PoolTransition | null> {
+    const { tx, ...rest } = options;
+
+    const transition = tx
+      ? await this.applyTransition(tx, poolId, to, rest)
+      : await this.prisma.$transaction((client) =>
+          this.applyTransition(client, poolId, to, rest),
+        );
+
+    if (transition && !tx) {
+      await this.publish(transition);
+    }
+
+    return transition;
+  }
+
+  /**
+   * Register a listener for every pool status change.
+   * Returns a function that removes it again.
+   */
+  onTransition(listener: PoolTransitionListener) {
+    this.listeners.push(listener);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) this.listeners.splice(index, 1);
+    };
+  }
+
+  /**
+   * Notify listeners of a committed transition.
+   * A failing listener is logged and never fails the status change.
+   */
+  async publish(transition: PoolTransition) {
+    for (const listener of this.listeners) {
+      try {
+        await listener(transition);
+      } catch (error) {
+        this.logger.error(
+          `Pool transition listener failed for pool ${transition.poolId} (${transition.from} → ${transition.to})`,
+          error,
+        );
+      }
+    }
+  }
+
+  async getHistory(poolId: string) {
+    const pool = await this.prisma.pool.findUnique({
+      where: { id: poolId },
+      select: { id: true },
+    });
+
+    if (!pool) throw new NotFoundException('Pool not found');
+
+    return this.prisma.poolStatusHistory.findMany({
+      where: { poolId },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            name: true,
+            role: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private async applyTransition(
+    prisma: Prisma.TransactionClient,
+    poolId: string,
+    to: PoolStatus,
+    options: Omit<TransitionOptions, 'tx'>,
+  ): Promise<PoolTransition | null> {
+    const pool = await prisma.pool.findUnique({
+      where: { id: poolId },
+      select: { status: true },
+    });
+
+    if (!pool) throw new NotFoundException('Pool not found');
+
+    if (options.from && !options.from.includes(pool.status)) return null;
+
+    if (!this.canTransition(pool.status, to)) {
+      throw new BadRequestException(
+        `Pool cannot move from ${pool.status} to ${to}`,
+      );
+    }
+
+    // Guard on the status just read so concurrent changes cannot both apply
+    const updated = await prisma.pool.updateMany({
+      where: { id: poolId, status: pool.status },
+      data: { ...options.data, status: to },
+    });
+
+    if (updated.count === 0) {
+      if (options.from) return null;
+      throw new BadRequestException(
+        'Pool status changed while updating, please retry',
+      );
+    }
+
+    const history = await prisma.poolStatusHistory.create({
+      data: {
+        poolId,
+        fromStatus: pool.status,
+        toStatus: to,
+        actorId: options.actorId ?? null,
+        reason: options.reason ?? null,
+      },
+    });
+
+    this.logger.log(`Pool ${poolId}: ${pool.status} → ${to}`);
+
+    return {
+      poolId,
+      from: pool.status,
+      to,
+      actorId: history.actorId,
+      reason: history.reason,
+      at: history.createdAt,
+    };
+  }
+}
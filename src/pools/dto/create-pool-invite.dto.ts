@@ -0,0 +1,13 @@
+import { IsDateString, IsInt, IsOptional, Min } from 'class-validator';
+
+export class CreatePoolInviteDto {
+  // Leave empty for a code anyone in the group can reuse
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxUses?: number;
+
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+}
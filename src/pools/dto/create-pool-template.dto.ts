@@ -0,0 +1,54 @@
+import {
+  IsString,
+  IsNumber,
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsDateString,
+  IsEnum,
+  IsArray,
+  IsUUID,
+} from 'class-validator';
+import { RecurrenceFrequency } from '@prisma/client';
+
+export class CreatePoolTemplateDto {
+  @IsString()
+  @IsNotEmpty()
+  productId: string;
+
+  @IsNumber()
+  priceTotal: number;
+
+  @IsNumber()
+  slotsCount: number;
+
+  @IsBoolean()
+  @IsOptional()
+  allowHomeDelivery?: boolean;
+
+  @IsNumber()
+  @IsOptional()
+  homeDeliveryCost?: number;
+
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  pickupLocationIds?: string[];
+
+  @IsEnum(RecurrenceFrequency)
+  frequency: RecurrenceFrequency;
+
+  // Required when frequency is CRON, e.g. "0 8 * * 1" for Mondays at 8am
+  @IsString()
+  @IsOptional()
+  cronExpression?: string;
+
+  // First occurrence; defaults to publishing immediately
+  @IsDateString()
+  @IsOptional()
+  startsAt?: string;
+
+  @IsString()
+  @IsOptional()
+  timezone?: string;
+}
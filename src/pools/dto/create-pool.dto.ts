@@ -4,7 +4,45 @@ import {
   IsBoolean,
   IsNotEmpty,
   IsOptional,
+  IsDateString,
+  IsArray,
+  IsInt,
+  IsUUID,
+  IsEnum,
+  Min,
+  Max,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PoolVisibility } from '@prisma/client';
+
+export class PriceTierDto {
+  // Tier applies once the pool is at least this % full
+  @IsInt()
+  @Min(1)
+  @Max(99)
+  minFillPercent: number;
+
+  @IsNumber()
+  pricePerSlot: number;
+}
+
+export class PoolVariantDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsNumber()
+  pricePerSlot: number;
+
+  @IsInt()
+  @Min(1)
+  slotsCount: number;
+}
 
 export class CreatePoolDto {
   @IsString()
@@ -17,6 +55,12 @@ export class CreatePoolDto {
   @IsNumber()
   slotsCount: number;
 
+  // How many of the product's catalog units one slot holds (e.g. 2 kg)
+  @IsNumber()
+  @Min(0.001)
+  @IsOptional()
+  unitsPerSlot?: number;
+
   @IsBoolean()
   @IsOptional()
   allowHomeDelivery?: boolean;
@@ -24,4 +68,49 @@ export class CreatePoolDto {
   @IsNumber()
   @IsOptional()
   homeDeliveryCost?: number;
+
+  @IsDateString()
+  @IsOptional()
+  fillDeadlineUtc?: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PriceTierDto)
+  @IsOptional()
+  priceTiers?: PriceTierDto[];
+
+  // Variant slots must add up to slotsCount and their prices to priceTotal
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PoolVariantDto)
+  @IsOptional()
+  variants?: PoolVariantDto[];
+
+  // Where buyers can collect; each must be one of the vendor's active hubs
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  pickupLocationIds?: string[];
+
+  // Invite-only pools are joined with codes from the vendor
+  @IsEnum(PoolVisibility)
+  @IsOptional()
+  visibility?: PoolVisibility;
+
+  // Buyer cancellation policy: free within cancellationFreeHours of joining,
+  // then cancellationFeeRate of the payment is kept
+  @IsBoolean()
+  @IsOptional()
+  allowBuyerCancellation?: boolean;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  cancellationFreeHours?: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  cancellationFeeRate?: number;
 }
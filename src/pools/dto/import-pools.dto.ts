@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class ImportPoolsDto {
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Validate and preview rows without creating pools',
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  dryRun?: boolean;
+}
@@ -0,0 +1,128 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsBoolean,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { Currency, PoolStatus } from '@prisma/client';
+
+export enum PoolSort {
+  NEWEST = 'newest',
+  FILL = 'fill',
+  PRICE_ASC = 'price_asc',
+  PRICE_DESC = 'price_desc',
+  DEADLINE = 'deadline',
+}
+
+// Query strings carry booleans as "true"/"false"
+const toBoolean = ({ value }: { value: unknown }) =>
+  value === true || value === 'true';
+
+export class ListPoolsQueryDto {
+  @ApiPropertyOptional({
+    example: 'rice',
+    description: 'Search product name and description',
+  })
+  @IsString()
+  @IsOptional()
+  search?: string;
+
+  @ApiPropertyOptional({ enum: PoolStatus })
+  @IsEnum(PoolStatus)
+  @IsOptional()
+  status?: PoolStatus;
+
+  @ApiPropertyOptional({ example: 'grains' })
+  @IsString()
+  @IsOptional()
+  category?: string;
+
+  @ApiPropertyOptional({ description: 'Filter pools by vendor ID' })
+  @IsString()
+  @IsOptional()
+  vendorId?: string;
+
+  @ApiPropertyOptional({ example: 'Lagos' })
+  @IsString()
+  @IsOptional()
+  vendorState?: string;
+
+  @ApiPropertyOptional({ example: 'Ikeja' })
+  @IsString()
+  @IsOptional()
+  vendorCity?: string;
+
+  @ApiPropertyOptional({ example: 'Lagos' })
+  @IsString()
+  @IsOptional()
+  pickupState?: string;
+
+  @ApiPropertyOptional({ example: 'Ikeja' })
+  @IsString()
+  @IsOptional()
+  pickupCity?: string;
+
+  @ApiPropertyOptional({ example: 5000, description: 'Minimum price per slot' })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  @Type(() => Number)
+  minPrice?: number;
+
+  @ApiPropertyOptional({
+    example: 50000,
+    description: 'Maximum price per slot',
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  @Type(() => Number)
+  maxPrice?: number;
+
+  @ApiPropertyOptional({ example: true })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(toBoolean)
+  homeDelivery?: boolean;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Fill deadline within 48 hours',
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(toBoolean)
+  closingSoon?: boolean;
+
+  @ApiPropertyOptional({
+    enum: Currency,
+    description: 'Also show prices in this currency; amounts settle in NGN',
+  })
+  @IsEnum(Currency)
+  @IsOptional()
+  currency?: Currency;
+
+  @ApiPropertyOptional({ enum: PoolSort, default: PoolSort.NEWEST })
+  @IsEnum(PoolSort)
+  @IsOptional()
+  sort?: PoolSort = PoolSort.NEWEST;
+
+  @ApiPropertyOptional({ description: 'nextCursor from the previous page' })
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+
+  @ApiPropertyOptional({ example: 20, minimum: 1, maximum: 100 })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number = 20;
+}
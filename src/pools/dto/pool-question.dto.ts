@@ -0,0 +1,26 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+// Used for both questions and replies
+export class CreatePoolPostDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  body: string;
+}
+
+export class ModeratePoolPostDto {
+  @IsBoolean()
+  @IsOptional()
+  hidden?: boolean;
+
+  // Questions only: stop further replies
+  @IsBoolean()
+  @IsOptional()
+  locked?: boolean;
+}
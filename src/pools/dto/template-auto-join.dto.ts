@@ -0,0 +1,7 @@
+import { IsInt, Min } from 'class-validator';
+
+export class TemplateAutoJoinDto {
+  @IsInt()
+  @Min(1)
+  slots: number;
+}
@@ -0,0 +1,45 @@
+import {
+  IsNumber,
+  IsOptional,
+  IsBoolean,
+  IsString,
+  IsEnum,
+  IsArray,
+  IsUUID,
+} from 'class-validator';
+import { RecurrenceFrequency } from '@prisma/client';
+
+export class UpdatePoolTemplateDto {
+  @IsNumber()
+  @IsOptional()
+  priceTotal?: number;
+
+  @IsNumber()
+  @IsOptional()
+  slotsCount?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  allowHomeDelivery?: boolean;
+
+  @IsNumber()
+  @IsOptional()
+  homeDeliveryCost?: number;
+
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  pickupLocationIds?: string[];
+
+  @IsEnum(RecurrenceFrequency)
+  @IsOptional()
+  frequency?: RecurrenceFrequency;
+
+  @IsString()
+  @IsOptional()
+  cronExpression?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
@@ -1,4 +1,14 @@
-import { IsNumber, IsOptional, IsBoolean } from 'class-validator';
+import {
+  IsNumber,
+  IsOptional,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+import { PoolVisibility } from '@prisma/client';
 
 export class UpdatePoolDto {
   @IsNumber()
@@ -9,6 +19,11 @@ export class UpdatePoolDto {
   @IsOptional()
   slotsCount?: number;
 
+  @IsNumber()
+  @Min(0.001)
+  @IsOptional()
+  unitsPerSlot?: number;
+
   @IsBoolean()
   @IsOptional()
   allowHomeDelivery?: boolean;
@@ -16,4 +31,29 @@ export class UpdatePoolDto {
   @IsNumber()
   @IsOptional()
   homeDeliveryCost?: number;
+
+  @IsDateString()
+  @IsOptional()
+  fillDeadlineUtc?: string;
+
+  @IsEnum(PoolVisibility)
+  @IsOptional()
+  visibility?: PoolVisibility;
+
+  // Buyer cancellation policy: free within cancellationFreeHours of joining,
+  // then cancellationFeeRate of the payment is kept
+  @IsBoolean()
+  @IsOptional()
+  allowBuyerCancellation?: boolean;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  cancellationFreeHours?: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  cancellationFeeRate?: number;
 }
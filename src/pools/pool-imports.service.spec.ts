@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PoolImportsService } from './pool-imports.service';
+import { PoolsService } from './pools.service';
+import { CreatePoolDto } from './dto/create-pool.dto';
+import { PrismaService } from '../services/prisma.service';
+import { PriceHistoryService } from '../catalog/price-history.service';
+
+describe('PoolImportsService', () => {
+  let service: PoolImportsService;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    productCatalog: {
+      findMany: jest.fn(),
+    },
+    pool: {
+      create: jest.fn(),
+    },
+  };
+
+  const mockPoolsService = {
+    assertVendorCanCreatePools: jest.fn(),
+    buildPoolData: jest.fn(),
+    announceNewPool: jest.fn(),
+  };
+
+  const mockPriceHistoryService = {
+    checkPoolPrice: jest.fn(),
+  };
+
+  const csvFile = (content: string) =>
+    ({
+      buffer: Buffer.from(content),
+      mimetype: 'text/csv',
+      originalname: 'pools.csv',
+    }) as Express.Multer.File;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (fn: (tx: typeof mockPrismaService) => unknown) => fn(mockPrismaService),
+    );
+    mockPrismaService.productCatalog.findMany.mockResolvedValue([
+      { id: 'product-rice', sku: 'RICE-50KG' },
+    ]);
+    mockPoolsService.assertVendorCanCreatePools.mockResolvedValue({
+      id: 'vendor-1',
+      state: 'Lagos',
+    });
+    mockPoolsService.buildPoolData.mockImplementation((dto: CreatePoolDto) => ({
+      productId: dto.productId,
+      pricePerSlot: dto.priceTotal / dto.slotsCount,
+    }));
+    mockPriceHistoryService.checkPoolPrice.mockResolvedValue(null);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PoolImportsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: PoolsService, useValue: mockPoolsService },
+        { provide: PriceHistoryService, useValue: mockPriceHistoryService },
+      ],
+    }).compile();
+
+    service = module.get<PoolImportsService>(PoolImportsService);
+  });
+
+  const csv = [
+    'productSku,priceTotal,slotsCount,allowHomeDelivery',
+    'RICE-50KG,100000,10,true',
+    'BEANS-25KG,50000,5,false',
+    'RICE-50KG,not-a-number,10,',
+  ].join('\n');
+
+  it('should preview rows with per-row errors on a dry run', async () => {
+    const result = await service.importPools('vendor-1', csvFile(csv), true);
+
+    expect(result).toMatchObject({
+      dryRun: true,
+      total: 3,
+      valid: 1,
+      invalid: 2,
+      created: 0,
+    });
+    expect(result.rows[0]).toMatchObject({
+      row: 1,
+      status: 'valid',
+      productId: 'product-rice',
+    });
+    expect(result.rows[1].errors).toEqual(['Unknown product SKU "BEANS-25KG"']);
+    expect(result.rows[2].status).toBe('invalid');
+    expect(mockPrismaService.pool.create).not.toHaveBeenCalled();
+  });
+
+  it('should create only the valid rows', async () => {
+    mockPrismaService.pool.create.mockResolvedValue({ id: 'pool-1' });
+
+    const result = await service.importPools('vendor-1', csvFile(csv));
+
+    expect(result.created).toBe(1);
+    expect(result.rows[0]).toMatchObject({
+      status: 'created',
+      poolId: 'pool-1',
+    });
+    expect(mockPrismaService.pool.create).toHaveBeenCalledTimes(1);
+    expect(mockPoolsService.announceNewPool).toHaveBeenCalledWith('pool-1');
+    expect(mockPoolsService.buildPoolData).toHaveBeenCalledWith(
+      expect.objectContaining({
+        productId: 'product-rice',
+        priceTotal: 100000,
+        slotsCount: 10,
+        allowHomeDelivery: true,
+      }),
+      'vendor-1',
+    );
+  });
+
+  it('should report pool rule violations against the row', async () => {
+    mockPoolsService.buildPoolData.mockRejectedValue(
+      new BadRequestException('Product not available'),
+    );
+
+    const result = await service.importPools(
+      'vendor-1',
+      csvFile('productId,priceTotal,slotsCount\nproduct-old,1000,2'),
+      true,
+    );
+
+    expect(result.rows[0].errors).toEqual(['Product not available']);
+  });
+
+  it('should flag outlier prices on the row without rejecting it', async () => {
+    const priceCheck = { outlier: 'HIGH', message: 'Well above the usual' };
+    mockPriceHistoryService.checkPoolPrice.mockResolvedValue(priceCheck);
+
+    const result = await service.importPools(
+      'vendor-1',
+      csvFile('productSku,priceTotal,slotsCount\nRICE-50KG,300000,10'),
+      true,
+    );
+
+    expect(mockPriceHistoryService.checkPoolPrice).toHaveBeenCalledWith(
+      'product-rice',
+      { state: 'Lagos', pricePerSlot: 30000, unitsPerSlot: undefined },
+    );
+    expect(result.valid).toBe(1);
+    expect(result.rows[0]).toMatchObject({ status: 'valid', priceCheck });
+  });
+
+  it('should reject JSON that is not a list of pools', async () => {
+    const file = {
+      buffer: Buffer.from('{"name":"rice"}'),
+      mimetype: 'application/json',
+      originalname: 'pools.json',
+    } as Express.Multer.File;
+
+    await expect(service.importPools('vendor-1', file)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,253 @@
+import {
+  Injectable,
+  BadRequestException,
+  HttpException,
+  Logger,
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { PrismaService } from '../services/prisma.service';
+import { PoolsService } from './pools.service';
+import {
+  PriceHistoryService,
+  PriceSuggestion,
+} from '../catalog/price-history.service';
+import { CreatePoolDto } from './dto/create-pool.dto';
+import { parseCsv } from '../utils/csv.helper';
+import { Prisma } from '@prisma/client';
+
+const MAX_IMPORT_ROWS = 200;
+
+// CSV cells arrive as text; these columns are converted before validation
+const NUMBER_COLUMNS = [
+  'priceTotal',
+  'slotsCount',
+  'unitsPerSlot',
+  'homeDeliveryCost',
+  'cancellationFreeHours',
+  'cancellationFeeRate',
+];
+const BOOLEAN_COLUMNS = ['allowHomeDelivery', 'allowBuyerCancellation'];
+const LIST_COLUMNS = ['pickupLocationIds']; // Separated by ";"
+
+type ImportRowStatus = 'valid' | 'invalid' | 'created';
+
+export interface ImportRow {
+  row: number;
+  status: ImportRowStatus;
+  productId?: string;
+  errors?: string[];
+  poolId?: string;
+  priceCheck?: PriceSuggestion | null;
+}
+
+/**
+ * PoolImportsService creates many pools from one CSV or JSON upload.
+ *
+ * Every row is checked the same way a single pool is: DTO validation, an
+ * active catalog product and the vendor's pickup hubs. Outlier prices are
+ * flagged on the row without rejecting it. A dry run reports
+ * per-row errors without writing anything; a real import creates all valid
+ * rows in one transaction and reports the invalid ones.
+ *
+ * CSV rows carry the flat pool fields; price tiers and variants need JSON.
+ * Either format may name the product by `productSku` instead of `productId`.
+ */
+@Injectable()
+export class PoolImportsService {
+  private readonly logger = new Logger(PoolImportsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private poolsService: PoolsService,
+    private priceHistoryService: PriceHistoryService,
+  ) {}
+
+  async importPools(
+    vendorId: string,
+    file: Express.Multer.File | undefined,
+    dryRun = false,
+  ) {
+    if (!file) throw new BadRequestException('Upload a CSV or JSON file');
+
+    const vendor = await this.poolsService.assertVendorCanCreatePools(vendorId);
+
+    const records = this.parseFile(file);
+
+    if (records.length === 0) {
+      throw new BadRequestException('The file contains no pools');
+    }
+
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `A single import is limited to ${MAX_IMPORT_ROWS} pools`,
+      );
+    }
+
+    const skus = records
+      .map((record) => record.productSku)
+      .filter((sku): sku is string => typeof sku === 'string' && sku !== '');
+    const products = skus.length
+      ? await this.prisma.productCatalog.findMany({
+          where: { sku: { in: skus } },
+          select: { id: true, sku: true },
+        })
+      : [];
+    const productIdsBySku = new Map(products.map((p) => [p.sku, p.id]));
+
+    const rows: ImportRow[] = [];
+    const valid: { row: ImportRow; data: Prisma.PoolUncheckedCreateInput }[] =
+      [];
+
+    for (const [index, record] of records.entries()) {
+      // Rows are numbered from 1, not counting the CSV header
+      const row: ImportRow = { row: index + 1, status: 'invalid' };
+      rows.push(row);
+
+      const { productSku, ...fields } = record;
+      if (typeof productSku === 'string' && productSku !== '') {
+        const productId = productIdsBySku.get(productSku);
+        if (!productId) {
+          row.errors = [`Unknown product SKU "${productSku}"`];
+          continue;
+        }
+        fields.productId = productId;
+      }
+
+      const dto = plainToInstance(CreatePoolDto, fields);
+      const validationErrors = await validate(dto, {
+        whitelist: true,
+        forbidNonWhitelisted: true,
+      });
+      if (validationErrors.length) {
+        row.errors = this.flattenErrors(validationErrors);
+        continue;
+      }
+
+      row.productId = dto.productId;
+
+      try {
+        const data = await this.poolsService.buildPoolData(dto, vendorId);
+        row.priceCheck = await this.priceHistoryService.checkPoolPrice(
+          data.productId,
+          {
+            state: vendor.state,
+            pricePerSlot: Number(data.pricePerSlot),
+            unitsPerSlot: dto.unitsPerSlot,
+          },
+        );
+        row.status = 'valid';
+        valid.push({ row, data });
+      } catch (error) {
+        if (!(error instanceof HttpException)) throw error;
+        row.errors = [error.message];
+      }
+    }
+
+    const summary = {
+      dryRun,
+      total: rows.length,
+      valid: valid.length,
+      invalid: rows.length - valid.length,
+    };
+
+    if (dryRun || valid.length === 0) {
+      return { ...summary, created: 0, rows };
+    }
+
+    const createdIds: string[] = [];
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        for (const entry of valid) {
+          const pool = await tx.pool.create({
+            data: entry.data,
+            select: { id: true },
+          });
+          entry.row.status = 'created';
+          entry.row.poolId = pool.id;
+          createdIds.push(pool.id);
+        }
+      },
+      { timeout: 30000 },
+    );
+
+    this.logger.log(
+      `Vendor ${vendorId} imported ${valid.length} pools (${summary.invalid} rows rejected)`,
+    );
+
+    for (const poolId of createdIds) {
+      this.poolsService.announceNewPool(poolId);
+    }
+
+    return { ...summary, created: valid.length, rows };
+  }
+
+  private parseFile(file: Express.Multer.File): Record<string, unknown>[] {
+    const content = file.buffer.toString('utf8');
+    const isJson =
+      file.mimetype === 'application/json' ||
+      file.originalname?.toLowerCase().endsWith('.json');
+
+    if (isJson) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(content);
+      } catch {
+        throw new BadRequestException('File is not valid JSON');
+      }
+
+      // Accept a bare array or { "pools": [...] }
+      const list = Array.isArray(parsed)
+        ? parsed
+        : (parsed as { pools?: unknown })?.pools;
+      if (
+        !Array.isArray(list) ||
+        list.some((item) => typeof item !== 'object' || item === null)
+      ) {
+        throw new BadRequestException('JSON must be an array of pools');
+      }
+
+      return list as Record<string, unknown>[];
+    }
+
+    return parseCsv(content).map((record) => this.convertCsvRecord(record));
+  }
+
+  /**
+   * Turn CSV text cells into the types the pool DTO expects.
+   * Empty cells are left out so optional fields fall back to defaults.
+   */
+  private convertCsvRecord(record: Record<string, string>) {
+    const converted: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(record)) {
+      if (value === '') continue;
+
+      if (NUMBER_COLUMNS.includes(key)) {
+        converted[key] = Number(value);
+      } else if (BOOLEAN_COLUMNS.includes(key)) {
+        converted[key] = ['true', 'yes', '1'].includes(value.toLowerCase());
+      } else if (LIST_COLUMNS.includes(key)) {
+        converted[key] = value
+          .split(';')
+          .map((item) => item.trim())
+          .filter(Boolean);
+      } else {
+        converted[key] = value;
+      }
+    }
+
+    return converted;
+  }
+
+  private flattenErrors(errors: ValidationError[], prefix = ''): string[] {
+    return errors.flatMap((error) => {
+      const path = prefix ? `${prefix}.${error.property}` : error.property;
+      const messages = Object.values(error.constraints ?? {}).map((message) =>
+        prefix ? `${path}: ${message}` : message,
+      );
+      return [...messages, ...this.flattenErrors(error.children ?? [], path)];
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Role } from '../constant';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { PoolInvitesService } from './pool-invites.service';
+import { CreatePoolInviteDto } from './dto/create-pool-invite.dto';
+
+@ApiTags('Pool Invites')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('pool-invites')
+export class PoolInvitesController {
+  constructor(private readonly poolInvitesService: PoolInvitesService) {}
+
+  @Get('code/:code')
+  @ApiOperation({ summary: 'Preview the pool an invite code opens' })
+  preview(@Param('code') code: string) {
+    return this.poolInvitesService.previewInvite(code);
+  }
+
+  @Roles(Role.VENDOR, Role.ADMIN)
+  @Get('pool/:poolId')
+  @ApiOperation({ summary: 'Vendor: Get invite codes for a pool' })
+  getPoolInvites(
+    @Param('poolId') poolId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.poolInvitesService.getPoolInvites(
+      poolId,
+      req.user.userId,
+      req.user.role,
+    );
+  }
+
+  @Roles(Role.VENDOR, Role.ADMIN)
+  @Post('pool/:poolId')
+  @ApiOperation({ summary: 'Vendor: Create an invite code for a pool' })
+  create(
+    @Param('poolId') poolId: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreatePoolInviteDto,
+  ) {
+    return this.poolInvitesService.createInvite(
+      poolId,
+      req.user.userId,
+      req.user.role,
+      dto,
+    );
+  }
+
+  @Roles(Role.VENDOR, Role.ADMIN)
+  @Delete(':id')
+  @ApiOperation({ summary: 'Vendor: Revoke an invite code' })
+  revoke(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    return this.poolInvitesService.revokeInvite(
+      id,
+      req.user.userId,
+      req.user.role,
+    );
+  }
+}
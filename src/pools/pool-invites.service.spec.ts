@@ -0,0 +1,111 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { PoolInvitesService } from './pool-invites.service';
+import { PrismaService } from '../services/prisma.service';
+import { PoolVisibility } from '@prisma/client';
+
+describe('PoolInvitesService', () => {
+  let service: PoolInvitesService;
+
+  const mockPrismaService = {
+    pool: {
+      findUnique: jest.fn(),
+    },
+    poolInvite: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    poolInviteRedemption: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+
+  const invitePool = { id: 'pool-1', visibility: PoolVisibility.INVITE_ONLY };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PoolInvitesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<PoolInvitesService>(PoolInvitesService);
+  });
+
+  describe('assertCanJoin', () => {
+    it('should let anyone into public pools', async () => {
+      await service.assertCanJoin(
+        { id: 'pool-1', visibility: PoolVisibility.PUBLIC },
+        'user-1',
+      );
+
+      expect(
+        mockPrismaService.poolInviteRedemption.findUnique,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should require a code for invite-only pools', async () => {
+      mockPrismaService.poolInviteRedemption.findUnique.mockResolvedValue(null);
+
+      await expect(service.assertCanJoin(invitePool, 'user-1')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should redeem a valid code once per buyer', async () => {
+      mockPrismaService.poolInviteRedemption.findUnique.mockResolvedValue(null);
+      mockPrismaService.poolInvite.findUnique.mockResolvedValue({
+        id: 'invite-1',
+        poolId: 'pool-1',
+        code: 'ABCD2345',
+        maxUses: 10,
+        uses: 3,
+        expiresAt: null,
+        revoked: false,
+      });
+      mockPrismaService.poolInvite.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.assertCanJoin(invitePool, 'user-1', 'abcd2345');
+
+      expect(mockPrismaService.poolInvite.updateMany).toHaveBeenCalledWith({
+        where: { id: 'invite-1', revoked: false, uses: { lt: 10 } },
+        data: { uses: { increment: 1 } },
+      });
+      expect(
+        mockPrismaService.poolInviteRedemption.create,
+      ).toHaveBeenCalledWith({
+        data: { inviteId: 'invite-1', poolId: 'pool-1', userId: 'user-1' },
+      });
+    });
+
+    it('should not use up codes for buyers already admitted', async () => {
+      mockPrismaService.poolInviteRedemption.findUnique.mockResolvedValue({
+        id: 'redemption-1',
+      });
+
+      await service.assertCanJoin(invitePool, 'user-1');
+
+      expect(mockPrismaService.poolInvite.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired codes', async () => {
+      mockPrismaService.poolInviteRedemption.findUnique.mockResolvedValue(null);
+      mockPrismaService.poolInvite.findUnique.mockResolvedValue({
+        id: 'invite-1',
+        poolId: 'pool-1',
+        maxUses: null,
+        uses: 0,
+        expiresAt: new Date(Date.now() - 1000),
+        revoked: false,
+      });
+
+      await expect(
+        service.assertCanJoin(invitePool, 'user-1', 'ABCD2345'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import * as crypto from 'crypto';
+import { PrismaService } from '../services/prisma.service';
+import { PoolInvite, PoolVisibility, Prisma } from '@prisma/client';
+import { CreatePoolInviteDto } from './dto/create-pool-invite.dto';
+
+// Unambiguous characters only: codes get read out and typed by hand
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+/**
+ * PoolInvitesService gates invite-only pools behind shareable codes.
+ *
+ * A buyer redeems a code once per pool; after that they can check out,
+ * retry failed payments and buy more slots without it.
+ */
+@Injectable()
+export class PoolInvitesService {
+  private readonly logger = new Logger(PoolInvitesService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async createInvite(
+    poolId: string,
+    userId: string,
+    role: string,
+    dto: CreatePoolInviteDto,
+  ) {
+    const pool = await this.getManagedPool(poolId, userId, role);
+
+    if (pool.visibility !== PoolVisibility.INVITE_ONLY) {
+      throw new BadRequestException('Only invite-only pools use invite codes');
+    }
+
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Invite expiry must be in the future');
+    }
+
+    const invite = await this.prisma.poolInvite.create({
+      data: {
+        poolId,
+        code: this.generateCode(),
+        maxUses: dto.maxUses,
+        expiresAt,
+        createdById: userId,
+      },
+    });
+
+    this.logger.log(`Invite ${invite.code} created for pool ${poolId}`);
+
+    return this.formatInvite(invite);
+  }
+
+  async getPoolInvites(poolId: string, userId: string, role: string) {
+    await this.getManagedPool(poolId, userId, role);
+
+    const invites = await this.prisma.poolInvite.findMany({
+      where: { poolId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invites.map((invite) => this.formatInvite(invite));
+  }
+
+  async revokeInvite(id: string, userId: string, role: string) {
+    const invite = await this.prisma.poolInvite.findUnique({
+      where: { id },
+    });
+
+    if (!invite) throw new NotFoundException('Invite not found');
+
+    await this.getManagedPool(invite.poolId, userId, role);
+
+    const revoked = await this.prisma.poolInvite.update({
+      where: { id },
+      data: { revoked: true },
+    });
+
+    return this.formatInvite(revoked);
+  }
+
+  /**
+   * Look up the pool behind a code so buyers can see what they were invited to
+   */
+  async previewInvite(code: string) {
+    const invite = await this.findUsableInvite(code);
+
+    const pool = await this.prisma.pool.findUnique({
+      where: { id: invite.poolId },
+      include: {
+        product: true,
+        vendor: { select: { id: true, name: true } },
+      },
+    });
+
+    if (!pool) throw new NotFoundException('Pool not found');
+
+    return {
+      code: invite.code,
+      expiresAt: invite.expiresAt,
+      pool: {
+        id: pool.id,
+        status: pool.status,
+        product: pool.product,
+        vendor: pool.vendor,
+        pricePerSlot: pool.pricePerSlot,
+        slotsCount: pool.slotsCount,
+        slotsTaken: pool.slotsTaken,
+        fillDeadlineUtc: pool.fillDeadlineUtc,
+      },
+    };
+  }
+
+  /**
+   * Let a buyer into an invite-only pool, redeeming their code the first time.
+   * Public and unlisted pools are open to everyone.
+   */
+  async assertCanJoin(
+    pool: { id: string; visibility: PoolVisibility },
+    userId: string,
+    inviteCode?: string,
+    tx?: Prisma.TransactionClient,
+  ) {
+    if (pool.visibility !== PoolVisibility.INVITE_ONLY) return;
+
+    const prisma = tx || this.prisma;
+
+    const redeemed = await prisma.poolInviteRedemption.findUnique({
+      where: { poolId_userId: { poolId: pool.id, userId } },
+    });
+
+    if (redeemed) return;
+
+    if (!inviteCode) {
+      throw new ForbiddenException(
+        'This pool is invite-only. An invite code is required to join',
+      );
+    }
+
+    const invite = await this.findUsableInvite(inviteCode, tx);
+
+    if (invite.poolId !== pool.id) {
+      throw new BadRequestException('Invite code is not valid for this pool');
+    }
+
+    // Claim a use; a concurrent redemption may have taken the last one
+    const claimed = await prisma.poolInvite.updateMany({
+      where: {
+        id: invite.id,
+        revoked: false,
+        ...(invite.maxUses !== null && { uses: { lt: invite.maxUses } }),
+      },
+      data: { uses: { increment: 1 } },
+    });
+
+    if (claimed.count === 0) {
+      throw new BadRequestException('Invite code has reached its usage limit');
+    }
+
+    await prisma.poolInviteRedemption.create({
+      data: { inviteId: invite.id, poolId: pool.id, userId },
+    });
+
+    this.logger.log(`User ${userId} joined pool ${pool.id} by invite`);
+  }
+
+  private async findUsableInvite(
+    code: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<PoolInvite> {
+    const prisma = tx || this.prisma;
+
+    const invite = await prisma.poolInvite.findUnique({
+      where: { code: code.trim().toUpperCase() },
+    });
+
+    if (
+      !invite ||
+      invite.revoked ||
+      (invite.expiresAt && invite.expiresAt <= new Date())
+    ) {
+      throw new BadRequestException('Invite code is invalid or has expired');
+    }
+
+    if (invite.maxUses !== null && invite.uses >= invite.maxUses) {
+      throw new BadRequestException('Invite code has reached its usage limit');
+    }
+
+    return invite;
+  }
+
+  private async getManagedPool(poolId: string, userId: string, role: string) {
+    const pool = await this.prisma.pool.findUnique({
+      where: { id: poolId },
+    });
+
+    if (!pool) throw new NotFoundException('Pool not found');
+
+    if (pool.vendorId !== userId && role !== 'ADMIN') {
+      throw new ForbiddenException('You can only manage invites to your pools');
+    }
+
+    return pool;
+  }
+
+  private generateCode() {
+    let code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+      code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+
+  private formatInvite(invite: PoolInvite) {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+    return {
+      ...invite,
+      link: `${frontendUrl}/pools/${invite.poolId}?invite=${invite.code}`,
+    };
+  }
+}
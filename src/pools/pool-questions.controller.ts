@@ -0,0 +1,91 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Role } from '../constant';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { PoolQuestionsService } from './pool-questions.service';
+import {
+  CreatePoolPostDto,
+  ModeratePoolPostDto,
+} from './dto/pool-question.dto';
+
+@ApiTags('Pool Questions')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('pool-questions')
+export class PoolQuestionsController {
+  constructor(private readonly poolQuestionsService: PoolQuestionsService) {}
+
+  @Get('pool/:poolId')
+  @ApiOperation({ summary: 'Get the Q&A thread for a pool' })
+  getPoolQuestions(
+    @Param('poolId') poolId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.poolQuestionsService.getPoolQuestions(poolId, req.user.role);
+  }
+
+  @Roles(Role.BUYER, Role.VENDOR)
+  @Post('pool/:poolId')
+  @ApiOperation({ summary: 'Ask a question on a pool' })
+  ask(
+    @Param('poolId') poolId: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreatePoolPostDto,
+  ) {
+    return this.poolQuestionsService.askQuestion(
+      poolId,
+      req.user.userId,
+      req.user.role,
+      dto,
+    );
+  }
+
+  @Post(':id/replies')
+  @ApiOperation({ summary: 'Reply to a question' })
+  reply(
+    @Param('id') id: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreatePoolPostDto,
+  ) {
+    return this.poolQuestionsService.reply(
+      id,
+      req.user.userId,
+      req.user.role,
+      dto,
+    );
+  }
+
+  @Roles(Role.ADMIN)
+  @Patch(':id')
+  @ApiOperation({ summary: 'Admin: Hide or lock a question' })
+  moderateQuestion(
+    @Param('id') id: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: ModeratePoolPostDto,
+  ) {
+    return this.poolQuestionsService.moderateQuestion(id, req.user.userId, dto);
+  }
+
+  @Roles(Role.ADMIN)
+  @Patch('replies/:id')
+  @ApiOperation({ summary: 'Admin: Hide a reply' })
+  moderateReply(
+    @Param('id') id: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: ModeratePoolPostDto,
+  ) {
+    return this.poolQuestionsService.moderateReply(id, req.user.userId, dto);
+  }
+}
@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { PoolQuestionsService } from './pool-questions.service';
+import { PrismaService } from '../services/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { Prisma, Role } from '@prisma/client';
+
+describe('PoolQuestionsService', () => {
+  let service: PoolQuestionsService;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    pool: {
+      findUnique: jest.fn(),
+    },
+    poolQuestion: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    poolQuestionReply: {
+      create: jest.fn(),
+    },
+  };
+
+  const mockNotificationsService = {
+    sendNotification: jest.fn(),
+  };
+
+  const pool = {
+    id: 'pool-1',
+    vendorId: 'vendor-1',
+    product: { name: 'Whole cow' },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (fn: (tx: typeof mockPrismaService) => unknown) => fn(mockPrismaService),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PoolQuestionsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<PoolQuestionsService>(PoolQuestionsService);
+  });
+
+  it('should notify the vendor of a new buyer question', async () => {
+    mockPrismaService.pool.findUnique.mockResolvedValue(pool);
+    mockPrismaService.poolQuestion.create.mockResolvedValue({ id: 'q-1' });
+
+    await service.askQuestion('pool-1', 'buyer-1', Role.BUYER, {
+      body: 'Is the cow grass-fed?',
+    });
+
+    expect(mockPrismaService.poolQuestion.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          poolId: 'pool-1',
+          authorId: 'buyer-1',
+          body: 'Is the cow grass-fed?',
+          fromVendor: false,
+        },
+      }),
+    );
+    expect(mockNotificationsService.sendNotification).toHaveBeenCalledWith(
+      'vendor-1',
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ poolId: 'pool-1' }),
+    );
+  });
+
+  it('should not let other vendors post on a pool', async () => {
+    mockPrismaService.pool.findUnique.mockResolvedValue(pool);
+
+    await expect(
+      service.askQuestion('pool-1', 'vendor-2', Role.VENDOR, { body: 'Hi' }),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should mark the question answered on the first vendor reply', async () => {
+    const createdAt = new Date();
+    mockPrismaService.poolQuestion.findUnique.mockResolvedValue({
+      id: 'q-1',
+      poolId: 'pool-1',
+      authorId: 'buyer-1',
+      answeredAt: null,
+      hidden: false,
+      locked: false,
+      pool,
+    });
+    mockPrismaService.poolQuestionReply.create.mockResolvedValue({
+      id: 'r-1',
+      createdAt,
+    });
+
+    await service.reply('q-1', 'vendor-1', Role.VENDOR, {
+      body: 'Yes, fully grass-fed',
+    });
+
+    const [{ data }] = mockPrismaService.poolQuestionReply.create.mock
+      .calls[0] as [Prisma.PoolQuestionReplyCreateArgs];
+    expect(data.fromVendor).toBe(true);
+    expect(mockPrismaService.poolQuestion.update).toHaveBeenCalledWith({
+      where: { id: 'q-1' },
+      data: { answeredAt: createdAt },
+    });
+    expect(mockNotificationsService.sendNotification).toHaveBeenCalledWith(
+      'buyer-1',
+      expect.anything(),
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it('should reject replies to locked questions', async () => {
+    mockPrismaService.poolQuestion.findUnique.mockResolvedValue({
+      id: 'q-1',
+      hidden: false,
+      locked: true,
+      pool,
+    });
+
+    await expect(
+      service.reply('q-1', 'buyer-2', Role.BUYER, { body: 'Any update?' }),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockPrismaService.poolQuestionReply.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,256 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationMedium, NotificationType, Role } from '@prisma/client';
+import {
+  CreatePoolPostDto,
+  ModeratePoolPostDto,
+} from './dto/pool-question.dto';
+
+const AUTHOR_SELECT = { select: { id: true, name: true } };
+
+/**
+ * PoolQuestionsService runs the Q&A thread on each pool.
+ *
+ * Buyers ask questions and buyers, admins or the pool's vendor reply.
+ * Vendor replies are flagged as answers and mark the question answered.
+ * Admins can hide posts and lock questions against further replies.
+ */
+@Injectable()
+export class PoolQuestionsService {
+  private readonly logger = new Logger(PoolQuestionsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Questions newest first, each with its replies oldest first.
+   * Hidden posts are left out unless includeHidden is set (admins).
+   */
+  async getQuestions(poolId: string, includeHidden = false) {
+    const visible = includeHidden ? {} : { hidden: false };
+
+    return this.prisma.poolQuestion.findMany({
+      where: { poolId, ...visible },
+      include: {
+        author: AUTHOR_SELECT,
+        replies: {
+          where: visible,
+          include: { author: AUTHOR_SELECT },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async getPoolQuestions(poolId: string, role: string) {
+    await this.getPool(poolId);
+
+    return this.getQuestions(poolId, role === Role.ADMIN);
+  }
+
+  async askQuestion(
+    poolId: string,
+    userId: string,
+    role: string,
+    dto: CreatePoolPostDto,
+  ) {
+    const pool = await this.getPool(poolId);
+    const fromVendor = pool.vendorId === userId;
+
+    if (!fromVendor && role !== Role.BUYER) {
+      throw new ForbiddenException(
+        "Only buyers and this pool's vendor can post questions",
+      );
+    }
+
+    const question = await this.prisma.poolQuestion.create({
+      data: { poolId, authorId: userId, body: dto.body, fromVendor },
+      include: { author: AUTHOR_SELECT, replies: true },
+    });
+
+    if (!fromVendor) {
+      await this.notify(
+        pool.vendorId,
+        poolId,
+        'New question on your pool',
+        `A buyer asked about "${pool.product.name}": "${this.preview(dto.body)}"`,
+      );
+    }
+
+    this.logger.log(`Question ${question.id} posted on pool ${poolId}`);
+
+    return question;
+  }
+
+  async reply(
+    questionId: string,
+    userId: string,
+    role: string,
+    dto: CreatePoolPostDto,
+  ) {
+    const question = await this.prisma.poolQuestion.findUnique({
+      where: { id: questionId },
+      include: { pool: { include: { product: true } } },
+    });
+
+    if (!question || question.hidden) {
+      throw new NotFoundException('Question not found');
+    }
+
+    if (question.locked) {
+      throw new BadRequestException('This question is closed to replies');
+    }
+
+    const fromVendor = question.pool.vendorId === userId;
+
+    if (!fromVendor && role !== Role.BUYER && role !== Role.ADMIN) {
+      throw new ForbiddenException(
+        "Only buyers and this pool's vendor can reply",
+      );
+    }
+
+    const reply = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.poolQuestionReply.create({
+        data: { questionId, authorId: userId, body: dto.body, fromVendor },
+        include: { author: AUTHOR_SELECT },
+      });
+
+      if (fromVendor && !question.answeredAt) {
+        await tx.poolQuestion.update({
+          where: { id: questionId },
+          data: { answeredAt: created.createdAt },
+        });
+      }
+
+      return created;
+    });
+
+    if (fromVendor && question.authorId !== userId) {
+      await this.notify(
+        question.authorId,
+        question.poolId,
+        'The vendor answered your question',
+        `"${question.pool.product.name}": "${this.preview(dto.body)}"`,
+      );
+    }
+
+    return reply;
+  }
+
+  // ============================================
+  // ADMIN MODERATION
+  // ============================================
+
+  async moderateQuestion(
+    id: string,
+    adminId: string,
+    dto: ModeratePoolPostDto,
+  ) {
+    const question = await this.prisma.poolQuestion.findUnique({
+      where: { id },
+    });
+
+    if (!question) throw new NotFoundException('Question not found');
+
+    const updated = await this.prisma.poolQuestion.update({
+      where: { id },
+      data: { hidden: dto.hidden, locked: dto.locked },
+    });
+
+    await this.logModeration(adminId, 'pool_question', id, {
+      poolId: question.poolId,
+      hidden: dto.hidden,
+      locked: dto.locked,
+    });
+
+    return updated;
+  }
+
+  async moderateReply(id: string, adminId: string, dto: ModeratePoolPostDto) {
+    if (dto.locked !== undefined) {
+      throw new BadRequestException('Only questions can be locked');
+    }
+
+    const reply = await this.prisma.poolQuestionReply.findUnique({
+      where: { id },
+    });
+
+    if (!reply) throw new NotFoundException('Reply not found');
+
+    const updated = await this.prisma.poolQuestionReply.update({
+      where: { id },
+      data: { hidden: dto.hidden },
+    });
+
+    await this.logModeration(adminId, 'pool_question_reply', id, {
+      questionId: reply.questionId,
+      hidden: dto.hidden,
+    });
+
+    return updated;
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private async getPool(poolId: string) {
+    const pool = await this.prisma.pool.findUnique({
+      where: { id: poolId },
+      include: { product: true },
+    });
+
+    if (!pool) throw new NotFoundException('Pool not found');
+
+    return pool;
+  }
+
+  private async logModeration(
+    adminId: string,
+    targetType: string,
+    targetId: string,
+    details: Record<string, string | boolean | undefined>,
+  ) {
+    await this.prisma.adminAuditLog.create({
+      data: {
+        adminId,
+        action: `moderate_${targetType}`,
+        targetType,
+        targetId,
+        details,
+      },
+    });
+  }
+
+  private preview(body: string) {
+    return body.length > 120 ? `${body.slice(0, 117)}...` : body;
+  }
+
+  private async notify(
+    userId: string,
+    poolId: string,
+    title: string,
+    message: string,
+  ) {
+    try {
+      await this.notificationsService.sendNotification(
+        userId,
+        NotificationType.POOL_UPDATE,
+        [NotificationMedium.IN_APP, NotificationMedium.EMAIL],
+        { title, message, poolId },
+      );
+    } catch (error) {
+      this.logger.error('Failed to send Q&A notification', error);
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Role } from '../constant';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { PoolTemplatesService } from './pool-templates.service';
+import { CreatePoolTemplateDto } from './dto/create-pool-template.dto';
+import { UpdatePoolTemplateDto } from './dto/update-pool-template.dto';
+import { TemplateAutoJoinDto } from './dto/template-auto-join.dto';
+
+@ApiTags('Pool Templates')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('pool-templates')
+export class PoolTemplatesController {
+  constructor(private readonly poolTemplatesService: PoolTemplatesService) {}
+
+  @Roles(Role.VENDOR)
+  @Post()
+  @ApiOperation({ summary: 'Vendor: Create a recurring pool template' })
+  create(@Req() req: AuthenticatedRequest, @Body() dto: CreatePoolTemplateDto) {
+    return this.poolTemplatesService.createTemplate(dto, req.user.userId);
+  }
+
+  @Roles(Role.VENDOR)
+  @Get('my')
+  @ApiOperation({ summary: 'Vendor: Get my pool templates' })
+  getMyTemplates(@Req() req: AuthenticatedRequest) {
+    return this.poolTemplatesService.getVendorTemplates(req.user.userId);
+  }
+
+  @Get('auto-joins/my')
+  @ApiOperation({ summary: 'Get templates I auto-join' })
+  getMyAutoJoins(@Req() req: AuthenticatedRequest) {
+    return this.poolTemplatesService.getUserAutoJoins(req.user.userId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a pool template and its recent pools' })
+  findOne(@Param('id') id: string) {
+    return this.poolTemplatesService.getTemplate(id);
+  }
+
+  @Roles(Role.VENDOR)
+  @Patch(':id')
+  @ApiOperation({ summary: 'Vendor: Update, pause or resume a template' })
+  update(
+    @Param('id') id: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: UpdatePoolTemplateDto,
+  ) {
+    return this.poolTemplatesService.updateTemplate(id, dto, req.user.userId);
+  }
+
+  @Post(':id/auto-join')
+  @ApiOperation({ summary: 'Auto-join every future occurrence' })
+  optInAutoJoin(
+    @Param('id') id: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: TemplateAutoJoinDto,
+  ) {
+    return this.poolTemplatesService.optInAutoJoin(
+      id,
+      req.user.userId,
+      dto.slots,
+    );
+  }
+
+  @Delete(':id/auto-join')
+  @ApiOperation({ summary: 'Stop auto-joining future occurrences' })
+  optOutAutoJoin(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    return this.poolTemplatesService.optOutAutoJoin(id, req.user.userId);
+  }
+}
@@ -0,0 +1,240 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PoolTemplatesService } from './pool-templates.service';
+import { PrismaService } from '../services/prisma.service';
+import { PoolsService } from './pools.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { PickupLocationsService } from '../pickup-locations/pickup-locations.service';
+import {
+  Prisma,
+  RecurrenceFrequency,
+  VerificationStatus,
+} from '@prisma/client';
+
+describe('PoolTemplatesService', () => {
+  let service: PoolTemplatesService;
+
+  const mockPrismaService = {
+    user: {
+      findUnique: jest.fn(),
+    },
+    productCatalog: {
+      findUnique: jest.fn(),
+    },
+    poolTemplate: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockPoolsService = {
+    create: jest.fn(),
+  };
+
+  const mockWaitlistService = {
+    offerSlots: jest.fn(),
+  };
+
+  const mockPickupLocationsService = {
+    assertVendorLocations: jest.fn(),
+  };
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const templateDto = {
+    productId: 'product-1',
+    priceTotal: 100000,
+    slotsCount: 10,
+    frequency: RecurrenceFrequency.WEEKLY,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.user.findUnique.mockResolvedValue({
+      id: 'vendor-1',
+      role: 'VENDOR',
+      verificationStatus: VerificationStatus.VERIFIED,
+      bankVerified: true,
+    });
+    mockPrismaService.productCatalog.findUnique.mockResolvedValue({
+      id: 'product-1',
+      active: true,
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PoolTemplatesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: PoolsService, useValue: mockPoolsService },
+        { provide: WaitlistService, useValue: mockWaitlistService },
+        {
+          provide: PickupLocationsService,
+          useValue: mockPickupLocationsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PoolTemplatesService>(PoolTemplatesService);
+  });
+
+  describe('createTemplate', () => {
+    it('should refuse vendors without a linked bank account', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'vendor-1',
+        role: 'VENDOR',
+        verificationStatus: VerificationStatus.VERIFIED,
+        bankVerified: false,
+      });
+
+      await expect(
+        service.createTemplate(templateDto, 'vendor-1'),
+      ).rejects.toThrow('Vendor must be verified with bank linked');
+      expect(mockPrismaService.poolTemplate.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse cron rules that publish more than once a day', async () => {
+      await expect(
+        service.createTemplate(
+          {
+            ...templateDto,
+            frequency: RecurrenceFrequency.CRON,
+            cronExpression: '0 * * * *',
+          },
+          'vendor-1',
+        ),
+      ).rejects.toThrow('Recurring pools must be at least one day apart');
+    });
+
+    it('should check the pickup hubs belong to the vendor', async () => {
+      mockPrismaService.poolTemplate.create.mockResolvedValue({
+        id: 'template-1',
+      });
+
+      await service.createTemplate(
+        { ...templateDto, pickupLocationIds: ['hub-1'] },
+        'vendor-1',
+      );
+
+      expect(
+        mockPickupLocationsService.assertVendorLocations,
+      ).toHaveBeenCalledWith('vendor-1', ['hub-1']);
+      const [{ data }] = mockPrismaService.poolTemplate.create.mock
+        .calls[0] as [Prisma.PoolTemplateCreateArgs];
+      expect(data).toMatchObject({
+        frequency: RecurrenceFrequency.WEEKLY,
+        cronExpression: null,
+        pickupLocationIds: ['hub-1'],
+      });
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('should keep monthly runs on the last day of shorter months', async () => {
+      mockPrismaService.poolTemplate.findUnique.mockResolvedValue({
+        id: 'template-1',
+        vendorId: 'vendor-1',
+        frequency: RecurrenceFrequency.WEEKLY,
+        cronExpression: null,
+        timezone: 'Africa/Lagos',
+        active: true,
+        lastRunAt: new Date(2027, 0, 31, 9, 0),
+        nextRunAt: new Date(2027, 1, 7, 9, 0),
+      });
+
+      await service.updateTemplate(
+        'template-1',
+        { frequency: RecurrenceFrequency.MONTHLY },
+        'vendor-1',
+      );
+
+      const [update] = mockPrismaService.poolTemplate.update.mock.calls[0] as [
+        Prisma.PoolTemplateUpdateArgs,
+      ];
+      expect(update).toMatchObject({
+        where: { id: 'template-1' },
+        data: { nextRunAt: new Date(2027, 1, 28, 9, 0) },
+      });
+    });
+
+    it("should refuse to update another vendor's template", async () => {
+      mockPrismaService.poolTemplate.findUnique.mockResolvedValue({
+        id: 'template-1',
+        vendorId: 'vendor-2',
+      });
+
+      await expect(
+        service.updateTemplate('template-1', { slotsCount: 5 }, 'vendor-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.poolTemplate.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publishDueTemplates', () => {
+    const dueTemplate = () => ({
+      id: 'template-1',
+      vendorId: 'vendor-1',
+      productId: 'product-1',
+      priceTotal: 100000,
+      slotsCount: 10,
+      allowHomeDelivery: false,
+      homeDeliveryCost: null,
+      timezone: 'Africa/Lagos',
+      pickupLocationIds: [],
+      frequency: RecurrenceFrequency.WEEKLY,
+      cronExpression: null,
+      nextRunAt: new Date(Date.now() - 60 * 1000),
+      autoJoins: [{ id: 'auto-1', userId: 'buyer-1', slots: 2 }],
+    });
+
+    it('should publish a pool that fills before the next occurrence', async () => {
+      const template = dueTemplate();
+      mockPrismaService.poolTemplate.findMany.mockResolvedValue([template]);
+      mockPrismaService.poolTemplate.updateMany.mockResolvedValue({
+        count: 1,
+      });
+      mockPoolsService.create.mockResolvedValue({ id: 'pool-1' });
+
+      const result = await service.publishDueTemplates();
+
+      const nextRunAt = new Date(template.nextRunAt.getTime() + 7 * DAY_MS);
+      expect(mockPrismaService.poolTemplate.updateMany).toHaveBeenCalledWith({
+        where: { id: 'template-1', nextRunAt: template.nextRunAt },
+        data: { nextRunAt, lastRunAt: expect.any(Date) as Date },
+      });
+      expect(mockPoolsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          productId: 'product-1',
+          fillDeadlineUtc: nextRunAt.toISOString(),
+        }),
+        'vendor-1',
+        'template-1',
+      );
+      expect(mockWaitlistService.offerSlots).toHaveBeenCalledWith(
+        'pool-1',
+        'buyer-1',
+        2,
+        24,
+      );
+      expect(result.results).toEqual([
+        { templateId: 'template-1', poolId: 'pool-1' },
+      ]);
+    });
+
+    it('should not publish an occurrence another run already claimed', async () => {
+      mockPrismaService.poolTemplate.findMany.mockResolvedValue([
+        dueTemplate(),
+      ]);
+      mockPrismaService.poolTemplate.updateMany.mockResolvedValue({
+        count: 0,
+      });
+
+      const result = await service.publishDueTemplates();
+
+      expect(mockPoolsService.create).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ processed: 1, results: [] });
+    });
+  });
+});
@@ -0,0 +1,462 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { CronTime } from 'cron';
+import { PrismaService } from '../services/prisma.service';
+import { PoolsService } from './pools.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { PickupLocationsService } from '../pickup-locations/pickup-locations.service';
+import {
+  PoolTemplate,
+  PoolTemplateAutoJoin,
+  RecurrenceFrequency,
+  VerificationStatus,
+} from '@prisma/client';
+import { CreatePoolDto } from './dto/create-pool.dto';
+import { CreatePoolTemplateDto } from './dto/create-pool-template.dto';
+import { UpdatePoolTemplateDto } from './dto/update-pool-template.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * PoolTemplatesService publishes recurring pools for vendors.
+ *
+ * A template holds the pool settings (product, price, slots, delivery)
+ * and a recurrence rule. When its nextRunAt passes, a new OPEN pool is
+ * created through PoolsService.create and nextRunAt moves forward.
+ * Each occurrence must fill before the next one is published.
+ *
+ * Buyers who opt into auto-joining get their slots reserved in every new
+ * occurrence and are notified to complete payment.
+ */
+@Injectable()
+export class PoolTemplatesService {
+  private readonly logger = new Logger(PoolTemplatesService.name);
+  private readonly AUTO_JOIN_WINDOW_HOURS = 24; // Hours auto-joiners have to pay
+
+  constructor(
+    private prisma: PrismaService,
+    private poolsService: PoolsService,
+    private waitlistService: WaitlistService,
+    private pickupLocationsService: PickupLocationsService,
+  ) {}
+
+  async createTemplate(dto: CreatePoolTemplateDto, vendorId: string) {
+    const vendor = await this.prisma.user.findUnique({
+      where: { id: vendorId },
+    });
+
+    if (!vendor || vendor.role !== 'VENDOR') {
+      throw new BadRequestException('Only verified vendors can create pools');
+    }
+
+    if (
+      vendor.verificationStatus !== VerificationStatus.VERIFIED ||
+      !vendor.bankVerified
+    ) {
+      throw new BadRequestException('Vendor must be verified with bank linked');
+    }
+
+    const product = await this.prisma.productCatalog.findUnique({
+      where: { id: dto.productId },
+    });
+
+    if (!product || !product.active) {
+      throw new BadRequestException('Product not available');
+    }
+
+    if (!dto.priceTotal || !dto.slotsCount || dto.slotsCount <= 0) {
+      throw new BadRequestException('Invalid price or slotsCount');
+    }
+
+    const timezone = dto.timezone ?? 'Africa/Lagos';
+    this.validateRecurrence(dto.frequency, dto.cronExpression, timezone);
+
+    const pickupLocationIds = dto.pickupLocationIds ?? [];
+    await this.pickupLocationsService.assertVendorLocations(
+      vendorId,
+      pickupLocationIds,
+    );
+
+    // First occurrence publishes on the next scheduler run unless a start is given
+    const nextRunAt = dto.startsAt ? new Date(dto.startsAt) : new Date();
+
+    const template = await this.prisma.poolTemplate.create({
+      data: {
+        vendorId,
+        productId: dto.productId,
+        priceTotal: dto.priceTotal,
+        slotsCount: dto.slotsCount,
+        allowHomeDelivery: dto.allowHomeDelivery ?? false,
+        homeDeliveryCost: dto.homeDeliveryCost ?? null,
+        timezone,
+        pickupLocationIds,
+        frequency: dto.frequency,
+        cronExpression:
+          dto.frequency === RecurrenceFrequency.CRON
+            ? dto.cronExpression
+            : null,
+        nextRunAt,
+      },
+      include: { product: true },
+    });
+
+    this.logger.log(
+      `Pool template created: ${template.id} (${template.frequency}) by vendor ${vendorId}`,
+    );
+
+    return template;
+  }
+
+  async getVendorTemplates(vendorId: string) {
+    return this.prisma.poolTemplate.findMany({
+      where: { vendorId },
+      include: {
+        product: true,
+        _count: {
+          select: { pools: true, autoJoins: { where: { active: true } } },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async getTemplate(id: string) {
+    const template = await this.prisma.poolTemplate.findUnique({
+      where: { id },
+      include: {
+        product: true,
+        vendor: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        pools: {
+          orderBy: { createdAt: 'desc' },
+          take: 5,
+        },
+      },
+    });
+
+    if (!template) throw new NotFoundException('Pool template not found');
+
+    return template;
+  }
+
+  async updateTemplate(
+    id: string,
+    dto: UpdatePoolTemplateDto,
+    vendorId: string,
+  ) {
+    const template = await this.prisma.poolTemplate.findUnique({
+      where: { id },
+    });
+
+    if (!template) throw new NotFoundException('Pool template not found');
+
+    if (template.vendorId !== vendorId) {
+      throw new BadRequestException('You can only update your own templates');
+    }
+
+    if (dto.slotsCount !== undefined && dto.slotsCount <= 0) {
+      throw new BadRequestException('Invalid price or slotsCount');
+    }
+
+    if (dto.pickupLocationIds) {
+      await this.pickupLocationsService.assertVendorLocations(
+        vendorId,
+        dto.pickupLocationIds,
+      );
+    }
+
+    const frequency = dto.frequency ?? template.frequency;
+    const cronExpression = dto.cronExpression ?? template.cronExpression;
+    const recurrenceChanged =
+      dto.frequency !== undefined || dto.cronExpression !== undefined;
+
+    let nextRunAt = template.nextRunAt;
+    if (recurrenceChanged) {
+      this.validateRecurrence(
+        frequency,
+        cronExpression ?? undefined,
+        template.timezone,
+      );
+      nextRunAt = this.computeNextRun(
+        frequency,
+        cronExpression,
+        template.timezone,
+        template.lastRunAt ?? new Date(),
+      );
+    }
+
+    // Resuming a paused template must not publish a backlog of occurrences
+    if (dto.active && !template.active && nextRunAt < new Date()) {
+      nextRunAt = new Date();
+    }
+
+    return this.prisma.poolTemplate.update({
+      where: { id },
+      data: {
+        ...dto,
+        cronExpression:
+          frequency === RecurrenceFrequency.CRON ? cronExpression : null,
+        nextRunAt,
+      },
+    });
+  }
+
+  // ============================================
+  // BUYER AUTO-JOIN
+  // ============================================
+
+  async optInAutoJoin(templateId: string, userId: string, slots: number) {
+    const template = await this.prisma.poolTemplate.findUnique({
+      where: { id: templateId },
+    });
+
+    if (!template || !template.active) {
+      throw new NotFoundException('Pool template not found');
+    }
+
+    if (template.vendorId === userId) {
+      throw new BadRequestException('Vendors cannot join their own pools');
+    }
+
+    if (slots > template.slotsCount) {
+      throw new BadRequestException('Requested slots exceed pool size');
+    }
+
+    return this.prisma.poolTemplateAutoJoin.upsert({
+      where: { templateId_userId: { templateId, userId } },
+      create: { templateId, userId, slots },
+      update: { slots, active: true },
+    });
+  }
+
+  async optOutAutoJoin(templateId: string, userId: string) {
+    const result = await this.prisma.poolTemplateAutoJoin.updateMany({
+      where: { templateId, userId, active: true },
+      data: { active: false },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException('Auto-join not found');
+    }
+
+    return { message: 'Auto-join cancelled' };
+  }
+
+  async getUserAutoJoins(userId: string) {
+    return this.prisma.poolTemplateAutoJoin.findMany({
+      where: { userId, active: true },
+      include: { template: { include: { product: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // ============================================
+  // SCHEDULED PUBLISHING
+  // ============================================
+
+  /**
+   * Run every 15 minutes - publish new pools from due recurring templates
+   */
+  @Cron('*/15 * * * *')
+  async handleDueTemplates() {
+    try {
+      const result = await this.publishDueTemplates();
+      if (result.processed > 0) {
+        this.logger.log(
+          `Published ${result.results.filter((r) => r.poolId).length} recurring pools from ${result.processed} due templates`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Recurring pool publishing failed:', error);
+    }
+  }
+
+  /**
+   * Publish a new pool for every active template that is due
+   */
+  async publishDueTemplates() {
+    const templates = await this.prisma.poolTemplate.findMany({
+      where: {
+        active: true,
+        nextRunAt: { lte: new Date() },
+      },
+      include: {
+        autoJoins: {
+          where: { active: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    const results: Array<{
+      templateId: string;
+      poolId?: string;
+      error?: string;
+    }> = [];
+
+    for (const template of templates) {
+      try {
+        const poolId = await this.publishOccurrence(template);
+        if (poolId) results.push({ templateId: template.id, poolId });
+      } catch (error) {
+        this.logger.error(
+          `Failed to publish pool for template ${template.id}`,
+          (error as Error).stack,
+        );
+        results.push({
+          templateId: template.id,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return {
+      processed: templates.length,
+      results,
+      timestamp: new Date(),
+    };
+  }
+
+  private async publishOccurrence(
+    template: PoolTemplate & { autoJoins: PoolTemplateAutoJoin[] },
+  ): Promise<string | null> {
+    const now = new Date();
+
+    // Skip occurrences missed while the scheduler was down
+    let nextRunAt = template.nextRunAt;
+    while (nextRunAt <= now) {
+      nextRunAt = this.computeNextRun(
+        template.frequency,
+        template.cronExpression,
+        template.timezone,
+        nextRunAt,
+      );
+    }
+
+    // Claim this occurrence so concurrent runs never publish it twice
+    const claimed = await this.prisma.poolTemplate.updateMany({
+      where: { id: template.id, nextRunAt: template.nextRunAt },
+      data: { nextRunAt, lastRunAt: now },
+    });
+
+    if (claimed.count === 0) return null;
+
+    const pool = await this.poolsService.create(
+      {
+        productId: template.productId,
+        priceTotal: Number(template.priceTotal),
+        slotsCount: template.slotsCount,
+        allowHomeDelivery: template.allowHomeDelivery,
+        homeDeliveryCost: template.homeDeliveryCost
+          ? Number(template.homeDeliveryCost)
+          : undefined,
+        // Each occurrence has until the next one to fill
+        fillDeadlineUtc: nextRunAt.toISOString(),
+        timezone: template.timezone,
+        pickupLocationIds: template.pickupLocationIds,
+      } as CreatePoolDto,
+      template.vendorId,
+      template.id,
+    );
+
+    this.logger.log(
+      `Published pool ${pool.id} from template ${template.id}. Next run: ${nextRunAt.toISOString()}`,
+    );
+
+    // Reserve slots for buyers who opted into every occurrence
+    for (const autoJoin of template.autoJoins) {
+      try {
+        await this.waitlistService.offerSlots(
+          pool.id,
+          autoJoin.userId,
+          autoJoin.slots,
+          this.AUTO_JOIN_WINDOW_HOURS,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Could not reserve ${autoJoin.slots} slot(s) for auto-join ${autoJoin.id}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return pool.id;
+  }
+
+  private validateRecurrence(
+    frequency: RecurrenceFrequency,
+    cronExpression: string | undefined,
+    timezone: string | null,
+  ) {
+    if (frequency !== RecurrenceFrequency.CRON) return;
+
+    if (!cronExpression) {
+      throw new BadRequestException(
+        'cronExpression is required for CRON frequency',
+      );
+    }
+
+    if (!CronTime.validateCronExpression(cronExpression).valid) {
+      throw new BadRequestException('Invalid cron expression');
+    }
+
+    // Guard against rules that would flood the marketplace with pools
+    const first = this.computeNextRun(
+      frequency,
+      cronExpression,
+      timezone,
+      new Date(),
+    );
+    const second = this.computeNextRun(
+      frequency,
+      cronExpression,
+      timezone,
+      first,
+    );
+    if (second.getTime() - first.getTime() < DAY_MS) {
+      throw new BadRequestException(
+        'Recurring pools must be at least one day apart',
+      );
+    }
+  }
+
+  private computeNextRun(
+    frequency: RecurrenceFrequency,
+    cronExpression: string | null | undefined,
+    timezone: string | null,
+    from: Date,
+  ): Date {
+    switch (frequency) {
+      case RecurrenceFrequency.WEEKLY:
+        return new Date(from.getTime() + 7 * DAY_MS);
+      case RecurrenceFrequency.BIWEEKLY:
+        return new Date(from.getTime() + 14 * DAY_MS);
+      case RecurrenceFrequency.MONTHLY: {
+        // Same day next month, or its last day when the month is shorter
+        // (Jan 31 → Feb 28), instead of spilling into the month after
+        const next = new Date(from);
+        next.setDate(1);
+        next.setMonth(next.getMonth() + 1);
+        const lastDay = new Date(
+          next.getFullYear(),
+          next.getMonth() + 1,
+          0,
+        ).getDate();
+        next.setDate(Math.min(from.getDate(), lastDay));
+        return next;
+      }
+      case RecurrenceFrequency.CRON:
+        return new CronTime(cronExpression!, timezone ?? undefined)
+          .getNextDateFrom(from)
+          .toJSDate();
+    }
+  }
+}
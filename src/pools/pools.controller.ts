@@ -6,20 +6,41 @@ import {
   Post,
   Query,
   Req,
+  UploadedFile,
   UseGuards,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { Roles } from '../common/decorators/roles.decorator';
 import { Role } from '../constant';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { PoolsService } from './pools.service';
+import { PoolImportsService } from './pool-imports.service';
+import { SubscriptionCancellationsService } from './subscription-cancellations.service';
+import { PoolLifecycleService } from '../pool-lifecycle/pool-lifecycle.service';
 import { CreatePoolDto } from './dto/create-pool.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { ApiBearerAuth, ApiTags, ApiQuery } from '@nestjs/swagger';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { ListPoolsQueryDto } from './dto/list-pools-query.dto';
+import { ImportPoolsDto } from './dto/import-pools.dto';
+import { DisplayCurrencyQueryDto } from '../fx/dto/fx.dto';
+import {
+  ApiBearerAuth,
+  ApiTags,
+  ApiOperation,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
 
 @ApiTags('Pools')
 @Controller('pools')
 export class PoolsController {
-  constructor(private readonly poolsService: PoolsService) {}
+  constructor(
+    private readonly poolsService: PoolsService,
+    private readonly poolImportsService: PoolImportsService,
+    private readonly poolLifecycle: PoolLifecycleService,
+    private readonly cancellationsService: SubscriptionCancellationsService,
+  ) {}
 
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -29,37 +50,55 @@ export class PoolsController {
     return this.poolsService.create(createPoolDto, req.user.userId);
   }
 
-  @Get()
-  @ApiQuery({
-    name: 'vendorId',
-    required: false,
-    description: 'Filter pools by vendor ID',
-  })
-  @ApiQuery({
-    name: 'status',
-    required: false,
-    description: 'Filter pools by status',
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.VENDOR)
+  @Post('import')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: 1024 * 1024 } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary' },
+        dryRun: { type: 'boolean' },
+      },
+    },
   })
-  @ApiQuery({
-    name: 'category',
-    required: false,
-    description: 'Filter pools by product category',
+  @ApiOperation({
+    summary: 'Vendor: Bulk create pools from a CSV or JSON file',
   })
-  findAll(
-    @Query('vendorId') vendorId?: string,
-    @Query('status') status?: string,
-    @Query('category') category?: string,
+  importPools(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: ImportPoolsDto,
+    @UploadedFile() file: Express.Multer.File,
   ) {
-    return this.poolsService.findAll({
-      vendorId,
-      status: status as any,
-      category,
-    });
+    return this.poolImportsService.importPools(
+      req.user.userId,
+      file,
+      dto.dryRun,
+    );
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Search pools with filters and cursor pagination' })
+  findAll(@Query() query: ListPoolsQueryDto) {
+    return this.poolsService.findAll(query);
   }
 
   @Get(':id')
-  findOne(@Param('id') id: string) {
-    return this.poolsService.findOne(id);
+  findOne(@Param('id') id: string, @Query() query: DisplayCurrencyQueryDto) {
+    return this.poolsService.findOne(id, query.currency);
+  }
+
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/status-history')
+  @ApiOperation({ summary: 'Get the status changes of a pool' })
+  getStatusHistory(@Param('id') id: string) {
+    return this.poolLifecycle.getHistory(id);
   }
 
   @ApiBearerAuth()
@@ -68,4 +107,28 @@ export class PoolsController {
   getUserSubscriptions(@Req() req) {
     return this.poolsService.getUserSubscriptions(req.user.id);
   }
+
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.BUYER)
+  @Get('subscriptions/:id/cancellation')
+  @ApiOperation({ summary: 'Buyer: Preview the refund for cancelling' })
+  getCancellationQuote(
+    @Param('id') id: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.cancellationsService.getQuote(id, req.user.userId);
+  }
+
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.BUYER)
+  @Post('subscriptions/:id/cancel')
+  @ApiOperation({ summary: 'Buyer: Cancel slots in an open pool' })
+  cancelSubscription(
+    @Param('id') id: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.cancellationsService.cancel(id, req.user.userId);
+  }
 }
@@ -1,25 +1,65 @@
 // src/pools/pools.module.ts
-import { Module, forwardRef } from '@nestjs/common';
+import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PoolsService } from './pools.service';
 import { PoolsController } from './pools.controller';
+import { PoolTemplatesService } from './pool-templates.service';
+import { PoolTemplatesController } from './pool-templates.controller';
+import { PoolInvitesService } from './pool-invites.service';
+import { PoolInvitesController } from './pool-invites.controller';
+import { PoolImportsService } from './pool-imports.service';
+import { PoolQuestionsService } from './pool-questions.service';
+import { PoolQuestionsController } from './pool-questions.controller';
+import { SubscriptionCancellationsService } from './subscription-cancellations.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { EmailChannelService } from '../notifications/channels/email.channel';
-import { StripeModule } from '../stripe/stripe.module';
 import { EscrowModule } from '../escrow/escrow.module';
 import { EscrowService } from '../escrow/escrow.service';
+import { WaitlistModule } from '../waitlist/waitlist.module';
+import { PickupLocationsModule } from '../pickup-locations/pickup-locations.module';
+import { SlotHoldsModule } from '../slot-holds/slot-holds.module';
+import { PoolLifecycleModule } from '../pool-lifecycle/pool-lifecycle.module';
+import { SavedSearchesModule } from '../saved-searches/saved-searches.module';
+import { CatalogModule } from '../catalog/catalog.module';
+import { RefundsModule } from '../refunds/refunds.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { FxModule } from '../fx/fx.module';
+import { WalletModule } from '../wallet/wallet.module';
 
 @Module({
   imports: [
-    forwardRef(() => StripeModule),
     PrismaModule,
     NotificationsModule,
     JwtModule,
     EscrowModule,
+    WaitlistModule,
+    PickupLocationsModule,
+    SlotHoldsModule,
+    PoolLifecycleModule,
+    SavedSearchesModule,
+    CatalogModule,
+    RefundsModule,
+    LedgerModule,
+    FxModule,
+    WalletModule,
   ],
-  controllers: [PoolsController],
-  providers: [PoolsService, EscrowService, EmailChannelService],
-  exports: [PoolsService],
+  controllers: [
+    PoolsController,
+    PoolTemplatesController,
+    PoolInvitesController,
+    PoolQuestionsController,
+  ],
+  providers: [
+    PoolsService,
+    PoolTemplatesService,
+    PoolInvitesService,
+    PoolImportsService,
+    PoolQuestionsService,
+    SubscriptionCancellationsService,
+    EscrowService,
+    EmailChannelService,
+  ],
+  exports: [PoolsService, PoolTemplatesService, PoolInvitesService],
 })
 export class PoolsModule {}
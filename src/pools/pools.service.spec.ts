@@ -0,0 +1,514 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PoolsService } from './pools.service';
+import { PrismaService } from '../services/prisma.service';
+import { EscrowService } from '../escrow/escrow.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { PickupLocationsService } from '../pickup-locations/pickup-locations.service';
+import { SlotHoldsService } from '../slot-holds/slot-holds.service';
+import { PoolInvitesService } from './pool-invites.service';
+import { PoolLifecycleService } from '../pool-lifecycle/pool-lifecycle.service';
+import { PoolQuestionsService } from './pool-questions.service';
+import { SavedSearchesService } from '../saved-searches/saved-searches.service';
+import { PriceHistoryService } from '../catalog/price-history.service';
+import { RefundRequest, RefundsService } from '../refunds/refunds.service';
+import { FxService } from '../fx/fx.service';
+import { WalletService } from '../wallet/wallet.service';
+import {
+  PaymentStatus,
+  PoolStatus,
+  PoolVisibility,
+  Prisma,
+  SlotStatus,
+  Subscription,
+  SubscriptionStatus,
+} from '@prisma/client';
+
+describe('PoolsService', () => {
+  let service: PoolsService;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    pool: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    poolSlot: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    pendingSubscription: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    subscription: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      aggregate: jest.fn(),
+      groupBy: jest.fn(),
+    },
+  };
+
+  const mockEscrowService = {
+    deductContribution: jest.fn(),
+  };
+
+  const mockRefundsService = {
+    tryRefund: jest.fn(),
+  };
+
+  const mockWalletService = {
+    reverseCheckout: jest.fn(),
+  };
+
+  const mockPoolLifecycle = {
+    transition: jest.fn(),
+    publish: jest.fn(),
+  };
+
+  const mockWaitlistService = {
+    closeWaitlist: jest.fn(),
+    promoteNext: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    notifyPoolCancelled: jest.fn(),
+  };
+
+  const mockFxService = {
+    getDisplayQuote: jest.fn(),
+  };
+
+  const subscription = {
+    id: 'sub-1',
+    userId: 'buyer-1',
+    poolId: 'pool-1',
+    slots: 2,
+    variantId: null,
+    amountPaid: new Prisma.Decimal(20000),
+  } as Subscription;
+
+  // A tryRefund the gateway accepts, settling `amount`
+  const settleRefund =
+    (amount: number) =>
+    async ({ settle }: RefundRequest) => {
+      await settle?.(
+        mockPrismaService as unknown as Prisma.TransactionClient,
+        amount,
+      );
+      return true;
+    };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (fn: (tx: typeof mockPrismaService) => unknown) => fn(mockPrismaService),
+    );
+    mockPrismaService.subscription.aggregate.mockResolvedValue({
+      _sum: { slots: 6 },
+    });
+    mockPrismaService.pool.findUnique.mockResolvedValue({ slotsCount: 10 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PoolsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: EscrowService, useValue: mockEscrowService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: WaitlistService, useValue: mockWaitlistService },
+        { provide: PickupLocationsService, useValue: {} },
+        { provide: SlotHoldsService, useValue: {} },
+        { provide: PoolInvitesService, useValue: {} },
+        { provide: PoolLifecycleService, useValue: mockPoolLifecycle },
+        { provide: PoolQuestionsService, useValue: {} },
+        { provide: SavedSearchesService, useValue: {} },
+        { provide: PriceHistoryService, useValue: {} },
+        { provide: RefundsService, useValue: mockRefundsService },
+        { provide: FxService, useValue: mockFxService },
+        { provide: WalletService, useValue: mockWalletService },
+      ],
+    }).compile();
+
+    service = module.get<PoolsService>(PoolsService);
+  });
+
+  describe('refundSubscription', () => {
+    it("should mark only the subscription's own slot refunded", async () => {
+      mockRefundsService.tryRefund.mockImplementation(settleRefund(20000));
+      mockPrismaService.poolSlot.findFirst.mockResolvedValue({ id: 'slot-2' });
+      mockPrismaService.subscription.updateMany.mockResolvedValue({ count: 1 });
+
+      const refunded = await service.refundSubscription(
+        subscription,
+        'Pool cancelled',
+      );
+
+      expect(refunded).toBe(true);
+      expect(mockPrismaService.poolSlot.findFirst).toHaveBeenCalledWith({
+        where: {
+          poolId: 'pool-1',
+          buyerId: 'buyer-1',
+          slotsReserved: 2,
+          variantId: null,
+          status: { in: [SlotStatus.PAID, SlotStatus.CONFIRMED] },
+        },
+        orderBy: { joinedAt: 'asc' },
+      });
+      expect(mockPrismaService.poolSlot.update).toHaveBeenCalledWith({
+        where: { id: 'slot-2' },
+        data: { status: SlotStatus.REFUNDED },
+      });
+      expect(mockPrismaService.poolSlot.updateMany).not.toHaveBeenCalled();
+      expect(mockEscrowService.deductContribution).toHaveBeenCalledWith(
+        'pool-1',
+        'buyer-1',
+        20000,
+        mockPrismaService,
+        null,
+      );
+      expect(mockPrismaService.pool.update).toHaveBeenCalledWith({
+        where: { id: 'pool-1' },
+        data: { slotsTaken: 6, fillPercent: 60 },
+      });
+    });
+
+    it('should cancel a fully refunded subscription and offer its slots on', async () => {
+      mockRefundsService.tryRefund.mockImplementation(settleRefund(20000));
+      mockPrismaService.subscription.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.refundSubscription(subscription, 'Pool cancelled');
+
+      expect(mockPrismaService.subscription.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sub-1', status: SubscriptionStatus.ACTIVE },
+        data: {
+          status: SubscriptionStatus.CANCELLED,
+          cancelledAt: expect.any(Date) as Date,
+        },
+      });
+      expect(mockWaitlistService.promoteNext).toHaveBeenCalledWith('pool-1');
+    });
+
+    it('should not offer slots on when the refund fails', async () => {
+      mockRefundsService.tryRefund.mockResolvedValue(false);
+
+      await service.refundSubscription(subscription, 'Pool cancelled');
+
+      expect(mockPrismaService.subscription.updateMany).not.toHaveBeenCalled();
+      expect(mockWaitlistService.promoteNext).not.toHaveBeenCalled();
+    });
+
+    it('should leave the slots alone on a partial refund', async () => {
+      mockRefundsService.tryRefund.mockImplementation(settleRefund(5000));
+
+      await service.refundSubscription(subscription, 'Short delivery', 5000);
+
+      expect(mockPrismaService.poolSlot.update).not.toHaveBeenCalled();
+      expect(mockEscrowService.deductContribution).toHaveBeenCalledWith(
+        'pool-1',
+        'buyer-1',
+        5000,
+        mockPrismaService,
+        null,
+      );
+    });
+  });
+
+  describe('cancelPoolWithRefunds', () => {
+    beforeEach(() => {
+      mockPoolLifecycle.transition.mockResolvedValue({ id: 'pool-1' });
+      mockPrismaService.pendingSubscription.findMany.mockResolvedValue([]);
+      mockPrismaService.subscription.findMany.mockResolvedValue([]);
+    });
+
+    it('should fail open checkouts and return their store credit', async () => {
+      mockPrismaService.pendingSubscription.findMany.mockResolvedValue([
+        { id: 'pending-1' },
+        { id: 'pending-2' },
+      ]);
+
+      await service.cancelPoolWithRefunds('pool-1', 'Vendor cancelled');
+
+      expect(
+        mockPrismaService.pendingSubscription.updateMany,
+      ).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['pending-1', 'pending-2'] },
+          status: PaymentStatus.PENDING,
+        },
+        data: { status: PaymentStatus.FAILED, holdExpiresAt: null },
+      });
+      expect(mockWalletService.reverseCheckout).toHaveBeenCalledWith(
+        'pending-1',
+      );
+      expect(mockWalletService.reverseCheckout).toHaveBeenCalledWith(
+        'pending-2',
+      );
+    });
+
+    it('should recount the pool once its buyers are refunded', async () => {
+      mockPrismaService.subscription.findMany.mockResolvedValue([subscription]);
+      mockRefundsService.tryRefund.mockResolvedValue(false);
+
+      const result = await service.cancelPoolWithRefunds(
+        'pool-1',
+        'Vendor cancelled',
+      );
+
+      expect(result).toEqual({ refunded: 0, failed: 1 });
+      expect(mockPrismaService.subscription.aggregate).toHaveBeenCalledWith({
+        where: { poolId: 'pool-1', status: SubscriptionStatus.ACTIVE },
+        _sum: { slots: true },
+      });
+      expect(mockPrismaService.pool.update).toHaveBeenCalledWith({
+        where: { id: 'pool-1' },
+        data: { slotsTaken: 6, fillPercent: 60 },
+      });
+    });
+
+    it('should refuse pools that are not open', async () => {
+      mockPoolLifecycle.transition.mockResolvedValue(null);
+
+      await expect(
+        service.cancelPoolWithRefunds('pool-1', 'Vendor cancelled'),
+      ).rejects.toThrow('Only open pools can be cancelled');
+      expect(mockPoolLifecycle.transition).toHaveBeenCalledWith(
+        'pool-1',
+        PoolStatus.CANCELLED,
+        expect.objectContaining({ from: [PoolStatus.OPEN] }),
+      );
+      expect(mockWalletService.reverseCheckout).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmPayment', () => {
+    it('should settle tier pricing once the payment fills the pool', async () => {
+      const filled = { poolId: 'pool-1', to: PoolStatus.FILLED };
+      mockPrismaService.poolSlot.findUnique.mockResolvedValue({
+        id: 'slot-1',
+        poolId: 'pool-1',
+        pool: {
+          slotsCount: 4,
+          lockAfterFirstJoin: true,
+          subscriptions: [{ slots: 2 }, { slots: 2 }],
+        },
+      });
+      mockPrismaService.poolSlot.count.mockResolvedValue(2);
+      mockPoolLifecycle.transition.mockResolvedValue(filled);
+      const settle = jest
+        .spyOn(service, 'settleTierPricing')
+        .mockResolvedValue({ credited: 0, failed: 0 });
+
+      await service.confirmPayment('slot-1', 'sub-1');
+
+      expect(mockPoolLifecycle.transition).toHaveBeenCalledWith(
+        'pool-1',
+        PoolStatus.FILLED,
+        expect.objectContaining({ tx: mockPrismaService }),
+      );
+      expect(settle).toHaveBeenCalledWith('pool-1');
+      expect(mockPoolLifecycle.publish).toHaveBeenCalledWith(filled);
+    });
+  });
+
+  describe('resolvePickupLocation', () => {
+    const hubs = {
+      pickupLocations: [{ id: 'hub-1' }, { id: 'hub-2' }] as any[],
+    };
+
+    it("should return the chosen hub from the pool's locations", () => {
+      expect(service.resolvePickupLocation(hubs, 'hub-2')).toEqual({
+        id: 'hub-2',
+      });
+    });
+
+    it('should refuse a hub the pool does not offer', () => {
+      expect(() => service.resolvePickupLocation(hubs, 'hub-9')).toThrow(
+        'Pickup location is not available for this pool',
+      );
+    });
+
+    it('should require a hub unless the buyer chose home delivery', () => {
+      expect(() => service.resolvePickupLocation(hubs)).toThrow(
+        'Choose a pickup location for this pool',
+      );
+      expect(service.resolvePickupLocation(hubs, null, true)).toBeNull();
+      expect(service.resolvePickupLocation({ pickupLocations: [] })).toBeNull();
+    });
+  });
+
+  describe('cancelExpiredPools', () => {
+    it('should cancel open pools past their fill deadline', async () => {
+      mockPrismaService.pool.findMany.mockResolvedValue([
+        { id: 'pool-1' },
+        { id: 'pool-2' },
+      ]);
+      mockPrismaService.pendingSubscription.findMany.mockResolvedValue([]);
+      mockPrismaService.subscription.findMany.mockResolvedValue([]);
+      // pool-2 filled in the meantime
+      mockPoolLifecycle.transition
+        .mockResolvedValueOnce({ id: 'pool-1' })
+        .mockResolvedValueOnce(null);
+
+      const result = await service.cancelExpiredPools();
+
+      expect(mockPrismaService.pool.findMany).toHaveBeenCalledWith({
+        where: {
+          status: PoolStatus.OPEN,
+          fillDeadlineUtc: { lte: expect.any(Date) as Date },
+        },
+        select: { id: true },
+      });
+      expect(result.processed).toBe(2);
+      expect(result.results).toEqual([
+        { poolId: 'pool-1', refunded: 0, failed: 0 },
+        { poolId: 'pool-2', error: 'Only open pools can be cancelled' },
+      ]);
+      expect(
+        mockNotificationsService.notifyPoolCancelled,
+      ).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('update', () => {
+    it('should refuse a fill deadline in the past', async () => {
+      mockPrismaService.pool.findUnique.mockResolvedValue({
+        id: 'pool-1',
+        vendorId: 'vendor-1',
+        lockAfterFirstJoin: true,
+        subscriptions: [],
+        variants: [],
+      });
+
+      await expect(
+        service.update(
+          'pool-1',
+          { fillDeadlineUtc: '2020-01-01T00:00:00Z' },
+          'vendor-1',
+        ),
+      ).rejects.toThrow('Fill deadline must be in the future');
+      expect(mockPrismaService.pool.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should refuse pools that buyers paid for at checkout', async () => {
+      mockPrismaService.pool.findUnique.mockResolvedValue({
+        id: 'pool-1',
+        vendorId: 'vendor-1',
+        subscriptions: [{ id: 'sub-1' }],
+        slots: [],
+      });
+
+      await expect(service.remove('pool-1', 'vendor-1')).rejects.toThrow(
+        'Pool cannot be deleted after buyers have paid',
+      );
+      expect(mockPoolLifecycle.transition).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    const listed = (id: string) => ({
+      id,
+      vendorId: 'vendor-1',
+      productId: 'product-1',
+      pricePerSlot: 10000,
+      slotsCount: 10,
+      slotsTaken: 4,
+      fillPercent: 40,
+      status: PoolStatus.OPEN,
+      product: { name: 'Rice', category: 'grains' },
+      vendor: { name: 'Farm', ratingAverage: null },
+      priceTiers: [],
+      variants: [],
+      pickupLocations: [],
+    });
+
+    beforeEach(() => {
+      mockPrismaService.pool.findMany.mockResolvedValue([]);
+      mockPrismaService.subscription.groupBy.mockResolvedValue([]);
+      mockFxService.getDisplayQuote.mockResolvedValue(null);
+    });
+
+    it('should require every search term in the name or description', async () => {
+      await service.findAll({ search: ' brown  rice ' });
+
+      const [{ where }] = mockPrismaService.pool.findMany.mock.calls[0] as [
+        Prisma.PoolFindManyArgs,
+      ];
+      expect(where?.AND).toEqual([
+        {
+          product: {
+            OR: [
+              { name: { contains: 'brown', mode: 'insensitive' } },
+              { description: { contains: 'brown', mode: 'insensitive' } },
+            ],
+          },
+        },
+        {
+          product: {
+            OR: [
+              { name: { contains: 'rice', mode: 'insensitive' } },
+              { description: { contains: 'rice', mode: 'insensitive' } },
+            ],
+          },
+        },
+      ]);
+    });
+
+    it('should list open public pools matching the filters', async () => {
+      await service.findAll({
+        category: 'grains',
+        pickupCity: 'Ikeja',
+        minPrice: 5000,
+        homeDelivery: true,
+      });
+
+      const [{ where }] = mockPrismaService.pool.findMany.mock.calls[0] as [
+        Prisma.PoolFindManyArgs,
+      ];
+      expect(where).toEqual(
+        expect.objectContaining({
+          visibility: PoolVisibility.PUBLIC,
+          status: PoolStatus.OPEN,
+          pricePerSlot: { gte: 5000, lte: undefined },
+          allowHomeDelivery: true,
+          AND: [{ product: { category: 'grains' } }],
+        }),
+      );
+      expect(where?.pickupLocations?.some).toEqual(
+        expect.objectContaining({
+          active: true,
+          city: { equals: 'Ikeja', mode: 'insensitive' },
+        }),
+      );
+    });
+
+    it('should page from the cursor and report the next one', async () => {
+      mockPrismaService.pool.findMany.mockResolvedValue([
+        listed('pool-2'),
+        listed('pool-3'),
+        listed('pool-4'),
+      ]);
+
+      const result = await service.findAll({ cursor: 'pool-1', limit: 2 });
+
+      expect(mockPrismaService.pool.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          take: 3,
+          cursor: { id: 'pool-1' },
+          skip: 1,
+        }),
+      );
+      expect(result.data.map((pool) => pool.id)).toEqual(['pool-2', 'pool-3']);
+      expect(result.data[0]).toEqual(
+        expect.objectContaining({ takenSlots: 4, fillPercentage: 40 }),
+      );
+      expect(result.nextCursor).toBe('pool-3');
+      expect(result.hasMore).toBe(true);
+    });
+  });
+});
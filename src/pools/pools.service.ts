@@ -4,24 +4,131 @@ import {
   BadRequestException,
   Logger,
 } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
 import { PrismaService } from '../services/prisma.service';
 import { EscrowService } from '../escrow/escrow.service';
-import { VerificationStatus, PoolStatus, Role } from '@prisma/client';
+import { NotificationsService } from '../notifications/notifications.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { PickupLocationsService } from '../pickup-locations/pickup-locations.service';
+import { SlotHoldsService } from '../slot-holds/slot-holds.service';
+import { PoolInvitesService } from './pool-invites.service';
+import { PoolQuestionsService } from './pool-questions.service';
+import { SavedSearchesService } from '../saved-searches/saved-searches.service';
+import { PriceHistoryService } from '../catalog/price-history.service';
+import { RefundsService } from '../refunds/refunds.service';
+import { FxQuote, FxService } from '../fx/fx.service';
+import { WalletService } from '../wallet/wallet.service';
+import {
+  PoolLifecycleService,
+  PoolTransition,
+} from '../pool-lifecycle/pool-lifecycle.service';
+import {
+  VerificationStatus,
+  PoolStatus,
+  PoolVisibility,
+  Role,
+  PaymentStatus,
+  SlotStatus,
+  Subscription,
+  Pool,
+  PoolPriceTier,
+  PoolVariant,
+  PickupLocation,
+  Prisma,
+  Currency,
+  NotificationType,
+  NotificationMedium,
+  SubscriptionStatus,
+} from '@prisma/client';
 import { CreatePoolDto } from './dto/create-pool.dto';
 import { UpdatePoolDto } from './dto/update-pool.dto';
+import { ListPoolsQueryDto, PoolSort } from './dto/list-pools-query.dto';
 import Decimal from 'decimal.js';
 
 @Injectable()
 export class PoolsService {
   private readonly logger = new Logger(PoolsService.name);
+  private readonly CLOSING_SOON_HOURS = 48; // Fill deadline window for the "closing soon" filter
 
   constructor(
     private prisma: PrismaService,
     private escrowService: EscrowService,
+    private notificationsService: NotificationsService,
+    private waitlistService: WaitlistService,
+    private pickupLocationsService: PickupLocationsService,
+    private slotHoldsService: SlotHoldsService,
+    private poolInvitesService: PoolInvitesService,
+    private poolLifecycle: PoolLifecycleService,
+    private poolQuestionsService: PoolQuestionsService,
+    private savedSearchesService: SavedSearchesService,
+    private priceHistoryService: PriceHistoryService,
+    private refundsService: RefundsService,
+    private fxService: FxService,
+    private walletService: WalletService,
   ) {}
 
-  async create(dto: CreatePoolDto, vendorId: string) {
-    // Ensure vendor exists and is verified with bank
+  async create(dto: CreatePoolDto, vendorId: string, templateId?: string) {
+    const vendor = await this.assertVendorCanCreatePools(vendorId);
+    const data = await this.buildPoolData(dto, vendorId, templateId);
+
+    // Outlier prices are allowed but flagged back to the vendor
+    const priceCheck = await this.priceHistoryService.checkPoolPrice(
+      data.productId,
+      {
+        state: vendor.state,
+        pricePerSlot: Number(data.pricePerSlot),
+        unitsPerSlot: dto.unitsPerSlot,
+      },
+    );
+
+    const pool = await this.prisma.pool.create({
+      data,
+      include: {
+        product: true,
+        priceTiers: { orderBy: { minFillPercent: 'asc' } },
+        variants: { orderBy: { createdAt: 'asc' } },
+        pickupLocations: true,
+        vendor: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    this.logger.log(`Pool created: ${pool.id} by vendor ${vendorId}`);
+
+    if (priceCheck?.outlier) {
+      this.logger.warn(
+        `Pool ${pool.id} price is a ${priceCheck.outlier} outlier: ${priceCheck.message}`,
+      );
+    }
+
+    this.announceNewPool(pool.id);
+
+    return { ...pool, priceCheck };
+  }
+
+  /**
+   * Alert saved searches matching a new pool without holding up the caller
+   */
+  announceNewPool(poolId: string) {
+    this.savedSearchesService
+      .notifyNewPool(poolId)
+      .catch((error) =>
+        this.logger.error(
+          `Failed to send new pool alerts for ${poolId}`,
+          error,
+        ),
+      );
+  }
+
+  /**
+   * Ensure vendor exists and is verified with bank
+   */
+  async assertVendorCanCreatePools(vendorId: string) {
     const vendor = await this.prisma.user.findUnique({
       where: { id: vendorId },
     });
@@ -37,6 +144,18 @@ export class PoolsService {
       throw new BadRequestException('Vendor must be verified with bank linked');
     }
 
+    return vendor;
+  }
+
+  /**
+   * Validate a pool definition against the catalog and the vendor's pickup
+   * hubs, and build the record to create
+   */
+  async buildPoolData(
+    dto: CreatePoolDto,
+    vendorId: string,
+    templateId?: string,
+  ): Promise<Prisma.PoolUncheckedCreateInput> {
     // Ensure product exists and is active
     const product = await this.prisma.productCatalog.findUnique({
       where: { id: (dto as any).productId },
@@ -64,64 +183,206 @@ export class PoolsService {
       );
     }
 
-    const pool = await this.prisma.pool.create({
-      data: {
-        vendorId,
-        productId: (dto as any).productId,
-        priceTotal,
-        slotsCount,
-        pricePerSlot,
-        commissionRate: (dto as any).commissionRate ?? 0.05,
-        allowHomeDelivery: (dto as any).allowHomeDelivery ?? false,
-        homeDeliveryCost: (dto as any).homeDeliveryCost ?? null,
-        lockAfterFirstJoin: true,
-        maxSlots: (dto as any).maxSlots ?? slotsCount,
-        minUnitsConstraint,
-        timezone: (dto as any).timezone ?? 'Africa/Lagos',
-        status: PoolStatus.OPEN,
-      },
-      include: {
-        product: true,
-        vendor: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-      },
-    });
+    // Volume tiers: each threshold must be unique and cheaper than the last
+    const priceTiers = [...(dto.priceTiers ?? [])].sort(
+      (a, b) => a.minFillPercent - b.minFillPercent,
+    );
+    let previousTier = { minFillPercent: 0, pricePerSlot };
+    for (const tier of priceTiers) {
+      if (
+        tier.minFillPercent <= previousTier.minFillPercent ||
+        tier.pricePerSlot <= 0 ||
+        tier.pricePerSlot >= previousTier.pricePerSlot
+      ) {
+        throw new BadRequestException(
+          'Price tiers must have increasing fill thresholds and decreasing prices',
+        );
+      }
+      previousTier = tier;
+    }
 
-    this.logger.log(`Pool created: ${pool.id} by vendor ${vendorId}`);
+    // Variants split the pool into cuts with their own price and slots
+    const variants = dto.variants ?? [];
+    if (variants.length) {
+      if (priceTiers.length) {
+        throw new BadRequestException(
+          'Price tiers cannot be combined with variants',
+        );
+      }
+
+      const names = new Set(variants.map((v) => v.name.trim().toLowerCase()));
+      if (names.size !== variants.length) {
+        throw new BadRequestException('Variant names must be unique');
+      }
+
+      if (variants.some((v) => v.pricePerSlot <= 0)) {
+        throw new BadRequestException('Variant prices must be positive');
+      }
+
+      const variantSlots = variants.reduce((sum, v) => sum + v.slotsCount, 0);
+      if (variantSlots !== slotsCount) {
+        throw new BadRequestException(
+          'Variant slots must add up to slotsCount',
+        );
+      }
+
+      const variantTotal = variants.reduce(
+        (sum, v) => sum.add(new Decimal(v.pricePerSlot).mul(v.slotsCount)),
+        new Decimal(0),
+      );
+      if (!variantTotal.equals(priceTotal)) {
+        throw new BadRequestException(
+          'Variant prices must add up to priceTotal',
+        );
+      }
+    }
+
+    const pickupLocationIds = dto.pickupLocationIds ?? [];
+    await this.pickupLocationsService.assertVendorLocations(
+      vendorId,
+      pickupLocationIds,
+    );
 
-    return pool;
+    // Pools with a fill deadline are cancelled and refunded if they miss it
+    const fillDeadlineUtc = dto.fillDeadlineUtc
+      ? new Date(dto.fillDeadlineUtc)
+      : null;
+    if (fillDeadlineUtc && fillDeadlineUtc.getTime() <= Date.now()) {
+      throw new BadRequestException('Fill deadline must be in the future');
+    }
+
+    return {
+      vendorId,
+      productId: (dto as any).productId,
+      priceTotal,
+      slotsCount,
+      pricePerSlot,
+      unitsPerSlot: dto.unitsPerSlot,
+      commissionRate: (dto as any).commissionRate ?? 0.05,
+      allowHomeDelivery: (dto as any).allowHomeDelivery ?? false,
+      homeDeliveryCost: (dto as any).homeDeliveryCost ?? null,
+      lockAfterFirstJoin: true,
+      maxSlots: (dto as any).maxSlots ?? slotsCount,
+      minUnitsConstraint,
+      timezone: (dto as any).timezone ?? 'Africa/Lagos',
+      fillDeadlineUtc,
+      templateId,
+      visibility: dto.visibility,
+      allowBuyerCancellation: dto.allowBuyerCancellation,
+      cancellationFreeHours: dto.cancellationFreeHours,
+      cancellationFeeRate: dto.cancellationFeeRate,
+      status: PoolStatus.OPEN,
+      priceTiers: priceTiers.length
+        ? {
+            create: priceTiers.map((tier) => ({
+              minFillPercent: tier.minFillPercent,
+              pricePerSlot: tier.pricePerSlot,
+            })),
+          }
+        : undefined,
+      variants: variants.length
+        ? {
+            create: variants.map((variant) => ({
+              name: variant.name.trim(),
+              description: variant.description,
+              pricePerSlot: variant.pricePerSlot,
+              slotsCount: variant.slotsCount,
+            })),
+          }
+        : undefined,
+      pickupLocations: pickupLocationIds.length
+        ? { connect: pickupLocationIds.map((id) => ({ id })) }
+        : undefined,
+    };
   }
 
-  async findAll(filters?: {
-    status?: PoolStatus;
-    category?: string;
-    vendorId?: string;
-  }) {
-    const where: any = {};
+  async findAll(
+    filters: ListPoolsQueryDto = {},
+    options: { includeHidden?: boolean } = {},
+  ) {
+    const where: Prisma.PoolWhereInput = {};
+    const and: Prisma.PoolWhereInput[] = [];
+
+    // Unlisted and invite-only pools are reached by link, never browsed
+    if (!options.includeHidden) {
+      where.visibility = PoolVisibility.PUBLIC;
+    }
 
-    if (filters?.status) {
+    if (filters.status) {
       where.status = filters.status;
-    } else if (!filters?.vendorId) {
+    } else if (!filters.vendorId) {
       // Default to showing only OPEN pools for public listing
       // But show ALL statuses when filtering by vendorId (for vendor dashboard)
       where.status = PoolStatus.OPEN;
     }
 
-    if (filters?.category) {
-      where.product = {
-        category: filters.category,
-      };
+    if (filters.category) {
+      and.push({ product: { category: filters.category } });
     }
 
-    if (filters?.vendorId) {
+    if (filters.vendorId) {
       where.vendorId = filters.vendorId;
     }
 
+    // Every search term must appear in the product name or description
+    const terms = (filters.search ?? '').trim().split(/\s+/).filter(Boolean);
+    for (const term of terms) {
+      and.push({
+        product: {
+          OR: [
+            { name: { contains: term, mode: 'insensitive' } },
+            { description: { contains: term, mode: 'insensitive' } },
+          ],
+        },
+      });
+    }
+
+    if (filters.vendorState || filters.vendorCity) {
+      where.vendor = {
+        state: filters.vendorState
+          ? { equals: filters.vendorState, mode: 'insensitive' }
+          : undefined,
+        city: filters.vendorCity
+          ? { equals: filters.vendorCity, mode: 'insensitive' }
+          : undefined,
+      };
+    }
+
+    if (filters.pickupState || filters.pickupCity) {
+      where.pickupLocations = {
+        some: {
+          active: true,
+          state: filters.pickupState
+            ? { equals: filters.pickupState, mode: 'insensitive' }
+            : undefined,
+          city: filters.pickupCity
+            ? { equals: filters.pickupCity, mode: 'insensitive' }
+            : undefined,
+        },
+      };
+    }
+
+    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+      where.pricePerSlot = { gte: filters.minPrice, lte: filters.maxPrice };
+    }
+
+    if (filters.homeDelivery) {
+      where.allowHomeDelivery = true;
+    }
+
+    if (filters.closingSoon) {
+      const now = new Date();
+      where.fillDeadlineUtc = {
+        gt: now,
+        lte: new Date(now.getTime() + this.CLOSING_SOON_HOURS * 60 * 60 * 1000),
+      };
+    }
+
+    if (and.length) where.AND = and;
+
+    const limit = filters.limit ?? 20;
+
+    // Fetch one extra row to know whether another page exists
     const pools = await this.prisma.pool.findMany({
       where,
       include: {
@@ -132,29 +393,46 @@ export class PoolsService {
             name: true,
             email: true,
             bankVerified: true,
+            ratingAverage: true,
+            ratingCount: true,
             state: true,
             city: true,
           },
         },
-        subscriptions: {
-          select: {
-            id: true,
-            slots: true,
-            userId: true,
-          },
-        },
+        priceTiers: { orderBy: { minFillPercent: 'asc' } },
+        variants: { orderBy: { createdAt: 'asc' } },
+        pickupLocations: { where: { active: true } },
       },
-      orderBy: { createdAt: 'desc' },
+      orderBy: this.getListOrder(filters.sort),
+      take: limit + 1,
+      ...(filters.cursor && { cursor: { id: filters.cursor }, skip: 1 }),
     });
 
-    // Calculate remaining slots for each pool and transform to frontend format
-    return pools.map((pool) => {
-      const takenSlots = pool.subscriptions.reduce(
-        (sum, sub) => sum + sub.slots,
-        0,
-      );
+    const hasMore = pools.length > limit;
+    const page = hasMore ? pools.slice(0, limit) : pools;
+
+    // Per-variant paid slots for this page only
+    const variantSlots = await this.prisma.subscription.groupBy({
+      by: ['variantId'],
+      where: {
+        poolId: { in: page.map((pool) => pool.id) },
+        variantId: { not: null },
+        status: SubscriptionStatus.ACTIVE,
+      },
+      _sum: { slots: true },
+    });
+    const variantSubscriptions = variantSlots.map((row) => ({
+      variantId: row.variantId,
+      slots: row._sum.slots ?? 0,
+    }));
+
+    // Prices settle in NGN; the buyer's currency is for display only
+    const fx = await this.fxService.getDisplayQuote(filters.currency);
+
+    // Transform to frontend format
+    const data = page.map((pool) => {
+      const takenSlots = pool.slotsTaken;
       const slotsLeft = pool.slotsCount - takenSlots;
-      const fillPercentage = (takenSlots / pool.slotsCount) * 100;
 
       return {
         // Core pool fields
@@ -163,6 +441,7 @@ export class PoolsService {
         productId: pool.productId,
         priceTotal: pool.priceTotal,
         pricePerSlot: pool.pricePerSlot,
+        unitsPerSlot: pool.unitsPerSlot,
         slotsCount: pool.slotsCount,
         commissionRate: pool.commissionRate,
         allowHomeDelivery: pool.allowHomeDelivery,
@@ -175,21 +454,38 @@ export class PoolsService {
         updatedAt: pool.updatedAt,
         filledAt: pool.filledAt,
         deliveryDeadlineUtc: pool.deliveryDeadlineUtc,
+        fillDeadlineUtc: pool.fillDeadlineUtc,
+        visibility: pool.visibility,
 
         // Related data
         product: pool.product,
         vendor: pool.vendor,
-        subscriptions: pool.subscriptions,
+        priceTiers: pool.priceTiers,
+        variants: pool.variants,
+        pickupLocations: pool.pickupLocations,
 
         // Frontend-friendly fields
         vendor_name: pool.vendor.name,
         vendor_verified: pool.vendor.bankVerified || false,
+        vendor_rating: pool.vendor.ratingAverage
+          ? Number(pool.vendor.ratingAverage)
+          : null,
+        vendor_review_count: pool.vendor.ratingCount,
         product_name: pool.product.name,
         product_description: pool.product.description || '',
         product_image: pool.product.imageUrl || '/placeholder.svg',
         slots_count: pool.slotsCount,
         slots_filled: takenSlots,
         price_per_slot: Number(pool.pricePerSlot),
+        current_price_per_slot: this.getTierPrice(pool, takenSlots),
+        price_tiers: pool.priceTiers.map((tier) => ({
+          min_fill_percent: tier.minFillPercent,
+          price_per_slot: Number(tier.pricePerSlot),
+        })),
+        variant_options: this.formatVariants(
+          pool.variants,
+          variantSubscriptions,
+        ),
         allow_home_delivery: pool.allowHomeDelivery,
         home_delivery_cost: pool.homeDeliveryCost
           ? Number(pool.homeDeliveryCost)
@@ -197,19 +493,30 @@ export class PoolsService {
         delivery_deadline:
           pool.deliveryDeadlineUtc?.toISOString() ||
           new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+        fill_deadline: pool.fillDeadlineUtc?.toISOString(),
         status: pool.status.toLowerCase(),
         category: pool.product.category || 'other',
-        pickup_location: pool.vendor.name + ' - Main Warehouse', // Add pickup location
+        pickup_location: this.formatPickupSummary(pool),
+        pickup_locations: pool.pickupLocations.map((location) =>
+          this.formatPickupLocation(location),
+        ),
+        display_prices: fx && this.formatDisplayPrices(pool, takenSlots, fx),
 
         // Calculated fields
         takenSlots,
         slotsLeft,
-        fillPercentage: Math.round(fillPercentage),
+        fillPercentage: pool.fillPercent,
       };
     });
+
+    return {
+      data,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+      hasMore,
+    };
   }
 
-  async findOne(id: string) {
+  async findOne(id: string, currency?: Currency) {
     const pool = await this.prisma.pool.findUnique({
       where: { id },
       include: {
@@ -220,11 +527,14 @@ export class PoolsService {
             name: true,
             email: true,
             bankVerified: true,
+            ratingAverage: true,
+            ratingCount: true,
             state: true,
             city: true,
           },
         },
         subscriptions: {
+          where: { status: SubscriptionStatus.ACTIVE },
           include: {
             user: {
               select: {
@@ -240,6 +550,14 @@ export class PoolsService {
             status: { in: ['open', 'in_review'] },
           },
         },
+        priceTiers: { orderBy: { minFillPercent: 'asc' } },
+        variants: { orderBy: { createdAt: 'asc' } },
+        pickupLocations: { where: { active: true } },
+        _count: {
+          select: {
+            waitlistEntries: { where: { status: 'WAITING' } },
+          },
+        },
       },
     });
 
@@ -251,6 +569,8 @@ export class PoolsService {
     );
     const slotsLeft = pool.slotsCount - takenSlots;
     const fillPercentage = (takenSlots / pool.slotsCount) * 100;
+    const questions = await this.poolQuestionsService.getQuestions(id);
+    const fx = await this.fxService.getDisplayQuote(currency);
 
     return {
       // Core pool fields
@@ -259,6 +579,7 @@ export class PoolsService {
       productId: pool.productId,
       priceTotal: pool.priceTotal,
       pricePerSlot: pool.pricePerSlot,
+      unitsPerSlot: pool.unitsPerSlot,
       slotsCount: pool.slotsCount,
       commissionRate: pool.commissionRate,
       allowHomeDelivery: pool.allowHomeDelivery,
@@ -271,22 +592,41 @@ export class PoolsService {
       updatedAt: pool.updatedAt,
       filledAt: pool.filledAt,
       deliveryDeadlineUtc: pool.deliveryDeadlineUtc,
+      fillDeadlineUtc: pool.fillDeadlineUtc,
+      visibility: pool.visibility,
+      allowBuyerCancellation: pool.allowBuyerCancellation,
+      cancellationFreeHours: pool.cancellationFreeHours,
+      cancellationFeeRate: pool.cancellationFeeRate,
 
       // Related data
       product: pool.product,
       vendor: pool.vendor,
       subscriptions: pool.subscriptions,
       disputes: pool.disputes,
+      priceTiers: pool.priceTiers,
+      variants: pool.variants,
+      pickupLocations: pool.pickupLocations,
+      questions,
 
       // Frontend-friendly fields
       vendor_name: pool.vendor.name,
       vendor_verified: pool.vendor.bankVerified || false,
+      vendor_rating: pool.vendor.ratingAverage
+        ? Number(pool.vendor.ratingAverage)
+        : null,
+      vendor_review_count: pool.vendor.ratingCount,
       product_name: pool.product.name,
       product_description: pool.product.description || '',
       product_image: pool.product.imageUrl || '/placeholder.svg',
       slots_count: pool.slotsCount,
       slots_filled: takenSlots,
       price_per_slot: Number(pool.pricePerSlot),
+      current_price_per_slot: this.getTierPrice(pool, takenSlots),
+      price_tiers: pool.priceTiers.map((tier) => ({
+        min_fill_percent: tier.minFillPercent,
+        price_per_slot: Number(tier.pricePerSlot),
+      })),
+      variant_options: this.formatVariants(pool.variants, pool.subscriptions),
       allow_home_delivery: pool.allowHomeDelivery,
       home_delivery_cost: pool.homeDeliveryCost
         ? Number(pool.homeDeliveryCost)
@@ -294,9 +634,15 @@ export class PoolsService {
       delivery_deadline:
         pool.deliveryDeadlineUtc?.toISOString() ||
         new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      fill_deadline: pool.fillDeadlineUtc?.toISOString(),
       status: pool.status.toLowerCase(),
       category: pool.product.category || 'other',
-      pickup_location: pool.vendor.name + ' - Main Warehouse', // Add pickup location
+      pickup_location: this.formatPickupSummary(pool),
+      pickup_locations: pool.pickupLocations.map((location) =>
+        this.formatPickupLocation(location),
+      ),
+      waitlist_count: pool._count.waitlistEntries,
+      display_prices: fx && this.formatDisplayPrices(pool, takenSlots, fx),
 
       // Calculated fields
       takenSlots,
@@ -312,8 +658,10 @@ export class PoolsService {
         subscriptions: {
           where: {
             paymentMethod: { in: ['STRIPE', 'PAYSTACK'] },
+            status: SubscriptionStatus.ACTIVE,
           },
         },
+        variants: true,
       },
     });
 
@@ -331,6 +679,23 @@ export class PoolsService {
       );
     }
 
+    // Variant prices and slots are fixed to the pool totals they were built from
+    if (
+      pool.variants.length &&
+      (dto.priceTotal !== undefined || dto.slotsCount !== undefined)
+    ) {
+      throw new BadRequestException(
+        'Cannot change price or slots of a pool with variants',
+      );
+    }
+
+    if (
+      dto.fillDeadlineUtc &&
+      new Date(dto.fillDeadlineUtc).getTime() <= Date.now()
+    ) {
+      throw new BadRequestException('Fill deadline must be in the future');
+    }
+
     return this.prisma.pool.update({
       where: { id },
       data: dto,
@@ -341,7 +706,10 @@ export class PoolsService {
     const pool = await this.prisma.pool.findUnique({
       where: { id },
       include: {
-        subscriptions: true,
+        subscriptions: {
+          where: { status: SubscriptionStatus.ACTIVE },
+          select: { id: true },
+        },
         slots: {
           where: {
             status: { in: ['PAID', 'CONFIRMED'] },
@@ -357,18 +725,20 @@ export class PoolsService {
       throw new BadRequestException('You can only delete your own pools');
     }
 
-    // Check if any slots are paid
-    if (pool.slots && pool.slots.length > 0) {
+    // Check if any slots are paid, through a reservation or a checkout
+    if (pool.slots.length > 0 || pool.subscriptions.length > 0) {
       throw new BadRequestException(
         'Pool cannot be deleted after buyers have paid',
       );
     }
 
     // Soft delete by setting status to CANCELLED
-    return this.prisma.pool.update({
-      where: { id },
-      data: { status: PoolStatus.CANCELLED },
+    await this.poolLifecycle.transition(id, PoolStatus.CANCELLED, {
+      actorId: userId,
+      reason: 'Deleted by vendor',
     });
+
+    return this.prisma.pool.findUnique({ where: { id } });
   }
 
   async joinPool(
@@ -376,9 +746,14 @@ export class PoolsService {
     userId: string,
     slots: number,
     addHomeDelivery: boolean = false,
+    variantId?: string,
+    pickupLocationId?: string,
+    inviteCode?: string,
   ) {
+    let slotsExhausted = false;
+
     // Use transaction with row-level locking to prevent race conditions
-    return this.prisma.$transaction(
+    const reservation = this.prisma.$transaction(
       async (tx) => {
         // Lock the pool row
         const pool = await tx.pool.findUnique({
@@ -386,6 +761,9 @@ export class PoolsService {
           include: {
             product: true,
             vendor: true,
+            priceTiers: true,
+            variants: true,
+            pickupLocations: { where: { active: true } },
           },
         });
 
@@ -393,27 +771,68 @@ export class PoolsService {
           throw new NotFoundException('Pool not found');
         }
 
+        const variant = this.resolveVariant(pool, variantId);
+        const pickupLocation = this.resolvePickupLocation(
+          pool,
+          pickupLocationId,
+          addHomeDelivery && pool.allowHomeDelivery,
+        );
+
         if (pool.status !== PoolStatus.OPEN) {
           throw new BadRequestException('Pool is not open for subscriptions');
         }
 
+        if (pool.fillDeadlineUtc && pool.fillDeadlineUtc <= new Date()) {
+          throw new BadRequestException('Pool has passed its fill deadline');
+        }
+
+        await this.poolInvitesService.assertCanJoin(
+          pool,
+          userId,
+          inviteCode,
+          tx,
+        );
+
         // Calculate taken slots atomically
         const takenSlots = await tx.subscription.aggregate({
-          where: { poolId },
+          where: { poolId, status: SubscriptionStatus.ACTIVE },
           _sum: { slots: true },
         });
 
         const currentTaken = takenSlots._sum.slots || 0;
-        const available = pool.slotsCount - currentTaken;
+        // Slots offered to other waitlisted buyers are not up for grabs
+        const reserved = await this.waitlistService.getReservedSlots(
+          poolId,
+          userId,
+          tx,
+        );
+        // Slots held by other buyers' in-flight checkouts are taken too
+        const held = await this.slotHoldsService.getHeldSlots(
+          poolId,
+          userId,
+          tx,
+        );
+        const available = pool.slotsCount - currentTaken - reserved - held;
 
         if (slots > available) {
+          slotsExhausted = true;
+          throw new BadRequestException('Not enough slots available');
+        }
+
+        if (
+          variant &&
+          slots > (await this.getVariantSlotsLeft(variant, userId, tx))
+        ) {
           throw new BadRequestException(
-            `Only ${available} slots available, you requested ${slots}`,
+            `Not enough "${variant.name}" slots available`,
           );
         }
 
-        // Calculate payment amount
-        let totalAmount = new Decimal(pool.pricePerSlot).mul(slots).toNumber();
+        // Calculate payment amount at the variant or current tier price
+        const pricePerSlot = variant
+          ? Number(variant.pricePerSlot)
+          : this.getTierPrice(pool, currentTaken);
+        let totalAmount = new Decimal(pricePerSlot).mul(slots).toNumber();
 
         if (
           addHomeDelivery &&
@@ -434,6 +853,9 @@ export class PoolsService {
             unitCount: slots,
             amountPaid: totalAmount,
             status: 'PENDING_PAYMENT',
+            expiresAt: this.slotHoldsService.getHoldExpiry(),
+            variantId: variant?.id,
+            pickupLocationId: pickupLocation?.id,
           },
         });
 
@@ -448,9 +870,27 @@ export class PoolsService {
         isolationLevel: 'Serializable', // Prevent race conditions
       },
     );
+
+    let waitlistPosition: number | null = null;
+    const reserved = await reservation.catch(async (error) => {
+      // Keep the buyer's demand: queue them for the next freed slots
+      if (slotsExhausted) {
+        waitlistPosition = await this.waitlistService.tryJoinWaitlist(
+          poolId,
+          userId,
+          slots,
+        );
+      }
+      if (waitlistPosition === null) throw error;
+      return null;
+    });
+
+    return reserved ?? { waitlisted: true, waitlistPosition };
   }
 
   async confirmPayment(poolSlotId: string, subscriptionId: string) {
+    let filled = null as PoolTransition | null;
+
     await this.prisma.$transaction(async (tx) => {
       // Update pool slot status
       await tx.poolSlot.update({
@@ -468,7 +908,7 @@ export class PoolsService {
         include: {
           pool: {
             include: {
-              subscriptions: true,
+              subscriptions: { where: { status: SubscriptionStatus.ACTIVE } },
             },
           },
         },
@@ -499,59 +939,427 @@ export class PoolsService {
       );
 
       if (totalTaken >= poolSlot.pool.slotsCount) {
-        await this.markPoolFilled(poolSlot.poolId, tx);
+        filled = await this.markPoolFilled(poolSlot.poolId, tx);
       }
     });
-  }
 
-  private async markPoolFilled(poolId: string, tx?: any) {
-    const prisma = tx || this.prisma;
+    // Filled inside the transaction, so tier credits are settled here
+    if (filled) {
+      await this.settleTierPricing(filled.poolId);
+      await this.poolLifecycle.publish(filled);
+    }
+  }
 
+  /**
+   * Mark a pool FILLED and settle tier pricing.
+   * Settlement calls the payment gateways, so callers passing a transaction
+   * must run settleTierPricing and publish the transition once it commits.
+   */
+  async markPoolFilled(poolId: string, tx?: Prisma.TransactionClient) {
     const filledAt = new Date();
     const deliveryDeadlineUtc = new Date(
       filledAt.getTime() + 14 * 24 * 60 * 60 * 1000, // 14 days from fill
     );
 
-    await prisma.pool.update({
-      where: { id: poolId },
-      data: {
-        status: PoolStatus.FILLED,
-        filledAt,
-        deliveryDeadlineUtc,
+    // Only the first caller moves the pool out of OPEN, so settlement runs once
+    const filled = await this.poolLifecycle.transition(
+      poolId,
+      PoolStatus.FILLED,
+      {
+        from: [PoolStatus.OPEN],
+        reason: 'All slots taken',
+        data: { filledAt, deliveryDeadlineUtc },
+        tx,
       },
-    });
+    );
+
+    if (!filled) return null;
 
     this.logger.log(
       `Pool ${poolId} marked as FILLED. Delivery deadline: ${deliveryDeadlineUtc}`,
     );
 
+    if (!tx) {
+      await this.settleTierPricing(poolId);
+    }
+
     // TODO: Trigger notification to vendor and buyers
     // TODO: Schedule auto-release job for deadline + 24h
+
+    return filled;
+  }
+
+  /**
+   * Price per slot for the next buyer, given how many slots are already taken.
+   * Without tiers this is the flat pricePerSlot.
+   */
+  getTierPrice(
+    pool: Pick<Pool, 'pricePerSlot' | 'slotsCount'> & {
+      priceTiers?: PoolPriceTier[];
+    },
+    takenSlots: number,
+  ): number {
+    const fillPercent = (takenSlots / pool.slotsCount) * 100;
+    let price = Number(pool.pricePerSlot);
+
+    for (const tier of pool.priceTiers ?? []) {
+      if (fillPercent >= tier.minFillPercent) {
+        price = Math.min(price, Number(tier.pricePerSlot));
+      }
+    }
+
+    return price;
+  }
+
+  /**
+   * The variant a buyer picked. Pools with variants require a choice;
+   * pools without them take none.
+   */
+  resolveVariant(
+    pool: { variants?: PoolVariant[] },
+    variantId?: string | null,
+  ): PoolVariant | null {
+    const variants = pool.variants ?? [];
+
+    if (!variants.length) {
+      if (variantId) {
+        throw new BadRequestException('This pool has no variants');
+      }
+      return null;
+    }
+
+    if (!variantId) {
+      throw new BadRequestException('Choose a variant for this pool');
+    }
+
+    const variant = variants.find((v) => v.id === variantId);
+    if (!variant) {
+      throw new BadRequestException('Variant not found in this pool');
+    }
+
+    return variant;
+  }
+
+  /**
+   * Slots of a variant not yet taken by paid subscriptions or held by other
+   * buyers' in-flight checkouts
+   */
+  async getVariantSlotsLeft(
+    variant: PoolVariant,
+    excludeUserId?: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<number> {
+    const prisma = tx || this.prisma;
+
+    const [taken, held] = await Promise.all([
+      prisma.subscription.aggregate({
+        where: {
+          poolId: variant.poolId,
+          variantId: variant.id,
+          status: SubscriptionStatus.ACTIVE,
+        },
+        _sum: { slots: true },
+      }),
+      this.slotHoldsService.getHeldSlots(
+        variant.poolId,
+        excludeUserId,
+        tx,
+        variant.id,
+      ),
+    ]);
+
+    return variant.slotsCount - (taken._sum.slots ?? 0) - held;
+  }
+
+  /**
+   * The hub a buyer collects from. Required when the pool has pickup
+   * locations, unless the buyer chose home delivery.
+   */
+  resolvePickupLocation(
+    pool: { pickupLocations?: PickupLocation[] },
+    pickupLocationId?: string | null,
+    homeDelivery: boolean = false,
+  ): PickupLocation | null {
+    const locations = pool.pickupLocations ?? [];
+
+    if (pickupLocationId) {
+      const location = locations.find((l) => l.id === pickupLocationId);
+      if (!location) {
+        throw new BadRequestException(
+          'Pickup location is not available for this pool',
+        );
+      }
+      return location;
+    }
+
+    if (locations.length && !homeDelivery) {
+      throw new BadRequestException('Choose a pickup location for this pool');
+    }
+
+    return null;
+  }
+
+  private formatPickupSummary(pool: {
+    pickupLocations: PickupLocation[];
+    vendor: { name: string | null };
+  }) {
+    // Pools created before pickup hubs existed collect from the vendor
+    if (!pool.pickupLocations.length) {
+      return pool.vendor.name + ' - Main Warehouse';
+    }
+
+    return pool.pickupLocations
+      .map((location) => `${location.name}, ${location.city}`)
+      .join(' / ');
+  }
+
+  private formatPickupLocation(location: PickupLocation) {
+    return {
+      id: location.id,
+      name: location.name,
+      address: location.address,
+      state: location.state,
+      city: location.city,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      opening_hours: location.openingHours || '',
+      contact_name: location.contactName || '',
+      contact_phone: location.contactPhone || '',
+    };
+  }
+
+  /**
+   * Recount a pool's paid slots from its subscriptions. Listing, filtering
+   * and sorting read these columns instead of summing subscriptions, so
+   * every path that adds, cancels, refunds or moves a subscription calls it.
+   */
+  async syncSlotsTaken(poolId: string, tx?: Prisma.TransactionClient) {
+    const prisma = tx || this.prisma;
+
+    const [taken, pool] = await Promise.all([
+      prisma.subscription.aggregate({
+        where: { poolId, status: SubscriptionStatus.ACTIVE },
+        _sum: { slots: true },
+      }),
+      prisma.pool.findUnique({
+        where: { id: poolId },
+        select: { slotsCount: true },
+      }),
+    ]);
+
+    if (!pool) return;
+
+    const slotsTaken = taken._sum.slots ?? 0;
+    await prisma.pool.update({
+      where: { id: poolId },
+      data: {
+        slotsTaken,
+        fillPercent: Math.min(
+          100,
+          Math.round((slotsTaken / pool.slotsCount) * 100),
+        ),
+      },
+    });
+  }
+
+  /**
+   * Move the PoolSlot backing a subscription to a new status. Slots are not
+   * linked to subscriptions, so the buyer's paid slot of the same size and
+   * variant is used; the buyer's other slots in the pool are left alone.
+   */
+  async setSubscriptionSlotStatus(
+    subscription: Subscription,
+    status: SlotStatus,
+    tx?: Prisma.TransactionClient,
+  ) {
+    const prisma = tx || this.prisma;
+
+    const poolSlot = await prisma.poolSlot.findFirst({
+      where: {
+        poolId: subscription.poolId,
+        buyerId: subscription.userId,
+        slotsReserved: subscription.slots,
+        variantId: subscription.variantId,
+        status: { in: [SlotStatus.PAID, SlotStatus.CONFIRMED] },
+      },
+      orderBy: { joinedAt: 'asc' },
+    });
+    if (!poolSlot) return;
+
+    await prisma.poolSlot.update({
+      where: { id: poolSlot.id },
+      data: { status },
+    });
+  }
+
+  private getListOrder(
+    sort: PoolSort = PoolSort.NEWEST,
+  ): Prisma.PoolOrderByWithRelationInput[] {
+    // id breaks ties so cursor pages never skip or repeat pools
+    switch (sort) {
+      case PoolSort.FILL:
+        return [{ fillPercent: 'desc' }, { id: 'asc' }];
+      case PoolSort.PRICE_ASC:
+        return [{ pricePerSlot: 'asc' }, { id: 'asc' }];
+      case PoolSort.PRICE_DESC:
+        return [{ pricePerSlot: 'desc' }, { id: 'asc' }];
+      case PoolSort.DEADLINE:
+        return [
+          { fillDeadlineUtc: { sort: 'asc', nulls: 'last' } },
+          { id: 'asc' },
+        ];
+      default:
+        return [{ createdAt: 'desc' }, { id: 'asc' }];
+    }
+  }
+
+  private formatVariants(
+    variants: PoolVariant[],
+    subscriptions: Array<{ slots: number; variantId: string | null }>,
+  ) {
+    return variants.map((variant) => {
+      const taken = subscriptions
+        .filter((sub) => sub.variantId === variant.id)
+        .reduce((sum, sub) => sum + sub.slots, 0);
+
+      return {
+        id: variant.id,
+        name: variant.name,
+        description: variant.description || '',
+        price_per_slot: Number(variant.pricePerSlot),
+        slots_count: variant.slotsCount,
+        slots_left: variant.slotsCount - taken,
+      };
+    });
   }
 
-  async markPoolInDelivery(poolId: string) {
+  /**
+   * Pool prices in the buyer's currency, alongside the NGN prices they
+   * are charged and settled in
+   */
+  private formatDisplayPrices(
+    pool: Pick<
+      Pool,
+      'pricePerSlot' | 'slotsCount' | 'homeDeliveryCost' | 'allowHomeDelivery'
+    > & { priceTiers: PoolPriceTier[]; variants: PoolVariant[] },
+    takenSlots: number,
+    fx: FxQuote,
+  ) {
+    const convert = (amount: Prisma.Decimal | number) =>
+      this.fxService.convert(Number(amount), fx.rate);
+
+    return {
+      currency: fx.currency,
+      rate: fx.rate,
+      rate_fetched_at: fx.fetchedAt.toISOString(),
+      price_per_slot: convert(pool.pricePerSlot),
+      current_price_per_slot: convert(this.getTierPrice(pool, takenSlots)),
+      price_tiers: pool.priceTiers.map((tier) => ({
+        min_fill_percent: tier.minFillPercent,
+        price_per_slot: convert(tier.pricePerSlot),
+      })),
+      variant_prices: pool.variants.map((variant) => ({
+        id: variant.id,
+        price_per_slot: convert(variant.pricePerSlot),
+      })),
+      home_delivery_cost:
+        pool.allowHomeDelivery && pool.homeDeliveryCost
+          ? convert(pool.homeDeliveryCost)
+          : undefined,
+    };
+  }
+
+  /**
+   * Credit early joiners back the difference between the tier price they
+   * paid and the final (lowest) tier price the pool filled at
+   */
+  async settleTierPricing(poolId: string) {
     const pool = await this.prisma.pool.findUnique({
       where: { id: poolId },
+      include: {
+        priceTiers: true,
+        subscriptions: { where: { status: SubscriptionStatus.ACTIVE } },
+        product: true,
+      },
     });
 
-    if (!pool) throw new NotFoundException('Pool not found');
+    if (!pool || pool.priceTiers.length === 0) {
+      return { credited: 0, failed: 0 };
+    }
+
+    const finalPrice = this.getTierPrice(pool, pool.slotsCount);
+    let credited = 0;
+    let failed = 0;
+
+    for (const subscription of pool.subscriptions) {
+      const paidPerSlot = Number(
+        subscription.pricePerSlot ?? pool.pricePerSlot,
+      );
+      const credit = new Decimal(paidPerSlot)
+        .sub(finalPrice)
+        .mul(subscription.slots)
+        .toNumber();
+
+      if (credit <= 0) continue;
+
+      const ok = await this.refundSubscription(
+        subscription,
+        `Tier price credit: pool filled at ₦${finalPrice.toLocaleString()} per slot`,
+        credit,
+      );
+
+      if (!ok) {
+        failed++;
+        continue;
+      }
+
+      credited++;
+      try {
+        await this.notificationsService.sendNotification(
+          subscription.userId,
+          NotificationType.PAYMENT,
+          [NotificationMedium.EMAIL, NotificationMedium.IN_APP],
+          {
+            title: 'You got the group price! 🎉',
+            message: `"${pool.product?.name}" filled at ₦${finalPrice.toLocaleString()} per slot. ₦${credit.toLocaleString()} is being credited back to you.`,
+            poolId,
+            amount: credit,
+          },
+        );
+      } catch (error) {
+        this.logger.error('Failed to send tier credit notification', error);
+      }
+    }
+
+    this.logger.log(
+      `Tier pricing settled for pool ${poolId} at ${finalPrice}/slot: ${credited} credited, ${failed} failed`,
+    );
+
+    return { credited, failed };
+  }
 
-    if (pool.status !== PoolStatus.FILLED) {
+  async markPoolInDelivery(poolId: string, actorId?: string) {
+    const moved = await this.poolLifecycle.transition(
+      poolId,
+      PoolStatus.IN_DELIVERY,
+      { from: [PoolStatus.FILLED], actorId },
+    );
+
+    if (!moved) {
       throw new BadRequestException(
         'Pool must be filled before marking as in delivery',
       );
     }
 
-    return this.prisma.pool.update({
-      where: { id: poolId },
-      data: { status: PoolStatus.IN_DELIVERY },
-    });
+    return this.prisma.pool.findUnique({ where: { id: poolId } });
   }
 
   async getUserSubscriptions(userId: string) {
     return this.prisma.subscription.findMany({
-      where: { userId },
+      where: { userId, status: SubscriptionStatus.ACTIVE },
       include: {
+        variant: true,
+        pickupLocation: true,
         pool: {
           include: {
             product: true,
@@ -569,8 +1377,14 @@ export class PoolsService {
     });
   }
 
-  async getVendorPools(vendorId: string) {
-    return this.findAll({ vendorId });
+  async getVendorPools(
+    vendorId: string,
+    page: Pick<ListPoolsQueryDto, 'cursor' | 'limit'> = {},
+  ) {
+    return this.findAll(
+      { vendorId, cursor: page.cursor, limit: page.limit },
+      { includeHidden: true },
+    );
   }
 
   async checkAndTriggerAutoRelease() {
@@ -619,4 +1433,210 @@ export class PoolsService {
       timestamp: new Date(),
     };
   }
+
+  // ============================================
+  // FILL DEADLINE CANCELLATION
+  // ============================================
+
+  /**
+   * Run every 30 minutes - cancel OPEN pools past their fill deadline
+   * and refund every buyer through the original gateway
+   */
+  @Cron('*/30 * * * *')
+  async handleExpiredPools() {
+    this.logger.log('Checking for pools past their fill deadline...');
+
+    try {
+      const result = await this.cancelExpiredPools();
+      this.logger.log(`Cancelled ${result.processed} expired pools`);
+    } catch (error) {
+      this.logger.error('Expired pool cancellation failed:', error);
+    }
+  }
+
+  /**
+   * Cancel OPEN pools whose fill deadline has passed and refund their buyers
+   */
+  async cancelExpiredPools() {
+    const pools = await this.prisma.pool.findMany({
+      where: {
+        status: PoolStatus.OPEN,
+        fillDeadlineUtc: { lte: new Date() },
+      },
+      select: { id: true },
+    });
+
+    const results: Array<{
+      poolId: string;
+      refunded?: number;
+      failed?: number;
+      error?: string;
+    }> = [];
+
+    for (const pool of pools) {
+      try {
+        const result = await this.cancelPoolWithRefunds(
+          pool.id,
+          'The pool did not fill before its deadline',
+        );
+        results.push({ poolId: pool.id, ...result });
+      } catch (error) {
+        this.logger.error(
+          `Failed to cancel expired pool ${pool.id}`,
+          error.stack,
+        );
+        results.push({ poolId: pool.id, error: error.message });
+      }
+    }
+
+    return {
+      processed: pools.length,
+      results,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Cancel an OPEN pool, refund every subscription through its gateway
+   * and notify the vendor and buyers
+   */
+  async cancelPoolWithRefunds(poolId: string, reason: string) {
+    // Claim the pool atomically so concurrent runs never double-refund
+    const claimed = await this.poolLifecycle.transition(
+      poolId,
+      PoolStatus.CANCELLED,
+      { from: [PoolStatus.OPEN], reason },
+    );
+
+    if (!claimed) {
+      throw new BadRequestException('Only open pools can be cancelled');
+    }
+
+    // Checkouts still in progress can no longer complete; a charge that
+    // lands on one later is refunded when the payment is finalized
+    const checkouts = await this.prisma.pendingSubscription.findMany({
+      where: { poolId, status: PaymentStatus.PENDING },
+      select: { id: true },
+    });
+    await this.prisma.pendingSubscription.updateMany({
+      where: {
+        id: { in: checkouts.map((checkout) => checkout.id) },
+        status: PaymentStatus.PENDING,
+      },
+      data: { status: PaymentStatus.FAILED, holdExpiresAt: null },
+    });
+    // Store credit spent on them goes back to the buyers
+    for (const checkout of checkouts) {
+      await this.walletService.reverseCheckout(checkout.id);
+    }
+    await this.prisma.poolSlot.updateMany({
+      where: { poolId, status: SlotStatus.PENDING_PAYMENT },
+      data: { status: SlotStatus.CANCELLED },
+    });
+
+    const subscriptions = await this.prisma.subscription.findMany({
+      where: { poolId, status: SubscriptionStatus.ACTIVE },
+    });
+
+    let refunded = 0;
+    let failed = 0;
+    for (const subscription of subscriptions) {
+      const ok = await this.refundSubscription(subscription, reason);
+      if (ok) refunded++;
+      else failed++;
+    }
+    await this.syncSlotsTaken(poolId);
+
+    this.logger.log(
+      `Pool ${poolId} cancelled: ${refunded} refunded, ${failed} failed. Reason: ${reason}`,
+    );
+
+    try {
+      await this.notificationsService.notifyPoolCancelled(poolId, reason);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send cancellation notifications for pool ${poolId}`,
+        error.stack,
+      );
+    }
+
+    return { refunded, failed };
+  }
+
+  /**
+   * Refund a subscription through RefundsService (full, or partial when an
+   * amount is given). Failed refunds are recorded for admin follow-up.
+   *
+   * With settleShare off only the payment is returned: the buyer's slots and
+   * escrow contribution are left alone (used when a slot changes hands).
+   */
+  async refundSubscription(
+    subscription: Subscription,
+    reason: string,
+    amount?: number,
+    settleShare = true,
+  ): Promise<boolean> {
+    const fullRefund = amount === undefined;
+    let slotsFreed = false;
+
+    let refunded: boolean;
+    try {
+      refunded = await this.refundsService.tryRefund({
+        subscription,
+        amount,
+        reason,
+        settle: settleShare
+          ? async (tx, refunded) => {
+              if (fullRefund) {
+                // A fully refunded buyer no longer holds their slots
+                const cancelled = await tx.subscription.updateMany({
+                  where: {
+                    id: subscription.id,
+                    status: SubscriptionStatus.ACTIVE,
+                  },
+                  data: {
+                    status: SubscriptionStatus.CANCELLED,
+                    cancelledAt: new Date(),
+                  },
+                });
+                slotsFreed = cancelled.count > 0;
+                await this.setSubscriptionSlotStatus(
+                  subscription,
+                  SlotStatus.REFUNDED,
+                  tx,
+                );
+                await this.syncSlotsTaken(subscription.poolId, tx);
+              }
+
+              await this.escrowService.deductContribution(
+                subscription.poolId,
+                subscription.userId,
+                refunded,
+                tx,
+                subscription.variantId,
+              );
+            }
+          : undefined,
+      });
+    } catch (error) {
+      // Nothing left to refund, e.g. the buyer was already refunded
+      this.logger.error(
+        `Refund rejected for subscription ${subscription.id}: ${error.message}`,
+      );
+      return false;
+    }
+
+    if (slotsFreed) {
+      try {
+        await this.waitlistService.promoteNext(subscription.poolId);
+      } catch (error) {
+        this.logger.error(
+          `Failed to offer freed slots in pool ${subscription.poolId} to the waitlist`,
+          error,
+        );
+      }
+    }
+
+    return refunded;
+  }
 }
@@ -0,0 +1,298 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { SubscriptionCancellationsService } from './subscription-cancellations.service';
+import { PoolsService } from './pools.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PrismaService } from '../services/prisma.service';
+import { RefundsService } from '../refunds/refunds.service';
+import { PaystackService } from '../services/paystack.service';
+import { StripeService } from '../services/stripe.service';
+import { WalletService } from '../wallet/wallet.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { FxService } from '../fx/fx.service';
+import { EscrowService } from '../escrow/escrow.service';
+import {
+  PaymentGateway,
+  PoolStatus,
+  Prisma,
+  RefundStatus,
+  SlotStatus,
+  SlotTransferStatus,
+  Subscription,
+  SubscriptionStatus,
+} from '@prisma/client';
+
+describe('SubscriptionCancellationsService', () => {
+  let service: SubscriptionCancellationsService;
+  let refundsService: RefundsService;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    subscription: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    pool: {
+      findUnique: jest.fn(),
+    },
+    slotTransfer: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    transaction: {
+      aggregate: jest.fn(),
+      create: jest.fn(),
+    },
+    refund: {
+      aggregate: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+
+  const mockPoolsService = {
+    syncSlotsTaken: jest.fn(),
+    refundSubscription: jest.fn(),
+    setSubscriptionSlotStatus: jest.fn(),
+  };
+
+  const mockWaitlistService = {
+    promoteNext: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    sendNotification: jest.fn(),
+    notifyAdmins: jest.fn(),
+  };
+
+  const mockEscrowService = {
+    deductContribution: jest.fn(),
+  };
+
+  const mockPaystackService = {
+    refundTransaction: jest.fn(),
+  };
+
+  const mockWalletService = {
+    prefersWalletRefunds: jest.fn(),
+    credit: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    recordGatewayRefund: jest.fn(),
+    recordRefundSettled: jest.fn(),
+  };
+
+  const hoursAgo = (hours: number) =>
+    new Date(Date.now() - hours * 60 * 60 * 1000);
+
+  const subscriptionFor = (joinedHoursAgo: number, pool = {}) => ({
+    id: 'sub-1',
+    userId: 'buyer-1',
+    poolId: 'pool-1',
+    slots: 2,
+    amountPaid: 20000,
+    walletAmount: 0,
+    paymentMethod: PaymentGateway.PAYSTACK,
+    paymentRef: 'ref-1',
+    status: SubscriptionStatus.ACTIVE,
+    createdAt: hoursAgo(joinedHoursAgo),
+    pool: {
+      id: 'pool-1',
+      vendorId: 'vendor-1',
+      status: PoolStatus.OPEN,
+      allowBuyerCancellation: true,
+      cancellationFreeHours: 24,
+      cancellationFeeRate: 0.1,
+      ...pool,
+    },
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (fn: (tx: typeof mockPrismaService) => unknown) => fn(mockPrismaService),
+    );
+    mockPrismaService.pool.findUnique.mockResolvedValue({
+      status: PoolStatus.OPEN,
+    });
+    mockPrismaService.slotTransfer.findMany.mockResolvedValue([]);
+    mockPrismaService.subscription.updateMany.mockResolvedValue({ count: 1 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubscriptionCancellationsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: PoolsService, useValue: mockPoolsService },
+        { provide: WaitlistService, useValue: mockWaitlistService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: EscrowService, useValue: mockEscrowService },
+        RefundsService,
+        { provide: PaystackService, useValue: mockPaystackService },
+        { provide: StripeService, useValue: {} },
+        { provide: WalletService, useValue: mockWalletService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: FxService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<SubscriptionCancellationsService>(
+      SubscriptionCancellationsService,
+    );
+    refundsService = module.get<RefundsService>(RefundsService);
+  });
+
+  it('should refund in full within the free window', async () => {
+    const subscription = subscriptionFor(2);
+    mockPrismaService.subscription.findUnique.mockResolvedValue(subscription);
+    mockPoolsService.refundSubscription.mockResolvedValue(true);
+
+    const result = await service.cancel('sub-1', 'buyer-1');
+
+    expect(result).toMatchObject({ fee: 0, refundAmount: 20000 });
+    expect(mockPoolsService.refundSubscription).toHaveBeenCalledWith(
+      subscription,
+      'Cancelled by buyer',
+      undefined,
+    );
+    expect(mockPrismaService.subscription.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'sub-1',
+        userId: 'buyer-1',
+        status: SubscriptionStatus.ACTIVE,
+      },
+      data: {
+        status: SubscriptionStatus.CANCELLED,
+        cancelledAt: expect.any(Date) as Date,
+      },
+    });
+    expect(mockPoolsService.syncSlotsTaken).toHaveBeenCalledWith(
+      'pool-1',
+      mockPrismaService,
+    );
+    expect(mockPoolsService.setSubscriptionSlotStatus).not.toHaveBeenCalled();
+    expect(mockWaitlistService.promoteNext).toHaveBeenCalledWith('pool-1');
+  });
+
+  it('should keep the fee and cancel the slots after the free window', async () => {
+    mockPrismaService.subscription.findUnique.mockResolvedValue(
+      subscriptionFor(48),
+    );
+    mockPoolsService.refundSubscription.mockResolvedValue(true);
+
+    const result = await service.cancel('sub-1', 'buyer-1');
+
+    expect(result).toMatchObject({ fee: 2000, refundAmount: 18000 });
+    expect(mockPoolsService.refundSubscription).toHaveBeenCalledWith(
+      expect.anything(),
+      'Cancelled by buyer',
+      18000,
+    );
+    expect(mockPoolsService.setSubscriptionSlotStatus).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'sub-1' }),
+      SlotStatus.CANCELLED,
+    );
+  });
+
+  it('should take a failed refund out of escrow and alert admins', async () => {
+    mockPrismaService.subscription.findUnique.mockResolvedValue(
+      subscriptionFor(48),
+    );
+    mockPoolsService.refundSubscription.mockResolvedValue(false);
+
+    const result = await service.cancel('sub-1', 'buyer-1');
+
+    expect(result.refunded).toBe(false);
+    expect(mockEscrowService.deductContribution).toHaveBeenCalledWith(
+      'pool-1',
+      'buyer-1',
+      18000,
+      undefined,
+      undefined,
+    );
+    expect(mockNotificationsService.notifyAdmins).toHaveBeenCalledWith(
+      'Cancellation refund failed',
+      expect.any(String),
+      expect.objectContaining({ subscriptionId: 'sub-1', amount: 18000 }),
+    );
+  });
+
+  it('should not cancel once the pool has filled', async () => {
+    mockPrismaService.subscription.findUnique.mockResolvedValue(
+      subscriptionFor(2, { status: PoolStatus.FILLED }),
+    );
+
+    await expect(service.cancel('sub-1', 'buyer-1')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(mockPrismaService.subscription.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should not cancel slots with resale history', async () => {
+    mockPrismaService.subscription.findUnique.mockResolvedValue(
+      subscriptionFor(2),
+    );
+    mockPrismaService.slotTransfer.findMany.mockResolvedValue([
+      { status: SlotTransferStatus.COMPLETED, buyerId: 'buyer-1' },
+    ]);
+
+    await expect(service.cancel('sub-1', 'buyer-1')).rejects.toThrow(
+      'Slots that have been offered for resale cannot be cancelled',
+    );
+    expect(mockPoolsService.refundSubscription).not.toHaveBeenCalled();
+  });
+
+  it('should reject a subscription that was already cancelled', async () => {
+    mockPrismaService.subscription.findUnique.mockResolvedValue({
+      ...subscriptionFor(2),
+      status: SubscriptionStatus.CANCELLED,
+    });
+
+    await expect(service.cancel('sub-1', 'buyer-1')).rejects.toThrow(
+      'Subscription was already cancelled',
+    );
+    expect(mockPoolsService.refundSubscription).not.toHaveBeenCalled();
+  });
+
+  it('should record the gateway refund against the cancelled subscription', async () => {
+    mockPrismaService.subscription.findUnique.mockResolvedValue(
+      subscriptionFor(2),
+    );
+    mockPoolsService.refundSubscription.mockImplementation(
+      (subscription: Subscription, reason: string, amount?: number) =>
+        refundsService.tryRefund({ subscription, reason, amount }),
+    );
+    mockWalletService.prefersWalletRefunds.mockResolvedValue(false);
+    mockPrismaService.transaction.aggregate.mockResolvedValue({
+      _sum: { amount: null },
+    });
+    mockPaystackService.refundTransaction.mockResolvedValue({
+      refundId: '123',
+      status: 'pending',
+    });
+    mockPrismaService.transaction.create.mockResolvedValue({ id: 'txn-1' });
+    mockPrismaService.refund.create.mockImplementation(
+      ({ data }: Prisma.RefundCreateArgs) => ({ id: 'refund-1', ...data }),
+    );
+
+    const result = await service.cancel('sub-1', 'buyer-1');
+
+    expect(result.refunded).toBe(true);
+    // The subscription is kept, so the refund can reference it
+    expect(mockPrismaService.subscription.updateMany).toHaveBeenCalled();
+    expect(mockPaystackService.refundTransaction).toHaveBeenCalledWith(
+      'ref-1',
+      undefined,
+    );
+    const [{ data }] = mockPrismaService.refund.create.mock.calls[0] as [
+      Prisma.RefundCreateArgs,
+    ];
+    expect(data).toMatchObject({
+      subscriptionId: 'sub-1',
+      paymentRef: 'ref-1',
+      amount: 20000,
+      status: RefundStatus.PENDING,
+    });
+    expect(mockLedgerService.recordGatewayRefund).toHaveBeenCalled();
+  });
+});
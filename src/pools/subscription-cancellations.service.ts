@@ -0,0 +1,296 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { PoolsService } from './pools.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { EscrowService } from '../escrow/escrow.service';
+import {
+  NotificationMedium,
+  NotificationType,
+  Pool,
+  PoolStatus,
+  SlotStatus,
+  SlotTransferStatus,
+  Subscription,
+  SubscriptionStatus,
+} from '@prisma/client';
+import Decimal from 'decimal.js';
+
+/**
+ * SubscriptionCancellationsService lets a buyer leave a pool before it fills.
+ *
+ * Each pool carries its own policy: cancellation can be switched off, and
+ * within cancellationFreeHours of joining the buyer gets everything back;
+ * after that cancellationFeeRate of the payment is kept and stays in escrow
+ * for the vendor. Once the pool is FILLED nobody can cancel.
+ *
+ * Cancelling marks the subscription CANCELLED so its slots go back on sale
+ * (and to the waitlist), then refunds the buyer through their gateway. The
+ * subscription is kept for its payment and refund records. The PoolSlot
+ * ends REFUNDED after a full refund and CANCELLED otherwise. If the refund
+ * fails, the amount owed still leaves escrow and admins are alerted to
+ * refund the buyer by hand.
+ */
+@Injectable()
+export class SubscriptionCancellationsService {
+  private readonly logger = new Logger(SubscriptionCancellationsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private poolsService: PoolsService,
+    private waitlistService: WaitlistService,
+    private notificationsService: NotificationsService,
+    private escrowService: EscrowService,
+  ) {}
+
+  /**
+   * What the buyer would get back if they cancelled now
+   */
+  async getQuote(subscriptionId: string, userId: string) {
+    const { subscription, pool } = await this.getCancellable(
+      subscriptionId,
+      userId,
+    );
+
+    return this.getTerms(subscription, pool);
+  }
+
+  async cancel(subscriptionId: string, userId: string) {
+    const { subscription, pool } = await this.getCancellable(
+      subscriptionId,
+      userId,
+    );
+    const terms = this.getTerms(subscription, pool);
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        const current = await tx.pool.findUnique({
+          where: { id: pool.id },
+          select: { status: true },
+        });
+        if (current?.status !== PoolStatus.OPEN) {
+          throw new BadRequestException(
+            'Subscriptions can only be cancelled while the pool is open',
+          );
+        }
+
+        // Withdrawn resale listings go with the subscription; anything a
+        // buyer has paid for is transfer history that must stay
+        const transfers = await tx.slotTransfer.findMany({
+          where: { subscriptionId },
+          select: { status: true, buyerId: true },
+        });
+        if (
+          transfers.some(
+            (t) => t.status !== SlotTransferStatus.CANCELLED || t.buyerId,
+          )
+        ) {
+          throw new BadRequestException(
+            'Slots that have been offered for resale cannot be cancelled',
+          );
+        }
+        await tx.slotTransfer.deleteMany({ where: { subscriptionId } });
+
+        const cancelled = await tx.subscription.updateMany({
+          where: {
+            id: subscriptionId,
+            userId,
+            status: SubscriptionStatus.ACTIVE,
+          },
+          data: {
+            status: SubscriptionStatus.CANCELLED,
+            cancelledAt: new Date(),
+          },
+        });
+        if (cancelled.count === 0) {
+          throw new BadRequestException('Subscription was already cancelled');
+        }
+
+        await this.poolsService.syncSlotsTaken(pool.id, tx);
+      },
+      {
+        isolationLevel: 'Serializable', // Pool cannot fill under us
+      },
+    );
+
+    const reason = 'Cancelled by buyer';
+    const fullRefund = terms.fee === 0;
+    const refunded =
+      terms.refundAmount > 0
+        ? await this.poolsService.refundSubscription(
+            subscription,
+            reason,
+            fullRefund ? undefined : terms.refundAmount,
+          )
+        : false;
+
+    // A successful full refund already marked the slot REFUNDED
+    if (!(refunded && fullRefund)) {
+      await this.poolsService.setSubscriptionSlotStatus(
+        subscription,
+        SlotStatus.CANCELLED,
+      );
+    }
+
+    if (terms.refundAmount > 0 && !refunded) {
+      await this.handleFailedRefund(subscription, terms.refundAmount);
+    }
+
+    this.logger.log(
+      `Subscription ${subscriptionId} cancelled by ${userId}: refund ${terms.refundAmount}, fee ${terms.fee}${refunded ? '' : ' (refund not issued)'}`,
+    );
+
+    try {
+      await this.waitlistService.promoteNext(pool.id);
+    } catch (error) {
+      this.logger.error(
+        `Failed to offer freed slots in pool ${pool.id} to the waitlist`,
+        error,
+      );
+    }
+
+    await this.notify(
+      userId,
+      pool.id,
+      'Pool subscription cancelled',
+      refunded
+        ? `Your ${subscription.slots} slot(s) were cancelled. ₦${terms.refundAmount.toLocaleString()} is being refunded to you.`
+        : terms.refundAmount > 0
+          ? `Your ${subscription.slots} slot(s) were cancelled. Your refund is being processed by our team.`
+          : `Your ${subscription.slots} slot(s) were cancelled. No refund was due under the pool's cancellation policy.`,
+    );
+    await this.notify(
+      pool.vendorId,
+      pool.id,
+      'Buyer left your pool',
+      `A buyer cancelled ${subscription.slots} slot(s); they are available again.`,
+    );
+
+    return {
+      success: true,
+      subscriptionId,
+      poolId: pool.id,
+      ...terms,
+      refunded,
+    };
+  }
+
+  private async getCancellable(subscriptionId: string, userId: string) {
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+      include: { pool: true },
+    });
+
+    if (!subscription) throw new NotFoundException('Subscription not found');
+
+    if (subscription.userId !== userId) {
+      throw new ForbiddenException('You can only cancel your own slots');
+    }
+
+    if (subscription.status !== SubscriptionStatus.ACTIVE) {
+      throw new BadRequestException('Subscription was already cancelled');
+    }
+
+    const { pool } = subscription;
+
+    if (pool.status !== PoolStatus.OPEN) {
+      throw new BadRequestException(
+        'Subscriptions can only be cancelled while the pool is open',
+      );
+    }
+
+    if (!pool.allowBuyerCancellation) {
+      throw new BadRequestException('This pool does not allow cancellations');
+    }
+
+    return { subscription, pool };
+  }
+
+  private getTerms(
+    subscription: Subscription,
+    pool: Pick<Pool, 'cancellationFreeHours' | 'cancellationFeeRate'>,
+  ) {
+    const freeUntil = new Date(
+      subscription.createdAt.getTime() +
+        pool.cancellationFreeHours * 60 * 60 * 1000,
+    );
+    const feeRate =
+      Date.now() < freeUntil.getTime()
+        ? new Decimal(0)
+        : new Decimal(pool.cancellationFeeRate.toString());
+
+    const amountPaid = new Decimal(subscription.amountPaid.toString());
+    const fee = amountPaid.mul(feeRate).toDecimalPlaces(2);
+
+    return {
+      amountPaid: amountPaid.toNumber(),
+      fee: fee.toNumber(),
+      refundAmount: amountPaid.sub(fee).toNumber(),
+      freeUntil,
+    };
+  }
+
+  /**
+   * The buyer has left the pool even though their refund failed, so what
+   * they are owed is no longer the vendor's to be paid out
+   */
+  private async handleFailedRefund(subscription: Subscription, amount: number) {
+    this.logger.error(
+      `Refund of ₦${amount} failed for cancelled subscription ${subscription.id}`,
+    );
+
+    try {
+      await this.escrowService.deductContribution(
+        subscription.poolId,
+        subscription.userId,
+        amount,
+        undefined,
+        subscription.variantId,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to take ₦${amount} for subscription ${subscription.id} out of escrow`,
+        error,
+      );
+    }
+
+    try {
+      await this.notificationsService.notifyAdmins(
+        'Cancellation refund failed',
+        `A buyer cancelled ${subscription.slots} slot(s) in pool ${subscription.poolId} but their ₦${amount.toLocaleString()} refund failed. The amount has been taken out of escrow; refund the buyer manually.`,
+        {
+          poolId: subscription.poolId,
+          subscriptionId: subscription.id,
+          userId: subscription.userId,
+          amount,
+        },
+      );
+    } catch (error) {
+      this.logger.error('Failed to alert admins about a failed refund', error);
+    }
+  }
+
+  private async notify(
+    userId: string,
+    poolId: string,
+    title: string,
+    message: string,
+  ) {
+    try {
+      await this.notificationsService.sendNotification(
+        userId,
+        NotificationType.POOL_UPDATE,
+        [NotificationMedium.IN_APP, NotificationMedium.EMAIL],
+        { title, message, poolId },
+      );
+    } catch (error) {
+      this.logger.error('Failed to send cancellation notification', error);
+    }
+  }
+}
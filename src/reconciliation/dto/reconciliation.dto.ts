@@ -0,0 +1,59 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ReconciliationIssue,
+  ReconciliationItemKind,
+  ReconciliationItemStatus,
+} from '@prisma/client';
+
+export class RunReconciliationDto {
+  @ApiProperty({ example: '2026-06-01T00:00:00Z' })
+  @IsDate()
+  @Type(() => Date)
+  from: Date;
+
+  @ApiProperty({ example: '2026-06-08T00:00:00Z' })
+  @IsDate()
+  @Type(() => Date)
+  to: Date;
+}
+
+export class ListReconciliationItemsQueryDto {
+  @ApiPropertyOptional({ enum: ReconciliationItemStatus })
+  @IsEnum(ReconciliationItemStatus)
+  @IsOptional()
+  status?: ReconciliationItemStatus;
+
+  @ApiPropertyOptional({ enum: ReconciliationIssue })
+  @IsEnum(ReconciliationIssue)
+  @IsOptional()
+  issue?: ReconciliationIssue;
+
+  @ApiPropertyOptional({ enum: ReconciliationItemKind })
+  @IsEnum(ReconciliationItemKind)
+  @IsOptional()
+  kind?: ReconciliationItemKind;
+}
+
+export class ResolveReconciliationItemDto {
+  @ApiProperty({
+    enum: [ReconciliationItemStatus.RESOLVED, ReconciliationItemStatus.IGNORED],
+  })
+  @IsIn([ReconciliationItemStatus.RESOLVED, ReconciliationItemStatus.IGNORED])
+  status: ReconciliationItemStatus;
+
+  @ApiProperty({ example: 'Buyer refunded manually from the dashboard' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  note: string;
+}
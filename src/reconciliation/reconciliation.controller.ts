@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Role } from '../constant';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { ReconciliationService } from './reconciliation.service';
+import {
+  ListReconciliationItemsQueryDto,
+  ResolveReconciliationItemDto,
+  RunReconciliationDto,
+} from './dto/reconciliation.dto';
+
+@ApiTags('Reconciliation')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('reconciliation')
+export class ReconciliationController {
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  @Post('runs')
+  @ApiOperation({ summary: 'Admin: Reconcile Paystack for a date range' })
+  run(@Req() req: AuthenticatedRequest, @Body() dto: RunReconciliationDto) {
+    return this.reconciliationService.run(dto.from, dto.to, req.user.userId);
+  }
+
+  @Get('runs')
+  @ApiOperation({ summary: 'Admin: Recent reconciliation runs' })
+  getRuns() {
+    return this.reconciliationService.getRuns();
+  }
+
+  @Get('runs/:id')
+  @ApiOperation({ summary: 'Admin: A reconciliation run and its items' })
+  getRun(@Param('id') id: string) {
+    return this.reconciliationService.getRun(id);
+  }
+
+  @Get('items')
+  @ApiOperation({ summary: 'Admin: List reconciliation items' })
+  getItems(@Query() query: ListReconciliationItemsQueryDto) {
+    return this.reconciliationService.getItems(query);
+  }
+
+  @Patch('items/:id')
+  @ApiOperation({ summary: 'Admin: Resolve or ignore a reconciliation item' })
+  resolveItem(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() dto: ResolveReconciliationItemDto,
+  ) {
+    return this.reconciliationService.resolveItem(
+      id,
+      req.user.userId,
+      dto.status,
+      dto.note,
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { ConfigModule } from '@nestjs/config';
+import { ReconciliationController } from './reconciliation.controller';
+import { ReconciliationService } from './reconciliation.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { PaystackService } from '../services/paystack.service';
+
+@Module({
+  imports: [PrismaModule, HttpModule, ConfigModule],
+  controllers: [ReconciliationController],
+  providers: [ReconciliationService, PaystackService],
+  exports: [ReconciliationService],
+})
+export class ReconciliationModule {}
@@ -0,0 +1,223 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReconciliationService } from './reconciliation.service';
+import { PrismaService } from '../services/prisma.service';
+import { PaystackService } from '../services/paystack.service';
+import {
+  PaymentStatus,
+  Prisma,
+  ReconciliationIssue,
+  ReconciliationItemKind,
+  ReconciliationItemStatus,
+} from '@prisma/client';
+
+describe('ReconciliationService', () => {
+  let service: ReconciliationService;
+
+  const mockPrismaService = {
+    reconciliationRun: {
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    reconciliationItem: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+    subscription: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    pendingSubscription: {
+      findUnique: jest.fn(),
+    },
+    transaction: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    escrowEntry: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    journalEntry: {
+      findUnique: jest.fn(),
+    },
+    refund: {
+      findFirst: jest.fn(),
+    },
+  };
+
+  const mockPaystackService = {
+    listTransactions: jest.fn(),
+    listTransfers: jest.fn(),
+    verify: jest.fn(),
+    verifyTransfer: jest.fn(),
+  };
+
+  const from = new Date('2026-06-01T00:00:00Z');
+  const to = new Date('2026-06-03T00:00:00Z');
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.reconciliationRun.create.mockResolvedValue({
+      id: 'run-1',
+    });
+    mockPrismaService.subscription.findMany.mockResolvedValue([]);
+    mockPrismaService.transaction.findMany.mockResolvedValue([]);
+    mockPrismaService.escrowEntry.findMany.mockResolvedValue([]);
+    mockPaystackService.listTransactions.mockResolvedValue({
+      records: [],
+      pageCount: 1,
+    });
+    mockPaystackService.listTransfers.mockResolvedValue({
+      records: [],
+      pageCount: 1,
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReconciliationService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: PaystackService, useValue: mockPaystackService },
+      ],
+    }).compile();
+
+    service = module.get<ReconciliationService>(ReconciliationService);
+  });
+
+  it('should report a paid charge with no subscription as an orphan', async () => {
+    mockPaystackService.listTransactions.mockResolvedValue({
+      records: [
+        {
+          reference: 'ref-1',
+          amount: 10200,
+          status: 'success',
+          createdAt: from,
+          metadata: { pendingId: 'pending-1', userId: 'buyer-1' },
+        },
+      ],
+      pageCount: 1,
+    });
+    mockPrismaService.pendingSubscription.findUnique.mockResolvedValue({
+      id: 'pending-1',
+      status: PaymentStatus.FAILED,
+    });
+
+    await service.run(from, to);
+
+    const [{ data }] = mockPrismaService.reconciliationItem.create.mock
+      .calls[0] as [Prisma.ReconciliationItemCreateArgs];
+    expect(data).toMatchObject({
+      runId: 'run-1',
+      kind: ReconciliationItemKind.CHARGE,
+      issue: ReconciliationIssue.MISSING_LOCALLY,
+      reference: 'ref-1',
+      localStatus: PaymentStatus.FAILED,
+    });
+  });
+
+  it('should flag a transfer paid out while escrow is still processing', async () => {
+    mockPaystackService.listTransfers.mockResolvedValue({
+      records: [
+        {
+          reference: 'ESC_pool-1_1',
+          amount: 95000,
+          status: 'success',
+          createdAt: from,
+          transferCode: 'TRF_1',
+        },
+      ],
+      pageCount: 1,
+    });
+    mockPrismaService.escrowEntry.findFirst.mockResolvedValue({
+      id: 'escrow-1',
+      poolId: 'pool-1',
+      status: 'PROCESSING',
+    });
+
+    await service.run(from, to);
+
+    const [{ data }] = mockPrismaService.reconciliationItem.create.mock
+      .calls[0] as [Prisma.ReconciliationItemCreateArgs];
+    expect(data).toMatchObject({
+      kind: ReconciliationItemKind.TRANSFER,
+      issue: ReconciliationIssue.STATUS_DRIFT,
+      reference: 'ESC_pool-1_1',
+      localStatus: 'PROCESSING',
+    });
+  });
+
+  it('should compare charges with the amount posted to the ledger', async () => {
+    mockPaystackService.listTransactions.mockResolvedValue({
+      records: [
+        {
+          reference: 'ref-1',
+          amount: 9000,
+          status: 'success',
+          createdAt: from,
+        },
+      ],
+      pageCount: 1,
+    });
+    mockPrismaService.subscription.findFirst.mockResolvedValue({
+      id: 'sub-1',
+      userId: 'buyer-1',
+    });
+    mockPrismaService.journalEntry.findUnique.mockResolvedValue({
+      lines: [{ debit: new Prisma.Decimal(10200) }],
+    });
+    // Already reported by an earlier run
+    mockPrismaService.reconciliationItem.findFirst.mockResolvedValue({
+      id: 'item-1',
+      status: ReconciliationItemStatus.OPEN,
+    });
+
+    await service.run(from, to);
+
+    const [{ where }] = mockPrismaService.reconciliationItem.findFirst.mock
+      .calls[0] as [Prisma.ReconciliationItemFindFirstArgs];
+    expect(where).toMatchObject({
+      issue: ReconciliationIssue.AMOUNT_MISMATCH,
+      reference: 'ref-1',
+    });
+    expect(mockPrismaService.reconciliationItem.create).not.toHaveBeenCalled();
+    const [runUpdate] = mockPrismaService.reconciliationRun.update.mock
+      .lastCall as [Prisma.ReconciliationRunUpdateArgs];
+    expect(runUpdate).toMatchObject({
+      where: { id: 'run-1' },
+      data: { chargesChecked: 1, issuesFound: 0 },
+    });
+  });
+
+  it('should not amount-check charges from before the ledger', async () => {
+    mockPaystackService.listTransactions.mockResolvedValue({
+      records: [
+        {
+          reference: 'ref-1',
+          amount: 10200,
+          status: 'success',
+          createdAt: from,
+        },
+      ],
+      pageCount: 1,
+    });
+    mockPrismaService.subscription.findFirst.mockResolvedValue({
+      id: 'sub-1',
+      userId: 'buyer-1',
+    });
+    // Escrowed amount only; the platform fee was never recorded
+    mockPrismaService.transaction.findFirst.mockResolvedValue({
+      id: 'txn-1',
+      amount: new Prisma.Decimal(10000),
+    });
+    mockPrismaService.journalEntry.findUnique.mockResolvedValue(null);
+
+    await service.run(from, to);
+
+    expect(mockPrismaService.reconciliationItem.create).not.toHaveBeenCalled();
+    const [runUpdate] = mockPrismaService.reconciliationRun.update.mock
+      .lastCall as [Prisma.ReconciliationRunUpdateArgs];
+    expect(runUpdate).toMatchObject({
+      where: { id: 'run-1' },
+      data: { chargesChecked: 1, issuesFound: 0 },
+    });
+  });
+});
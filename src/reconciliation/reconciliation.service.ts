@@ -0,0 +1,635 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { PrismaService } from '../services/prisma.service';
+import {
+  PaystackPage,
+  PaystackRawRecord,
+  PaystackRecord,
+  PaystackService,
+} from '../services/paystack.service';
+import {
+  JournalEntryType,
+  LedgerAccount,
+  PaymentGateway,
+  PaymentStatus,
+  Prisma,
+  ReconciliationIssue,
+  ReconciliationItemKind,
+  ReconciliationItemStatus,
+  ReconciliationRunStatus,
+  RefundStatus,
+  TransactionType,
+} from '@prisma/client';
+import Decimal from 'decimal.js';
+
+// Paystack statuses that will not change any more
+const SETTLED = 'success';
+const UNSETTLED = ['failed', 'abandoned', 'reversed'];
+
+const MAX_PAGES = 50; // 5,000 records per kind and run
+const MAX_RANGE_DAYS = 31;
+const SCHEDULED_WINDOW_DAYS = 2; // Overlaps so late webhooks are rechecked
+
+// What payouts keep in an ESCROW_RELEASE transaction's metadata
+interface ReleaseMetadata {
+  transferReference?: string;
+  isSimulated?: boolean;
+}
+
+export interface ReconciliationFinding {
+  kind: ReconciliationItemKind;
+  issue: ReconciliationIssue;
+  reference: string;
+  gatewayAmount?: number | null;
+  localAmount?: number | null;
+  gatewayStatus?: string | null;
+  localStatus?: string | null;
+  details?: Record<string, string | number | boolean | null | undefined>;
+}
+
+/**
+ * ReconciliationService matches what Paystack processed against our records.
+ *
+ * RECONCILIATION FLOW:
+ * 1. Charges and transfers created in the date range are pulled from
+ *    Paystack
+ * 2. Charges are matched on Subscription.paymentRef, the checkout's
+ *    PendingSubscription.paystackRef and Transaction.externalTxnId;
+ *    transfers on EscrowEntry.transferReference and the ESCROW_RELEASE
+ *    transaction. Expected amounts come from the ledger where posted;
+ *    pre-ledger charges are not amount-checked.
+ * 3. Our own records missing from the gateway's list are verified one by
+ *    one, so range edges do not show up as orphans
+ * 4. Orphans, amount mismatches and status drift are saved as items on the
+ *    run for an admin to resolve or ignore. An item still open or ignored
+ *    from an earlier run is not reported again.
+ */
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private paystackService: PaystackService,
+  ) {}
+
+  /**
+   * Run daily at 4 AM - reconcile the last two days with Paystack
+   */
+  @Cron('0 4 * * *')
+  async handleDailyReconciliation() {
+    try {
+      const run = await this.reconcileRecent();
+      if (run.issuesFound > 0) {
+        this.logger.warn(
+          `Reconciliation ${run.id} found ${run.issuesFound} new issues`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Gateway reconciliation failed:', error);
+    }
+  }
+
+  /**
+   * Reconcile the last few days (scheduled daily)
+   */
+  async reconcileRecent() {
+    const to = new Date();
+    to.setHours(0, 0, 0, 0);
+    const from = new Date(
+      to.getTime() - SCHEDULED_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    return this.run(from, to);
+  }
+
+  async run(from: Date, to: Date, triggeredBy?: string) {
+    if (from >= to) {
+      throw new BadRequestException('The range must end after it starts');
+    }
+
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      throw new BadRequestException(
+        `Reconcile at most ${MAX_RANGE_DAYS} days at a time`,
+      );
+    }
+
+    const run = await this.prisma.reconciliationRun.create({
+      data: { from, to, triggeredBy },
+    });
+
+    try {
+      const charges = await this.fetchAll((page) =>
+        this.paystackService.listTransactions(from, to, page),
+      );
+      const transfers = await this.fetchAll((page) =>
+        this.paystackService.listTransfers(from, to, page),
+      );
+
+      const findings = [
+        ...(await this.checkCharges(charges, from, to)),
+        ...(await this.checkTransfers(transfers, from, to)),
+      ];
+      const issuesFound = await this.recordFindings(run.id, findings);
+
+      this.logger.log(
+        `Reconciliation ${run.id}: ${charges.length} charges, ${transfers.length} transfers, ${issuesFound} new issues`,
+      );
+
+      return this.prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: {
+          status: ReconciliationRunStatus.COMPLETED,
+          chargesChecked: charges.length,
+          transfersChecked: transfers.length,
+          issuesFound,
+          completedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Reconciliation ${run.id} failed:`, error);
+
+      await this.prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: {
+          status: ReconciliationRunStatus.FAILED,
+          error: (error as Error).message,
+          completedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+  }
+
+  // ============================================
+  // REVIEW
+  // ============================================
+
+  async getRuns() {
+    return this.prisma.reconciliationRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: 50,
+    });
+  }
+
+  async getRun(id: string) {
+    const run = await this.prisma.reconciliationRun.findUnique({
+      where: { id },
+      include: { items: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!run) throw new NotFoundException('Reconciliation run not found');
+
+    return run;
+  }
+
+  async getItems(filters: {
+    status?: ReconciliationItemStatus;
+    issue?: ReconciliationIssue;
+    kind?: ReconciliationItemKind;
+  }) {
+    return this.prisma.reconciliationItem.findMany({
+      where: {
+        ...(filters.status && { status: filters.status }),
+        ...(filters.issue && { issue: filters.issue }),
+        ...(filters.kind && { kind: filters.kind }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+  }
+
+  /**
+   * Close an item once the money is sorted out, or accept it as is
+   */
+  async resolveItem(
+    id: string,
+    adminId: string,
+    status: ReconciliationItemStatus,
+    note: string,
+  ) {
+    if (status === ReconciliationItemStatus.OPEN) {
+      throw new BadRequestException('Items can only be resolved or ignored');
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const closed = await tx.reconciliationItem.updateMany({
+        where: { id, status: ReconciliationItemStatus.OPEN },
+        data: {
+          status,
+          resolutionNote: note,
+          resolvedBy: adminId,
+          resolvedAt: new Date(),
+        },
+      });
+
+      if (closed.count === 0) {
+        const item = await tx.reconciliationItem.findUnique({ where: { id } });
+        if (!item) throw new NotFoundException('Reconciliation item not found');
+        throw new BadRequestException('This item has already been closed');
+      }
+
+      await tx.adminAuditLog.create({
+        data: {
+          adminId,
+          action: `reconciliation_${status.toLowerCase()}`,
+          targetType: 'reconciliation_item',
+          targetId: id,
+          details: { note },
+        },
+      });
+
+      return tx.reconciliationItem.findUnique({ where: { id } });
+    });
+  }
+
+  // ============================================
+  // MATCHING
+  // ============================================
+
+  private async checkCharges(charges: PaystackRecord[], from: Date, to: Date) {
+    const findings: ReconciliationFinding[] = [];
+
+    for (const charge of charges) {
+      const finding = await this.checkCharge(charge);
+      if (finding) findings.push(finding);
+    }
+
+    // Paid subscriptions the gateway did not list
+    const listed = new Set(charges.map((charge) => charge.reference));
+    const subscriptions = await this.prisma.subscription.findMany({
+      where: {
+        paymentMethod: PaymentGateway.PAYSTACK,
+        createdAt: { gte: from, lte: to },
+      },
+      select: { paymentRef: true },
+    });
+
+    for (const { paymentRef } of subscriptions) {
+      if (listed.has(paymentRef)) continue;
+
+      const charge = await this.verifyCharge(paymentRef);
+      if (!charge) {
+        findings.push({
+          kind: ReconciliationItemKind.CHARGE,
+          issue: ReconciliationIssue.MISSING_AT_GATEWAY,
+          reference: paymentRef,
+          localStatus: 'paid',
+        });
+        continue;
+      }
+
+      const finding = await this.checkCharge(charge);
+      if (finding) findings.push(finding);
+    }
+
+    return findings;
+  }
+
+  private async checkCharge(
+    charge: PaystackRecord,
+  ): Promise<ReconciliationFinding | null> {
+    const settled = charge.status === SETTLED;
+    if (!settled && !UNSETTLED.includes(charge.status)) return null; // Still in flight
+
+    const [subscription, pending, transaction, expected] = await Promise.all([
+      this.prisma.subscription.findFirst({
+        where: { paymentRef: charge.reference },
+      }),
+      this.prisma.pendingSubscription.findUnique({
+        where: { paystackRef: charge.reference },
+      }),
+      this.prisma.transaction.findFirst({
+        where: { externalTxnId: charge.reference },
+      }),
+      this.getPostedAmount(
+        JournalEntryType.PAYMENT,
+        charge.reference,
+        LedgerAccount.GATEWAY_CLEARING,
+        'debit',
+      ),
+    ]);
+
+    // Subscriptions that changed hands keep the original checkout
+    const paid =
+      !!subscription ||
+      !!transaction ||
+      expected !== null ||
+      pending?.status === PaymentStatus.SUCCESS;
+
+    const base = {
+      kind: ReconciliationItemKind.CHARGE,
+      reference: charge.reference,
+      gatewayAmount: charge.amount,
+      gatewayStatus: charge.status,
+      details: {
+        subscriptionId: subscription?.id,
+        pendingId: pending?.id ?? charge.metadata?.pendingId,
+        transactionId: transaction?.id,
+        transferId: charge.metadata?.transferId,
+        userId: subscription?.userId ?? charge.metadata?.userId,
+      },
+    };
+
+    if (settled && !paid) {
+      return {
+        ...base,
+        issue: ReconciliationIssue.MISSING_LOCALLY,
+        localStatus: pending?.status ?? null,
+      };
+    }
+
+    // Reversed charges we refunded ourselves are expected
+    if (!settled && paid && !(await this.isRefunded(charge.reference))) {
+      return {
+        ...base,
+        issue: ReconciliationIssue.STATUS_DRIFT,
+        localStatus: 'paid',
+      };
+    }
+
+    // Charges from before the ledger only kept the escrowed amount, not
+    // the platform fee the buyer also paid, so there is nothing to compare
+    if (settled && expected !== null && expected !== charge.amount) {
+      return {
+        ...base,
+        issue: ReconciliationIssue.AMOUNT_MISMATCH,
+        localAmount: expected,
+        localStatus: 'paid',
+      };
+    }
+
+    return null;
+  }
+
+  private async checkTransfers(
+    transfers: PaystackRecord[],
+    from: Date,
+    to: Date,
+  ) {
+    const findings: ReconciliationFinding[] = [];
+
+    for (const transfer of transfers) {
+      const finding = await this.checkTransfer(transfer);
+      if (finding) findings.push(finding);
+    }
+
+    // Releases we paid out, and escrows stuck mid-transfer, that the
+    // gateway did not list
+    const listed = new Set(transfers.map((transfer) => transfer.reference));
+    const releases = await this.prisma.transaction.findMany({
+      where: {
+        type: TransactionType.ESCROW_RELEASE,
+        externalTxnId: { not: null },
+        createdAt: { gte: from, lte: to },
+      },
+      select: { metadata: true },
+    });
+    const stuck = await this.prisma.escrowEntry.findMany({
+      where: { status: 'PROCESSING', transferReference: { not: null } },
+      select: { transferReference: true },
+    });
+
+    const references = new Set([
+      ...releases
+        .map((release) => release.metadata as ReleaseMetadata | null)
+        .filter((metadata) => !metadata?.isSimulated)
+        .map((metadata) => metadata?.transferReference),
+      ...stuck.map((escrow) => escrow.transferReference),
+    ]);
+
+    for (const reference of references) {
+      if (!reference || listed.has(reference)) continue;
+
+      const transfer = await this.verifyTransfer(reference);
+      if (!transfer) {
+        findings.push({
+          kind: ReconciliationItemKind.TRANSFER,
+          issue: ReconciliationIssue.MISSING_AT_GATEWAY,
+          reference,
+        });
+        continue;
+      }
+
+      const finding = await this.checkTransfer(transfer);
+      if (finding) findings.push(finding);
+    }
+
+    return findings;
+  }
+
+  private async checkTransfer(
+    transfer: PaystackRecord,
+  ): Promise<ReconciliationFinding | null> {
+    const settled = transfer.status === SETTLED;
+    if (!settled && !UNSETTLED.includes(transfer.status)) return null; // Still in flight
+
+    const [escrow, release, expected] = await Promise.all([
+      this.prisma.escrowEntry.findFirst({
+        where: { transferReference: transfer.reference },
+      }),
+      this.prisma.transaction.findFirst({
+        where: {
+          type: TransactionType.ESCROW_RELEASE,
+          OR: [
+            ...(transfer.transferCode
+              ? [{ externalTxnId: transfer.transferCode }]
+              : []),
+            {
+              metadata: {
+                path: ['transferReference'],
+                equals: transfer.reference,
+              },
+            },
+          ],
+        },
+      }),
+      this.getPostedAmount(
+        JournalEntryType.PAYOUT,
+        transfer.reference,
+        LedgerAccount.VENDOR_PAYABLE,
+        'debit',
+      ),
+    ]);
+
+    const base = {
+      kind: ReconciliationItemKind.TRANSFER,
+      reference: transfer.reference,
+      gatewayAmount: transfer.amount,
+      gatewayStatus: transfer.status,
+      localStatus: escrow?.status ?? (release ? 'RELEASED' : null),
+      details: {
+        escrowId: escrow?.id,
+        poolId: escrow?.poolId ?? release?.poolId,
+        transactionId: release?.id,
+        transferCode: transfer.transferCode,
+      },
+    };
+
+    if (settled && !escrow && !release) {
+      return { ...base, issue: ReconciliationIssue.MISSING_LOCALLY };
+    }
+
+    // Paid out at the gateway but not marked released here (the saga's
+    // "transfer succeeded but DB update failed" case), or the reverse
+    const releasedHere = escrow ? escrow.status === 'RELEASED' : !!release;
+    if (settled !== releasedHere) {
+      return { ...base, issue: ReconciliationIssue.STATUS_DRIFT };
+    }
+
+    const localAmount = expected ?? this.amountOf(release?.amount);
+    if (settled && localAmount !== null && localAmount !== transfer.amount) {
+      return {
+        ...base,
+        issue: ReconciliationIssue.AMOUNT_MISMATCH,
+        localAmount,
+      };
+    }
+
+    return null;
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private async fetchAll(fetchPage: (page: number) => Promise<PaystackPage>) {
+    const records: PaystackRecord[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const result = await fetchPage(page);
+      records.push(...result.records);
+      if (page >= result.pageCount) return records;
+    }
+
+    this.logger.warn(
+      `Stopped after ${MAX_PAGES} pages; narrow the range to check the rest`,
+    );
+    return records;
+  }
+
+  /**
+   * What the ledger recorded on one side of an account for a movement, or
+   * null for movements from before the ledger
+   */
+  private async getPostedAmount(
+    type: JournalEntryType,
+    reference: string,
+    account: LedgerAccount,
+    side: 'debit' | 'credit',
+  ): Promise<number | null> {
+    const entry = await this.prisma.journalEntry.findUnique({
+      where: { type_reference: { type, reference } },
+      include: { lines: { where: { account } } },
+    });
+    if (!entry) return null;
+
+    return entry.lines
+      .reduce((sum, line) => sum.add(line[side].toString()), new Decimal(0))
+      .toNumber();
+  }
+
+  private async verifyCharge(
+    reference: string,
+  ): Promise<PaystackRecord | null> {
+    try {
+      const res = (await this.paystackService.verify(
+        reference,
+      )) as PaystackRawRecord;
+
+      return {
+        reference,
+        amount: Number(res.amount) / 100, // Kobo
+        status: res.status,
+        createdAt: new Date(res.created_at ?? res.createdAt),
+        metadata: res.metadata,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Charge ${reference} not found at Paystack: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  private async verifyTransfer(
+    reference: string,
+  ): Promise<PaystackRecord | null> {
+    try {
+      const res = await this.paystackService.verifyTransfer(reference);
+
+      return {
+        reference,
+        amount: res.amount,
+        status: res.status,
+        createdAt: new Date(),
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Transfer ${reference} not found at Paystack: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Save new findings on the run. Returns how many were new.
+   */
+  private async recordFindings(
+    runId: string,
+    findings: ReconciliationFinding[],
+  ) {
+    let created = 0;
+
+    for (const finding of findings) {
+      const known = await this.prisma.reconciliationItem.findFirst({
+        where: {
+          kind: finding.kind,
+          issue: finding.issue,
+          reference: finding.reference,
+          status: {
+            in: [
+              ReconciliationItemStatus.OPEN,
+              ReconciliationItemStatus.IGNORED,
+            ],
+          },
+        },
+      });
+      if (known) continue;
+
+      await this.prisma.reconciliationItem.create({
+        data: {
+          runId,
+          kind: finding.kind,
+          issue: finding.issue,
+          reference: finding.reference,
+          gatewayAmount: finding.gatewayAmount,
+          localAmount: finding.localAmount,
+          gatewayStatus: finding.gatewayStatus,
+          localStatus: finding.localStatus,
+          details: finding.details as Prisma.InputJsonObject,
+        },
+      });
+      created++;
+    }
+
+    return created;
+  }
+
+  private async isRefunded(paymentRef: string) {
+    const refund = await this.prisma.refund.findFirst({
+      where: { paymentRef, status: { not: RefundStatus.FAILED } },
+    });
+
+    return !!refund;
+  }
+
+  private amountOf(value?: Prisma.Decimal | null) {
+    return value === undefined || value === null ? null : Number(value);
+  }
+}
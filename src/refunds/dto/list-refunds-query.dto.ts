@@ -0,0 +1,10 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { RefundStatus } from '@prisma/client';
+
+export class ListRefundsQueryDto {
+  @ApiPropertyOptional({ enum: RefundStatus })
+  @IsEnum(RefundStatus)
+  @IsOptional()
+  status?: RefundStatus;
+}
@@ -0,0 +1,30 @@
+import { Controller, Get, Query, Req, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Role } from '../constant';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { RefundsService } from './refunds.service';
+import { ListRefundsQueryDto } from './dto/list-refunds-query.dto';
+
+@ApiTags('Refunds')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('refunds')
+export class RefundsController {
+  constructor(private readonly refundsService: RefundsService) {}
+
+  @Get('my')
+  @ApiOperation({ summary: 'Get my refunds and their status' })
+  getMyRefunds(@Req() req: AuthenticatedRequest) {
+    return this.refundsService.getUserRefunds(req.user.userId);
+  }
+
+  @Get()
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Admin: List refunds, optionally by status' })
+  getRefunds(@Query() query: ListRefundsQueryDto) {
+    return this.refundsService.getRefunds(query.status);
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { ConfigModule } from '@nestjs/config';
+import { RefundsController } from './refunds.controller';
+import { RefundsService } from './refunds.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { PaystackService } from '../services/paystack.service';
+import { StripeService } from '../services/stripe.service';
+import { FxModule } from '../fx/fx.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { LedgerModule } from '../ledger/ledger.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    HttpModule,
+    ConfigModule,
+    WalletModule,
+    LedgerModule,
+    FxModule,
+  ],
+  controllers: [RefundsController],
+  providers: [RefundsService, PaystackService, StripeService],
+  exports: [RefundsService],
+})
+export class RefundsModule {}
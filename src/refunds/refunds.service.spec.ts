@@ -0,0 +1,402 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { RefundsService } from './refunds.service';
+import { PrismaService } from '../services/prisma.service';
+import { PaystackService } from '../services/paystack.service';
+import { StripeService } from '../services/stripe.service';
+import { WalletService } from '../wallet/wallet.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { FxService } from '../fx/fx.service';
+import Stripe from 'stripe';
+import {
+  PaymentGateway,
+  Prisma,
+  RefundDestination,
+  RefundStatus,
+  SlotStatus,
+  Subscription,
+  SubscriptionStatus,
+  TransactionStatus,
+  WalletEntrySource,
+} from '@prisma/client';
+
+describe('RefundsService', () => {
+  let service: RefundsService;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    transaction: {
+      aggregate: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    pendingSubscription: {
+      findUnique: jest.fn(),
+    },
+    slotTransfer: {
+      findUnique: jest.fn(),
+    },
+    subscription: {
+      findUnique: jest.fn(),
+    },
+    escrowEntry: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    poolSlot: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    refund: {
+      aggregate: jest.fn(),
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const mockPaystackService = {
+    refundTransaction: jest.fn(),
+  };
+
+  const mockStripeService = {
+    refundSession: jest.fn(),
+  };
+
+  const mockWalletService = {
+    prefersWalletRefunds: jest.fn(),
+    credit: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    recordGatewayRefund: jest.fn(),
+    recordRefundSettled: jest.fn(),
+    recordRefundFailed: jest.fn(),
+  };
+
+  const mockFxService = {
+    convert: jest.fn(),
+    toNgn: jest.fn(),
+  };
+
+  const subscription = {
+    id: 'sub-1',
+    userId: 'buyer-1',
+    poolId: 'pool-1',
+    paymentRef: 'ref-1',
+    paymentMethod: PaymentGateway.PAYSTACK,
+    amountPaid: new Prisma.Decimal(10000),
+    walletAmount: new Prisma.Decimal(0),
+  } as Subscription;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (fn: (tx: typeof mockPrismaService) => unknown) => fn(mockPrismaService),
+    );
+    mockWalletService.prefersWalletRefunds.mockResolvedValue(false);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefundsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: PaystackService, useValue: mockPaystackService },
+        { provide: StripeService, useValue: mockStripeService },
+        { provide: WalletService, useValue: mockWalletService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: FxService, useValue: mockFxService },
+      ],
+    }).compile();
+
+    service = module.get<RefundsService>(RefundsService);
+  });
+
+  it('should send partial refunds to the gateway and settle them', async () => {
+    mockPrismaService.transaction.aggregate.mockResolvedValue({
+      _sum: { amount: 2000 },
+    });
+    mockPaystackService.refundTransaction.mockResolvedValue({
+      refundId: '123',
+      status: 'pending',
+    });
+    mockPrismaService.transaction.create.mockResolvedValue({ id: 'txn-1' });
+    mockPrismaService.refund.create.mockResolvedValue({
+      id: 'refund-1',
+      status: RefundStatus.PENDING,
+    });
+    const settle = jest.fn();
+
+    await service.refund({
+      subscription,
+      amount: 3000,
+      reason: 'Short delivery',
+      settle,
+    });
+
+    expect(mockPaystackService.refundTransaction).toHaveBeenCalledWith(
+      'ref-1',
+      3000,
+    );
+    const [{ data }] = mockPrismaService.refund.create.mock.calls[0] as [
+      Prisma.RefundCreateArgs,
+    ];
+    expect(data).toMatchObject({
+      amount: 3000,
+      status: RefundStatus.PENDING,
+      gatewayRefundId: '123',
+      settled: true,
+      transactionId: 'txn-1',
+    });
+    expect(settle).toHaveBeenCalledWith(mockPrismaService, 3000);
+  });
+
+  it('should return store credit spent at checkout to the wallet', async () => {
+    mockPrismaService.transaction.aggregate.mockResolvedValue({
+      _sum: { amount: null },
+    });
+    mockPrismaService.refund.aggregate.mockResolvedValue({
+      _sum: { walletFunded: null },
+    });
+    mockPaystackService.refundTransaction.mockResolvedValue({
+      refundId: '123',
+      status: 'pending',
+    });
+    mockPrismaService.transaction.create.mockResolvedValue({ id: 'txn-1' });
+    mockPrismaService.refund.create
+      .mockResolvedValueOnce({ id: 'refund-1', status: RefundStatus.PENDING })
+      .mockResolvedValueOnce({
+        id: 'refund-2',
+        status: RefundStatus.PROCESSED,
+      });
+
+    await service.refund({
+      subscription: { ...subscription, walletAmount: new Prisma.Decimal(4000) },
+      reason: 'Pool cancelled',
+    });
+
+    // Only the card part goes through the gateway, as a full refund
+    expect(mockPaystackService.refundTransaction).toHaveBeenCalledWith(
+      'ref-1',
+      undefined,
+    );
+    const [{ data }] = mockPrismaService.refund.create.mock.lastCall as [
+      Prisma.RefundCreateArgs,
+    ];
+    expect(data).toMatchObject({
+      amount: 4000,
+      walletFunded: 4000,
+      destination: RefundDestination.WALLET,
+    });
+    expect(mockWalletService.credit).toHaveBeenCalledWith(
+      'buyer-1',
+      4000,
+      WalletEntrySource.REFUND,
+      expect.objectContaining({ reference: 'refund-2' }),
+      mockPrismaService,
+    );
+  });
+
+  it('should convert partial Stripe refunds of slot transfers at the transfer rate', async () => {
+    mockPrismaService.transaction.aggregate.mockResolvedValue({
+      _sum: { amount: null },
+    });
+    // Bought from another buyer, so there is no checkout for the session
+    mockPrismaService.pendingSubscription.findUnique.mockResolvedValue(null);
+    mockPrismaService.slotTransfer.findUnique.mockResolvedValue({
+      fxRate: 0.0005,
+    });
+    mockFxService.convert.mockReturnValue(1.5);
+    mockStripeService.refundSession.mockResolvedValue({
+      id: 're_1',
+      status: 'pending',
+    });
+    mockPrismaService.transaction.create.mockResolvedValue({ id: 'txn-1' });
+    mockPrismaService.refund.create.mockResolvedValue({
+      id: 'refund-1',
+      status: RefundStatus.PENDING,
+    });
+
+    await service.refund({
+      subscription: {
+        ...subscription,
+        paymentMethod: PaymentGateway.STRIPE,
+        paymentRef: 'cs_1',
+      },
+      amount: 3000,
+      reason: 'Short delivery',
+    });
+
+    expect(mockPrismaService.slotTransfer.findUnique).toHaveBeenCalledWith({
+      where: { paymentRef: 'cs_1' },
+      select: { fxRate: true },
+    });
+    expect(mockFxService.convert).toHaveBeenCalledWith(3000, 0.0005);
+    expect(mockStripeService.refundSession).toHaveBeenCalledWith('cs_1', 1.5);
+  });
+
+  it('should not refund more than is left on the charge', async () => {
+    mockPrismaService.transaction.aggregate.mockResolvedValue({
+      _sum: { amount: 8000 },
+    });
+
+    await expect(
+      service.refund({ subscription, amount: 3000, reason: 'Too much' }),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockPaystackService.refundTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should record the amount the gateway actually refunded', async () => {
+    const pending = {
+      id: 'refund-1',
+      transactionId: 'txn-1',
+      subscriptionId: 'sub-1',
+      amount: 3000,
+      status: RefundStatus.PENDING,
+    };
+    mockPrismaService.refund.findUnique.mockResolvedValue(pending);
+    mockPrismaService.transaction.update.mockResolvedValue({
+      id: 'txn-1',
+      poolId: 'pool-1',
+    });
+
+    await service.handlePaystackRefundEvent({
+      id: 123,
+      status: 'processed',
+      amount: 250000,
+    });
+
+    expect(mockPrismaService.transaction.update).toHaveBeenCalledWith({
+      where: { id: 'txn-1' },
+      data: { amount: 2500, status: TransactionStatus.SUCCESS },
+    });
+    const [update] = mockPrismaService.refund.update.mock.calls[0] as [
+      Prisma.RefundUpdateArgs,
+    ];
+    expect(update).toMatchObject({
+      where: { id: 'refund-1' },
+      data: { status: RefundStatus.PROCESSED, amount: 2500 },
+    });
+    // The 500 the gateway kept back stays in escrow
+    expect(mockLedgerService.recordRefundSettled).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'refund-1', amount: 3000 }),
+      2500,
+      mockPrismaService,
+    );
+  });
+
+  it('should record Stripe refunds back in NGN at the charge rate', async () => {
+    const pending = {
+      id: 'refund-1',
+      transactionId: 'txn-1',
+      subscriptionId: 'sub-1',
+      paymentRef: 'cs_1',
+      amount: 3000,
+      status: RefundStatus.PENDING,
+    };
+    mockPrismaService.refund.findUnique.mockResolvedValue(pending);
+    mockPrismaService.pendingSubscription.findUnique.mockResolvedValue({
+      fxRate: 0.0005,
+    });
+    mockFxService.convert.mockReturnValue(1.5);
+    mockFxService.toNgn.mockReturnValue(2000);
+    mockPrismaService.transaction.update.mockResolvedValue({
+      id: 'txn-1',
+      poolId: 'pool-1',
+    });
+
+    await service.handleStripeRefundEvent({
+      id: 're_1',
+      status: 'succeeded',
+      amount: 100,
+      currency: 'usd',
+    } as Stripe.Refund);
+
+    expect(mockFxService.toNgn).toHaveBeenCalledWith(1, 0.0005);
+    const [update] = mockPrismaService.refund.update.mock.calls[0] as [
+      Prisma.RefundUpdateArgs,
+    ];
+    expect(update).toMatchObject({
+      where: { id: 'refund-1' },
+      data: { status: RefundStatus.PROCESSED, amount: 2000 },
+    });
+  });
+
+  it('should put back what a refund settled when the gateway fails it', async () => {
+    mockPrismaService.refund.findUnique.mockResolvedValue({
+      id: 'refund-1',
+      transactionId: 'txn-1',
+      subscriptionId: 'sub-1',
+      userId: 'buyer-1',
+      amount: 10000,
+      status: RefundStatus.PENDING,
+      settled: true,
+    });
+    mockPrismaService.transaction.update.mockResolvedValue({
+      id: 'txn-1',
+      poolId: 'pool-1',
+    });
+    mockPrismaService.subscription.findUnique.mockResolvedValue({
+      ...subscription,
+      slots: 2,
+      variantId: null,
+      status: SubscriptionStatus.ACTIVE,
+    });
+    mockPrismaService.escrowEntry.findFirst.mockResolvedValue({
+      id: 'escrow-1',
+      computations: { contributions: { 'buyer-1': 0, 'buyer-2': 5000 } },
+    });
+    mockPrismaService.poolSlot.findFirst.mockResolvedValue({ id: 'slot-1' });
+
+    await service.handlePaystackRefundEvent({ id: 123, status: 'failed' });
+
+    expect(mockLedgerService.recordRefundFailed).toHaveBeenCalled();
+    expect(mockPrismaService.escrowEntry.update).toHaveBeenCalledWith({
+      where: { id: 'escrow-1' },
+      data: {
+        totalHeld: { increment: 10000 },
+        computations: {
+          contributions: { 'buyer-1': 10000, 'buyer-2': 5000 },
+        },
+      },
+    });
+    const [slotQuery] = mockPrismaService.poolSlot.findFirst.mock.calls[0] as [
+      Prisma.PoolSlotFindFirstArgs,
+    ];
+    expect(slotQuery.where).toMatchObject({
+      buyerId: 'buyer-1',
+      status: SlotStatus.REFUNDED,
+    });
+    expect(mockPrismaService.poolSlot.update).toHaveBeenCalledWith({
+      where: { id: 'slot-1' },
+      data: { status: SlotStatus.PAID },
+    });
+    const [update] = mockPrismaService.refund.update.mock.calls[0] as [
+      Prisma.RefundUpdateArgs,
+    ];
+    expect(update).toMatchObject({
+      where: { id: 'refund-1' },
+      data: { status: RefundStatus.FAILED, settled: false },
+    });
+  });
+
+  it('should leave escrow alone when a failed refund settled nothing', async () => {
+    mockPrismaService.refund.findUnique.mockResolvedValue({
+      id: 'refund-1',
+      transactionId: 'txn-1',
+      subscriptionId: 'sub-1',
+      amount: 10000,
+      status: RefundStatus.PENDING,
+      settled: false,
+    });
+    mockPrismaService.transaction.update.mockResolvedValue({
+      id: 'txn-1',
+      poolId: 'pool-1',
+    });
+
+    await service.handlePaystackRefundEvent({ id: 123, status: 'failed' });
+
+    expect(mockPrismaService.escrowEntry.update).not.toHaveBeenCalled();
+    expect(mockPrismaService.poolSlot.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,675 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import {
+  PaystackEventData,
+  PaystackService,
+} from '../services/paystack.service';
+import { StripeService } from '../services/stripe.service';
+import { WalletService } from '../wallet/wallet.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { FxService } from '../fx/fx.service';
+import {
+  Currency,
+  PaymentGateway,
+  Prisma,
+  Refund,
+  RefundDestination,
+  RefundStatus,
+  SlotStatus,
+  Subscription,
+  SubscriptionStatus,
+  TransactionStatus,
+  TransactionType,
+  WalletEntrySource,
+} from '@prisma/client';
+import Decimal from 'decimal.js';
+import Stripe from 'stripe';
+
+// Gateway refund statuses that are final
+const PAYSTACK_STATUSES: Record<string, RefundStatus> = {
+  processed: RefundStatus.PROCESSED,
+  failed: RefundStatus.FAILED,
+};
+const STRIPE_STATUSES: Record<string, RefundStatus> = {
+  succeeded: RefundStatus.PROCESSED,
+  failed: RefundStatus.FAILED,
+  canceled: RefundStatus.FAILED,
+};
+
+// Per-buyer (and per-variant) amounts EscrowEntry.computations holds
+export interface EscrowComputations {
+  contributions?: Record<string, number>;
+  variantContributions?: Record<string, number>;
+}
+
+export interface RefundRequest {
+  subscription: Subscription;
+  amount?: number; // Everything still refundable when omitted
+  reason: string;
+  // Defaults to the buyer's wallet setting
+  destination?: RefundDestination;
+  metadata?: Record<string, string | number | boolean | null | undefined>;
+  // Runs in the same transaction as the refund record once the gateway
+  // has accepted the refund (slot statuses, escrow contributions). Undone
+  // if the gateway fails the refund later.
+  settle?: (tx: Prisma.TransactionClient, amount: number) => Promise<void>;
+}
+
+/**
+ * RefundsService returns money to buyers through the gateway they paid with
+ * or as store credit.
+ *
+ * REFUND FLOW:
+ * 1. A refund is checked against what is still refundable on the charge
+ *    (amount paid minus earlier refunds and credits), so partial refunds
+ *    can never add up to more than the buyer paid
+ * 2. The Paystack or Stripe refund API is called for Subscription.paymentRef,
+ *    or the buyer's wallet is credited. Store credit spent at checkout is
+ *    always returned to the wallet
+ * 3. A Refund and a REFUND transaction are recorded. Accepted refunds are
+ *    settled by the caller in the same database transaction
+ * 4. Refund webhooks move the Refund to PROCESSED (correcting the amount
+ *    to what the gateway returned) or FAILED, which frees the amount to be
+ *    refunded again and puts back the slot and escrow contribution it
+ *    settled
+ *
+ * Gateway refunds sit in refunds payable on the ledger until the gateway
+ * settles or fails them.
+ */
+@Injectable()
+export class RefundsService {
+  private readonly logger = new Logger(RefundsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private paystackService: PaystackService,
+    private stripeService: StripeService,
+    private walletService: WalletService,
+    private ledgerService: LedgerService,
+    private fxService: FxService,
+  ) {}
+
+  /**
+   * What can still be refunded on a subscription's charge. Refunds are
+   * counted per charge: a subscription that changed hands has a new one.
+   */
+  async getRefundableAmount(
+    subscription: Subscription,
+    tx?: Prisma.TransactionClient,
+  ): Promise<number> {
+    const prisma = tx || this.prisma;
+
+    const refunded = await prisma.transaction.aggregate({
+      where: {
+        type: TransactionType.REFUND,
+        status: TransactionStatus.SUCCESS,
+        metadata: { path: ['paymentRef'], equals: subscription.paymentRef },
+      },
+      _sum: { amount: true },
+    });
+
+    return Decimal.max(
+      0,
+      new Decimal(subscription.amountPaid.toString()).sub(
+        (refunded._sum.amount ?? 0).toString(),
+      ),
+    ).toNumber();
+  }
+
+  /**
+   * Refund a subscription's charge. Store credit spent on the charge goes
+   * back to the wallet; the rest goes to the original payment method, or
+   * to the wallet when asked (per request or by the buyer's setting).
+   * Gateway errors do not throw: the refund is recorded as FAILED for admin
+   * follow-up and returned.
+   */
+  async refund(request: RefundRequest) {
+    const { subscription } = request;
+    const refundable = await this.getRefundableAmount(subscription);
+    const amount = request.amount ?? refundable;
+
+    if (amount <= 0 || refundable <= 0) {
+      throw new BadRequestException('Nothing left to refund on this payment');
+    }
+
+    if (new Decimal(amount).gt(refundable)) {
+      throw new BadRequestException(
+        `Refund exceeds the refundable balance of ₦${refundable.toLocaleString()}`,
+      );
+    }
+
+    const toWallet = request.destination
+      ? request.destination === RefundDestination.WALLET
+      : await this.walletService.prefersWalletRefunds(subscription.userId);
+
+    const walletFunded = Decimal.min(
+      amount,
+      await this.getWalletFundedLeft(subscription),
+    ).toNumber();
+    const gatewayShare = new Decimal(amount).sub(walletFunded).toNumber();
+
+    if (toWallet || gatewayShare <= 0) {
+      return this.refundToWallet(request, amount, walletFunded);
+    }
+
+    // The gateway part goes first: if it fails nothing is settled
+    const refund = await this.refundToGateway(request, gatewayShare);
+
+    if (refund.status !== RefundStatus.FAILED && walletFunded > 0) {
+      await this.refundToWallet(request, walletFunded, walletFunded);
+    }
+
+    return refund;
+  }
+
+  /**
+   * Refund a subscription and report whether the gateway accepted it
+   */
+  async tryRefund(request: RefundRequest): Promise<boolean> {
+    const refund = await this.refund(request);
+    return refund.status !== RefundStatus.FAILED;
+  }
+
+  async getUserRefunds(userId: string) {
+    return this.prisma.refund.findMany({
+      where: { userId },
+      include: {
+        subscription: {
+          select: {
+            poolId: true,
+            pool: { select: { product: { select: { name: true } } } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async getRefunds(status?: RefundStatus) {
+    return this.prisma.refund.findMany({
+      where: status ? { status } : {},
+      include: { user: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+  }
+
+  // ============================================
+  // WEBHOOKS
+  // ============================================
+
+  /**
+   * Paystack refund.pending / refund.processed / refund.failed events
+   */
+  async handlePaystackRefundEvent(data: PaystackEventData) {
+    const refund = await this.findRefund(
+      data?.id !== undefined ? String(data.id) : undefined,
+      data?.transaction_reference ?? data?.transaction?.reference,
+    );
+
+    const status = PAYSTACK_STATUSES[data?.status];
+    if (!refund || !status) return null;
+
+    return this.applyGatewayStatus(
+      refund.id,
+      status,
+      data?.amount !== undefined ? Number(data.amount) / 100 : undefined, // Kobo
+      data?.status,
+    );
+  }
+
+  /**
+   * Stripe refund.* and charge.refund.updated events (a Refund object)
+   */
+  async handleStripeRefundEvent(stripeRefund: Stripe.Refund) {
+    const refund = await this.findRefund(stripeRefund?.id);
+
+    const status = stripeRefund.status
+      ? STRIPE_STATUSES[stripeRefund.status]
+      : undefined;
+    if (!refund || !status) return null;
+
+    return this.applyGatewayStatus(
+      refund.id,
+      status,
+      stripeRefund.amount !== undefined
+        ? await this.fromStripeAmount(
+            refund,
+            Number(stripeRefund.amount) / 100,
+            stripeRefund.currency,
+          )
+        : undefined,
+      stripeRefund.failure_reason ?? stripeRefund.status ?? undefined,
+    );
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  /**
+   * Store credit spent on a subscription's charge that is not yet refunded
+   */
+  private async getWalletFundedLeft(subscription: Subscription) {
+    const spent = Decimal.min(
+      subscription.walletAmount.toString(),
+      subscription.amountPaid.toString(),
+    );
+    if (spent.lte(0)) return 0;
+
+    const returned = await this.prisma.refund.aggregate({
+      where: {
+        paymentRef: subscription.paymentRef,
+        status: { not: RefundStatus.FAILED },
+      },
+      _sum: { walletFunded: true },
+    });
+
+    return Decimal.max(
+      0,
+      spent.sub((returned._sum.walletFunded ?? 0).toString()),
+    ).toNumber();
+  }
+
+  /**
+   * Stripe refunds are in the currency the buyer was charged in, at the
+   * rate used at checkout
+   */
+  private async toStripeAmount(sessionId: string, amount?: number) {
+    if (amount === undefined) return undefined;
+
+    const rate = await this.getStripeRate(sessionId);
+
+    return rate ? this.fxService.convert(amount, rate) : amount;
+  }
+
+  /**
+   * A Stripe refund amount in NGN, at the rate its charge was taken at.
+   * Without a rate the recorded amount stands.
+   */
+  private async fromStripeAmount(
+    refund: Refund,
+    amount: number,
+    currency?: string,
+  ) {
+    if (!currency || currency.toUpperCase() === Currency.NGN) return amount;
+
+    const rate = await this.getStripeRate(refund.paymentRef);
+    if (!rate) return undefined;
+
+    // What was asked for came back in full; skip the rounding round-trip
+    if (this.fxService.convert(Number(refund.amount), rate) === amount) {
+      return Number(refund.amount);
+    }
+
+    return this.fxService.toNgn(amount, rate);
+  }
+
+  /**
+   * The rate a Stripe session was charged at. Pool checkouts and slot
+   * transfers each keep the rate quoted when their session was created;
+   * null for NGN charges.
+   */
+  private async getStripeRate(sessionId: string): Promise<number | null> {
+    const pending = await this.prisma.pendingSubscription.findUnique({
+      where: { stripeSessionId: sessionId },
+      select: { fxRate: true },
+    });
+    if (pending) return pending.fxRate ? Number(pending.fxRate) : null;
+
+    const transfer = await this.prisma.slotTransfer.findUnique({
+      where: { paymentRef: sessionId },
+      select: { fxRate: true },
+    });
+
+    return transfer?.fxRate ? Number(transfer.fxRate) : null;
+  }
+
+  private async refundToGateway(request: RefundRequest, amount: number) {
+    const { subscription } = request;
+
+    // A refund of everything charged on the card goes out as a full refund
+    const cardCharged = new Decimal(subscription.amountPaid.toString()).sub(
+      subscription.walletAmount.toString(),
+    );
+    const fullCharge = new Decimal(amount).equals(cardCharged);
+    const gatewayAmount = fullCharge ? undefined : amount;
+
+    let gatewayRefundId: string | undefined;
+    let gatewayStatus: string | undefined;
+    let errorMessage: string | undefined;
+
+    try {
+      if (subscription.paymentMethod === PaymentGateway.STRIPE) {
+        const refund = await this.stripeService.refundSession(
+          subscription.paymentRef,
+          await this.toStripeAmount(subscription.paymentRef, gatewayAmount),
+        );
+        gatewayRefundId = refund.id;
+        gatewayStatus = refund.status ?? undefined;
+      } else {
+        const refund = await this.paystackService.refundTransaction(
+          subscription.paymentRef,
+          gatewayAmount,
+        );
+        gatewayRefundId = refund.refundId;
+        gatewayStatus = refund.status;
+      }
+    } catch (error) {
+      errorMessage = (error as Error).message;
+      this.logger.error(
+        `Refund failed for subscription ${subscription.id}`,
+        (error as Error).stack,
+      );
+    }
+
+    return this.record(request, {
+      amount,
+      walletFunded: 0,
+      destination: RefundDestination.ORIGINAL_METHOD,
+      gateway: subscription.paymentMethod,
+      status: errorMessage
+        ? RefundStatus.FAILED
+        : this.mapStatus(subscription.paymentMethod, gatewayStatus),
+      gatewayRefundId,
+      gatewayStatus,
+      errorMessage,
+      partial: !fullCharge,
+    });
+  }
+
+  private async refundToWallet(
+    request: RefundRequest,
+    amount: number,
+    walletFunded: number,
+  ) {
+    return this.record(request, {
+      amount,
+      walletFunded,
+      destination: RefundDestination.WALLET,
+      gateway: PaymentGateway.WALLET,
+      status: RefundStatus.PROCESSED,
+      partial: true,
+    });
+  }
+
+  private async record(
+    request: RefundRequest,
+    outcome: {
+      amount: number;
+      walletFunded: number;
+      destination: RefundDestination;
+      gateway: PaymentGateway;
+      status: RefundStatus;
+      gatewayRefundId?: string;
+      gatewayStatus?: string;
+      errorMessage?: string;
+      partial: boolean;
+    },
+  ) {
+    const { subscription, reason } = request;
+    const { amount, status } = outcome;
+
+    const refund = await this.prisma.$transaction(async (tx) => {
+      const transaction = await tx.transaction.create({
+        data: {
+          userId: subscription.userId,
+          poolId: subscription.poolId,
+          amount,
+          fees: 0,
+          status:
+            status === RefundStatus.FAILED
+              ? TransactionStatus.FAILED
+              : TransactionStatus.SUCCESS,
+          type: TransactionType.REFUND,
+          externalTxnId: outcome.gatewayRefundId,
+          metadata: {
+            ...request.metadata,
+            subscriptionId: subscription.id,
+            paymentRef: subscription.paymentRef,
+            gateway: outcome.gateway,
+            destination: outcome.destination,
+            reason,
+            partial: outcome.partial,
+            refundStatus: outcome.gatewayStatus,
+            error: outcome.errorMessage,
+          },
+        },
+      });
+
+      const created = await tx.refund.create({
+        data: {
+          subscriptionId: subscription.id,
+          userId: subscription.userId,
+          gateway: outcome.gateway,
+          paymentRef: subscription.paymentRef,
+          amount,
+          status,
+          gatewayRefundId: outcome.gatewayRefundId,
+          destination: outcome.destination,
+          walletFunded: outcome.walletFunded,
+          settled: status !== RefundStatus.FAILED && !!request.settle,
+          transactionId: transaction.id,
+          reason,
+          failureReason: outcome.errorMessage,
+          processedAt: status === RefundStatus.PROCESSED ? new Date() : null,
+        },
+      });
+
+      const posting = {
+        id: created.id,
+        userId: subscription.userId,
+        poolId: subscription.poolId,
+        amount,
+      };
+
+      if (outcome.destination === RefundDestination.WALLET) {
+        await this.walletService.credit(
+          subscription.userId,
+          amount,
+          WalletEntrySource.REFUND,
+          {
+            reference: created.id,
+            poolId: subscription.poolId,
+            description: reason,
+          },
+          tx,
+        );
+      } else if (status !== RefundStatus.FAILED) {
+        await this.ledgerService.recordGatewayRefund(posting, tx);
+
+        if (status === RefundStatus.PROCESSED) {
+          await this.ledgerService.recordRefundSettled(posting, amount, tx);
+        }
+      }
+
+      if (status !== RefundStatus.FAILED && request.settle) {
+        await request.settle(tx, amount);
+      }
+
+      return created;
+    });
+
+    this.logger.log(
+      `Refund ${refund.id} of ₦${amount} for subscription ${subscription.id} to ${outcome.destination}: ${status}`,
+    );
+
+    return refund;
+  }
+
+  private async findRefund(gatewayRefundId?: string, paymentRef?: string) {
+    if (gatewayRefundId) {
+      const refund = await this.prisma.refund.findUnique({
+        where: { gatewayRefundId },
+      });
+      if (refund) return refund;
+    }
+
+    if (!paymentRef) return null;
+
+    // Oldest refund still waiting on this charge
+    return this.prisma.refund.findFirst({
+      where: { paymentRef, status: RefundStatus.PENDING },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private async applyGatewayStatus(
+    refundId: string,
+    status: RefundStatus,
+    gatewayAmount: number | undefined,
+    detail: string | undefined,
+  ) {
+    const refund = await this.prisma.refund.findUnique({
+      where: { id: refundId },
+    });
+
+    if (!refund) throw new NotFoundException('Refund not found');
+
+    // Final states are not revisited by late or repeated events
+    if (refund.status !== RefundStatus.PENDING) return refund;
+
+    const amount =
+      status === RefundStatus.PROCESSED && gatewayAmount !== undefined
+        ? gatewayAmount
+        : Number(refund.amount);
+
+    if (amount !== Number(refund.amount)) {
+      this.logger.warn(
+        `Refund ${refund.id} settled at ₦${amount} instead of ₦${Number(refund.amount)}`,
+      );
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const transaction = await tx.transaction.update({
+        where: { id: refund.transactionId },
+        data: {
+          amount,
+          status:
+            status === RefundStatus.FAILED
+              ? TransactionStatus.FAILED
+              : TransactionStatus.SUCCESS,
+        },
+      });
+
+      const posting = {
+        id: refund.id,
+        userId: refund.userId,
+        poolId: transaction.poolId,
+        amount: Number(refund.amount),
+      };
+
+      if (status === RefundStatus.FAILED) {
+        await this.ledgerService.recordRefundFailed(posting, tx);
+
+        if (refund.settled) await this.restoreSettlement(refund, tx);
+      } else {
+        await this.ledgerService.recordRefundSettled(posting, amount, tx);
+      }
+
+      return tx.refund.update({
+        where: { id: refund.id },
+        data: {
+          status,
+          amount,
+          processedAt: status === RefundStatus.PROCESSED ? new Date() : null,
+          failureReason: status === RefundStatus.FAILED ? detail : null,
+          settled: refund.settled && status !== RefundStatus.FAILED,
+        },
+      });
+    });
+
+    if (status === RefundStatus.FAILED) {
+      this.logger.error(
+        `Gateway failed refund ${refund.id} for subscription ${refund.subscriptionId}: ${detail}`,
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * Undo what a refund settled once the gateway fails it: the buyer's
+   * contribution goes back into escrow and a slot marked refunded goes
+   * back to what the subscription still holds.
+   */
+  private async restoreSettlement(
+    refund: Refund,
+    tx: Prisma.TransactionClient,
+  ) {
+    const subscription = await tx.subscription.findUnique({
+      where: { id: refund.subscriptionId },
+    });
+    if (!subscription) return;
+
+    const amount = Number(refund.amount);
+    const escrow = await tx.escrowEntry.findFirst({
+      where: { poolId: subscription.poolId },
+    });
+
+    if (escrow) {
+      const computations = (escrow.computations as EscrowComputations) || {};
+      const contributions = computations.contributions || {};
+      contributions[subscription.userId] = new Decimal(
+        contributions[subscription.userId] || 0,
+      )
+        .add(amount)
+        .toNumber();
+
+      if (subscription.variantId && computations.variantContributions) {
+        computations.variantContributions[subscription.variantId] = new Decimal(
+          computations.variantContributions[subscription.variantId] || 0,
+        )
+          .add(amount)
+          .toNumber();
+      }
+
+      await tx.escrowEntry.update({
+        where: { id: escrow.id },
+        data: {
+          totalHeld: { increment: amount },
+          computations: { ...computations, contributions },
+        },
+      });
+    }
+
+    const slot = await tx.poolSlot.findFirst({
+      where: {
+        poolId: subscription.poolId,
+        buyerId: subscription.userId,
+        slotsReserved: subscription.slots,
+        variantId: subscription.variantId,
+        status: SlotStatus.REFUNDED,
+      },
+      orderBy: { joinedAt: 'asc' },
+    });
+
+    if (slot) {
+      await tx.poolSlot.update({
+        where: { id: slot.id },
+        data: {
+          status:
+            subscription.status === SubscriptionStatus.ACTIVE
+              ? SlotStatus.PAID
+              : SlotStatus.CANCELLED,
+        },
+      });
+    }
+
+    this.logger.warn(
+      `Refund ${refund.id} failed after settling; ₦${amount} is back in escrow for subscription ${subscription.id}`,
+    );
+  }
+
+  private mapStatus(gateway: PaymentGateway, status?: string): RefundStatus {
+    const statuses =
+      gateway === PaymentGateway.STRIPE ? STRIPE_STATUSES : PAYSTACK_STATUSES;
+
+    return (status && statuses[status]) || RefundStatus.PENDING;
+  }
+}
@@ -0,0 +1,59 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { SearchAlertFrequency } from '@prisma/client';
+
+// Filters use the same names as GET /pools
+export class CreateSavedSearchDto {
+  @ApiPropertyOptional({ example: 'Goat meat in Lagos' })
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string;
+
+  @ApiPropertyOptional({ example: 'GOAT_MEAT' })
+  @IsString()
+  @IsOptional()
+  category?: string;
+
+  @ApiPropertyOptional({ example: 'Lagos' })
+  @IsString()
+  @IsOptional()
+  vendorState?: string;
+
+  @ApiPropertyOptional({ example: 'Lagos' })
+  @IsString()
+  @IsOptional()
+  pickupState?: string;
+
+  @ApiPropertyOptional({
+    example: 50000,
+    description: 'Maximum price per slot',
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  maxPrice?: number;
+
+  @ApiPropertyOptional({
+    enum: SearchAlertFrequency,
+    default: SearchAlertFrequency.INSTANT,
+  })
+  @IsEnum(SearchAlertFrequency)
+  @IsOptional()
+  frequency?: SearchAlertFrequency;
+}
+
+export class UpdateSavedSearchDto extends CreateSavedSearchDto {
+  @ApiPropertyOptional({ description: 'Pause or resume alerts' })
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
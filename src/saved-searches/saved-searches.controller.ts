@@ -0,0 +1,56 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { SavedSearchesService } from './saved-searches.service';
+import {
+  CreateSavedSearchDto,
+  UpdateSavedSearchDto,
+} from './dto/saved-search.dto';
+
+@ApiTags('Saved Searches')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('saved-searches')
+export class SavedSearchesController {
+  constructor(private readonly savedSearchesService: SavedSearchesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get my saved searches' })
+  findMine(@Req() req: AuthenticatedRequest) {
+    return this.savedSearchesService.findMine(req.user.userId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Save a search and get alerts for new pools' })
+  create(@Req() req: AuthenticatedRequest, @Body() dto: CreateSavedSearchDto) {
+    return this.savedSearchesService.create(req.user.userId, dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update, pause or resume a saved search' })
+  update(
+    @Param('id') id: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: UpdateSavedSearchDto,
+  ) {
+    return this.savedSearchesService.update(id, req.user.userId, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a saved search' })
+  remove(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    return this.savedSearchesService.remove(id, req.user.userId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SavedSearchesController } from './saved-searches.controller';
+import { SavedSearchesService } from './saved-searches.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [PrismaModule, NotificationsModule],
+  controllers: [SavedSearchesController],
+  providers: [SavedSearchesService],
+  exports: [SavedSearchesService],
+})
+export class SavedSearchesModule {}
@@ -0,0 +1,151 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { SavedSearchesService } from './saved-searches.service';
+import { PrismaService } from '../services/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  PoolStatus,
+  PoolVisibility,
+  SearchAlertFrequency,
+} from '@prisma/client';
+
+describe('SavedSearchesService', () => {
+  let service: SavedSearchesService;
+
+  const mockPrismaService = {
+    pool: {
+      findUnique: jest.fn(),
+    },
+    savedSearch: {
+      count: jest.fn(),
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+    savedSearchMatch: {
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockNotificationsService = {
+    sendNotification: jest.fn(),
+  };
+
+  const pool = {
+    id: 'pool-1',
+    vendorId: 'vendor-1',
+    status: PoolStatus.OPEN,
+    visibility: PoolVisibility.PUBLIC,
+    pricePerSlot: 25000,
+    product: { name: 'Whole cow', category: 'Livestock' },
+    vendor: { state: 'Lagos' },
+    pickupLocations: [{ state: 'Lagos' }],
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SavedSearchesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<SavedSearchesService>(SavedSearchesService);
+  });
+
+  it('should cap the number of saved searches per user', async () => {
+    mockPrismaService.savedSearch.count.mockResolvedValue(20);
+
+    await expect(
+      service.create('buyer-1', { category: 'Livestock' }),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockPrismaService.savedSearch.create).not.toHaveBeenCalled();
+  });
+
+  it('should alert instant searches and hold daily ones for the digest', async () => {
+    mockPrismaService.pool.findUnique.mockResolvedValue(pool);
+    mockPrismaService.savedSearch.findMany.mockResolvedValue([
+      {
+        id: 'search-1',
+        userId: 'buyer-1',
+        name: 'Beef',
+        frequency: SearchAlertFrequency.INSTANT,
+      },
+      {
+        id: 'search-2',
+        userId: 'buyer-2',
+        name: null,
+        frequency: SearchAlertFrequency.DAILY,
+      },
+    ]);
+    mockPrismaService.savedSearchMatch.create
+      .mockResolvedValueOnce({ id: 'match-1' })
+      .mockResolvedValueOnce({ id: 'match-2' });
+
+    const result = await service.notifyNewPool('pool-1');
+
+    expect(result).toEqual({ matched: 2, notified: 1 });
+    expect(mockPrismaService.savedSearchMatch.create).toHaveBeenCalledTimes(2);
+    expect(mockNotificationsService.sendNotification).toHaveBeenCalledTimes(1);
+    expect(mockNotificationsService.sendNotification).toHaveBeenCalledWith(
+      'buyer-1',
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ poolId: 'pool-1', savedSearchId: 'search-1' }),
+    );
+    expect(mockPrismaService.savedSearchMatch.update).toHaveBeenCalledWith({
+      where: { id: 'match-1' },
+      data: { notifiedAt: expect.any(Date) as Date },
+    });
+  });
+
+  it('should not announce invite-only pools', async () => {
+    mockPrismaService.pool.findUnique.mockResolvedValue({
+      ...pool,
+      visibility: PoolVisibility.INVITE_ONLY,
+    });
+
+    const result = await service.notifyNewPool('pool-1');
+
+    expect(result).toEqual({ matched: 0, notified: 0 });
+    expect(mockPrismaService.savedSearch.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should send one digest per user listing only open pools', async () => {
+    mockPrismaService.savedSearchMatch.findMany.mockResolvedValue([
+      {
+        id: 'match-1',
+        savedSearch: { userId: 'buyer-1' },
+        pool: { ...pool, status: PoolStatus.OPEN },
+      },
+      {
+        id: 'match-2',
+        savedSearch: { userId: 'buyer-1' },
+        pool: {
+          ...pool,
+          id: 'pool-2',
+          status: PoolStatus.FILLED,
+        },
+      },
+    ]);
+
+    const result = await service.sendDailyDigests();
+
+    expect(result).toEqual({ users: 1, sent: 1 });
+    expect(mockNotificationsService.sendNotification).toHaveBeenCalledWith(
+      'buyer-1',
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ poolIds: ['pool-1'] }),
+    );
+    expect(mockPrismaService.savedSearchMatch.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['match-1', 'match-2'] } },
+      data: { notifiedAt: expect.any(Date) as Date },
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { PrismaService } from '../services/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  NotificationMedium,
+  NotificationType,
+  PoolStatus,
+  PoolVisibility,
+  Prisma,
+  SearchAlertFrequency,
+} from '@prisma/client';
+import {
+  CreateSavedSearchDto,
+  UpdateSavedSearchDto,
+} from './dto/saved-search.dto';
+
+const MAX_SAVED_SEARCHES = 20;
+const DIGEST_MAX_POOLS = 10; // Pools listed in one digest message
+
+// Users opt out of individual mediums in their notification settings
+const ALERT_MEDIUMS = [
+  NotificationMedium.IN_APP,
+  NotificationMedium.EMAIL,
+  NotificationMedium.PUSH,
+];
+
+/**
+ * SavedSearchesService alerts buyers when new pools match their filters.
+ *
+ * When a public pool is published every active saved search it matches is
+ * recorded. INSTANT searches notify straight away; DAILY searches collect
+ * matches for the daily digest, which lists the ones still open.
+ */
+@Injectable()
+export class SavedSearchesService {
+  private readonly logger = new Logger(SavedSearchesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  async create(userId: string, dto: CreateSavedSearchDto) {
+    const count = await this.prisma.savedSearch.count({ where: { userId } });
+    if (count >= MAX_SAVED_SEARCHES) {
+      throw new BadRequestException(
+        `You can save up to ${MAX_SAVED_SEARCHES} searches`,
+      );
+    }
+
+    return this.prisma.savedSearch.create({
+      data: { userId, ...dto },
+    });
+  }
+
+  async findMine(userId: string) {
+    return this.prisma.savedSearch.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async update(id: string, userId: string, dto: UpdateSavedSearchDto) {
+    await this.getOwned(id, userId);
+
+    return this.prisma.savedSearch.update({
+      where: { id },
+      data: dto,
+    });
+  }
+
+  async remove(id: string, userId: string) {
+    await this.getOwned(id, userId);
+
+    await this.prisma.$transaction([
+      this.prisma.savedSearchMatch.deleteMany({ where: { savedSearchId: id } }),
+      this.prisma.savedSearch.delete({ where: { id } }),
+    ]);
+
+    return { success: true };
+  }
+
+  // ============================================
+  // ALERTS
+  // ============================================
+
+  /**
+   * Match a newly published pool against saved searches and alert the
+   * INSTANT ones. Invite-only and unlisted pools are never announced.
+   */
+  async notifyNewPool(poolId: string) {
+    const pool = await this.prisma.pool.findUnique({
+      where: { id: poolId },
+      include: {
+        product: true,
+        vendor: { select: { state: true } },
+        pickupLocations: { where: { active: true }, select: { state: true } },
+      },
+    });
+
+    if (
+      !pool ||
+      pool.status !== PoolStatus.OPEN ||
+      pool.visibility !== PoolVisibility.PUBLIC
+    ) {
+      return { matched: 0, notified: 0 };
+    }
+
+    const pickupStates = [
+      ...new Set(pool.pickupLocations.map((location) => location.state)),
+    ];
+
+    const searches = await this.prisma.savedSearch.findMany({
+      where: {
+        active: true,
+        userId: { not: pool.vendorId },
+        AND: [
+          {
+            OR: [
+              { category: null },
+              {
+                category: {
+                  equals: pool.product.category ?? '',
+                  mode: 'insensitive',
+                },
+              },
+            ],
+          },
+          {
+            OR: [
+              { vendorState: null },
+              {
+                vendorState: {
+                  equals: pool.vendor.state ?? '',
+                  mode: 'insensitive',
+                },
+              },
+            ],
+          },
+          {
+            OR: [
+              { pickupState: null },
+              { pickupState: { in: pickupStates, mode: 'insensitive' } },
+            ],
+          },
+          {
+            OR: [{ maxPrice: null }, { maxPrice: { gte: pool.pricePerSlot } }],
+          },
+        ],
+      },
+    });
+
+    let notified = 0;
+
+    for (const search of searches) {
+      try {
+        const match = await this.prisma.savedSearchMatch.create({
+          data: { savedSearchId: search.id, poolId },
+        });
+
+        if (search.frequency !== SearchAlertFrequency.INSTANT) continue;
+
+        await this.notificationsService.sendNotification(
+          search.userId,
+          NotificationType.POOL_UPDATE,
+          ALERT_MEDIUMS,
+          {
+            title: `New pool: ${pool.product.name}`,
+            message: `A new pool matching "${search.name ?? 'your saved search'}" just opened at ₦${Number(pool.pricePerSlot).toLocaleString()} per slot.`,
+            poolId,
+            savedSearchId: search.id,
+          },
+        );
+
+        await this.prisma.savedSearchMatch.update({
+          where: { id: match.id },
+          data: { notifiedAt: new Date() },
+        });
+        notified++;
+      } catch (error) {
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          continue; // Already matched
+        }
+        this.logger.error(
+          `Failed to alert saved search ${search.id} about pool ${poolId}`,
+          error,
+        );
+      }
+    }
+
+    if (searches.length) {
+      this.logger.log(
+        `Pool ${poolId} matched ${searches.length} saved searches (${notified} alerted now)`,
+      );
+    }
+
+    return { matched: searches.length, notified };
+  }
+
+  /**
+   * Run daily at 7 AM - send saved search digests of new pools
+   */
+  @Cron('0 7 * * *')
+  async handleDailyDigests() {
+    try {
+      const result = await this.sendDailyDigests();
+      if (result.sent > 0) {
+        this.logger.log(`Sent ${result.sent} saved search digests`);
+      }
+    } catch (error) {
+      this.logger.error('Saved search digests failed:', error);
+    }
+  }
+
+  /**
+   * Send each DAILY subscriber one message listing the matched pools that
+   * are still open
+   */
+  async sendDailyDigests() {
+    const pending = await this.prisma.savedSearchMatch.findMany({
+      where: {
+        notifiedAt: null,
+        savedSearch: { active: true, frequency: SearchAlertFrequency.DAILY },
+      },
+      include: {
+        savedSearch: { select: { userId: true } },
+        pool: {
+          select: {
+            id: true,
+            status: true,
+            pricePerSlot: true,
+            product: { select: { name: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const byUser = new Map<string, typeof pending>();
+    for (const match of pending) {
+      const matches = byUser.get(match.savedSearch.userId) ?? [];
+      matches.push(match);
+      byUser.set(match.savedSearch.userId, matches);
+    }
+
+    let sent = 0;
+
+    for (const [userId, matches] of byUser) {
+      // One line per pool even when several searches matched it
+      const pools = [
+        ...new Map(
+          matches
+            .filter((match) => match.pool.status === PoolStatus.OPEN)
+            .map((match) => [match.pool.id, match.pool]),
+        ).values(),
+      ];
+
+      try {
+        if (pools.length) {
+          const lines = pools
+            .slice(0, DIGEST_MAX_POOLS)
+            .map(
+              (pool) =>
+                `• ${pool.product.name} - ₦${Number(pool.pricePerSlot).toLocaleString()} per slot`,
+            );
+          if (pools.length > DIGEST_MAX_POOLS) {
+            lines.push(`…and ${pools.length - DIGEST_MAX_POOLS} more`);
+          }
+
+          await this.notificationsService.sendNotification(
+            userId,
+            NotificationType.POOL_UPDATE,
+            ALERT_MEDIUMS,
+            {
+              title: `${pools.length} new pool${pools.length === 1 ? '' : 's'} for your saved searches`,
+              message: lines.join('\n'),
+              poolIds: pools.map((pool) => pool.id),
+            },
+          );
+          sent++;
+        }
+
+        // Matches for pools that closed since are dropped from the digest
+        await this.prisma.savedSearchMatch.updateMany({
+          where: { id: { in: matches.map((match) => match.id) } },
+          data: { notifiedAt: new Date() },
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to send saved search digest to ${userId}`,
+          error,
+        );
+      }
+    }
+
+    return { users: byUser.size, sent };
+  }
+
+  private async getOwned(id: string, userId: string) {
+    const search = await this.prisma.savedSearch.findUnique({
+      where: { id },
+    });
+
+    if (!search) throw new NotFoundException('Saved search not found');
+
+    if (search.userId !== userId) {
+      throw new ForbiddenException('You can only manage your own searches');
+    }
+
+    return search;
+  }
+}
@@ -4,6 +4,79 @@ import { ConfigService } from '@nestjs/config';
 import { firstValueFrom, timeout, catchError, throwError } from 'rxjs';
 import { AxiosError } from 'axios';
 
+// What a checkout sends Paystack along with the charge
+export interface PaystackChargeMetadata {
+  pendingId?: string;
+  poolId?: string;
+  userId?: string;
+  transferId?: string;
+  [key: string]: unknown;
+}
+
+// A charge or transfer as Paystack lists it, amounts in Naira
+export interface PaystackRecord {
+  reference: string;
+  amount: number;
+  status: string;
+  createdAt: Date;
+  transferCode?: string;
+  metadata?: PaystackChargeMetadata;
+}
+
+export interface PaystackPage {
+  records: PaystackRecord[];
+  pageCount: number;
+}
+
+// The envelope every Paystack API response comes in
+interface PaystackResponse<T> {
+  status: boolean;
+  message: string;
+  data: T;
+  meta?: { pageCount?: number };
+}
+
+// Amounts are in kobo; transfers also carry a camelCase createdAt
+export interface PaystackRawRecord {
+  id: number;
+  reference: string;
+  amount: number;
+  status: string;
+  created_at: string;
+  createdAt?: string;
+  transfer_code?: string;
+  metadata?: PaystackChargeMetadata;
+}
+
+// Where to send the buyer to pay a new charge
+export interface PaystackCheckout {
+  authorization_url: string;
+  access_code: string;
+  reference: string;
+}
+
+// A charge as the verify endpoint returns it
+export interface PaystackTransaction extends PaystackRawRecord {
+  fees?: number | null;
+  metadata: PaystackChargeMetadata;
+}
+
+// The refund.* and transfer.* webhook payloads we read
+export interface PaystackEventData {
+  id?: number;
+  reference?: string;
+  status: string;
+  amount?: number;
+  transfer_code?: string;
+  transaction_reference?: string;
+  transaction?: { reference?: string };
+}
+
+export interface PaystackWebhookEvent {
+  event: string;
+  data: PaystackEventData;
+}
+
 @Injectable()
 export class PaystackService {
   private readonly secret: string;
@@ -25,7 +98,7 @@ export class PaystackService {
         `Initializing Paystack payment for ${metadata.email}, amount: ${amount}`,
       );
 
-      const observable = this.http.post(
+      const observable = this.http.post<PaystackResponse<PaystackCheckout>>(
         'https://api.paystack.co/transaction/initialize',
         {
           email: metadata.email,
@@ -107,7 +180,7 @@ export class PaystackService {
         `Verifying Paystack payment with reference: ${reference}`,
       );
 
-      const observable = this.http.get(
+      const observable = this.http.get<PaystackResponse<PaystackTransaction>>(
         `https://api.paystack.co/transaction/verify/${reference}`,
         {
           headers: { Authorization: `Bearer ${this.secret}` },
@@ -396,6 +469,136 @@ export class PaystackService {
     }
   }
 
+  /**
+   * Refund a charge back to the buyer's original payment method
+   * Amount is in Naira (will be converted to kobo); omit for a full refund
+   */
+  async refundTransaction(
+    reference: string,
+    amount?: number,
+  ): Promise<{
+    refundId: string;
+    status: string;
+    amount: number;
+  }> {
+    try {
+      this.logger.log(
+        `Initiating refund for ${reference}${amount ? `, amount: ₦${amount}` : ''}`,
+      );
+
+      const observable = this.http.post<PaystackResponse<PaystackRawRecord>>(
+        'https://api.paystack.co/refund',
+        {
+          transaction: reference,
+          ...(amount !== undefined && { amount: Math.round(amount * 100) }),
+        },
+        {
+          headers: { Authorization: `Bearer ${this.secret}` },
+          timeout: 30000,
+        },
+      );
+
+      const res = await firstValueFrom(observable.pipe(timeout(30000)));
+
+      if (!res?.data?.status) {
+        throw new BadRequestException('Refund initiation failed');
+      }
+
+      this.logger.log(
+        `Refund initiated for ${reference}: ${res.data.data.id}, status: ${res.data.data.status}`,
+      );
+      return {
+        refundId: String(res.data.data.id),
+        status: res.data.data.status,
+        amount: res.data.data.amount / 100, // Convert back to Naira
+      };
+    } catch (error) {
+      const { response, message } = error as AxiosError<{ message?: string }>;
+      this.logger.error(
+        `Refund failed for ${reference}:`,
+        response?.data?.message || message,
+      );
+      throw new BadRequestException('Failed to refund payment');
+    }
+  }
+
+  /**
+   * List charges created in a date range, one page at a time
+   */
+  async listTransactions(
+    from: Date,
+    to: Date,
+    page = 1,
+  ): Promise<PaystackPage> {
+    const data = await this.list('transaction', from, to, page);
+
+    return {
+      records: data.data.map((t) => ({
+        reference: t.reference,
+        amount: t.amount / 100, // Convert to Naira
+        status: t.status,
+        createdAt: new Date(t.created_at ?? t.createdAt),
+        metadata: t.metadata,
+      })),
+      pageCount: data.meta?.pageCount ?? 1,
+    };
+  }
+
+  /**
+   * List transfers created in a date range, one page at a time
+   */
+  async listTransfers(from: Date, to: Date, page = 1): Promise<PaystackPage> {
+    const data = await this.list('transfer', from, to, page);
+
+    return {
+      records: data.data.map((t) => ({
+        reference: t.reference,
+        amount: t.amount / 100, // Convert to Naira
+        status: t.status,
+        createdAt: new Date(t.createdAt ?? t.created_at),
+        transferCode: t.transfer_code,
+      })),
+      pageCount: data.meta?.pageCount ?? 1,
+    };
+  }
+
+  private async list(
+    resource: string,
+    from: Date,
+    to: Date,
+    page: number,
+  ): Promise<PaystackResponse<PaystackRawRecord[]>> {
+    try {
+      const observable = this.http.get<PaystackResponse<PaystackRawRecord[]>>(
+        `https://api.paystack.co/${resource}`,
+        {
+          headers: { Authorization: `Bearer ${this.secret}` },
+          params: {
+            from: from.toISOString(),
+            to: to.toISOString(),
+            perPage: 100,
+            page,
+          },
+          timeout: 30000,
+        },
+      );
+
+      const res = await firstValueFrom(observable.pipe(timeout(30000)));
+
+      if (!res?.data?.status) {
+        throw new BadRequestException(`Failed to list ${resource}s`);
+      }
+
+      return res.data;
+    } catch (error) {
+      this.logger.error(
+        `Failed to list Paystack ${resource}s (page ${page}):`,
+        (error as Error).message,
+      );
+      throw new BadRequestException(`Failed to list ${resource}s`);
+    }
+  }
+
   /**
    * Get Paystack account balance (for monitoring)
    */
@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { CurrencyService } from '../services/currency.service';
+import { FxService } from '../fx/fx.service';
+import { Currency } from '@prisma/client';
 import Stripe from 'stripe';
 
 @Injectable()
@@ -9,13 +10,14 @@ export class StripeService {
 
   constructor(
     private configService: ConfigService,
-    private currency: CurrencyService,
+    private fxService: FxService,
   ) {
     this.stripe = new Stripe(this.configService.get('STRIPE_SECRET_KEY') || '');
   }
 
   async createPaymentIntent(amountNaira: number, email: string) {
-    const amountUSD = await this.currency.convertToUSD(amountNaira);
+    const quote = await this.fxService.getQuote(Currency.USD);
+    const amountUSD = this.fxService.convert(amountNaira, quote.rate);
 
     const intent = await this.stripe.paymentIntents.create({
       amount: Math.round(amountUSD * 100),
@@ -32,13 +34,15 @@ export class StripeService {
     subscriptionId: string,
     amount: number,
     description: string,
+    metadata: Record<string, string> = {},
+    currency: Currency = Currency.USD,
   ) {
     return this.stripe.checkout.sessions.create({
       payment_method_types: ['card'],
       line_items: [
         {
           price_data: {
-            currency: 'usd',
+            currency: currency.toLowerCase(),
             product_data: { name: description },
             unit_amount: Math.round(amount * 100),
           },
@@ -50,11 +54,30 @@ export class StripeService {
       cancel_url: `${this.configService.get('FRONTEND_URL')}/pools/cancel`,
       client_reference_id: userId,
       metadata: {
+        ...metadata,
         subscriptionId,
       },
     });
   }
 
+  async refundSession(sessionId: string, amount?: number) {
+    const session = await this.stripe.checkout.sessions.retrieve(sessionId);
+    const paymentIntent =
+      typeof session.payment_intent === 'string'
+        ? session.payment_intent
+        : session.payment_intent?.id;
+
+    if (!paymentIntent) {
+      throw new Error(`No payment intent found for session ${sessionId}`);
+    }
+
+    return this.stripe.refunds.create({
+      payment_intent: paymentIntent,
+      ...(amount !== undefined && { amount: Math.round(amount * 100) }),
+      metadata: { sessionId },
+    });
+  }
+
   constructEvent(payload: Buffer, signature: string) {
     const secret = this.configService.get<string>('STRIPE_WEBHOOK_SECRET')!;
     return this.stripe.webhooks.constructEvent(payload, signature, secret);
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { SlotHoldsService } from './slot-holds.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [SlotHoldsService],
+  exports: [SlotHoldsService],
+})
+export class SlotHoldsModule {}
@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SlotHoldsService } from './slot-holds.service';
+import { PrismaService } from '../services/prisma.service';
+import { PaymentStatus, SlotStatus } from '@prisma/client';
+
+describe('SlotHoldsService', () => {
+  let service: SlotHoldsService;
+
+  const mockPrismaService = {
+    pendingSubscription: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    poolSlot: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      aggregate: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SlotHoldsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<SlotHoldsService>(SlotHoldsService);
+  });
+
+  describe('getHeldSlots', () => {
+    it('should count live checkouts and reservations of other buyers', async () => {
+      mockPrismaService.pendingSubscription.aggregate.mockResolvedValue({
+        _sum: { slots: 3 },
+      });
+      mockPrismaService.poolSlot.aggregate.mockResolvedValue({
+        _sum: { slotsReserved: 2 },
+      });
+
+      const held = await service.getHeldSlots('pool-1', 'user-1');
+
+      expect(held).toBe(5);
+      expect(
+        mockPrismaService.pendingSubscription.aggregate,
+      ).toHaveBeenCalledWith({
+        where: {
+          poolId: 'pool-1',
+          status: PaymentStatus.PENDING,
+          holdExpiresAt: { gt: expect.any(Date) as Date },
+          userId: { not: 'user-1' },
+        },
+        _sum: { slots: true },
+      });
+    });
+
+    it("should only count a variant's own holds when asked", async () => {
+      mockPrismaService.pendingSubscription.aggregate.mockResolvedValue({
+        _sum: { slots: 1 },
+      });
+      mockPrismaService.poolSlot.aggregate.mockResolvedValue({
+        _sum: { slotsReserved: null },
+      });
+
+      const held = await service.getHeldSlots(
+        'pool-1',
+        'user-1',
+        undefined,
+        'variant-1',
+      );
+
+      expect(held).toBe(1);
+      expect(mockPrismaService.poolSlot.aggregate).toHaveBeenCalledWith({
+        where: {
+          poolId: 'pool-1',
+          status: SlotStatus.PENDING_PAYMENT,
+          expiresAt: { gt: expect.any(Date) as Date },
+          variantId: 'variant-1',
+          buyerId: { not: 'user-1' },
+        },
+        _sum: { slotsReserved: true },
+      });
+    });
+  });
+
+  describe('releaseHold', () => {
+    it('should fail the checkout and report its pool', async () => {
+      mockPrismaService.pendingSubscription.findUnique.mockResolvedValue({
+        poolId: 'pool-1',
+      });
+      mockPrismaService.pendingSubscription.updateMany.mockResolvedValue({
+        count: 1,
+      });
+
+      await expect(service.releaseHold('pending-1')).resolves.toBe('pool-1');
+      expect(
+        mockPrismaService.pendingSubscription.updateMany,
+      ).toHaveBeenCalledWith({
+        where: { id: 'pending-1', status: PaymentStatus.PENDING },
+        data: { status: PaymentStatus.FAILED, holdExpiresAt: null },
+      });
+    });
+
+    it('should leave checkouts that were already settled alone', async () => {
+      mockPrismaService.pendingSubscription.findUnique.mockResolvedValue({
+        poolId: 'pool-1',
+      });
+      mockPrismaService.pendingSubscription.updateMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(service.releaseHold('pending-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('expireHolds', () => {
+    it('should stop counting lapsed holds without failing the checkout', async () => {
+      mockPrismaService.pendingSubscription.findMany.mockResolvedValue([
+        { poolId: 'pool-1' },
+      ]);
+      mockPrismaService.poolSlot.findMany.mockResolvedValue([
+        { poolId: 'pool-1' },
+        { poolId: 'pool-2' },
+      ]);
+      mockPrismaService.pendingSubscription.updateMany.mockResolvedValue({
+        count: 1,
+      });
+      mockPrismaService.poolSlot.updateMany.mockResolvedValue({ count: 2 });
+
+      const result = await service.expireHolds();
+
+      expect(result).toEqual({ expired: 3, poolIds: ['pool-1', 'pool-2'] });
+      expect(
+        mockPrismaService.pendingSubscription.updateMany,
+      ).toHaveBeenCalledWith({
+        where: {
+          status: PaymentStatus.PENDING,
+          holdExpiresAt: { lte: expect.any(Date) as Date },
+        },
+        data: { holdExpiresAt: null },
+      });
+      expect(mockPrismaService.poolSlot.updateMany).toHaveBeenCalledWith({
+        where: {
+          status: SlotStatus.PENDING_PAYMENT,
+          expiresAt: { lte: expect.any(Date) as Date },
+        },
+        data: { status: SlotStatus.CANCELLED },
+      });
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { PaymentStatus, Prisma, SlotStatus } from '@prisma/client';
+
+/**
+ * SlotHoldsService reserves capacity for buyers while payment is in flight.
+ *
+ * A checkout (PendingSubscription) or reservation (PoolSlot) holds its slots
+ * until its expiry passes or the payment fails. Held slots count against
+ * availability everywhere slots are sold or offered.
+ *
+ * An expired hold only stops counting: the checkout stays PENDING so a late
+ * payment can still be finalized if the slots are still free. If they were
+ * sold in the meantime, finalizing refunds the charge.
+ */
+@Injectable()
+export class SlotHoldsService {
+  private readonly logger = new Logger(SlotHoldsService.name);
+  private readonly HOLD_TTL_MINUTES = 30; // Minutes a checkout holds its slots
+
+  constructor(private prisma: PrismaService) {}
+
+  getHoldExpiry(): Date {
+    return new Date(Date.now() + this.HOLD_TTL_MINUTES * 60 * 1000);
+  }
+
+  /**
+   * Slots held by in-flight checkouts, excluding the given buyer's own.
+   * Narrowed to one variant's holds when a variantId is given.
+   */
+  async getHeldSlots(
+    poolId: string,
+    excludeUserId?: string,
+    tx?: Prisma.TransactionClient,
+    variantId?: string,
+  ): Promise<number> {
+    const prisma = tx || this.prisma;
+    const now = new Date();
+
+    const [checkouts, reservations] = await Promise.all([
+      prisma.pendingSubscription.aggregate({
+        where: {
+          poolId,
+          status: PaymentStatus.PENDING,
+          holdExpiresAt: { gt: now },
+          ...(variantId && { variantId }),
+          ...(excludeUserId && { userId: { not: excludeUserId } }),
+        },
+        _sum: { slots: true },
+      }),
+      prisma.poolSlot.aggregate({
+        where: {
+          poolId,
+          status: SlotStatus.PENDING_PAYMENT,
+          expiresAt: { gt: now },
+          ...(variantId && { variantId }),
+          ...(excludeUserId && { buyerId: { not: excludeUserId } }),
+        },
+        _sum: { slotsReserved: true },
+      }),
+    ]);
+
+    return (checkouts._sum.slots ?? 0) + (reservations._sum.slotsReserved ?? 0);
+  }
+
+  /**
+   * Fail a checkout whose payment did not go through and free its slots.
+   * Returns the pool whose capacity was freed, if any.
+   */
+  async releaseHold(pendingId: string): Promise<string | null> {
+    const pending = await this.prisma.pendingSubscription.findUnique({
+      where: { id: pendingId },
+      select: { poolId: true },
+    });
+
+    if (!pending) return null;
+
+    const released = await this.prisma.pendingSubscription.updateMany({
+      where: { id: pendingId, status: PaymentStatus.PENDING },
+      data: { status: PaymentStatus.FAILED, holdExpiresAt: null },
+    });
+
+    if (released.count === 0) return null;
+
+    this.logger.log(`Released slot hold for checkout ${pendingId}`);
+
+    return pending.poolId;
+  }
+
+  /**
+   * Clear lapsed holds. Returns the pools whose capacity was freed.
+   */
+  async expireHolds() {
+    const now = new Date();
+
+    const [checkouts, reservations] = await Promise.all([
+      this.prisma.pendingSubscription.findMany({
+        where: {
+          status: PaymentStatus.PENDING,
+          holdExpiresAt: { lte: now },
+        },
+        select: { poolId: true },
+        distinct: ['poolId'],
+      }),
+      this.prisma.poolSlot.findMany({
+        where: {
+          status: SlotStatus.PENDING_PAYMENT,
+          expiresAt: { lte: now },
+        },
+        select: { poolId: true },
+        distinct: ['poolId'],
+      }),
+    ]);
+
+    const [clearedCheckouts, cancelledReservations] = await Promise.all([
+      this.prisma.pendingSubscription.updateMany({
+        where: {
+          status: PaymentStatus.PENDING,
+          holdExpiresAt: { lte: now },
+        },
+        data: { holdExpiresAt: null },
+      }),
+      this.prisma.poolSlot.updateMany({
+        where: {
+          status: SlotStatus.PENDING_PAYMENT,
+          expiresAt: { lte: now },
+        },
+        data: { status: SlotStatus.CANCELLED },
+      }),
+    ]);
+
+    const poolIds = [
+      ...new Set([...checkouts, ...reservations].map((row) => row.poolId)),
+    ];
+
+    return {
+      expired: clearedCheckouts.count + cancelledReservations.count,
+      poolIds,
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { Currency, PaymentGateway } from '@prisma/client';
+
+export class PurchaseTransferDto {
+  @IsEnum(PaymentGateway)
+  method: PaymentGateway;
+
+  // Required the first time a buyer joins an invite-only pool
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  inviteCode?: string;
+
+  // Currency to charge a Stripe payment in (default USD); Paystack
+  // payments are always in NGN
+  @IsOptional()
+  @IsEnum(Currency)
+  currency?: Currency;
+}
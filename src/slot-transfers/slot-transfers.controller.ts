@@ -0,0 +1,73 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Role } from '../constant';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { SlotTransfersService } from './slot-transfers.service';
+import { ListSlotsDto } from './dto/list-slots.dto';
+import { PurchaseTransferDto } from './dto/purchase-transfer.dto';
+
+@ApiTags('Slot Transfers')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('slot-transfers')
+export class SlotTransfersController {
+  constructor(private readonly slotTransfersService: SlotTransfersService) {}
+
+  @Get('my')
+  @ApiOperation({ summary: 'Get transfers I listed or bought' })
+  getMyTransfers(@Req() req: AuthenticatedRequest) {
+    return this.slotTransfersService.getUserTransfers(req.user.userId);
+  }
+
+  @Get('pool/:poolId')
+  @ApiOperation({ summary: 'Get slots listed for transfer in a pool' })
+  getPoolListings(@Param('poolId') poolId: string) {
+    return this.slotTransfersService.getPoolListings(poolId);
+  }
+
+  @Roles(Role.BUYER)
+  @Post()
+  @ApiOperation({ summary: 'Buyer: List my paid slots for transfer' })
+  list(@Req() req: AuthenticatedRequest, @Body() dto: ListSlotsDto) {
+    return this.slotTransfersService.listSlots(
+      dto.subscriptionId,
+      req.user.userId,
+    );
+  }
+
+  @Roles(Role.BUYER)
+  @Post(':id/purchase')
+  @ApiOperation({ summary: 'Buyer: Pay for listed slots' })
+  purchase(
+    @Param('id') id: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: PurchaseTransferDto,
+  ) {
+    return this.slotTransfersService.purchase(
+      id,
+      req.user.userId,
+      dto.method,
+      dto.inviteCode,
+      dto.currency,
+    );
+  }
+
+  @Roles(Role.BUYER)
+  @Delete(':id')
+  @ApiOperation({ summary: 'Buyer: Withdraw a transfer listing' })
+  cancel(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    return this.slotTransfersService.cancelListing(id, req.user.userId);
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { SlotTransfersController } from './slot-transfers.controller';
+import { SlotTransfersService } from './slot-transfers.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { EscrowModule } from '../escrow/escrow.module';
+import { PoolsModule } from '../pools/pools.module';
+import { StripeModule } from '../stripe/stripe.module';
+import { SlotHoldsModule } from '../slot-holds/slot-holds.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { FxModule } from '../fx/fx.module';
+import { RefundsModule } from '../refunds/refunds.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    NotificationsModule,
+    EscrowModule,
+    PoolsModule,
+    StripeModule,
+    SlotHoldsModule,
+    LedgerModule,
+    FxModule,
+    RefundsModule,
+  ],
+  controllers: [SlotTransfersController],
+  providers: [SlotTransfersService],
+  exports: [SlotTransfersService],
+})
+export class SlotTransfersModule {}
@@ -0,0 +1,314 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { SlotTransfersService } from './slot-transfers.service';
+import { PrismaService } from '../services/prisma.service';
+import { StripeService } from '../services/stripe.service';
+import { PaystackService } from '../services/paystack.service';
+import { EscrowService } from '../escrow/escrow.service';
+import { PoolsService } from '../pools/pools.service';
+import { PoolInvitesService } from '../pools/pool-invites.service';
+import { SlotHoldsService } from '../slot-holds/slot-holds.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { FxService } from '../fx/fx.service';
+import { RefundsService } from '../refunds/refunds.service';
+import {
+  Currency,
+  PaymentGateway,
+  PoolStatus,
+  Prisma,
+  SlotTransferStatus,
+  SubscriptionStatus,
+} from '@prisma/client';
+
+describe('SlotTransfersService', () => {
+  let service: SlotTransfersService;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    pool: {
+      findUnique: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+    subscription: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    poolSlot: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    slotTransfer: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    transaction: {
+      create: jest.fn(),
+      aggregate: jest.fn(),
+    },
+  };
+
+  const mockEscrowService = {
+    transferContribution: jest.fn(),
+  };
+
+  const mockPoolsService = {
+    refundSubscription: jest.fn(),
+    syncSlotsTaken: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    sendNotification: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    recordPayment: jest.fn(),
+  };
+
+  const mockStripeService = {
+    createSession: jest.fn(),
+  };
+
+  const mockFxService = {
+    getQuote: jest.fn(),
+    convert: jest.fn(),
+  };
+
+  const mockRefundsService = {
+    getRefundableAmount: jest.fn(),
+  };
+
+  const seller = {
+    id: 'sub-1',
+    userId: 'seller-1',
+    poolId: 'pool-1',
+    slots: 2,
+    amountPaid: 20000,
+    paymentMethod: PaymentGateway.PAYSTACK,
+    paymentRef: 'ref-seller',
+    status: SubscriptionStatus.ACTIVE,
+  };
+
+  const listing = {
+    id: 'transfer-1',
+    subscriptionId: 'sub-1',
+    poolId: 'pool-1',
+    sellerId: 'seller-1',
+    buyerId: 'buyer-1',
+    price: 20000,
+    status: SlotTransferStatus.PENDING_PAYMENT,
+    gateway: PaymentGateway.PAYSTACK,
+    paymentRef: 'ref-buyer',
+    pool: { status: PoolStatus.OPEN, product: { name: 'Rice' } },
+    subscription: seller,
+  };
+
+  const payment = {
+    ref: 'ref-buyer',
+    gateway: PaymentGateway.PAYSTACK,
+    userId: 'buyer-1',
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (fn: (tx: typeof mockPrismaService) => unknown) => fn(mockPrismaService),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SlotTransfersService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: StripeService, useValue: mockStripeService },
+        { provide: PaystackService, useValue: {} },
+        { provide: EscrowService, useValue: mockEscrowService },
+        { provide: PoolsService, useValue: mockPoolsService },
+        { provide: PoolInvitesService, useValue: { assertCanJoin: jest.fn() } },
+        { provide: SlotHoldsService, useValue: { getHoldExpiry: jest.fn() } },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: FxService, useValue: mockFxService },
+        { provide: RefundsService, useValue: mockRefundsService },
+      ],
+    }).compile();
+
+    service = module.get<SlotTransfersService>(SlotTransfersService);
+  });
+
+  describe('listSlots', () => {
+    it('should refuse slots in pools already in delivery', async () => {
+      mockPrismaService.subscription.findUnique.mockResolvedValue({
+        ...seller,
+        pool: { status: PoolStatus.IN_DELIVERY },
+      });
+
+      await expect(service.listSlots('sub-1', 'seller-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.slotTransfer.create).not.toHaveBeenCalled();
+    });
+
+    it('should price the listing at what is left on the charge', async () => {
+      mockPrismaService.subscription.findUnique.mockResolvedValue({
+        ...seller,
+        pool: { status: PoolStatus.OPEN },
+      });
+      mockRefundsService.getRefundableAmount.mockResolvedValue(15000);
+
+      await service.listSlots('sub-1', 'seller-1');
+
+      expect(mockRefundsService.getRefundableAmount).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentRef: 'ref-seller' }),
+      );
+      const [{ data }] = mockPrismaService.slotTransfer.create.mock
+        .calls[0] as [Prisma.SlotTransferCreateArgs];
+      expect(data.price).toBe(15000);
+    });
+
+    it('should refuse slots whose charge was fully refunded', async () => {
+      mockPrismaService.subscription.findUnique.mockResolvedValue({
+        ...seller,
+        pool: { status: PoolStatus.OPEN },
+      });
+      mockRefundsService.getRefundableAmount.mockResolvedValue(0);
+
+      await expect(service.listSlots('sub-1', 'seller-1')).rejects.toThrow(
+        'These slots have already been refunded',
+      );
+      expect(mockPrismaService.slotTransfer.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purchase', () => {
+    it('should charge Stripe buyers in their currency and keep the rate', async () => {
+      mockPrismaService.slotTransfer.findUnique.mockResolvedValue({
+        ...listing,
+        buyerId: null,
+        status: SlotTransferStatus.LISTED,
+        subscription: { ...seller, variant: null },
+      });
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'buyer-1',
+        email: 'buyer@example.com',
+      });
+      const fetchedAt = new Date();
+      mockFxService.getQuote.mockResolvedValue({
+        currency: Currency.GBP,
+        rate: 0.0005,
+        source: 'test-source',
+        fetchedAt,
+      });
+      mockFxService.convert.mockReturnValue(10);
+      mockPrismaService.slotTransfer.updateMany.mockResolvedValue({
+        count: 1,
+      });
+      mockStripeService.createSession.mockResolvedValue({
+        id: 'cs_1',
+        url: 'https://stripe',
+      });
+
+      const result = await service.purchase(
+        'transfer-1',
+        'buyer-1',
+        PaymentGateway.STRIPE,
+        undefined,
+        Currency.GBP,
+      );
+
+      expect(mockFxService.convert).toHaveBeenCalledWith(20000, 0.0005);
+      const [{ data }] = mockPrismaService.slotTransfer.updateMany.mock
+        .calls[0] as [Prisma.SlotTransferUpdateManyArgs];
+      expect(data).toMatchObject({
+        currency: Currency.GBP,
+        chargeAmount: 10,
+        fxRate: 0.0005,
+        fxFetchedAt: fetchedAt,
+      });
+      expect(mockStripeService.createSession).toHaveBeenCalledWith(
+        'buyer-1',
+        'sub-1',
+        10,
+        'Rice (transfer)',
+        { transferId: 'transfer-1' },
+        Currency.GBP,
+      );
+      expect(result).toMatchObject({ amount: 20000, chargeAmount: 10 });
+    });
+  });
+
+  describe('completeTransfer', () => {
+    it('should move the share to the buyer and refund the seller', async () => {
+      mockPrismaService.slotTransfer.findUnique.mockResolvedValue(listing);
+      mockPrismaService.pool.findUnique.mockResolvedValue({
+        status: PoolStatus.FILLED,
+      });
+      mockPrismaService.slotTransfer.updateMany.mockResolvedValue({
+        count: 1,
+      });
+      mockPrismaService.poolSlot.findFirst.mockResolvedValue({ id: 'slot-1' });
+      mockPoolsService.refundSubscription.mockResolvedValue(true);
+
+      const result = await service.completeTransfer('transfer-1', payment);
+
+      expect(result).toEqual({
+        success: true,
+        transferId: 'transfer-1',
+        subscriptionId: 'sub-1',
+      });
+      const [handover] = mockPrismaService.subscription.update.mock
+        .calls[0] as [Prisma.SubscriptionUpdateArgs];
+      expect(handover).toMatchObject({
+        where: { id: 'sub-1' },
+        data: { userId: 'buyer-1', paymentRef: 'ref-buyer' },
+      });
+      expect(mockPrismaService.poolSlot.update).toHaveBeenCalledWith({
+        where: { id: 'slot-1' },
+        data: { buyerId: 'buyer-1' },
+      });
+      expect(mockEscrowService.transferContribution).toHaveBeenCalledWith(
+        'pool-1',
+        'seller-1',
+        'buyer-1',
+        20000,
+        mockPrismaService,
+      );
+      expect(mockPoolsService.refundSubscription).toHaveBeenCalledWith(
+        seller,
+        expect.any(String),
+        undefined,
+        false,
+      );
+    });
+
+    it('should refund a buyer who paid after the pool went into delivery', async () => {
+      mockPrismaService.slotTransfer.findUnique.mockResolvedValue(listing);
+      mockPrismaService.pool.findUnique.mockResolvedValue({
+        status: PoolStatus.IN_DELIVERY,
+      });
+      mockPrismaService.slotTransfer.updateMany.mockResolvedValue({
+        count: 1,
+      });
+      mockPoolsService.refundSubscription.mockResolvedValue(true);
+
+      const result = await service.completeTransfer('transfer-1', payment);
+
+      expect(result).toEqual({
+        success: false,
+        transferId: 'transfer-1',
+        refunded: true,
+      });
+      expect(mockPrismaService.subscription.update).not.toHaveBeenCalled();
+      expect(mockPoolsService.refundSubscription).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'buyer-1', paymentRef: 'ref-buyer' }),
+        expect.any(String),
+        undefined,
+        false,
+      );
+    });
+  });
+});
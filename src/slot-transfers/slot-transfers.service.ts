@@ -0,0 +1,628 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { StripeService } from '../services/stripe.service';
+import { PaystackService } from '../services/paystack.service';
+import { EscrowService } from '../escrow/escrow.service';
+import { PoolsService } from '../pools/pools.service';
+import { PoolInvitesService } from '../pools/pool-invites.service';
+import { SlotHoldsService } from '../slot-holds/slot-holds.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { FxService } from '../fx/fx.service';
+import { RefundsService } from '../refunds/refunds.service';
+import {
+  Currency,
+  NotificationMedium,
+  NotificationType,
+  PaymentGateway,
+  PoolStatus,
+  Prisma,
+  SlotStatus,
+  SlotTransfer,
+  SlotTransferStatus,
+  Subscription,
+  SubscriptionStatus,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+
+// A confirmed gateway payment for a transfer
+export interface TransferPayment {
+  ref: string;
+  gateway: PaymentGateway;
+  userId: string;
+}
+
+// Slots can change hands until the vendor starts delivering
+const TRANSFERABLE_STATUSES: PoolStatus[] = [
+  PoolStatus.OPEN,
+  PoolStatus.FILLED,
+];
+
+/**
+ * SlotTransfersService lets a buyer hand their paid share to another buyer.
+ *
+ * TRANSFER FLOW:
+ * 1. Seller lists a subscription → SlotTransfer (LISTED) at what they paid
+ * 2. Buyer starts checkout → PENDING_PAYMENT, listing held for the buyer
+ * 3. Payment confirmed → Subscription and PoolSlot move to the buyer, the
+ *    escrow contribution is re-attributed and the seller is refunded
+ * 4. Payment fails or lapses → listing goes back to LISTED
+ *
+ * Transfers close once the pool goes IN_DELIVERY; a payment that lands
+ * after that is refunded to the buyer.
+ */
+@Injectable()
+export class SlotTransfersService {
+  private readonly logger = new Logger(SlotTransfersService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private stripe: StripeService,
+    private paystack: PaystackService,
+    private escrowService: EscrowService,
+    private poolsService: PoolsService,
+    private poolInvitesService: PoolInvitesService,
+    private slotHoldsService: SlotHoldsService,
+    private notificationsService: NotificationsService,
+    private ledgerService: LedgerService,
+    private fxService: FxService,
+    private refundsService: RefundsService,
+  ) {}
+
+  // ============================================
+  // SELLER
+  // ============================================
+
+  async listSlots(subscriptionId: string, sellerId: string) {
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+      include: { pool: true },
+    });
+
+    if (!subscription) throw new NotFoundException('Subscription not found');
+
+    if (subscription.userId !== sellerId) {
+      throw new ForbiddenException('You can only transfer your own slots');
+    }
+
+    if (subscription.status !== SubscriptionStatus.ACTIVE) {
+      throw new BadRequestException('This subscription was cancelled');
+    }
+
+    this.assertTransferable(subscription.pool.status);
+
+    const active = await this.prisma.slotTransfer.findFirst({
+      where: {
+        subscriptionId,
+        status: {
+          in: [SlotTransferStatus.LISTED, SlotTransferStatus.PENDING_PAYMENT],
+        },
+      },
+    });
+
+    if (active) {
+      throw new BadRequestException('These slots are already listed');
+    }
+
+    const price = await this.getNetPaid(subscription);
+
+    const transfer = await this.prisma.slotTransfer.create({
+      data: {
+        subscriptionId,
+        poolId: subscription.poolId,
+        sellerId,
+        price,
+      },
+    });
+
+    this.logger.log(
+      `Subscription ${subscriptionId} listed for transfer by ${sellerId}`,
+    );
+
+    return transfer;
+  }
+
+  async cancelListing(id: string, sellerId: string) {
+    const transfer = await this.prisma.slotTransfer.findUnique({
+      where: { id },
+    });
+
+    if (!transfer) throw new NotFoundException('Transfer not found');
+
+    if (transfer.sellerId !== sellerId) {
+      throw new ForbiddenException('You can only cancel your own listings');
+    }
+
+    // A buyer mid-checkout keeps the listing until their hold lapses
+    const cancelled = await this.prisma.slotTransfer.updateMany({
+      where: {
+        id,
+        OR: [
+          { status: SlotTransferStatus.LISTED },
+          {
+            status: SlotTransferStatus.PENDING_PAYMENT,
+            reservedUntil: { lt: new Date() },
+          },
+        ],
+      },
+      data: {
+        status: SlotTransferStatus.CANCELLED,
+        buyerId: null,
+        reservedUntil: null,
+      },
+    });
+
+    if (cancelled.count === 0) {
+      throw new BadRequestException(
+        'This listing is being paid for and cannot be cancelled right now',
+      );
+    }
+
+    return this.prisma.slotTransfer.findUnique({ where: { id } });
+  }
+
+  // ============================================
+  // BUYER
+  // ============================================
+
+  async purchase(
+    id: string,
+    buyerId: string,
+    method: PaymentGateway,
+    inviteCode?: string,
+    currency: Currency = Currency.USD,
+  ) {
+    const transfer = await this.prisma.slotTransfer.findUnique({
+      where: { id },
+      include: {
+        pool: { include: { product: true } },
+        subscription: { include: { variant: true } },
+      },
+    });
+
+    if (!transfer) throw new NotFoundException('Transfer not found');
+
+    if (transfer.sellerId === buyerId) {
+      throw new BadRequestException('You cannot buy your own slots');
+    }
+
+    this.assertTransferable(transfer.pool.status);
+
+    await this.poolInvitesService.assertCanJoin(
+      transfer.pool,
+      buyerId,
+      inviteCode,
+    );
+
+    const buyer = await this.prisma.user.findUnique({
+      where: { id: buyerId },
+    });
+    if (!buyer) throw new NotFoundException('User not found');
+
+    // Stripe charges the buyer's currency at today's rate; the rate is kept
+    // on the listing so refunds convert back the same way
+    const amount = Number(transfer.price);
+    const fx =
+      method === PaymentGateway.STRIPE
+        ? await this.fxService.getQuote(currency)
+        : null;
+    const chargeAmount = fx ? this.fxService.convert(amount, fx.rate) : amount;
+
+    // Claim the listing; a lapsed checkout by another buyer can be taken over
+    const claimed = await this.prisma.slotTransfer.updateMany({
+      where: {
+        id,
+        OR: [
+          { status: SlotTransferStatus.LISTED },
+          {
+            status: SlotTransferStatus.PENDING_PAYMENT,
+            reservedUntil: { lt: new Date() },
+          },
+        ],
+      },
+      data: {
+        status: SlotTransferStatus.PENDING_PAYMENT,
+        buyerId,
+        gateway: method,
+        paymentRef: null,
+        reservedUntil: this.slotHoldsService.getHoldExpiry(),
+        currency: fx?.currency ?? Currency.NGN,
+        chargeAmount: fx ? chargeAmount : null,
+        fxRate: fx?.rate ?? null,
+        fxSource: fx?.source ?? null,
+        fxFetchedAt: fx?.fetchedAt ?? null,
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new BadRequestException('These slots are no longer available');
+    }
+
+    const productName = transfer.pool.product?.name || 'FarmShare Pool';
+    const description = transfer.subscription.variant
+      ? `${productName} - ${transfer.subscription.variant.name} (transfer)`
+      : `${productName} (transfer)`;
+
+    try {
+      if (method === PaymentGateway.STRIPE) {
+        const session = await this.stripe.createSession(
+          buyerId,
+          transfer.subscriptionId,
+          chargeAmount,
+          description,
+          { transferId: id },
+          currency,
+        );
+
+        await this.prisma.slotTransfer.update({
+          where: { id },
+          data: { paymentRef: session.id },
+        });
+
+        return {
+          method: 'STRIPE',
+          url: session.url,
+          transferId: id,
+          amount,
+          currency,
+          chargeAmount,
+        };
+      }
+
+      const result = await this.paystack.initialize(amount, {
+        transferId: id,
+        poolId: transfer.poolId,
+        slots: transfer.subscription.slots,
+        email: buyer.email,
+        userId: buyerId,
+      });
+
+      await this.prisma.slotTransfer.update({
+        where: { id },
+        data: { paymentRef: result.reference },
+      });
+
+      return {
+        method: 'PAYSTACK',
+        url: result.authorization_url,
+        reference: result.reference,
+        transferId: id,
+      };
+    } catch (error) {
+      await this.releaseTransfer(id);
+      throw error;
+    }
+  }
+
+  // ============================================
+  // PAYMENT CALLBACKS
+  // ============================================
+
+  /**
+   * Hand the slots to the buyer once their payment is confirmed
+   */
+  async completeTransfer(id: string, payment: TransferPayment) {
+    const transfer = await this.prisma.slotTransfer.findUnique({
+      where: { id },
+      include: {
+        pool: { include: { product: true } },
+        subscription: true,
+      },
+    });
+
+    if (!transfer) throw new NotFoundException('Transfer not found');
+
+    if (
+      transfer.status === SlotTransferStatus.COMPLETED &&
+      transfer.paymentRef === payment.ref
+    ) {
+      return { success: true, alreadyProcessed: true, transferId: id };
+    }
+
+    const seller = transfer.subscription;
+    const price = Number(transfer.price);
+
+    const outcome = await this.prisma.$transaction(async (tx) => {
+      const pool = await tx.pool.findUnique({
+        where: { id: transfer.poolId },
+        select: { status: true },
+      });
+      if (!pool || !TRANSFERABLE_STATUSES.includes(pool.status)) {
+        return 'closed';
+      }
+
+      // Only the buyer currently holding the listing can complete it
+      const claimed = await tx.slotTransfer.updateMany({
+        where: {
+          id,
+          buyerId: payment.userId,
+          paymentRef: payment.ref,
+          status: SlotTransferStatus.PENDING_PAYMENT,
+        },
+        data: {
+          status: SlotTransferStatus.COMPLETED,
+          completedAt: new Date(),
+          reservedUntil: null,
+        },
+      });
+
+      if (claimed.count === 0) return 'lost';
+
+      await tx.subscription.update({
+        where: { id: seller.id },
+        data: {
+          userId: payment.userId,
+          amountPaid: price,
+          walletAmount: 0,
+          paymentMethod: payment.gateway,
+          paymentRef: payment.ref,
+        },
+      });
+
+      const poolSlot = await tx.poolSlot.findFirst({
+        where: {
+          poolId: transfer.poolId,
+          buyerId: transfer.sellerId,
+          slotsReserved: seller.slots,
+          status: { in: [SlotStatus.PAID, SlotStatus.CONFIRMED] },
+        },
+      });
+      if (poolSlot) {
+        await tx.poolSlot.update({
+          where: { id: poolSlot.id },
+          data: { buyerId: payment.userId },
+        });
+      }
+
+      await this.escrowService.transferContribution(
+        transfer.poolId,
+        transfer.sellerId,
+        payment.userId,
+        price,
+        tx,
+      );
+      await this.poolsService.syncSlotsTaken(transfer.poolId, tx);
+
+      await tx.transaction.create({
+        data: {
+          userId: payment.userId,
+          poolId: transfer.poolId,
+          amount: price,
+          fees: 0,
+          status: TransactionStatus.SUCCESS,
+          type: TransactionType.ESCROW_HOLD,
+          externalTxnId: payment.ref,
+          metadata: {
+            subscriptionId: seller.id,
+            slots: seller.slots,
+            transferId: id,
+          },
+        },
+      });
+
+      await this.recordPayment(transfer, payment, tx);
+
+      return 'completed';
+    });
+
+    if (outcome !== 'completed') {
+      return this.refundLatePayment(transfer, payment);
+    }
+
+    this.logger.log(
+      `Transfer ${id} completed: subscription ${seller.id} moved from ${transfer.sellerId} to ${payment.userId}`,
+    );
+
+    // Refund the seller from their original payment
+    const refunded = await this.poolsService.refundSubscription(
+      seller,
+      `Slots transferred to another buyer (transfer ${id})`,
+      price < Number(seller.amountPaid) ? price : undefined,
+      false,
+    );
+
+    if (refunded) {
+      await this.prisma.slotTransfer.update({
+        where: { id },
+        data: { sellerRefunded: true },
+      });
+    }
+
+    const productName = transfer.pool.product?.name || 'your pool';
+    await this.notify(
+      transfer.sellerId,
+      transfer.poolId,
+      'Your slots were transferred 🔁',
+      refunded
+        ? `Your ${seller.slots} slot(s) in "${productName}" were taken over. ₦${price.toLocaleString()} is being refunded to you.`
+        : `Your ${seller.slots} slot(s) in "${productName}" were taken over. Your refund of ₦${price.toLocaleString()} is being processed.`,
+    );
+    await this.notify(
+      payment.userId,
+      transfer.poolId,
+      'Slots transferred to you 🎉',
+      `You now hold ${seller.slots} slot(s) in "${productName}".`,
+    );
+
+    return { success: true, transferId: id, subscriptionId: seller.id };
+  }
+
+  /**
+   * Put a listing back on offer after its buyer's payment failed or lapsed
+   */
+  async releaseTransfer(id: string, paymentRef?: string) {
+    const released = await this.prisma.slotTransfer.updateMany({
+      where: {
+        id,
+        status: SlotTransferStatus.PENDING_PAYMENT,
+        ...(paymentRef && { paymentRef }),
+      },
+      data: {
+        status: SlotTransferStatus.LISTED,
+        buyerId: null,
+        gateway: null,
+        paymentRef: null,
+        reservedUntil: null,
+      },
+    });
+
+    return released.count > 0;
+  }
+
+  // ============================================
+  // QUERIES
+  // ============================================
+
+  async getPoolListings(poolId: string) {
+    return this.prisma.slotTransfer.findMany({
+      where: {
+        poolId,
+        pool: { status: { in: TRANSFERABLE_STATUSES } },
+        OR: [
+          { status: SlotTransferStatus.LISTED },
+          {
+            status: SlotTransferStatus.PENDING_PAYMENT,
+            reservedUntil: { lt: new Date() },
+          },
+        ],
+      },
+      include: {
+        subscription: {
+          select: {
+            slots: true,
+            deliveryFee: true,
+            variant: true,
+            pickupLocation: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async getUserTransfers(userId: string) {
+    return this.prisma.slotTransfer.findMany({
+      where: { OR: [{ sellerId: userId }, { buyerId: userId }] },
+      include: {
+        pool: { include: { product: true } },
+        subscription: {
+          select: { slots: true, variant: true, pickupLocation: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private assertTransferable(status: PoolStatus) {
+    if (!TRANSFERABLE_STATUSES.includes(status)) {
+      throw new BadRequestException(
+        'Slots can only be transferred before the pool goes into delivery',
+      );
+    }
+  }
+
+  /**
+   * What the seller has paid for the subscription after any refunds or
+   * tier price credits already returned to them
+   */
+  private async getNetPaid(subscription: Subscription) {
+    const net = await this.refundsService.getRefundableAmount(subscription);
+
+    if (net <= 0) {
+      throw new BadRequestException('These slots have already been refunded');
+    }
+
+    return net;
+  }
+
+  /**
+   * Post a buyer's transfer payment into escrow. Transfers carry no
+   * platform fee.
+   */
+  private recordPayment(
+    transfer: SlotTransfer,
+    payment: TransferPayment,
+    tx?: Prisma.TransactionClient,
+  ) {
+    return this.ledgerService.recordPayment(
+      {
+        reference: payment.ref,
+        userId: payment.userId,
+        poolId: transfer.poolId,
+        charged: Number(transfer.price),
+        platformFee: 0,
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Return a payment that arrived after its buyer lost the listing or the
+   * pool closed to transfers
+   */
+  private async refundLatePayment(
+    transfer: SlotTransfer & { subscription: Subscription },
+    payment: TransferPayment,
+  ) {
+    this.logger.warn(
+      `Payment ${payment.ref} for transfer ${transfer.id} arrived too late; refunding buyer ${payment.userId}`,
+    );
+
+    // The refund is paid out of escrow, so the payment goes in first
+    await this.recordPayment(transfer, payment);
+
+    const refunded = await this.poolsService.refundSubscription(
+      {
+        ...transfer.subscription,
+        userId: payment.userId,
+        paymentMethod: payment.gateway,
+        paymentRef: payment.ref,
+        amountPaid: transfer.price,
+        walletAmount: new Prisma.Decimal(0),
+      },
+      `Slot transfer ${transfer.id} could not be completed`,
+      undefined,
+      false,
+    );
+
+    await this.releaseTransfer(transfer.id, payment.ref);
+
+    await this.notify(
+      payment.userId,
+      transfer.poolId,
+      'Slot transfer not completed',
+      'The slots you paid for are no longer available. Your payment is being refunded.',
+    );
+
+    return { success: false, transferId: transfer.id, refunded };
+  }
+
+  private async notify(
+    userId: string,
+    poolId: string,
+    title: string,
+    message: string,
+  ) {
+    try {
+      await this.notificationsService.sendNotification(
+        userId,
+        NotificationType.POOL_UPDATE,
+        [NotificationMedium.IN_APP, NotificationMedium.EMAIL],
+        { title, message, poolId },
+      );
+    } catch (error) {
+      this.logger.error('Failed to send transfer notification', error);
+    }
+  }
+}
@@ -1,15 +1,15 @@
 // src/stripe/stripe.module.ts
 import { Module, forwardRef } from '@nestjs/common';
 import { StripeService } from '../services/stripe.service';
-import { CurrencyService } from 'src/services/currency.service';
+import { FxModule } from '../fx/fx.module';
 // import { StripeController } from './stripe.controller';
 import { ConfigModule } from '@nestjs/config';
 import { PoolsModule } from '../pools/pools.module';
 
 @Module({
-  imports: [forwardRef(() => PoolsModule), ConfigModule],
+  imports: [forwardRef(() => PoolsModule), ConfigModule, FxModule],
   //   controllers: [StripeController],
-  providers: [StripeService, CurrencyService],
-  exports: [StripeService, CurrencyService],
+  providers: [StripeService],
+  exports: [StripeService],
 })
 export class StripeModule {}
@@ -3,7 +3,7 @@ import { PrismaService } from '../services/prisma.service';
 import { UpdateUserDto, PaginationDto } from './dto/update-user.dto';
 import { v2 as cloudinary, UploadApiResponse } from 'cloudinary';
 import { streamUpload } from '../utils/cloudinary.helper';
-import { User } from '@prisma/client';
+import { SubscriptionStatus, User } from '@prisma/client';
 import { ApiBearerAuth } from '@nestjs/swagger';
 import { EmailChannelService } from '../notifications/channels/email.channel';
 
@@ -86,6 +86,8 @@ export class UserService {
         state: true,
         city: true,
         isVerified: true,
+        ratingAverage: true,
+        ratingCount: true,
         createdAt: true,
         _count: {
           select: {
@@ -93,11 +95,12 @@ export class UserService {
           },
         },
       },
-      orderBy: {
-        pools: {
-          _count: 'desc',
-        },
-      },
+      // Best rated first; unrated vendors fall back to pool count
+      orderBy: [
+        { ratingAverage: { sort: 'desc', nulls: 'last' } },
+        { ratingCount: 'desc' },
+        { pools: { _count: 'desc' } },
+      ],
       take: limit,
     });
 
@@ -110,12 +113,16 @@ export class UserService {
             pool: {
               vendorId: vendor.id,
             },
+            status: SubscriptionStatus.ACTIVE,
           },
           _count: true,
         });
 
         return {
           ...vendor,
+          ratingAverage: vendor.ratingAverage
+            ? Number(vendor.ratingAverage)
+            : null,
           poolCount: vendor._count.pools,
           totalSubscribers: subscriptionStats._count || 0,
         };
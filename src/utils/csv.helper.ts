@@ -0,0 +1,60 @@
+// utils/csv.helper.ts
+
+/**
+ * Parse CSV text into one record per row, keyed by the header row.
+ * Supports quoted fields with commas, newlines and "" escapes.
+ */
+export const parseCsv = (content: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const text = content.replace(/^\uFEFF/, ''); // Excel adds a byte order mark
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((r) =>
+    r.some((value) => value.trim() !== ''),
+  );
+  if (!header) return [];
+
+  const keys = header.map((key) => key.trim());
+
+  return records.map((values) =>
+    Object.fromEntries(
+      keys.map((key, index) => [key, (values[index] ?? '').trim()]),
+    ),
+  );
+};
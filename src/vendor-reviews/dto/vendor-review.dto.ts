@@ -0,0 +1,43 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateVendorReviewDto {
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  quality: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  timeliness: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  communication: number;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  comment?: string;
+}
+
+export class RespondToReviewDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  response: string;
+}
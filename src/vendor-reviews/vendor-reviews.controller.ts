@@ -0,0 +1,64 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Role } from '../constant';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { VendorReviewsService } from './vendor-reviews.service';
+import {
+  CreateVendorReviewDto,
+  RespondToReviewDto,
+} from './dto/vendor-review.dto';
+
+@ApiTags('Vendor Reviews')
+@Controller('vendor-reviews')
+export class VendorReviewsController {
+  constructor(private readonly vendorReviewsService: VendorReviewsService) {}
+
+  @Get('vendor/:vendorId')
+  @ApiOperation({ summary: "Get a vendor's rating and reviews" })
+  getVendorReviews(@Param('vendorId') vendorId: string) {
+    return this.vendorReviewsService.getVendorReviews(vendorId);
+  }
+
+  @Get('pool/:poolId')
+  @ApiOperation({ summary: 'Get reviews left on a pool' })
+  getPoolReviews(@Param('poolId') poolId: string) {
+    return this.vendorReviewsService.getPoolReviews(poolId);
+  }
+
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.BUYER)
+  @Post('pool/:poolId')
+  @ApiOperation({ summary: 'Buyer: Review the vendor of a completed pool' })
+  create(
+    @Param('poolId') poolId: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreateVendorReviewDto,
+  ) {
+    return this.vendorReviewsService.createReview(poolId, req.user.userId, dto);
+  }
+
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.VENDOR)
+  @Post(':id/response')
+  @ApiOperation({ summary: 'Vendor: Respond publicly to a review' })
+  respond(
+    @Param('id') id: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: RespondToReviewDto,
+  ) {
+    return this.vendorReviewsService.respond(id, req.user.userId, dto);
+  }
+}
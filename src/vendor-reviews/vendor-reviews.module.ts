@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { VendorReviewsController } from './vendor-reviews.controller';
+import { VendorReviewsService } from './vendor-reviews.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [PrismaModule, NotificationsModule],
+  controllers: [VendorReviewsController],
+  providers: [VendorReviewsService],
+  exports: [VendorReviewsService],
+})
+export class VendorReviewsModule {}
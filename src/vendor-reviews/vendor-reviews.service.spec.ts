@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { VendorReviewsService } from './vendor-reviews.service';
+import { PrismaService } from '../services/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PoolStatus } from '@prisma/client';
+
+describe('VendorReviewsService', () => {
+  let service: VendorReviewsService;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    pool: {
+      findUnique: jest.fn(),
+    },
+    subscription: {
+      findFirst: jest.fn(),
+    },
+    vendorReview: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    user: {
+      update: jest.fn(),
+    },
+  };
+
+  const mockNotificationsService = {
+    sendNotification: jest.fn(),
+  };
+
+  const dto = { rating: 4, quality: 5, timeliness: 3, communication: 4 };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (fn: (tx: typeof mockPrismaService) => unknown) => fn(mockPrismaService),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VendorReviewsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<VendorReviewsService>(VendorReviewsService);
+  });
+
+  it('should record the review and refresh the vendor rating', async () => {
+    mockPrismaService.pool.findUnique.mockResolvedValue({
+      id: 'pool-1',
+      vendorId: 'vendor-1',
+      status: PoolStatus.COMPLETED,
+      product: { name: 'Whole cow' },
+    });
+    mockPrismaService.subscription.findFirst.mockResolvedValue({ id: 'sub-1' });
+    mockPrismaService.vendorReview.findUnique.mockResolvedValue(null);
+    mockPrismaService.vendorReview.create.mockResolvedValue({ id: 'review-1' });
+    mockPrismaService.vendorReview.aggregate.mockResolvedValue({
+      _avg: { rating: 4.333 },
+      _count: 3,
+    });
+
+    await service.createReview('pool-1', 'buyer-1', dto);
+
+    expect(mockPrismaService.vendorReview.create).toHaveBeenCalledWith({
+      data: {
+        poolId: 'pool-1',
+        vendorId: 'vendor-1',
+        buyerId: 'buyer-1',
+        ...dto,
+        comment: undefined,
+      },
+    });
+    expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+      where: { id: 'vendor-1' },
+      data: { ratingAverage: 4.33, ratingCount: 3 },
+    });
+  });
+
+  it('should only accept reviews for completed pools', async () => {
+    mockPrismaService.pool.findUnique.mockResolvedValue({
+      id: 'pool-1',
+      vendorId: 'vendor-1',
+      status: PoolStatus.IN_DELIVERY,
+    });
+
+    await expect(
+      service.createReview('pool-1', 'buyer-1', dto),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should only let the reviewed vendor respond', async () => {
+    mockPrismaService.vendorReview.findUnique.mockResolvedValue({
+      id: 'review-1',
+      vendorId: 'vendor-1',
+    });
+
+    await expect(
+      service.respond('review-1', 'vendor-2', { response: 'Thanks!' }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(mockPrismaService.vendorReview.update).not.toHaveBeenCalled();
+  });
+});
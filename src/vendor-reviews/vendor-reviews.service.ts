@@ -0,0 +1,199 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  NotificationMedium,
+  NotificationType,
+  PoolStatus,
+  Prisma,
+  SubscriptionStatus,
+} from '@prisma/client';
+import {
+  CreateVendorReviewDto,
+  RespondToReviewDto,
+} from './dto/vendor-review.dto';
+
+/**
+ * VendorReviewsService collects buyer ratings of vendors.
+ *
+ * A buyer holding a subscription in a COMPLETED pool may review that pool's
+ * vendor once, scoring overall, quality, timeliness and communication.
+ * The vendor can answer each review publicly. The vendor's average and
+ * review count are kept on User for listings and the top vendors ranking.
+ */
+@Injectable()
+export class VendorReviewsService {
+  private readonly logger = new Logger(VendorReviewsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  async createReview(
+    poolId: string,
+    buyerId: string,
+    dto: CreateVendorReviewDto,
+  ) {
+    const pool = await this.prisma.pool.findUnique({
+      where: { id: poolId },
+      include: { product: true },
+    });
+
+    if (!pool) throw new NotFoundException('Pool not found');
+
+    if (pool.status !== PoolStatus.COMPLETED) {
+      throw new BadRequestException(
+        'Vendors can be reviewed once the pool is completed',
+      );
+    }
+
+    const subscription = await this.prisma.subscription.findFirst({
+      where: { poolId, userId: buyerId, status: SubscriptionStatus.ACTIVE },
+    });
+
+    if (!subscription) {
+      throw new ForbiddenException('Only buyers in this pool can review it');
+    }
+
+    const review = await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.vendorReview.findUnique({
+        where: { poolId_buyerId: { poolId, buyerId } },
+      });
+      if (existing) {
+        throw new BadRequestException('You have already reviewed this pool');
+      }
+
+      const created = await tx.vendorReview.create({
+        data: {
+          poolId,
+          vendorId: pool.vendorId,
+          buyerId,
+          rating: dto.rating,
+          quality: dto.quality,
+          timeliness: dto.timeliness,
+          communication: dto.communication,
+          comment: dto.comment,
+        },
+      });
+
+      await this.syncVendorRating(pool.vendorId, tx);
+
+      return created;
+    });
+
+    this.logger.log(
+      `Buyer ${buyerId} rated vendor ${pool.vendorId} ${dto.rating}/5 for pool ${poolId}`,
+    );
+
+    try {
+      await this.notificationsService.sendNotification(
+        pool.vendorId,
+        NotificationType.POOL_UPDATE,
+        [NotificationMedium.IN_APP, NotificationMedium.EMAIL],
+        {
+          title: 'New review ⭐',
+          message: `A buyer rated "${pool.product.name}" ${dto.rating}/5. You can respond publicly from your dashboard.`,
+          poolId,
+        },
+      );
+    } catch (error) {
+      this.logger.error('Failed to send review notification', error);
+    }
+
+    return review;
+  }
+
+  async respond(id: string, vendorId: string, dto: RespondToReviewDto) {
+    const review = await this.prisma.vendorReview.findUnique({
+      where: { id },
+    });
+
+    if (!review) throw new NotFoundException('Review not found');
+
+    if (review.vendorId !== vendorId) {
+      throw new ForbiddenException('You can only respond to your own reviews');
+    }
+
+    return this.prisma.vendorReview.update({
+      where: { id },
+      data: { vendorResponse: dto.response, respondedAt: new Date() },
+    });
+  }
+
+  async getVendorReviews(vendorId: string) {
+    const vendor = await this.prisma.user.findUnique({
+      where: { id: vendorId },
+      select: { id: true, name: true, ratingAverage: true, ratingCount: true },
+    });
+
+    if (!vendor) throw new NotFoundException('Vendor not found');
+
+    const [averages, reviews] = await Promise.all([
+      this.prisma.vendorReview.aggregate({
+        where: { vendorId },
+        _avg: { quality: true, timeliness: true, communication: true },
+      }),
+      this.prisma.vendorReview.findMany({
+        where: { vendorId },
+        include: {
+          buyer: { select: { id: true, name: true } },
+          pool: { select: { id: true, product: { select: { name: true } } } },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      vendor: {
+        id: vendor.id,
+        name: vendor.name,
+        rating: vendor.ratingAverage ? Number(vendor.ratingAverage) : null,
+        reviewCount: vendor.ratingCount,
+        quality: this.round(averages._avg.quality),
+        timeliness: this.round(averages._avg.timeliness),
+        communication: this.round(averages._avg.communication),
+      },
+      reviews,
+    };
+  }
+
+  async getPoolReviews(poolId: string) {
+    return this.prisma.vendorReview.findMany({
+      where: { poolId },
+      include: { buyer: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Recompute the vendor's average rating and review count
+   */
+  async syncVendorRating(vendorId: string, tx?: Prisma.TransactionClient) {
+    const prisma = tx || this.prisma;
+
+    const stats = await prisma.vendorReview.aggregate({
+      where: { vendorId },
+      _avg: { rating: true },
+      _count: true,
+    });
+
+    await prisma.user.update({
+      where: { id: vendorId },
+      data: {
+        ratingAverage: this.round(stats._avg.rating),
+        ratingCount: stats._count,
+      },
+    });
+  }
+
+  private round(value: number | null) {
+    return value === null ? null : Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,67 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { WaitlistService } from './waitlist.service';
+import { JoinWaitlistDto } from './dto/join-waitlist.dto';
+
+@ApiTags('Waitlist')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('waitlist')
+export class WaitlistController {
+  constructor(private readonly waitlistService: WaitlistService) {}
+
+  @Get('my')
+  @ApiOperation({ summary: 'Get my active waitlist entries' })
+  getMyWaitlists(@Req() req: AuthenticatedRequest) {
+    return this.waitlistService.getUserWaitlists(req.user.userId);
+  }
+
+  @Post(':poolId')
+  @ApiOperation({ summary: 'Join the waitlist for a full pool' })
+  joinWaitlist(
+    @Param('poolId') poolId: string,
+    @Body() dto: JoinWaitlistDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.waitlistService.joinWaitlist(
+      poolId,
+      req.user.userId,
+      dto.slots,
+    );
+  }
+
+  @Delete(':poolId')
+  @ApiOperation({ summary: 'Leave the waitlist for a pool' })
+  leaveWaitlist(
+    @Param('poolId') poolId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.waitlistService.leaveWaitlist(poolId, req.user.userId);
+  }
+
+  @Get(':poolId/position')
+  @ApiOperation({ summary: 'Get my position on a pool waitlist' })
+  getPosition(
+    @Param('poolId') poolId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.waitlistService.getPosition(poolId, req.user.userId);
+  }
+
+  @Get(':poolId/summary')
+  @ApiOperation({ summary: 'Get waitlist size for a pool' })
+  getSummary(@Param('poolId') poolId: string) {
+    return this.waitlistService.getPoolWaitlistSummary(poolId);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { WaitlistController } from './waitlist.controller';
+import { WaitlistService } from './waitlist.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { SlotHoldsModule } from '../slot-holds/slot-holds.module';
+import { PoolLifecycleModule } from '../pool-lifecycle/pool-lifecycle.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    NotificationsModule,
+    SlotHoldsModule,
+    PoolLifecycleModule,
+  ],
+  controllers: [WaitlistController],
+  providers: [WaitlistService],
+  exports: [WaitlistService],
+})
+export class WaitlistModule {}
@@ -0,0 +1,217 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WaitlistService } from './waitlist.service';
+import { PrismaService } from '../services/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { SlotHoldsService } from '../slot-holds/slot-holds.service';
+import {
+  PoolLifecycleService,
+  PoolTransitionListener,
+} from '../pool-lifecycle/pool-lifecycle.service';
+import { PoolStatus, Prisma, WaitlistStatus } from '@prisma/client';
+
+describe('WaitlistService', () => {
+  let service: WaitlistService;
+
+  const mockPrismaService = {
+    pool: {
+      findUnique: jest.fn(),
+    },
+    subscription: {
+      aggregate: jest.fn(),
+    },
+    waitlistEntry: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      aggregate: jest.fn(),
+      count: jest.fn(),
+    },
+  };
+
+  const mockNotificationsService = {
+    sendNotification: jest.fn(),
+  };
+
+  const mockSlotHoldsService = {
+    getHeldSlots: jest.fn(),
+  };
+
+  const mockPoolLifecycle = {
+    onTransition: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockSlotHoldsService.getHeldSlots.mockResolvedValue(0);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WaitlistService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: SlotHoldsService, useValue: mockSlotHoldsService },
+        { provide: PoolLifecycleService, useValue: mockPoolLifecycle },
+      ],
+    }).compile();
+
+    service = module.get<WaitlistService>(WaitlistService);
+  });
+
+  describe('onModuleInit', () => {
+    it('should close the waitlist when its pool is cancelled', async () => {
+      mockPrismaService.waitlistEntry.updateMany.mockResolvedValue({
+        count: 2,
+      });
+      service.onModuleInit();
+      const [listener] = mockPoolLifecycle.onTransition.mock.calls[0] as [
+        PoolTransitionListener,
+      ];
+      const transition = (to: PoolStatus) => ({
+        poolId: 'pool-1',
+        from: PoolStatus.OPEN,
+        to,
+        actorId: null,
+        reason: null,
+        at: new Date(),
+      });
+
+      await listener(transition(PoolStatus.FILLED));
+      expect(mockPrismaService.waitlistEntry.updateMany).not.toHaveBeenCalled();
+
+      await listener(transition(PoolStatus.CANCELLED));
+      expect(mockPrismaService.waitlistEntry.updateMany).toHaveBeenCalledWith({
+        where: {
+          poolId: 'pool-1',
+          status: { in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED] },
+        },
+        data: { status: WaitlistStatus.CANCELLED },
+      });
+    });
+  });
+
+  describe('joinWaitlist', () => {
+    it('should create an entry and report its position', async () => {
+      mockPrismaService.pool.findUnique.mockResolvedValue({
+        id: 'pool-1',
+        status: PoolStatus.OPEN,
+        slotsCount: 10,
+        product: { name: 'Rice' },
+      });
+      mockPrismaService.waitlistEntry.findFirst.mockResolvedValue(null);
+      mockPrismaService.waitlistEntry.create.mockResolvedValue({
+        id: 'entry-1',
+        poolId: 'pool-1',
+        status: WaitlistStatus.WAITING,
+        createdAt: new Date(),
+      });
+      mockPrismaService.waitlistEntry.count.mockResolvedValue(2);
+
+      const result = await service.joinWaitlist('pool-1', 'user-1', 2);
+
+      expect(result.position).toBe(3);
+      expect(mockPrismaService.waitlistEntry.create).toHaveBeenCalledWith({
+        data: { poolId: 'pool-1', userId: 'user-1', slots: 2 },
+      });
+      expect(mockNotificationsService.sendNotification).toHaveBeenCalled();
+    });
+
+    it('should return the existing entry instead of queueing twice', async () => {
+      mockPrismaService.pool.findUnique.mockResolvedValue({
+        id: 'pool-1',
+        status: PoolStatus.OPEN,
+        slotsCount: 10,
+      });
+      mockPrismaService.waitlistEntry.findFirst.mockResolvedValue({
+        id: 'entry-1',
+        poolId: 'pool-1',
+        status: WaitlistStatus.OFFERED,
+      });
+
+      const result = await service.joinWaitlist('pool-1', 'user-1', 2);
+
+      expect(result.position).toBe(0);
+      expect(mockPrismaService.waitlistEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tryJoinWaitlist', () => {
+    it('should report null instead of throwing when the buyer cannot queue', async () => {
+      mockPrismaService.pool.findUnique.mockResolvedValue({
+        id: 'pool-1',
+        status: PoolStatus.OPEN,
+        slotsCount: 10,
+      });
+
+      await expect(
+        service.tryJoinWaitlist('pool-1', 'user-1', 12),
+      ).resolves.toBeNull();
+      expect(mockPrismaService.waitlistEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('promoteNext', () => {
+    it('should offer freed slots to buyers whose request fits, in order', async () => {
+      mockPrismaService.pool.findUnique.mockResolvedValue({
+        id: 'pool-1',
+        status: PoolStatus.OPEN,
+        slotsCount: 10,
+        product: { name: 'Rice' },
+      });
+      mockPrismaService.subscription.aggregate.mockResolvedValue({
+        _sum: { slots: 7 },
+      });
+      mockPrismaService.waitlistEntry.aggregate.mockResolvedValue({
+        _sum: { slots: null },
+      });
+      mockPrismaService.waitlistEntry.findMany.mockResolvedValue([
+        { id: 'entry-1', userId: 'user-1', slots: 2 },
+        { id: 'entry-2', userId: 'user-2', slots: 4 },
+        { id: 'entry-3', userId: 'user-3', slots: 1 },
+      ]);
+      mockPrismaService.waitlistEntry.updateMany.mockResolvedValue({
+        count: 1,
+      });
+
+      const offered = await service.promoteNext('pool-1');
+
+      // 3 slots free: entry-1 takes 2, entry-2 does not fit, entry-3 takes 1
+      expect(offered).toBe(2);
+      const calls = mockPrismaService.waitlistEntry.updateMany.mock.calls as [
+        Prisma.WaitlistEntryUpdateManyArgs,
+      ][];
+      const claimedIds = calls.map(([args]) => args.where?.id);
+      expect(claimedIds).toEqual(['entry-1', 'entry-3']);
+    });
+
+    it('should not offer slots for pools that are no longer open', async () => {
+      mockPrismaService.pool.findUnique.mockResolvedValue({
+        id: 'pool-1',
+        status: PoolStatus.CANCELLED,
+      });
+
+      const offered = await service.promoteNext('pool-1');
+
+      expect(offered).toBe(0);
+      expect(mockPrismaService.waitlistEntry.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireOffers', () => {
+    it('should expire lapsed offers and promote the next buyers', async () => {
+      mockPrismaService.waitlistEntry.findMany.mockResolvedValueOnce([
+        { id: 'entry-1', userId: 'user-1', poolId: 'pool-1' },
+      ]);
+      mockPrismaService.pool.findUnique.mockResolvedValue(null);
+
+      const result = await service.expireOffers();
+
+      expect(result).toEqual({ expired: 1, pools: 1 });
+      expect(mockPrismaService.waitlistEntry.update).toHaveBeenCalledWith({
+        where: { id: 'entry-1' },
+        data: { status: WaitlistStatus.EXPIRED },
+      });
+    });
+  });
+});
@@ -0,0 +1,548 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { PrismaService } from '../services/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { SlotHoldsService } from '../slot-holds/slot-holds.service';
+import { PoolLifecycleService } from '../pool-lifecycle/pool-lifecycle.service';
+import {
+  NotificationMedium,
+  NotificationType,
+  PoolStatus,
+  Prisma,
+  SubscriptionStatus,
+  WaitlistStatus,
+} from '@prisma/client';
+
+/**
+ * WaitlistService queues buyers who could not get slots in a full pool.
+ *
+ * WAITLIST FLOW:
+ * 1. Buyer is rejected for lack of slots → WaitlistEntry created (WAITING)
+ * 2. Slots free up (expired checkout, refund, cancellation) → next buyers
+ *    whose request fits are OFFERED the slots for a limited window
+ * 3. Offered slots are reserved: other buyers cannot take them
+ * 4. Buyer pays within the window → CONVERTED
+ * 5. Window lapses → EXPIRED and the offer moves to the next buyer
+ *
+ * A cancelled pool closes its waitlist (via PoolLifecycleService).
+ */
+@Injectable()
+export class WaitlistService implements OnModuleInit {
+  private readonly logger = new Logger(WaitlistService.name);
+  private readonly OFFER_WINDOW_HOURS = 2; // Hours an offered buyer has to pay
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationsService: NotificationsService,
+    private slotHoldsService: SlotHoldsService,
+    private poolLifecycle: PoolLifecycleService,
+  ) {}
+
+  onModuleInit() {
+    this.poolLifecycle.onTransition(async ({ poolId, to }) => {
+      if (to === PoolStatus.CANCELLED) await this.closeWaitlist(poolId);
+    });
+  }
+
+  async joinWaitlist(poolId: string, userId: string, slots: number) {
+    if (!slots || slots <= 0) {
+      throw new BadRequestException('Slots must be at least 1');
+    }
+
+    const pool = await this.prisma.pool.findUnique({
+      where: { id: poolId },
+      include: { product: true },
+    });
+
+    if (!pool) throw new NotFoundException('Pool not found');
+
+    if (pool.status !== PoolStatus.OPEN && pool.status !== PoolStatus.FILLED) {
+      throw new BadRequestException('Pool is not accepting a waitlist');
+    }
+
+    if (slots > pool.slotsCount) {
+      throw new BadRequestException('Requested slots exceed pool size');
+    }
+
+    // One active entry per buyer per pool
+    const existing = await this.prisma.waitlistEntry.findFirst({
+      where: {
+        poolId,
+        userId,
+        status: { in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED] },
+      },
+    });
+
+    if (existing) {
+      return {
+        entry: existing,
+        position: await this.getPositionForEntry(existing),
+      };
+    }
+
+    const entry = await this.prisma.waitlistEntry.create({
+      data: { poolId, userId, slots },
+    });
+    const position = await this.getPositionForEntry(entry);
+
+    this.logger.log(
+      `User ${userId} joined waitlist for pool ${poolId} at position ${position}`,
+    );
+
+    try {
+      await this.notificationsService.sendNotification(
+        userId,
+        NotificationType.POOL_UPDATE,
+        [NotificationMedium.IN_APP, NotificationMedium.EMAIL],
+        {
+          title: "You're on the waitlist",
+          message: `You are number ${position} on the waitlist for "${pool.product?.name}". We'll let you know as soon as ${slots} slot(s) free up.`,
+          poolId,
+          position,
+        },
+      );
+    } catch (error) {
+      this.logger.error('Failed to send waitlist confirmation', error);
+    }
+
+    return { entry, position };
+  }
+
+  /**
+   * Queue a buyer who just missed out on slots. Returns their place in line,
+   * or null if they could not be queued, so the failed purchase can still be
+   * reported on its own terms.
+   */
+  async tryJoinWaitlist(
+    poolId: string,
+    userId: string,
+    slots: number,
+  ): Promise<number | null> {
+    try {
+      const { position } = await this.joinWaitlist(poolId, userId, slots);
+      return position;
+    } catch (error) {
+      this.logger.error(
+        `Failed to waitlist user ${userId} for pool ${poolId}`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  async leaveWaitlist(poolId: string, userId: string) {
+    const entry = await this.prisma.waitlistEntry.findFirst({
+      where: {
+        poolId,
+        userId,
+        status: { in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED] },
+      },
+    });
+
+    if (!entry) throw new NotFoundException('Waitlist entry not found');
+
+    await this.prisma.waitlistEntry.update({
+      where: { id: entry.id },
+      data: { status: WaitlistStatus.CANCELLED },
+    });
+
+    // Reserved slots go straight to the next buyer in line
+    if (entry.status === WaitlistStatus.OFFERED) {
+      await this.promoteNext(poolId);
+    }
+
+    return { message: 'Removed from waitlist' };
+  }
+
+  async getPosition(poolId: string, userId: string) {
+    const entry = await this.prisma.waitlistEntry.findFirst({
+      where: {
+        poolId,
+        userId,
+        status: { in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED] },
+      },
+    });
+
+    if (!entry) throw new NotFoundException('Waitlist entry not found');
+
+    return {
+      entryId: entry.id,
+      status: entry.status,
+      slots: entry.slots,
+      position: await this.getPositionForEntry(entry),
+      offerExpiresAt: entry.offerExpiresAt,
+    };
+  }
+
+  async getUserWaitlists(userId: string) {
+    const entries = await this.prisma.waitlistEntry.findMany({
+      where: {
+        userId,
+        status: { in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED] },
+      },
+      include: { pool: { include: { product: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return Promise.all(
+      entries.map(async (entry) => ({
+        ...entry,
+        position: await this.getPositionForEntry(entry),
+      })),
+    );
+  }
+
+  /**
+   * Waitlist summary for a pool (shown to buyers and vendors)
+   */
+  async getPoolWaitlistSummary(poolId: string) {
+    const [waiting, offered] = await Promise.all([
+      this.prisma.waitlistEntry.aggregate({
+        where: { poolId, status: WaitlistStatus.WAITING },
+        _count: true,
+        _sum: { slots: true },
+      }),
+      this.prisma.waitlistEntry.count({
+        where: { poolId, status: WaitlistStatus.OFFERED },
+      }),
+    ]);
+
+    return {
+      waitingBuyers: waiting._count,
+      waitingSlots: waiting._sum.slots ?? 0,
+      activeOffers: offered,
+    };
+  }
+
+  /**
+   * Slots held for buyers with a live offer, optionally excluding one buyer
+   * so their own offer counts as available to them
+   */
+  async getReservedSlots(
+    poolId: string,
+    excludeUserId?: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<number> {
+    const prisma = tx || this.prisma;
+
+    const reserved = await prisma.waitlistEntry.aggregate({
+      where: {
+        poolId,
+        status: WaitlistStatus.OFFERED,
+        offerExpiresAt: { gt: new Date() },
+        ...(excludeUserId && { userId: { not: excludeUserId } }),
+      },
+      _sum: { slots: true },
+    });
+
+    return reserved._sum.slots ?? 0;
+  }
+
+  /**
+   * Slots a buyer can pay for right now: unsold slots minus other buyers'
+   * offers and in-flight checkouts
+   */
+  async getAvailableSlots(
+    poolId: string,
+    userId?: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<number> {
+    const prisma = tx || this.prisma;
+
+    const pool = await prisma.pool.findUnique({
+      where: { id: poolId },
+    });
+
+    if (!pool) throw new NotFoundException('Pool not found');
+
+    const taken = await prisma.subscription.aggregate({
+      where: { poolId, status: SubscriptionStatus.ACTIVE },
+      _sum: { slots: true },
+    });
+    const reserved = await this.getReservedSlots(poolId, userId, tx);
+    const held = await this.slotHoldsService.getHeldSlots(poolId, userId, tx);
+
+    return Math.max(
+      0,
+      pool.slotsCount - (taken._sum.slots ?? 0) - reserved - held,
+    );
+  }
+
+  /**
+   * Offer freed slots to the next waitlisted buyers, in joining order.
+   * Buyers whose request does not fit are skipped until more slots free up.
+   */
+  async promoteNext(poolId: string): Promise<number> {
+    const pool = await this.prisma.pool.findUnique({
+      where: { id: poolId },
+      include: { product: true },
+    });
+
+    if (!pool || pool.status !== PoolStatus.OPEN) return 0;
+
+    let available = await this.getAvailableSlots(poolId);
+    if (available <= 0) return 0;
+
+    const waiting = await this.prisma.waitlistEntry.findMany({
+      where: { poolId, status: WaitlistStatus.WAITING },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    let offered = 0;
+    for (const entry of waiting) {
+      if (available <= 0) break;
+      if (entry.slots > available) continue;
+
+      const offeredAt = new Date();
+      const offerExpiresAt = new Date(
+        offeredAt.getTime() + this.OFFER_WINDOW_HOURS * 60 * 60 * 1000,
+      );
+
+      // Guard against a concurrent promotion claiming the same entry
+      const claimed = await this.prisma.waitlistEntry.updateMany({
+        where: { id: entry.id, status: WaitlistStatus.WAITING },
+        data: { status: WaitlistStatus.OFFERED, offeredAt, offerExpiresAt },
+      });
+
+      if (claimed.count === 0) continue;
+
+      available -= entry.slots;
+      offered++;
+
+      this.logger.log(
+        `Offered ${entry.slots} slot(s) in pool ${poolId} to waitlisted user ${entry.userId}`,
+      );
+
+      await this.notifyOffer(
+        entry.userId,
+        poolId,
+        pool.product?.name,
+        entry.slots,
+        offerExpiresAt,
+        this.OFFER_WINDOW_HOURS,
+      );
+    }
+
+    return offered;
+  }
+
+  /**
+   * Reserve slots for a specific buyer straight away, skipping the queue
+   * (used for buyers who opted into auto-joining a recurring pool)
+   */
+  async offerSlots(
+    poolId: string,
+    userId: string,
+    slots: number,
+    windowHours: number = this.OFFER_WINDOW_HOURS,
+  ) {
+    const pool = await this.prisma.pool.findUnique({
+      where: { id: poolId },
+      include: { product: true },
+    });
+
+    if (!pool || pool.status !== PoolStatus.OPEN) {
+      throw new BadRequestException('Pool is not open for subscriptions');
+    }
+
+    const available = await this.getAvailableSlots(poolId);
+    if (slots > available) {
+      throw new BadRequestException('Not enough slots available');
+    }
+
+    const offeredAt = new Date();
+    const offerExpiresAt = new Date(
+      offeredAt.getTime() + windowHours * 60 * 60 * 1000,
+    );
+
+    const entry = await this.prisma.waitlistEntry.create({
+      data: {
+        poolId,
+        userId,
+        slots,
+        status: WaitlistStatus.OFFERED,
+        offeredAt,
+        offerExpiresAt,
+      },
+    });
+
+    await this.notifyOffer(
+      userId,
+      poolId,
+      pool.product?.name,
+      slots,
+      offerExpiresAt,
+      windowHours,
+    );
+
+    return entry;
+  }
+
+  /**
+   * Mark a buyer's waitlist entry as converted once they have paid
+   */
+  async markConverted(poolId: string, userId: string) {
+    const result = await this.prisma.waitlistEntry.updateMany({
+      where: {
+        poolId,
+        userId,
+        status: { in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED] },
+      },
+      data: { status: WaitlistStatus.CONVERTED, convertedAt: new Date() },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Run every 5 minutes - expire waitlist offers that were not paid in time
+   * and offer the freed slots to the next buyers in line
+   */
+  @Cron('*/5 * * * *')
+  async handleLapsedOffers() {
+    try {
+      const result = await this.expireOffers();
+      if (result.expired > 0) {
+        this.logger.log(
+          `Expired ${result.expired} waitlist offers across ${result.pools} pools`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Waitlist offer expiry failed:', error);
+    }
+  }
+
+  /**
+   * Run every 5 minutes - stop holding slots for checkouts that were not
+   * paid in time and offer them to waitlisted buyers
+   */
+  @Cron('*/5 * * * *')
+  async handleLapsedHolds() {
+    try {
+      const result = await this.slotHoldsService.expireHolds();
+      if (result.expired > 0) {
+        this.logger.log(
+          `Released ${result.expired} slot holds across ${result.poolIds.length} pools`,
+        );
+      }
+
+      for (const poolId of result.poolIds) {
+        await this.promoteNext(poolId);
+      }
+    } catch (error) {
+      this.logger.error('Slot hold expiry failed:', error);
+    }
+  }
+
+  /**
+   * Expire offers whose payment window has lapsed and pass the slots on
+   */
+  async expireOffers() {
+    const expired = await this.prisma.waitlistEntry.findMany({
+      where: {
+        status: WaitlistStatus.OFFERED,
+        offerExpiresAt: { lte: new Date() },
+      },
+    });
+
+    for (const entry of expired) {
+      await this.prisma.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { status: WaitlistStatus.EXPIRED },
+      });
+
+      try {
+        await this.notificationsService.sendNotification(
+          entry.userId,
+          NotificationType.POOL_UPDATE,
+          [NotificationMedium.IN_APP],
+          {
+            title: 'Waitlist offer expired',
+            message:
+              'Your reserved slots were released because payment was not completed in time. You can rejoin the waitlist at any time.',
+            poolId: entry.poolId,
+          },
+        );
+      } catch (error) {
+        this.logger.error('Failed to send offer expiry notification', error);
+      }
+    }
+
+    const poolIds = [...new Set(expired.map((entry) => entry.poolId))];
+    for (const poolId of poolIds) {
+      await this.promoteNext(poolId);
+    }
+
+    return { expired: expired.length, pools: poolIds.length };
+  }
+
+  /**
+   * Close a pool's waitlist (e.g. the pool was cancelled)
+   */
+  async closeWaitlist(poolId: string) {
+    const result = await this.prisma.waitlistEntry.updateMany({
+      where: {
+        poolId,
+        status: { in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED] },
+      },
+      data: { status: WaitlistStatus.CANCELLED },
+    });
+
+    return result.count;
+  }
+
+  private async notifyOffer(
+    userId: string,
+    poolId: string,
+    productName: string | undefined,
+    slots: number,
+    offerExpiresAt: Date,
+    windowHours: number,
+  ) {
+    try {
+      await this.notificationsService.sendNotification(
+        userId,
+        NotificationType.POOL_UPDATE,
+        [
+          NotificationMedium.EMAIL,
+          NotificationMedium.PUSH,
+          NotificationMedium.IN_APP,
+        ],
+        {
+          title: 'Slots available - your turn!',
+          message: `${slots} slot(s) in "${productName}" are reserved for you. Complete payment within ${windowHours} hours before they go to the next buyer.`,
+          poolId,
+          offerExpiresAt: offerExpiresAt.toISOString(),
+          url: `/buyer/pool/${poolId}`,
+        },
+      );
+    } catch (error) {
+      this.logger.error('Failed to send waitlist offer', error);
+    }
+  }
+
+  private async getPositionForEntry(entry: {
+    poolId: string;
+    status: WaitlistStatus;
+    createdAt: Date;
+  }): Promise<number> {
+    // Buyers holding an offer are at the front of the line
+    if (entry.status === WaitlistStatus.OFFERED) return 0;
+
+    const ahead = await this.prisma.waitlistEntry.count({
+      where: {
+        poolId: entry.poolId,
+        status: WaitlistStatus.WAITING,
+        createdAt: { lt: entry.createdAt },
+      },
+    });
+
+    return ahead + 1;
+  }
+}
@@ -0,0 +1,48 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  NotEquals,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class UpdateWalletSettingsDto {
+  @ApiProperty({
+    description: 'Send refunds to the wallet instead of the card or bank',
+  })
+  @IsBoolean()
+  refundToWallet: boolean;
+}
+
+export class WalletHistoryQueryDto {
+  @ApiPropertyOptional({ default: 50, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+}
+
+export class AdjustWalletDto {
+  @ApiProperty({
+    example: 2500,
+    description: 'Positive to credit, negative to debit',
+  })
+  @IsNumber()
+  @NotEquals(0)
+  amount: number;
+
+  @ApiProperty({ example: 'Goodwill credit for late delivery' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,81 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Role } from '../constant';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { WalletService } from './wallet.service';
+import {
+  AdjustWalletDto,
+  UpdateWalletSettingsDto,
+  WalletHistoryQueryDto,
+} from './dto/wallet.dto';
+
+@ApiTags('Wallet')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('wallet')
+export class WalletController {
+  constructor(private readonly walletService: WalletService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get my wallet balance and recent activity' })
+  getMyWallet(@Req() req: AuthenticatedRequest) {
+    return this.walletService.getSummary(req.user.userId);
+  }
+
+  @Get('entries')
+  @ApiOperation({ summary: 'Get my wallet history' })
+  getMyEntries(
+    @Req() req: AuthenticatedRequest,
+    @Query() query: WalletHistoryQueryDto,
+  ) {
+    return this.walletService.getEntries(req.user.userId, query.limit);
+  }
+
+  @Patch('settings')
+  @ApiOperation({ summary: 'Choose whether refunds go to my wallet' })
+  updateSettings(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: UpdateWalletSettingsDto,
+  ) {
+    return this.walletService.updateSettings(
+      req.user.userId,
+      dto.refundToWallet,
+    );
+  }
+
+  @Get('admin/:userId')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: "Admin: Get a user's wallet" })
+  getUserWallet(@Param('userId') userId: string) {
+    return this.walletService.getSummary(userId);
+  }
+
+  @Post('admin/:userId/adjust')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: "Admin: Credit or debit a user's wallet" })
+  adjust(
+    @Param('userId') userId: string,
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: AdjustWalletDto,
+  ) {
+    return this.walletService.adjust(
+      userId,
+      dto.amount,
+      dto.reason,
+      req.user.userId,
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { WalletController } from './wallet.controller';
+import { WalletService } from './wallet.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { LedgerModule } from '../ledger/ledger.module';
+
+@Module({
+  imports: [PrismaModule, LedgerModule],
+  controllers: [WalletController],
+  providers: [WalletService],
+  exports: [WalletService],
+})
+export class WalletModule {}
@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { WalletService } from './wallet.service';
+import { PrismaService } from '../services/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import {
+  PaymentStatus,
+  Prisma,
+  WalletEntrySource,
+  WalletEntryType,
+} from '@prisma/client';
+
+describe('WalletService', () => {
+  let service: WalletService;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    wallet: {
+      upsert: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    walletEntry: {
+      create: jest.fn(),
+    },
+    pendingSubscription: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  const mockLedgerService = {
+    recordWalletEntry: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (fn: (tx: typeof mockPrismaService) => unknown) => fn(mockPrismaService),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WalletService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: LedgerService, useValue: mockLedgerService },
+      ],
+    }).compile();
+
+    service = module.get<WalletService>(WalletService);
+  });
+
+  it('should not spend more than the balance', async () => {
+    mockPrismaService.wallet.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.debit('buyer-1', 5000, WalletEntrySource.CHECKOUT),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockPrismaService.walletEntry.create).not.toHaveBeenCalled();
+  });
+
+  it('should record the balance after a debit', async () => {
+    mockPrismaService.wallet.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.wallet.upsert.mockResolvedValue({
+      id: 'wallet-1',
+      balance: new Prisma.Decimal(1500),
+    });
+
+    await service.debit('buyer-1', 3500, WalletEntrySource.CHECKOUT, {
+      reference: 'pending-1',
+    });
+
+    expect(mockPrismaService.wallet.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'buyer-1', balance: { gte: 3500 } },
+      data: { balance: { decrement: 3500 } },
+    });
+    const [{ data }] = mockPrismaService.walletEntry.create.mock.calls[0] as [
+      Prisma.WalletEntryCreateArgs,
+    ];
+    expect(data).toMatchObject({
+      walletId: 'wallet-1',
+      type: WalletEntryType.DEBIT,
+      amount: 3500,
+      balanceAfter: new Prisma.Decimal(1500),
+      reference: 'pending-1',
+    });
+  });
+
+  it('should return credit from a failed checkout only once', async () => {
+    mockPrismaService.pendingSubscription.findUnique.mockResolvedValue({
+      id: 'pending-1',
+      userId: 'buyer-1',
+      poolId: 'pool-1',
+      status: PaymentStatus.FAILED,
+      walletAmount: new Prisma.Decimal(3500),
+    });
+    mockPrismaService.wallet.update.mockResolvedValue({
+      id: 'wallet-1',
+      balance: new Prisma.Decimal(5000),
+    });
+    mockPrismaService.walletEntry.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      }),
+    );
+
+    await expect(service.reverseCheckout('pending-1')).resolves.toBeNull();
+    const [{ data }] = mockPrismaService.walletEntry.create.mock.calls[0] as [
+      Prisma.WalletEntryCreateArgs,
+    ];
+    expect(data).toMatchObject({
+      source: WalletEntrySource.CHECKOUT_REVERSAL,
+      reference: 'pending-1',
+    });
+  });
+});
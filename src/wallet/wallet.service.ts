@@ -0,0 +1,294 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { PrismaService } from '../services/prisma.service';
+import {
+  PaymentStatus,
+  Prisma,
+  WalletEntrySource,
+  WalletEntryType,
+} from '@prisma/client';
+import Decimal from 'decimal.js';
+import { LedgerService } from '../ledger/ledger.service';
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+export interface WalletEntryDetails {
+  reference?: string; // Unique per source: a reference is only applied once
+  poolId?: string;
+  description?: string;
+}
+
+/**
+ * WalletService keeps buyers' store credit.
+ *
+ * Every change is a CREDIT or DEBIT entry recording the balance after it.
+ * Debits are guarded on the balance so concurrent checkouts cannot spend
+ * the same credit twice, and a (source, reference) pair is applied at most
+ * once so retried refunds and checkout reversals are safe. Each entry is
+ * also posted to the ledger against buyer funds.
+ */
+@Injectable()
+export class WalletService {
+  private readonly logger = new Logger(WalletService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * The user's wallet, created empty on first use
+   */
+  async getWallet(userId: string, tx?: Prisma.TransactionClient) {
+    const prisma = tx || this.prisma;
+
+    return prisma.wallet.upsert({
+      where: { userId },
+      create: { userId },
+      update: {},
+    });
+  }
+
+  async getBalance(userId: string): Promise<number> {
+    const wallet = await this.prisma.wallet.findUnique({ where: { userId } });
+
+    return wallet ? Number(wallet.balance) : 0;
+  }
+
+  async getSummary(userId: string) {
+    const wallet = await this.getWallet(userId);
+    const entries = await this.getEntries(userId, 10);
+
+    return {
+      balance: Number(wallet.balance),
+      refundToWallet: wallet.refundToWallet,
+      recentEntries: entries,
+    };
+  }
+
+  async getEntries(userId: string, limit = DEFAULT_HISTORY_LIMIT) {
+    return this.prisma.walletEntry.findMany({
+      where: { wallet: { userId } },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  async updateSettings(userId: string, refundToWallet: boolean) {
+    await this.getWallet(userId);
+
+    return this.prisma.wallet.update({
+      where: { userId },
+      data: { refundToWallet },
+    });
+  }
+
+  /**
+   * Whether the user asked for refunds as store credit
+   */
+  async prefersWalletRefunds(userId: string): Promise<boolean> {
+    const wallet = await this.prisma.wallet.findUnique({ where: { userId } });
+
+    return wallet?.refundToWallet ?? false;
+  }
+
+  async credit(
+    userId: string,
+    amount: number,
+    source: WalletEntrySource,
+    details: WalletEntryDetails = {},
+    tx?: Prisma.TransactionClient,
+  ) {
+    this.assertPositive(amount);
+    const prisma = tx || this.prisma;
+
+    await this.getWallet(userId, tx);
+    const wallet = await prisma.wallet.update({
+      where: { userId },
+      data: { balance: { increment: amount } },
+    });
+
+    return this.recordEntry(
+      prisma,
+      userId,
+      wallet.id,
+      WalletEntryType.CREDIT,
+      source,
+      amount,
+      wallet.balance,
+      details,
+    );
+  }
+
+  /**
+   * Spend store credit. Throws when the balance does not cover the amount.
+   */
+  async debit(
+    userId: string,
+    amount: number,
+    source: WalletEntrySource,
+    details: WalletEntryDetails = {},
+    tx?: Prisma.TransactionClient,
+  ) {
+    this.assertPositive(amount);
+    const prisma = tx || this.prisma;
+
+    const debited = await prisma.wallet.updateMany({
+      where: { userId, balance: { gte: amount } },
+      data: { balance: { decrement: amount } },
+    });
+
+    if (debited.count === 0) {
+      throw new BadRequestException('Insufficient wallet balance');
+    }
+
+    const wallet = await this.getWallet(userId, tx);
+
+    return this.recordEntry(
+      prisma,
+      userId,
+      wallet.id,
+      WalletEntryType.DEBIT,
+      source,
+      amount,
+      wallet.balance,
+      details,
+    );
+  }
+
+  /**
+   * Give back store credit spent on a checkout that failed or expired.
+   * Safe to call more than once.
+   */
+  async reverseCheckout(pendingId: string) {
+    const pending = await this.prisma.pendingSubscription.findUnique({
+      where: { id: pendingId },
+    });
+
+    if (
+      !pending ||
+      pending.status !== PaymentStatus.FAILED ||
+      new Decimal(pending.walletAmount.toString()).lte(0)
+    ) {
+      return null;
+    }
+
+    try {
+      const entry = await this.prisma.$transaction((tx) =>
+        this.credit(
+          pending.userId,
+          Number(pending.walletAmount),
+          WalletEntrySource.CHECKOUT_REVERSAL,
+          {
+            reference: pendingId,
+            poolId: pending.poolId,
+            description: 'Checkout did not complete',
+          },
+          tx,
+        ),
+      );
+
+      this.logger.log(
+        `Returned ₦${Number(pending.walletAmount)} of store credit for checkout ${pendingId}`,
+      );
+
+      return entry;
+    } catch (error) {
+      if (this.isDuplicate(error)) return null; // Already returned
+      throw error;
+    }
+  }
+
+  /**
+   * Admin correction: positive amounts credit, negative amounts debit
+   */
+  async adjust(
+    userId: string,
+    amount: number,
+    reason: string,
+    adminId: string,
+  ) {
+    const details = { description: reason };
+
+    const entry = await this.prisma.$transaction(async (tx) => {
+      const created =
+        amount > 0
+          ? await this.credit(
+              userId,
+              amount,
+              WalletEntrySource.ADJUSTMENT,
+              details,
+              tx,
+            )
+          : await this.debit(
+              userId,
+              -amount,
+              WalletEntrySource.ADJUSTMENT,
+              details,
+              tx,
+            );
+
+      await tx.adminAuditLog.create({
+        data: {
+          adminId,
+          action: 'wallet_adjustment',
+          targetType: 'wallet',
+          targetId: userId,
+          details: { amount, reason, entryId: created.id },
+        },
+      });
+
+      return created;
+    });
+
+    this.logger.log(
+      `Admin ${adminId} adjusted wallet of ${userId} by ₦${amount}: ${reason}`,
+    );
+
+    return entry;
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private async recordEntry(
+    prisma: Prisma.TransactionClient,
+    userId: string,
+    walletId: string,
+    type: WalletEntryType,
+    source: WalletEntrySource,
+    amount: number,
+    balanceAfter: Prisma.Decimal,
+    details: WalletEntryDetails,
+  ) {
+    const entry = await prisma.walletEntry.create({
+      data: {
+        walletId,
+        type,
+        source,
+        amount,
+        balanceAfter,
+        reference: details.reference,
+        poolId: details.poolId,
+        description: details.description,
+      },
+    });
+
+    await this.ledgerService.recordWalletEntry(entry, userId, prisma);
+
+    return entry;
+  }
+
+  private assertPositive(amount: number) {
+    if (!(amount > 0)) {
+      throw new BadRequestException('Wallet amounts must be positive');
+    }
+  }
+
+  private isDuplicate(error: unknown) {
+    return (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    );
+  }
+}